@@ -0,0 +1,28 @@
+import { UserRole, Permission } from '../types';
+
+export const ROLES: UserRole[] = ['candidate', 'recruiter', 'admin'];
+
+export const PERMISSIONS: Permission[] = [
+  'profile:read',
+  'profile:write',
+  'candidates:read',
+  'jobs:manage',
+  'users:read',
+  'users:manage',
+  'audit:read',
+];
+
+// Roles are bundles of permissions; routes check permissions, never role names
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  candidate: ['profile:read', 'profile:write'],
+  recruiter: ['profile:read', 'profile:write', 'candidates:read', 'jobs:manage'],
+  admin: PERMISSIONS,
+};
+
+export const isRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (ROLES as string[]).includes(value);
+
+export const getPermissions = (role: UserRole): Permission[] => ROLE_PERMISSIONS[role] || [];
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  getPermissions(role).includes(permission);
@@ -0,0 +1,38 @@
+import { UserRole } from '../types';
+
+export interface ISessionPolicy {
+  // Signed out after this long without activity
+  idleTimeoutMinutes: number;
+  // Signed out this long after login, however active
+  absoluteTimeoutHours: number;
+}
+
+// Roles that can see more data get shorter sessions
+const DEFAULT_SESSION_POLICIES: Record<UserRole, ISessionPolicy> = {
+  candidate: { idleTimeoutMinutes: 24 * 60, absoluteTimeoutHours: 30 * 24 },
+  recruiter: { idleTimeoutMinutes: 4 * 60, absoluteTimeoutHours: 7 * 24 },
+  admin: { idleTimeoutMinutes: 30, absoluteTimeoutHours: 12 },
+};
+
+const readPositiveNumber = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : undefined;
+};
+
+// A role-specific variable (SESSION_IDLE_TIMEOUT_MINUTES_ADMIN) wins over the
+// global one (SESSION_IDLE_TIMEOUT_MINUTES), which wins over the default
+export const getSessionPolicy = (role: UserRole): ISessionPolicy => {
+  const defaults = DEFAULT_SESSION_POLICIES[role] || DEFAULT_SESSION_POLICIES.candidate;
+  const suffix = role.toUpperCase();
+
+  return {
+    idleTimeoutMinutes:
+      readPositiveNumber(`SESSION_IDLE_TIMEOUT_MINUTES_${suffix}`) ??
+      readPositiveNumber('SESSION_IDLE_TIMEOUT_MINUTES') ??
+      defaults.idleTimeoutMinutes,
+    absoluteTimeoutHours:
+      readPositiveNumber(`SESSION_ABSOLUTE_TIMEOUT_HOURS_${suffix}`) ??
+      readPositiveNumber('SESSION_ABSOLUTE_TIMEOUT_HOURS') ??
+      defaults.absoluteTimeoutHours,
+  };
+};
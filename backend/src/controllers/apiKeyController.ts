@@ -0,0 +1,171 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import ApiKey from '../models/ApiKey';
+import { IAuthenticatedRequest, IApiResponse, Permission } from '../types';
+import { PERMISSIONS, getPermissions, hasPermission } from '../config/roles';
+import {
+  generateApiKey,
+  serializeApiKey,
+  MAX_API_KEYS_PER_USER,
+  MAX_API_KEY_TTL_DAYS,
+} from '../services/apiKeys';
+
+// Validation rules
+export const createApiKeyValidation = [
+  body('name')
+    .isString()
+    .withMessage('Name is required')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('At least one scope is required'),
+  body('scopes.*')
+    .isIn(PERMISSIONS)
+    .withMessage(`Scopes must be any of: ${PERMISSIONS.join(', ')}`),
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: MAX_API_KEY_TTL_DAYS })
+    .withMessage(`Expiry must be between 1 and ${MAX_API_KEY_TTL_DAYS} days`),
+];
+
+// List the current user's API keys that have not been revoked, and the scopes they may grant
+export const listApiKeys = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const apiKeys = await ApiKey.find({
+      user: req.user?._id,
+      revokedAt: { $exists: false },
+    }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      data: {
+        apiKeys: apiKeys.map(serializeApiKey),
+        availableScopes: getPermissions(req.user?.role || 'candidate'),
+      },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving API keys',
+    } as IApiResponse);
+  }
+};
+
+// Create an API key; the secret is returned in this response only
+export const createApiKey = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const role = req.user!.role || 'candidate';
+    const scopes: Permission[] = Array.from(new Set(req.body.scopes as Permission[]));
+
+    // A key can never do more than the person who created it
+    const ungranted = scopes.filter(scope => !hasPermission(role, scope));
+    if (ungranted.length > 0) {
+      res.status(403).json({
+        success: false,
+        message: `Your role cannot grant these scopes: ${ungranted.join(', ')}`,
+      } as IApiResponse);
+      return;
+    }
+
+    const activeCount = await ApiKey.countDocuments({
+      user: req.user!._id,
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    });
+    if (activeCount >= MAX_API_KEYS_PER_USER) {
+      res.status(400).json({
+        success: false,
+        message: `You can have at most ${MAX_API_KEYS_PER_USER} active API keys. Revoke one first`,
+      } as IApiResponse);
+      return;
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const expiresInDays = req.body.expiresInDays ? Number(req.body.expiresInDays) : undefined;
+
+    const apiKey = await ApiKey.create({
+      user: req.user!._id,
+      name: req.body.name,
+      prefix,
+      keyHash,
+      scopes,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again',
+      data: { ...serializeApiKey(apiKey), key },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating API key',
+    } as IApiResponse);
+  }
+};
+
+// Revoke an API key; requests using it are rejected immediately
+export const revokeApiKey = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: id, user: req.user?._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!apiKey) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      } as IApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error revoking API key',
+    } as IApiResponse);
+  }
+};
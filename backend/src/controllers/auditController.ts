@@ -0,0 +1,142 @@
+import { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import AuditEvent, { AUDIT_ACTIONS } from '../models/AuditEvent';
+import { AuditAction, IAuthenticatedRequest, IApiResponse } from '../types';
+import { describeUserAgent } from '../utils/userAgent';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const RECENT_ACTIVITY_LIMIT = 20;
+
+// Events shown to users about their own account
+const SECURITY_ACTIONS: AuditAction[] = [
+  'user.register',
+  'user.role.change',
+  'auth.login.success',
+  'auth.login.failure',
+  'auth.login.reported',
+  'auth.reauth.failure',
+  'auth.email.change',
+  'auth.password.change',
+  'auth.password.reset',
+];
+
+// Validation rules
+export const listAuditEventsValidation = [
+  query('action')
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`Action must be one of: ${AUDIT_ACTIONS.join(', ')}`),
+  query('actor')
+    .optional()
+    .isMongoId()
+    .withMessage('Actor must be a user ID'),
+  query('subject')
+    .optional()
+    .isMongoId()
+    .withMessage('Subject must be a user ID'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+];
+
+// Search the audit log, newest first
+export const listAuditEvents = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || DEFAULT_PAGE_SIZE;
+    const filter: Record<string, unknown> = {};
+
+    if (req.query.action) filter.action = String(req.query.action);
+    if (req.query.actor) filter.actor = String(req.query.actor);
+    if (req.query.subject) filter.subject = String(req.query.subject);
+    if (req.query.from || req.query.to) {
+      filter.createdAt = {
+        ...(req.query.from && { $gte: new Date(String(req.query.from)) }),
+        ...(req.query.to && { $lte: new Date(String(req.query.to)) }),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(filter)
+        .populate('actor', 'email firstName lastName')
+        .populate('subject', 'email firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditEvent.countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Audit events retrieved successfully',
+      data: { events, total, page, limit },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('List audit events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving audit events',
+    } as IApiResponse);
+  }
+};
+
+// Recent sign-ins, failed attempts and password changes on the current user's account
+export const getSecurityActivity = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const events = await AuditEvent.find({
+      subject: req.user?._id,
+      action: { $in: SECURITY_ACTIONS },
+    })
+      .sort({ createdAt: -1 })
+      .limit(RECENT_ACTIVITY_LIMIT);
+
+    res.json({
+      success: true,
+      message: 'Security activity retrieved successfully',
+      data: events.map((event) => ({
+        _id: event._id,
+        action: event.action,
+        method: event.metadata?.method,
+        device: describeUserAgent(event.userAgent),
+        ip: event.ip,
+        createdAt: event.createdAt,
+      })),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get security activity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving security activity',
+    } as IApiResponse);
+  }
+};
@@ -1,10 +1,90 @@
+import crypto from 'crypto';
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { body, validationResult } from 'express-validator';
-import jwt from 'jsonwebtoken';
 import User from '../models/User';
-import { ILoginRequest, IRegisterRequest, IAuthResponse } from '../types';
+import {
+  ILoginRequest,
+  IRegisterRequest,
+  IAuthResponse,
+  IAuthenticatedRequest,
+  IUserDocument,
+  LoginMethod,
+} from '../types';
+import {
+  issueTokenPair,
+  rotateRefreshToken,
+  revokeTokenFamily,
+  hashToken,
+  getRequestContext,
+  RefreshTokenError,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  revokeAllUserTokens,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  generateAccessToken,
+  findActiveSession,
+  getSessionTimeouts,
+  markSessionAuthenticated,
+  ITokenPair,
+} from '../utils/tokens';
+import {
+  deliverTokens,
+  wantsCookieAuth,
+  clearAuthCookies,
+  getRefreshTokenCookie,
+  getCsrfTokenCookie,
+  hasAuthCookies,
+} from '../utils/authCookies';
+import { verifySecondFactor, TWO_FACTOR_FIELDS } from '../services/twoFactor';
+import { twoFactorCodeValidation } from './twoFactorController';
+import { clearPendingEmailChange } from './emailChangeController';
+import { toAvatarInfo } from './avatarController';
+import {
+  getLoginLock,
+  registerFailedLogin,
+  registerFailedTwoFactor,
+  resetFailedLogins,
+  LOGIN_ERROR_CODES,
+  LOGIN_THROTTLE_FIELDS,
+  ILoginLock,
+} from '../services/loginThrottle';
+import { sendVerificationEmail, sendPasswordResetEmail } from '../services/emails';
+import {
+  isPasswordReused,
+  applyPasswordChange,
+  PASSWORD_HISTORY_FIELDS,
+  PASSWORD_HISTORY_SIZE,
+} from '../services/passwordHistory';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+import { recordLogin } from '../services/loginHistory';
+import { isBreachedPassword, BREACHED_PASSWORD_MESSAGE } from '../services/breachedPasswords';
+import { validatePassword } from '../../../shared/passwordStrength';
+import RefreshToken from '../models/RefreshToken';
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
 
 // Validation rules
+// Registration knows the user's name and email, so they are penalised here too; the User schema
+// validator repeats the check with the stored account details for resets and changes.
+// Every password field is used exactly as typed: never trimmed, sanitized or normalized
+const passwordValidation = (field: string) =>
+  body(field)
+    .isString()
+    .withMessage('Password is required')
+    .bail()
+    .custom((value, { req }) => {
+      const error = validatePassword(value, [req.body.email, req.body.firstName, req.body.lastName]);
+      if (error) {
+        throw new Error(error);
+      }
+      if (isBreachedPassword(value)) {
+        throw new Error(BREACHED_PASSWORD_MESSAGE);
+      }
+      return true;
+    });
+
 export const registerValidation = [
   body('email')
     .isEmail()
@@ -20,19 +100,7 @@ export const registerValidation = [
       }
       return true;
     }),
-  body('password')
-    .isLength({ min: 8, max: 128 })
-    .withMessage('Password must be between 8 and 128 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)')
-    .custom((value) => {
-      // Check for common weak passwords
-      const commonPasswords = ['password', 'password123', '123456', 'qwerty', 'abc123', 'admin', 'letmein'];
-      if (commonPasswords.includes(value.toLowerCase())) {
-        throw new Error('This password is too common. Please choose a more secure password');
-      }
-      return true;
-    }),
+  passwordValidation('password'),
   body('phone')
     .optional()
     .isMobilePhone('any')
@@ -66,13 +134,210 @@ export const loginValidation = [
       return true;
     }),
   body('password')
-    .notEmpty()
+    .isString()
     .withMessage('Password is required')
-    .isLength({ min: 1 })
-    .withMessage('Password cannot be empty')
-    .trim(),
+    .notEmpty()
+    .withMessage('Password cannot be empty'),
 ];
 
+// Cookie-mode clients send no body: the refresh token arrives in its cookie
+export const refreshTokenValidation = [
+  body('refreshToken')
+    .if((value, { req }) => value !== undefined || !getRefreshTokenCookie(req as Request))
+    .isString()
+    .withMessage('Refresh token is required')
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+];
+
+export const loginTwoFactorValidation = [
+  body('twoFactorToken')
+    .isString()
+    .withMessage('Two-factor token is required')
+    .notEmpty()
+    .withMessage('Two-factor token is required'),
+  ...twoFactorCodeValidation,
+];
+
+export const verifyEmailValidation = [
+  body('token')
+    .isString()
+    .withMessage('Verification token is required')
+    .notEmpty()
+    .withMessage('Verification token is required'),
+];
+
+export const forgotPasswordValidation = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address')
+    .isLength({ max: 254 })
+    .withMessage('Email address is too long'),
+];
+
+export const resetPasswordValidation = [
+  body('token')
+    .isString()
+    .withMessage('Reset token is required')
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  passwordValidation('password'),
+];
+
+// Strength rules are enforced by the User schema validator when the password is saved
+export const changePasswordValidation = [
+  body('currentPassword')
+    .isString()
+    .withMessage('Current password is required')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  body('newPassword')
+    .isString()
+    .withMessage('New password is required')
+    .notEmpty()
+    .withMessage('New password is required'),
+];
+
+// A password, or a TOTP/recovery code for users with 2FA
+export const reauthenticateValidation = [
+  body('password')
+    .if(body('code').not().exists())
+    .isString()
+    .withMessage('Password or authentication code is required')
+    .notEmpty()
+    .withMessage('Password or authentication code is required'),
+  body('code')
+    .optional()
+    .isString()
+    .withMessage('Authentication code is required')
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+    .isLength({ max: 20 })
+    .withMessage('Authentication code is too long'),
+];
+
+const PASSWORD_REUSE_MESSAGE = PASSWORD_HISTORY_SIZE > 1
+  ? `New password must differ from your last ${PASSWORD_HISTORY_SIZE} passwords`
+  : 'New password must differ from your current password';
+
+// Shape of the user returned by login-style endpoints, /me and token refresh
+export const toAuthUser = (user: IUserDocument) => ({
+  _id: user._id,
+  email: user.email,
+  designation: user.designation,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  country: user.country,
+  phone: user.phone,
+  gender: user.gender,
+  dob: user.dob,
+  totalExperience: user.totalExperience,
+  currentCTC: user.currentCTC,
+  expectedCTC: user.expectedCTC,
+  noticePeriod: user.noticePeriod,
+  noticePeriodDays: user.noticePeriodDays,
+  bio: user.bio,
+  skills: user.skills,
+  experience: user.experience,
+  resumeUrl: user.resumeUrl,
+  avatar: user.avatar,
+  avatarImages: toAvatarInfo(user.avatarImages),
+  isEmailVerified: user.isEmailVerified,
+  pendingEmail: user.pendingEmail,
+  role: user.role,
+  twoFactorEnabled: user.twoFactorEnabled,
+  createdAt: user.createdAt,
+});
+
+// Issue tokens for a fully authenticated user and record the login in the audit log
+// and the user's login history
+const startSession = async (
+  user: IUserDocument,
+  req: Request,
+  method: LoginMethod | 'register'
+): Promise<ITokenPair> => {
+  const tokens = await issueTokenPair(user, getRequestContext(req));
+  const audit = { ...getAuditContext(req), actor: String(user._id), subject: String(user._id) };
+
+  if (method !== 'register') {
+    await recordAuditEvent({ ...audit, action: 'auth.login.success', metadata: { method } });
+  }
+  await recordAuditEvent({
+    ...audit,
+    action: 'auth.token.issue',
+    metadata: { method, sessionId: tokens.sessionId },
+  });
+  await recordLogin(user, req, method, tokens.sessionId);
+
+  return tokens;
+};
+
+const recordLoginFailure = (
+  req: Request,
+  reason: string,
+  user: IUserDocument | null,
+  method: LoginMethod = 'password'
+): Promise<void> =>
+  recordAuditEvent({
+    ...getAuditContext(req),
+    action: 'auth.login.failure',
+    subject: user ? String(user._id) : undefined,
+    metadata: { method, reason, email: req.body.email },
+  });
+
+// Finish a first-factor login, deferring to the second step when 2FA is enabled
+export const respondWithLogin = async (
+  user: IUserDocument,
+  req: Request,
+  res: Response,
+  method: LoginMethod,
+  status: number = 200
+): Promise<void> => {
+  if (user.twoFactorEnabled) {
+    res.json({
+      success: true,
+      message: 'Two-factor authentication required',
+      requiresTwoFactor: true,
+      twoFactorToken: generateTwoFactorChallengeToken(user),
+    } as IAuthResponse);
+    return;
+  }
+
+  const { token, refreshToken, session } = await startSession(user, req, method);
+
+  res.status(status).json({
+    success: true,
+    message: 'Login successful',
+    user: toAuthUser(user),
+    ...deliverTokens(req, res, { token, refreshToken }),
+    session,
+  } as IAuthResponse);
+};
+
+// Unknown emails and wrong passwords get the same answer, whether or not the account is locked
+const sendInvalidCredentials = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Invalid email or password',
+  } as IAuthResponse);
+};
+
+const sendLoginLocked = (res: Response, lock: ILoginLock): void => {
+  const isLocked = lock.code === LOGIN_ERROR_CODES.LOCKED;
+
+  res.set('Retry-After', String(lock.retryAfter));
+  res.status(isLocked ? 423 : 429).json({
+    success: false,
+    message: isLocked
+      ? 'Account temporarily locked due to too many failed login attempts'
+      : 'Too many failed login attempts. Please wait before trying again',
+    code: lock.code,
+    retryAfter: lock.retryAfter,
+  } as IAuthResponse);
+};
+
 // Register controller
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -142,40 +407,29 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     await user.save();
 
-    // Generate JWT token
-    // @ts-ignore - JWT library has complex type definitions
-    const token = jwt.sign(
-      { userId: user._id, email: user.email },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    );
+    // A mail outage must not block registration; the user can request a resend
+    try {
+      await sendVerificationEmail(user, generateEmailVerificationToken(user));
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'user.register',
+      actor: String(user._id),
+      subject: String(user._id),
+    });
+
+    // Issue a short-lived access token and a rotating refresh token
+    const { token, refreshToken, session } = await startSession(user, req, 'register');
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      user: {
-        _id: user._id,
-        email: user.email,
-        designation: user.designation,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        country: user.country,
-        phone: user.phone,
-        gender: user.gender,
-        dob: user.dob,
-        totalExperience: user.totalExperience,
-        currentCTC: user.currentCTC,
-        expectedCTC: user.expectedCTC,
-        noticePeriod: user.noticePeriod,
-        noticePeriodDays: user.noticePeriodDays,
-        bio: user.bio,
-        experience: user.experience,
-        resumeUrl: user.resumeUrl,
-        avatar: user.avatar,
-        isEmailVerified: user.isEmailVerified,
-        createdAt: user.createdAt,
-      },
-      token,
+      user: toAuthUser(user),
+      ...deliverTokens(req, res, { token, refreshToken }),
+      session,
     } as IAuthResponse);
   } catch (error) {
     console.error('Registration error:', error);
@@ -203,62 +457,148 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     const { email, password }: ILoginRequest = req.body;
 
     // Find user by email and include password
-    const user = await User.findOne({ email }).select('+password');
+    const user = await User.findOne({ email }).select(`+password ${LOGIN_THROTTLE_FIELDS}`);
     if (!user) {
+      await recordLoginFailure(req, 'unknown_email', null);
+      sendInvalidCredentials(res);
+      return;
+    }
+
+    // Per-account throttling, independent of the per-IP rate limit. A lock is only disclosed
+    // to someone who knows the password, or by the failure that trips it; attempts during a
+    // lock are not counted and never succeed
+    const isPasswordValid = await user.comparePassword(password);
+    const existingLock = getLoginLock(user);
+    if (existingLock) {
+      await recordLoginFailure(req, 'locked', user);
+      if (isPasswordValid) {
+        sendLoginLocked(res, existingLock);
+      } else {
+        sendInvalidCredentials(res);
+      }
+      return;
+    }
+
+    if (!isPasswordValid) {
+      const lock = await registerFailedLogin(user);
+      await recordLoginFailure(req, 'invalid_password', user);
+
+      if (lock?.code === LOGIN_ERROR_CODES.LOCKED) {
+        sendLoginLocked(res, lock);
+        return;
+      }
+
+      sendInvalidCredentials(res);
+      return;
+    }
+
+    // Defer to the second step when 2FA is enabled; no tokens are issued yet. Failures are
+    // only reset once the code is accepted, so a new challenge does not clear wrong codes
+    if (user.twoFactorEnabled) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        twoFactorToken: generateTwoFactorChallengeToken(user),
+      } as IAuthResponse);
+      return;
+    }
+
+    await resetFailedLogins(user);
+
+    // Issue a short-lived access token and a rotating refresh token
+    const { token, refreshToken, session } = await startSession(user, req, 'password');
+
+    res.json({
+      success: true,
+      message: 'Login successful',
+      user: toAuthUser(user),
+      ...deliverTokens(req, res, { token, refreshToken }),
+      session,
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during login',
+    } as IAuthResponse);
+  }
+};
+
+// Second login step for accounts with 2FA enabled
+export const loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const { twoFactorToken, code } = req.body;
+
+    let user;
+    try {
+      user = await verifyTwoFactorChallengeToken(twoFactorToken, `${TWO_FACTOR_FIELDS} ${LOGIN_THROTTLE_FIELDS}`);
+    } catch (jwtError) {
       res.status(401).json({
         success: false,
-        message: 'Invalid email or password',
+        message: 'Login session has expired. Please log in again',
       } as IAuthResponse);
       return;
     }
 
-    // Check password
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
+    if (!user || !user.twoFactorEnabled) {
       res.status(401).json({
         success: false,
-        message: 'Invalid email or password',
+        message: 'Login session has expired. Please log in again',
       } as IAuthResponse);
       return;
     }
 
-    // Generate JWT token
-    // @ts-ignore - JWT library has complex type definitions
-    const token = jwt.sign(
-      { userId: user._id, email: user.email },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    );
+    // Wrong codes share the password lockout, so they are throttled the same way
+    const existingLock = getLoginLock(user);
+    if (existingLock) {
+      await recordLoginFailure(req, 'locked', user, 'two-factor');
+      sendLoginLocked(res, existingLock);
+      return;
+    }
+
+    const method = await verifySecondFactor(user, code);
+    if (!method) {
+      const lock = await registerFailedTwoFactor(user);
+      await recordLoginFailure(req, 'invalid_code', user, 'two-factor');
+
+      if (lock?.code === LOGIN_ERROR_CODES.LOCKED) {
+        sendLoginLocked(res, lock);
+        return;
+      }
+
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      } as IAuthResponse);
+      return;
+    }
+
+    await resetFailedLogins(user);
+
+    const { token, refreshToken, session } = await startSession(user, req, 'two-factor');
 
     res.json({
       success: true,
-      message: 'Login successful',
-      user: {
-        _id: user._id,
-        email: user.email,
-        designation: user.designation,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        country: user.country,
-        phone: user.phone,
-        gender: user.gender,
-        dob: user.dob,
-        totalExperience: user.totalExperience,
-        currentCTC: user.currentCTC,
-        expectedCTC: user.expectedCTC,
-        noticePeriod: user.noticePeriod,
-        noticePeriodDays: user.noticePeriodDays,
-        bio: user.bio,
-        experience: user.experience,
-        resumeUrl: user.resumeUrl,
-        avatar: user.avatar,
-        isEmailVerified: user.isEmailVerified,
-        createdAt: user.createdAt,
-      },
-      token,
+      message: method === 'recovery'
+        ? 'Login successful. A recovery code was used; consider regenerating your codes'
+        : 'Login successful',
+      user: toAuthUser(user),
+      ...deliverTokens(req, res, { token, refreshToken }),
+      session,
     } as IAuthResponse);
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Two-factor login error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error during login',
@@ -267,9 +607,9 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 };
 
 // Get current user
-export const getMe = async (req: Request, res: Response): Promise<void> => {
+export const getMe = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const user = await User.findById((req as any).user._id);
+    const user = await User.findById(req.user?._id);
 
     if (!user) {
       res.status(404).json({
@@ -279,20 +619,14 @@ export const getMe = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Absent when authenticated with an API key
+    const session = await findActiveSession(req.sessionId);
+
     res.json({
       success: true,
       message: 'User retrieved successfully',
-      user: {
-        _id: user._id,
-        email: user.email,
-        phone: user.phone,
-        bio: user.bio,
-        experience: user.experience,
-        resumeUrl: user.resumeUrl,
-        avatar: user.avatar,
-        isEmailVerified: user.isEmailVerified,
-        createdAt: user.createdAt,
-      },
+      user: toAuthUser(user),
+      ...(session && { session: getSessionTimeouts(session) }),
     } as IAuthResponse);
   } catch (error) {
     console.error('Get me error:', error);
@@ -301,4 +635,473 @@ export const getMe = async (req: Request, res: Response): Promise<void> => {
       message: 'Server error retrieving user',
     } as IAuthResponse);
   }
-};
\ No newline at end of file
+};
+
+// Rotate refresh token
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const cookieToken = req.body?.refreshToken === undefined ? getRefreshTokenCookie(req) : undefined;
+    const { user, tokens } = await rotateRefreshToken(
+      cookieToken || req.body?.refreshToken,
+      getRequestContext(req)
+    );
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      user: toAuthUser(user),
+      // A token read from a cookie is answered with cookies, whatever the mode header says
+      ...deliverTokens(req, res, tokens, !!cookieToken || wantsCookieAuth(req)),
+      session: tokens.session,
+    } as IAuthResponse);
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      if (req.body?.refreshToken === undefined) {
+        clearAuthCookies(res);
+      }
+      res.status(401).json({
+        success: false,
+        message: error.message,
+      } as IAuthResponse);
+      return;
+    }
+
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error refreshing token',
+    } as IAuthResponse);
+  }
+};
+
+// Logout - revokes the refresh token family of the current login
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const refreshToken = req.body?.refreshToken ?? getRefreshTokenCookie(req);
+    const existing = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (existing) {
+      await revokeTokenFamily(existing.family);
+    }
+
+    clearAuthCookies(res);
+
+    // Respond identically whether or not the token was known
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during logout',
+    } as IAuthResponse);
+  }
+};
+
+// Return the CSRF token of a cookie-mode session, for a client that has lost its copy
+export const getCsrfToken = async (req: Request, res: Response): Promise<void> => {
+  const csrfToken = hasAuthCookies(req) ? getCsrfTokenCookie(req) : undefined;
+
+  if (!csrfToken) {
+    res.status(401).json({
+      success: false,
+      message: 'No cookie session',
+    } as IAuthResponse);
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'CSRF token',
+    csrfToken,
+  } as IAuthResponse);
+};
+
+// Verify email address
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    let payload;
+    try {
+      payload = verifyEmailVerificationToken(req.body.token);
+    } catch (jwtError) {
+      res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired',
+      } as IAuthResponse);
+      return;
+    }
+
+    const user = await User.findById(payload.userId);
+
+    if (!user || user.email !== payload.email) {
+      res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired',
+      } as IAuthResponse);
+      return;
+    }
+
+    if (!user.isEmailVerified) {
+      await User.updateOne({ _id: user._id }, { $set: { isEmailVerified: true } });
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error verifying email',
+    } as IAuthResponse);
+  }
+};
+
+// Resend verification email to the current user
+export const resendVerification = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IAuthResponse);
+      return;
+    }
+
+    if (user.isEmailVerified) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is already verified',
+      } as IAuthResponse);
+      return;
+    }
+
+    await sendVerificationEmail(user, generateEmailVerificationToken(user));
+
+    res.json({
+      success: true,
+      message: 'Verification email sent',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending verification email',
+    } as IAuthResponse);
+  }
+};
+
+// Request a password reset email
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+
+    if (user) {
+      const token = crypto.randomBytes(32).toString('hex');
+
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            passwordResetTokenHash: hashToken(token),
+            passwordResetExpires: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+          },
+        }
+      );
+
+      // Not awaited so response timing does not reveal whether the account exists
+      sendPasswordResetEmail(user, token).catch((mailError) => {
+        console.error('Password reset email error:', mailError);
+      });
+    }
+
+    // Same response whether or not the account exists to prevent user enumeration
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error processing password reset request',
+    } as IAuthResponse);
+  }
+};
+
+// Reset password using a single-use token
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const { token, password } = req.body;
+
+    const user = await User.findOne({
+      passwordResetTokenHash: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    }).select(`${PASSWORD_HISTORY_FIELDS} +passwordResetTokenHash +passwordResetExpires`);
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: 'Password reset link is invalid or has expired',
+      } as IAuthResponse);
+      return;
+    }
+
+    if (await isPasswordReused(user, password)) {
+      res.status(400).json({
+        success: false,
+        message: PASSWORD_REUSE_MESSAGE,
+      } as IAuthResponse);
+      return;
+    }
+
+    applyPasswordChange(user, password);
+    // An email change requested with the old password may not have been the owner's
+    clearPendingEmailChange(user);
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    // Proving ownership of the inbox also lifts any login lockout
+    user.failedLoginAttempts = 0;
+    user.lockUntil = undefined;
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      if (saveError instanceof mongoose.Error.ValidationError && saveError.errors.password) {
+        res.status(400).json({
+          success: false,
+          message: saveError.errors.password.message,
+        } as IAuthResponse);
+        return;
+      }
+      throw saveError;
+    }
+
+    // Sign out every existing session
+    await revokeAllUserTokens(user._id);
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'auth.password.reset',
+      subject: String(user._id),
+    });
+
+    res.json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error resetting password',
+    } as IAuthResponse);
+  }
+};
+
+// Change password for the signed-in user
+export const changePassword = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById(req.user?._id).select(PASSWORD_HISTORY_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IAuthResponse);
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(currentPassword);
+    if (!isPasswordValid) {
+      res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect',
+      } as IAuthResponse);
+      return;
+    }
+
+    if (await isPasswordReused(user, newPassword)) {
+      res.status(400).json({
+        success: false,
+        message: PASSWORD_REUSE_MESSAGE,
+      } as IAuthResponse);
+      return;
+    }
+
+    applyPasswordChange(user, newPassword);
+    clearPendingEmailChange(user);
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      if (saveError instanceof mongoose.Error.ValidationError && saveError.errors.password) {
+        res.status(400).json({
+          success: false,
+          message: saveError.errors.password.message,
+        } as IAuthResponse);
+        return;
+      }
+      throw saveError;
+    }
+
+    // Other devices are signed out; this one keeps its session with a token newer than the change
+    await revokeAllUserTokens(user._id, req.sessionId);
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'auth.password.change',
+      subject: String(user._id),
+    });
+
+    // Entering the current password also counts as re-authentication.
+    // A request without an Authorization header was authenticated by the access token cookie
+    const session = await findActiveSession(req.sessionId);
+    if (session) {
+      await markSessionAuthenticated(session);
+    }
+    const token = session ? generateAccessToken(user, session) : undefined;
+
+    res.json({
+      success: true,
+      message: 'Password changed. Other devices have been signed out',
+      ...(token && deliverTokens(req, res, { token }, !req.headers.authorization)),
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error changing password',
+    } as IAuthResponse);
+  }
+};
+
+// Confirm the signed-in user's identity again before a sensitive action. The new
+// access token carries a fresh auth_time for requireRecentAuth
+export const reauthenticate = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const { password, code } = req.body;
+
+    const user = await User.findById(req.user?._id).select(`+password ${TWO_FACTOR_FIELDS}`);
+    const session = await findActiveSession(req.sessionId);
+
+    if (!user || !session) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has been signed out. Please log in again.',
+      } as IAuthResponse);
+      return;
+    }
+
+    const method = code ? 'two-factor' : 'password';
+    const confirmed = code ? (await verifySecondFactor(user, code)) !== null : await user.comparePassword(password);
+    const audit = { ...getAuditContext(req), subject: String(user._id), metadata: { method } };
+
+    if (!confirmed) {
+      await recordAuditEvent({ ...audit, action: 'auth.reauth.failure' });
+      res.status(401).json({
+        success: false,
+        message: code ? 'Invalid authentication code' : 'Password is incorrect',
+      } as IAuthResponse);
+      return;
+    }
+
+    await markSessionAuthenticated(session);
+    await recordAuditEvent({ ...audit, action: 'auth.reauth.success' });
+
+    res.json({
+      success: true,
+      message: 'Identity confirmed',
+      ...deliverTokens(req, res, { token: generateAccessToken(user, session) }, !req.headers.authorization),
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Reauthenticate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error confirming identity',
+    } as IAuthResponse);
+  }
+};
@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import User from '../models/User';
+import { IAuthenticatedRequest, IApiResponse, IAvatarImage } from '../types';
+import { detectFileType } from '../utils/fileType';
+import { generateFileKey, getFileStorage } from '../services/fileStorage';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+import { createAvatarRenditions, AvatarImageError, IAvatarCrop } from '../services/avatarImages';
+
+export const AVATAR_MAX_BYTES = (Number(process.env.AVATAR_MAX_SIZE_MB) || 5) * 1024 * 1024;
+
+const AVATAR_KEY_PREFIX = 'avatars/';
+const AVATAR_FILE_NAME_PATTERN = /^[a-f0-9]{32}\.webp$/;
+
+// Optional square crop, in pixels of the upright image; sent as multipart fields
+export const uploadAvatarValidation = [
+  body('cropSize')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Crop size must be a positive whole number of pixels'),
+  body(['cropX', 'cropY'])
+    .if(body('cropSize').exists())
+    .isInt({ min: 0 })
+    .withMessage('Crop position must be a whole number of pixels'),
+];
+
+// What clients see of an uploaded avatar: the public file name of each size
+export const toAvatarInfo = (images?: IAvatarImage[]) =>
+  images && images.length > 0
+    ? images.map((image) => ({ size: image.size, name: image.key.slice(AVATAR_KEY_PREFIX.length) }))
+    : undefined;
+
+// Removing old files is best effort: an orphaned file is only wasted space
+const deleteAvatarImages = (images?: IAvatarImage[]): void => {
+  images?.forEach((image) => {
+    getFileStorage().delete(image.key).catch((error) => {
+      console.error('Delete avatar image error:', error);
+    });
+  });
+};
+
+const describeAvatar = (user: { avatar?: string; avatarImages?: IAvatarImage[] }): string | null =>
+  user.avatarImages && user.avatarImages.length > 0 ? 'uploaded image' : user.avatar || null;
+
+// Upload or replace the current user's avatar, cropped to a square and stored in every size
+export const uploadAvatar = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'Choose an image to upload',
+      } as IApiResponse);
+      return;
+    }
+
+    const fileType = detectFileType(req.file.buffer);
+    if (fileType !== 'jpeg' && fileType !== 'png' && fileType !== 'webp') {
+      res.status(415).json({
+        success: false,
+        message: 'Avatar must be a JPEG, PNG or WebP image',
+      } as IApiResponse);
+      return;
+    }
+
+    const { cropX, cropY, cropSize } = req.body ?? {};
+    const crop: IAvatarCrop | undefined =
+      cropSize !== undefined ? { x: Number(cropX), y: Number(cropY), size: Number(cropSize) } : undefined;
+
+    let renditions;
+    try {
+      renditions = await createAvatarRenditions(req.file.buffer, crop);
+    } catch (imageError) {
+      if (!(imageError instanceof AvatarImageError)) throw imageError;
+
+      res.status(422).json({
+        success: false,
+        message: imageError.message,
+      } as IApiResponse);
+      return;
+    }
+
+    const storage = getFileStorage();
+    const avatarImages: IAvatarImage[] = await Promise.all(
+      renditions.map(async ({ size, data }) => {
+        const key = generateFileKey('avatars', '.webp');
+        await storage.put(key, data, 'image/webp');
+        return { size, key };
+      })
+    );
+
+    // The upload supersedes any avatar URL; the old user tells us which files to remove
+    const previous = await User.findByIdAndUpdate(req.user?._id, {
+      $set: { avatarImages },
+      $unset: { avatar: 1 },
+    });
+
+    if (!previous) {
+      deleteAvatarImages(avatarImages);
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    deleteAvatarImages(previous.avatarImages);
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'profile.update',
+      subject: String(previous._id),
+      changes: [{ field: 'avatar', before: describeAvatar(previous), after: 'uploaded image' }],
+    });
+
+    res.json({
+      success: true,
+      message: 'Avatar uploaded successfully',
+      data: { avatarImages: toAvatarInfo(avatarImages) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Upload avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error uploading avatar',
+    } as IApiResponse);
+  }
+};
+
+// Remove the current user's avatar, uploaded or linked
+export const deleteAvatar = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const previous = await User.findByIdAndUpdate(req.user?._id, {
+      $unset: { avatarImages: 1, avatar: 1 },
+    });
+
+    if (!previous) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const before = describeAvatar(previous);
+    if (before) {
+      deleteAvatarImages(previous.avatarImages);
+
+      await recordAuditEvent({
+        ...getAuditContext(req),
+        action: 'profile.update',
+        subject: String(previous._id),
+        changes: [{ field: 'avatar', before, after: null }],
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Avatar removed',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Delete avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error removing avatar',
+    } as IApiResponse);
+  }
+};
+
+// Serve an avatar image; names are random and never reused, so they can be cached for good
+export const serveAvatar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const stream = AVATAR_FILE_NAME_PATTERN.test(name)
+      ? await getFileStorage().get(`${AVATAR_KEY_PREFIX}${name}`)
+      : null;
+
+    if (!stream) {
+      res.status(404).json({
+        success: false,
+        message: 'Avatar not found',
+      } as IApiResponse);
+      return;
+    }
+
+    res.set({
+      'Content-Type': 'image/webp',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      // The frontend is usually served from another origin
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+
+    stream.on('error', (streamError) => {
+      console.error('Serve avatar stream error:', streamError);
+      res.destroy(streamError);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Serve avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error loading avatar',
+    } as IApiResponse);
+  }
+};
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import User from '../models/User';
+import { IAuthenticatedRequest, IApiResponse, IUserDocument } from '../types';
+import { hashToken } from '../utils/tokens';
+import { sendEmailChangeConfirmationEmail, sendEmailChangeNoticeEmail } from '../services/emails';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+
+const EMAIL_CHANGE_TTL_HOURS = Number(process.env.EMAIL_CHANGE_TTL_HOURS) || 24;
+const EMAIL_TAKEN_MESSAGE = 'An account with this email already exists';
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Unsaved; for flows where whoever requested the change may not be the account owner
+export const clearPendingEmailChange = (user: IUserDocument): void => {
+  user.pendingEmail = undefined;
+  user.emailChangeTokenHash = undefined;
+  user.emailChangeExpires = undefined;
+};
+
+// Validation rules
+export const requestEmailChangeValidation = [
+  body('newEmail')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address')
+    .isLength({ max: 254 })
+    .withMessage('Email address is too long'),
+  body('currentPassword')
+    .isString()
+    .withMessage('Current password is required')
+    .notEmpty()
+    .withMessage('Current password is required'),
+];
+
+export const confirmEmailChangeValidation = [
+  body('token')
+    .isHexadecimal()
+    .withMessage('This link is invalid or has expired'),
+];
+
+// Start a change of address: the new address must be confirmed before it replaces the current one
+export const requestEmailChange = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const { newEmail, currentPassword } = req.body;
+
+    const user = await User.findById(req.user?._id).select('+password');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    // 400 rather than 401, which the frontend would take for an expired session
+    if (!(await user.comparePassword(currentPassword))) {
+      res.status(400).json({
+        success: false,
+        message: 'Current password is incorrect',
+      } as IApiResponse);
+      return;
+    }
+
+    if (newEmail === user.email) {
+      res.status(400).json({
+        success: false,
+        message: 'This is already your email address',
+      } as IApiResponse);
+      return;
+    }
+
+    if (await User.exists({ email: newEmail })) {
+      res.status(409).json({
+        success: false,
+        message: EMAIL_TAKEN_MESSAGE,
+      } as IApiResponse);
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    // Replaces any earlier pending change
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          pendingEmail: newEmail,
+          emailChangeTokenHash: hashToken(token),
+          emailChangeExpires: new Date(Date.now() + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000),
+        },
+      }
+    );
+
+    await sendEmailChangeConfirmationEmail(user, newEmail, token, EMAIL_CHANGE_TTL_HOURS);
+    sendEmailChangeNoticeEmail(user, newEmail).catch((mailError) => {
+      console.error('Email change notice error:', mailError);
+    });
+
+    res.json({
+      success: true,
+      message: `We sent a confirmation link to ${newEmail}. Your email address will change once you open it`,
+      data: { pendingEmail: newEmail },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Request email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error requesting email change',
+    } as IApiResponse);
+  }
+};
+
+// Drop a pending change before it is confirmed
+export const cancelEmailChange = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await User.updateOne(
+      { _id: req.user?._id },
+      { $unset: { pendingEmail: 1, emailChangeTokenHash: 1, emailChangeExpires: 1 } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Email change cancelled',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Cancel email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error cancelling email change',
+    } as IApiResponse);
+  }
+};
+
+/**
+ * Swap in the confirmed address. Public, as the link may be opened on any
+ * device. The swap is a single conditional update, so the unique email index
+ * settles a race with a registration for the same address. Opening the link
+ * proves the new address, so it is verified; links sent to the old address
+ * (password reset, magic link) stop working.
+ */
+export const confirmEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const tokenHash = hashToken(req.body.token);
+    const user = await User.findOne({
+      emailChangeTokenHash: tokenHash,
+      emailChangeExpires: { $gt: new Date() },
+    });
+
+    if (!user || !user.pendingEmail) {
+      res.status(400).json({
+        success: false,
+        message: 'This link is invalid or has expired',
+      } as IApiResponse);
+      return;
+    }
+
+    const previousEmail = user.email;
+    const newEmail = user.pendingEmail;
+    let updated;
+
+    try {
+      updated = await User.findOneAndUpdate(
+        { _id: user._id, emailChangeTokenHash: tokenHash, pendingEmail: newEmail },
+        {
+          $set: { email: newEmail, isEmailVerified: true },
+          $unset: {
+            pendingEmail: 1,
+            emailChangeTokenHash: 1,
+            emailChangeExpires: 1,
+            passwordResetTokenHash: 1,
+            passwordResetExpires: 1,
+            magicLinkTokenHash: 1,
+            magicLinkExpires: 1,
+            magicLinkDeviceHash: 1,
+          },
+        },
+        { new: true }
+      );
+    } catch (updateError) {
+      if (!isDuplicateKeyError(updateError)) {
+        throw updateError;
+      }
+
+      // Someone registered the address after the change was requested
+      await User.updateOne(
+        { _id: user._id },
+        { $unset: { pendingEmail: 1, emailChangeTokenHash: 1, emailChangeExpires: 1 } }
+      );
+      res.status(409).json({
+        success: false,
+        message: EMAIL_TAKEN_MESSAGE,
+      } as IApiResponse);
+      return;
+    }
+
+    if (!updated) {
+      res.status(400).json({
+        success: false,
+        message: 'This link is invalid or has expired',
+      } as IApiResponse);
+      return;
+    }
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'auth.email.change',
+      actor: String(user._id),
+      subject: String(user._id),
+      metadata: { from: previousEmail, to: newEmail },
+    });
+
+    res.json({
+      success: true,
+      message: 'Your email address has been changed',
+      data: { email: newEmail },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error confirming email change',
+    } as IApiResponse);
+  }
+};
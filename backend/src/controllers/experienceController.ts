@@ -0,0 +1,430 @@
+import { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import User, { WORK_HISTORY_MAX_ENTRIES } from '../models/User';
+import { IAuthenticatedRequest, IApiResponse, IUserDocument, IWorkExperience } from '../types';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Validation rules for adding or replacing a position
+export const workExperienceValidation = [
+  body('company')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Company must be between 1 and 100 characters'),
+  body('title')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Title must be between 1 and 100 characters'),
+  body('location')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Location cannot exceed 100 characters'),
+  body('startDate')
+    .matches(MONTH_PATTERN)
+    .withMessage('Start date must be a month (YYYY-MM)'),
+  body('current')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Current must be true or false')
+    .toBoolean(true),
+  // Same test as readPosition, so a position is either current or has an end date
+  body('endDate')
+    .if((value, { req }) => req.body.current !== true)
+    .matches(MONTH_PATTERN)
+    .withMessage('End date must be a month (YYYY-MM), unless this is a current position'),
+  body('description')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Description cannot exceed 2000 characters'),
+  body('skills')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Cannot list more than 20 skills for a position'),
+  body('skills.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each skill must be between 1 and 50 characters'),
+  body('allowOverlap')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('allowOverlap must be true or false')
+    .toBoolean(true),
+];
+
+export const reorderWorkHistoryValidation = [
+  body('ids')
+    .isArray()
+    .withMessage('Order must be a list of position IDs'),
+  body('ids.*')
+    .isMongoId()
+    .withMessage('Order must be a list of position IDs'),
+];
+
+type WorkExperienceEntry = IUserDocument['workHistory'][number];
+
+// What clients see of a position
+export const toWorkHistoryInfo = (workHistory?: WorkExperienceEntry[]) =>
+  (workHistory || []).map((entry) => ({
+    _id: entry._id,
+    company: entry.company,
+    title: entry.title,
+    location: entry.location,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    current: entry.current,
+    description: entry.description,
+    skills: entry.skills,
+  }));
+
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+// Months are "YYYY-MM", so they compare as strings; a current position runs to this month
+const getPeriodEnd = (entry: IWorkExperience): string => (entry.current ? currentMonth() : entry.endDate || '');
+
+/**
+ * Positions that share time with this one. A shared first or last month is
+ * not an overlap, since people often change jobs mid-month.
+ */
+const findOverlaps = (entry: IWorkExperience, others: WorkExperienceEntry[]): WorkExperienceEntry[] =>
+  others.filter(
+    (other) => entry.startDate < getPeriodEnd(other) && other.startDate < getPeriodEnd(entry)
+  );
+
+const describePosition = (entry: IWorkExperience): string =>
+  `${entry.title} at ${entry.company} (${entry.startDate} – ${entry.current ? 'present' : entry.endDate})`;
+
+// The position described by the request body, or a message saying what is wrong with its dates
+const readPosition = (body: Record<string, any>): IWorkExperience | string => {
+  const current = body.current === true;
+  const entry: IWorkExperience = {
+    company: body.company,
+    title: body.title,
+    location: body.location || undefined,
+    startDate: body.startDate,
+    endDate: current ? undefined : body.endDate,
+    current,
+    description: body.description || undefined,
+    skills: body.skills || [],
+  };
+
+  if (entry.startDate > currentMonth()) {
+    return 'Start date cannot be in the future';
+  }
+  if (entry.endDate && entry.endDate > currentMonth()) {
+    return 'End date cannot be in the future';
+  }
+  if (entry.endDate && entry.endDate < entry.startDate) {
+    return 'End date cannot be before the start date';
+  }
+
+  return entry;
+};
+
+// Checks the position's dates and, unless the user confirmed it, that it does not
+// overlap another; sends the error response and returns null otherwise
+const checkPosition = (
+  req: IAuthenticatedRequest,
+  res: Response,
+  others: WorkExperienceEntry[]
+): IWorkExperience | null => {
+  const entry = readPosition(req.body);
+
+  if (typeof entry === 'string') {
+    res.status(400).json({
+      success: false,
+      message: entry,
+    } as IApiResponse);
+    return null;
+  }
+
+  const overlaps = req.body.allowOverlap === true ? [] : findOverlaps(entry, others);
+  if (overlaps.length > 0) {
+    res.status(409).json({
+      success: false,
+      message: `This position overlaps with ${overlaps.map(describePosition).join(', ')}. Send allowOverlap to save it anyway.`,
+      data: { overlaps: toWorkHistoryInfo(overlaps) },
+    } as IApiResponse);
+    return null;
+  }
+
+  return entry;
+};
+
+// Get the current user's work history
+export const getWorkHistory = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id).select('workHistory');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Work history retrieved successfully',
+      data: { workHistory: toWorkHistoryInfo(user.workHistory) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get work history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving work history',
+    } as IApiResponse);
+  }
+};
+
+// Add a position. It goes before the first one that started earlier, so a
+// chronological list stays chronological
+export const addWorkExperience = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select('workHistory');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (user.workHistory.length >= WORK_HISTORY_MAX_ENTRIES) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot list more than ${WORK_HISTORY_MAX_ENTRIES} positions`,
+      } as IApiResponse);
+      return;
+    }
+
+    const entry = checkPosition(req, res, user.workHistory);
+    if (!entry) return;
+
+    const index = user.workHistory.findIndex((other) => other.startDate < entry.startDate);
+    user.workHistory.splice(index === -1 ? user.workHistory.length : index, 0, entry);
+    await user.save({ validateModifiedOnly: true });
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'profile.update',
+      subject: String(user._id),
+      changes: [{ field: 'workHistory', before: null, after: describePosition(entry) }],
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Position added',
+      data: { workHistory: toWorkHistoryInfo(user.workHistory) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Add work experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error adding position',
+    } as IApiResponse);
+  }
+};
+
+// Replace a position, keeping its place in the list
+export const updateWorkExperience = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select('workHistory');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const existing = user.workHistory.id(String(req.params.id));
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: 'Position not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const entry = checkPosition(
+      req,
+      res,
+      user.workHistory.filter((other) => !other._id.equals(existing._id))
+    );
+    if (!entry) return;
+
+    const before = describePosition(existing);
+    existing.set(entry);
+    await user.save({ validateModifiedOnly: true });
+
+    const after = describePosition(existing);
+    if (before !== after) {
+      await recordAuditEvent({
+        ...getAuditContext(req),
+        action: 'profile.update',
+        subject: String(user._id),
+        changes: [{ field: 'workHistory', before, after }],
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Position updated',
+      data: { workHistory: toWorkHistoryInfo(user.workHistory) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Update work experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating position',
+    } as IApiResponse);
+  }
+};
+
+// Remove a position
+export const deleteWorkExperience = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id).select('workHistory');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const existing = user.workHistory.id(String(req.params.id));
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: 'Position not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const before = describePosition(existing);
+    user.workHistory.pull(existing._id);
+    await user.save({ validateModifiedOnly: true });
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'profile.update',
+      subject: String(user._id),
+      changes: [{ field: 'workHistory', before, after: null }],
+    });
+
+    res.json({
+      success: true,
+      message: 'Position removed',
+      data: { workHistory: toWorkHistoryInfo(user.workHistory) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Delete work experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error removing position',
+    } as IApiResponse);
+  }
+};
+
+// Put the positions in the given order; every position must be listed once
+export const reorderWorkHistory = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select('workHistory');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const ids: string[] = req.body.ids;
+    const entries = ids.map((id) => user.workHistory.id(id));
+
+    if (
+      ids.length !== user.workHistory.length ||
+      new Set(ids).size !== ids.length ||
+      entries.some((entry) => !entry)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'Order must list every position exactly once',
+      } as IApiResponse);
+      return;
+    }
+
+    user.set('workHistory', entries.map((entry) => entry?.toObject()));
+    await user.save({ validateModifiedOnly: true });
+
+    res.json({
+      success: true,
+      message: 'Work history reordered',
+      data: { workHistory: toWorkHistoryInfo(user.workHistory) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Reorder work history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error reordering work history',
+    } as IApiResponse);
+  }
+};
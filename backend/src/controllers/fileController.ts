@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { getFileStorage } from '../services/fileStorage';
+import { verifyFileDownloadToken, IFileDownloadPayload } from '../utils/tokens';
+import { IApiResponse } from '../types';
+
+// Stream a stored file to whoever holds a valid download link
+export const downloadFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let file: IFileDownloadPayload;
+    try {
+      file = verifyFileDownloadToken(String(req.params.token));
+    } catch (jwtError) {
+      res.status(404).json({
+        success: false,
+        message: 'This download link is invalid or has expired',
+      } as IApiResponse);
+      return;
+    }
+
+    const stream = await getFileStorage().get(file.key);
+
+    if (!stream) {
+      res.status(404).json({
+        success: false,
+        message: 'File not found',
+      } as IApiResponse);
+      return;
+    }
+
+    // fileName only holds characters that are safe inside the quotes
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      'Cache-Control': 'private, no-store',
+    });
+
+    stream.on('error', (streamError) => {
+      console.error('Download file stream error:', streamError);
+      res.destroy(streamError);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Download file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error downloading file',
+    } as IApiResponse);
+  }
+};
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import LoginEvent from '../models/LoginEvent';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { revokeAllUserTokens } from '../utils/tokens';
+import { describeLocation } from '../services/geoip';
+import { redeemLoginReport } from '../services/loginHistory';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+
+const LOGIN_HISTORY_LIMIT = 50;
+
+// Validation rules
+export const reportLoginValidation = [
+  body('token')
+    .isHexadecimal()
+    .withMessage('This link is invalid or has expired'),
+];
+
+// Recent logins to the current user's account, newest first
+export const getLoginHistory = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const logins = await LoginEvent.find({ user: req.user?._id })
+      .sort({ createdAt: -1 })
+      .limit(LOGIN_HISTORY_LIMIT);
+
+    res.json({
+      success: true,
+      message: 'Login history retrieved successfully',
+      data: logins.map((login) => ({
+        _id: login._id,
+        method: login.method,
+        device: login.device,
+        ip: login.ip,
+        location: describeLocation(login.location),
+        newDevice: login.newDevice,
+        unusualLocation: login.unusualLocation,
+        reportedAt: login.reportedAt,
+        createdAt: login.createdAt,
+        current: !!login.sessionId && login.sessionId === req.sessionId,
+      })),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get login history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving login history',
+    } as IApiResponse);
+  }
+};
+
+// "This wasn't me" from a new login alert: sign the account out everywhere.
+// Public, since whoever holds the password may also have changed it
+export const reportLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const login = await redeemLoginReport(req.body.token);
+
+    if (!login) {
+      res.status(400).json({
+        success: false,
+        message: 'This link is invalid or has expired',
+      } as IApiResponse);
+      return;
+    }
+
+    await revokeAllUserTokens(login.user);
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'auth.login.reported',
+      actor: String(login.user),
+      subject: String(login.user),
+      metadata: { loginId: String(login._id), sessionId: login.sessionId },
+    });
+
+    res.json({
+      success: true,
+      message: 'All sessions have been signed out. Reset your password to keep your account secure.',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Report login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error reporting login',
+    } as IApiResponse);
+  }
+};
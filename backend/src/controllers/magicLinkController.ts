@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { body, header, param, validationResult } from 'express-validator';
+import User from '../models/User';
+import { IAuthResponse } from '../types';
+import { hashToken } from '../utils/tokens';
+import { sendMagicLinkEmail } from '../services/emails';
+import { respondWithLogin } from './authController';
+
+const MAGIC_LINK_TTL_MINUTES = Number(process.env.MAGIC_LINK_TTL_MINUTES) || 15;
+export const MAGIC_LINK_DEVICE_HEADER = 'x-magic-link-device';
+
+const deviceIdRule = (chain: ReturnType<typeof body>) =>
+  chain
+    .isString()
+    .withMessage('Device identifier is required')
+    .isHexadecimal()
+    .withMessage('Device identifier is invalid')
+    .isLength({ min: 32, max: 128 })
+    .withMessage('Device identifier is invalid');
+
+// Validation rules
+export const requestMagicLinkValidation = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address')
+    .isLength({ max: 254 })
+    .withMessage('Email address is too long'),
+  deviceIdRule(body('deviceId')),
+];
+
+export const consumeMagicLinkValidation = [
+  param('token')
+    .isHexadecimal()
+    .withMessage('Sign-in link is invalid or has expired'),
+  deviceIdRule(header(MAGIC_LINK_DEVICE_HEADER)),
+];
+
+// Email a single-use sign-in link bound to the requesting device
+export const requestMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+
+    if (user) {
+      const token = crypto.randomBytes(32).toString('hex');
+
+      // Replaces any earlier pending link
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            magicLinkTokenHash: hashToken(token),
+            magicLinkExpires: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+            magicLinkDeviceHash: hashToken(req.body.deviceId),
+          },
+        }
+      );
+
+      // Not awaited so response timing does not reveal whether the account exists
+      sendMagicLinkEmail(user, token, MAGIC_LINK_TTL_MINUTES).catch((mailError) => {
+        console.error('Magic link email error:', mailError);
+      });
+    }
+
+    // Same response whether or not the account exists to prevent user enumeration
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a sign-in link has been sent',
+    } as IAuthResponse);
+  } catch (error) {
+    console.error('Magic link request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending sign-in link',
+    } as IAuthResponse);
+  }
+};
+
+// Exchange a sign-in link for a session
+export const consumeMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const tokenHash = hashToken(String(req.params.token));
+    const deviceHash = hashToken(String(req.header(MAGIC_LINK_DEVICE_HEADER)));
+
+    // Atomic claim makes the link single-use. Opening the link proves inbox ownership,
+    // which also verifies the address and lifts any password lockout
+    const user = await User.findOneAndUpdate(
+      {
+        magicLinkTokenHash: tokenHash,
+        magicLinkDeviceHash: deviceHash,
+        magicLinkExpires: { $gt: new Date() },
+      },
+      {
+        $set: { isEmailVerified: true, failedLoginAttempts: 0 },
+        $unset: { magicLinkTokenHash: 1, magicLinkExpires: 1, magicLinkDeviceHash: 1, lockUntil: 1 },
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      const requestedElsewhere = await User.exists({
+        magicLinkTokenHash: tokenHash,
+        magicLinkExpires: { $gt: new Date() },
+      });
+
+      res.status(requestedElsewhere ? 403 : 400).json({
+        success: false,
+        message: requestedElsewhere
+          ? 'This sign-in link was requested from a different browser. Open it there, or request a new link here'
+          : 'Sign-in link is invalid or has expired',
+      } as IAuthResponse);
+      return;
+    }
+
+    await respondWithLogin(user, req, res, 'magic-link');
+  } catch (error) {
+    console.error('Magic link sign-in error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during sign-in',
+    } as IAuthResponse);
+  }
+};
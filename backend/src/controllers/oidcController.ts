@@ -0,0 +1,269 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import User from '../models/User';
+import { IAuthResponse, IApiResponse } from '../types';
+import {
+  generateOidcSignupToken,
+  verifyOidcSignupToken,
+  generateEmailVerificationToken,
+} from '../utils/tokens';
+import {
+  getOidcConfig,
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  mapClaimsToProfile,
+  getMissingProfileFields,
+  generateRandomPassword,
+  MANDATORY_PROFILE_FIELDS,
+  OidcError,
+} from '../services/oidc';
+import { sendVerificationEmail } from '../services/emails';
+import { respondWithLogin } from './authController';
+
+// Profile fields the completion form may submit
+const SIGNUP_PROFILE_FIELDS = [...MANDATORY_PROFILE_FIELDS, 'noticePeriodDays'];
+
+// Validation rules
+export const oidcCallbackValidation = [
+  body('code')
+    .isString()
+    .withMessage('Authorization code is required')
+    .notEmpty()
+    .withMessage('Authorization code is required'),
+  body('state')
+    .isString()
+    .withMessage('State is required')
+    .notEmpty()
+    .withMessage('State is required'),
+];
+
+export const completeOidcSignupValidation = [
+  body('signupToken')
+    .isString()
+    .withMessage('Signup token is required')
+    .notEmpty()
+    .withMessage('Signup token is required'),
+];
+
+const findUserByIdentity = (issuer: string, subject: string) =>
+  User.findOne({ identities: { $elemMatch: { issuer, subject } } });
+
+// Whether single sign-on is available, and the label for its button
+export const getOidcProvider = async (req: Request, res: Response): Promise<void> => {
+  const config = getOidcConfig();
+
+  res.json({
+    success: true,
+    message: config ? 'Single sign-on is available' : 'Single sign-on is not configured',
+    data: { enabled: !!config, name: config?.name },
+  } as IApiResponse);
+};
+
+// Begin an authorization code + PKCE login
+export const startOidcLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { authorizationUrl, state } = await createAuthorizationRequest();
+
+    res.json({
+      success: true,
+      message: 'Redirect to the identity provider',
+      data: { authorizationUrl, state },
+    } as IApiResponse);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      res.status(503).json({
+        success: false,
+        message: error.message,
+      } as IApiResponse);
+      return;
+    }
+
+    console.error('OIDC authorize error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error starting single sign-on',
+    } as IApiResponse);
+  }
+};
+
+// Handle the provider redirect: link or find the account, or ask for missing profile fields
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    const claims = await exchangeAuthorizationCode(req.body.code, req.body.state);
+    const issuer = getOidcConfig()!.issuer;
+
+    let user = await findUserByIdentity(issuer, claims.sub);
+
+    if (!user) {
+      if (!claims.email) {
+        res.status(400).json({
+          success: false,
+          message: 'Your identity provider did not share an email address',
+        } as IAuthResponse);
+        return;
+      }
+
+      const email = claims.email.toLowerCase();
+      const existingUser = await User.findOne({ email });
+
+      if (existingUser) {
+        // Only a provider-verified address proves ownership of the existing account
+        if (!claims.email_verified) {
+          res.status(409).json({
+            success: false,
+            message: 'An account with this email already exists. Log in with your password instead',
+          } as IAuthResponse);
+          return;
+        }
+
+        await User.updateOne(
+          { _id: existingUser._id },
+          { $push: { identities: { issuer, subject: claims.sub, linkedAt: new Date() } } }
+        );
+        user = existingUser;
+      } else {
+        const profile = mapClaimsToProfile(claims);
+
+        res.json({
+          success: true,
+          message: 'Complete your profile to finish signing up',
+          requiresProfile: true,
+          signupToken: generateOidcSignupToken({
+            issuer,
+            subject: claims.sub,
+            email,
+            emailVerified: !!claims.email_verified,
+            profile,
+          }),
+          profile: { email, ...profile },
+          missingFields: getMissingProfileFields(profile),
+        } as IAuthResponse);
+        return;
+      }
+    }
+
+    await respondWithLogin(user, req, res, 'oidc');
+  } catch (error) {
+    if (error instanceof OidcError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      } as IAuthResponse);
+      return;
+    }
+
+    console.error('OIDC callback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during single sign-on',
+    } as IAuthResponse);
+  }
+};
+
+// Create the account once the user has supplied the fields the provider did not
+export const completeOidcSignup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IAuthResponse);
+      return;
+    }
+
+    let identity;
+    try {
+      identity = verifyOidcSignupToken(req.body.signupToken);
+    } catch (jwtError) {
+      res.status(401).json({
+        success: false,
+        message: 'Sign-up session has expired. Please sign in again',
+      } as IAuthResponse);
+      return;
+    }
+
+    const profile: Record<string, unknown> = { ...identity.profile };
+    SIGNUP_PROFILE_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined && req.body[field] !== '') {
+        profile[field] = req.body[field];
+      }
+    });
+
+    const missingFields = getMissingProfileFields(profile);
+    if (missingFields.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Please complete all required fields',
+        missingFields,
+      } as IAuthResponse);
+      return;
+    }
+
+    // The account may have been created from another tab or with a password meanwhile
+    const [linkedUser, existingUser] = await Promise.all([
+      findUserByIdentity(identity.issuer, identity.subject),
+      User.findOne({ email: identity.email }),
+    ]);
+    if (linkedUser || existingUser) {
+      res.status(409).json({
+        success: false,
+        message: 'An account for this identity already exists. Please sign in again',
+      } as IAuthResponse);
+      return;
+    }
+
+    const user = new User({
+      ...profile,
+      email: identity.email,
+      password: generateRandomPassword(),
+      isEmailVerified: identity.emailVerified,
+      identities: [{ issuer: identity.issuer, subject: identity.subject, linkedAt: new Date() }],
+    });
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      if (saveError instanceof mongoose.Error.ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: Object.values(saveError.errors).map((fieldError) => ({
+            path: fieldError.path,
+            msg: fieldError.message,
+          })),
+        } as IAuthResponse);
+        return;
+      }
+      throw saveError;
+    }
+
+    if (!user.isEmailVerified) {
+      try {
+        await sendVerificationEmail(user, generateEmailVerificationToken(user));
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
+    }
+
+    await respondWithLogin(user, req, res, 'oidc', 201);
+  } catch (error) {
+    console.error('OIDC signup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error completing sign-up',
+    } as IAuthResponse);
+  }
+};
@@ -2,6 +2,10 @@ import { Response } from "express";
 import { body, validationResult } from "express-validator";
 import User from "../models/User";
 import { IAuthenticatedRequest, IApiResponse } from "../types";
+import { recordAuditEvent, getAuditContext, diffAuditFields } from "../services/audit";
+import { toResumeInfo } from "./resumeController";
+import { toAvatarInfo } from "./avatarController";
+import { toWorkHistoryInfo } from "./experienceController";
 
 // Validation rules for profile update
 export const updateProfileValidation = [
@@ -115,6 +119,15 @@ export const updateProfileValidation = [
     .trim()
     .isLength({ max: 500 })
     .withMessage("Bio cannot exceed 500 characters"),
+  body("skills")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Cannot list more than 50 skills"),
+  body("skills.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Each skill must be between 1 and 50 characters"),
   body("experience")
     .optional()
     .trim()
@@ -158,9 +171,13 @@ export const getProfile = async (
         noticePeriod: user.noticePeriod,
         noticePeriodDays: user.noticePeriodDays,
         bio: user.bio,
+        skills: user.skills,
         experience: user.experience,
+        workHistory: toWorkHistoryInfo(user.workHistory),
         resumeUrl: user.resumeUrl,
+        resume: toResumeInfo(user.resume),
         avatar: user.avatar,
+        avatarImages: toAvatarInfo(user.avatarImages),
         isEmailVerified: user.isEmailVerified,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -218,6 +235,7 @@ export const updateProfile = async (
       "noticePeriod",
       "noticePeriodDays",
       "bio",
+      "skills",
       "experience",
       "resumeUrl",
       "avatar",
@@ -255,6 +273,20 @@ export const updateProfile = async (
       return;
     }
 
+    const changes = diffAuditFields(
+      user.toObject(),
+      updatedUser.toObject(),
+      Object.keys(updates)
+    );
+    if (changes.length > 0) {
+      await recordAuditEvent({
+        ...getAuditContext(req),
+        action: "profile.update",
+        subject: String(updatedUser._id),
+        changes,
+      });
+    }
+
     res.json({
       success: true,
       message: "Profile updated successfully",
@@ -275,9 +307,13 @@ export const updateProfile = async (
         noticePeriod: updatedUser.noticePeriod,
         noticePeriodDays: updatedUser.noticePeriodDays,
         bio: updatedUser.bio,
+        skills: updatedUser.skills,
         experience: updatedUser.experience,
+        workHistory: toWorkHistoryInfo(updatedUser.workHistory),
         resumeUrl: updatedUser.resumeUrl,
+        resume: toResumeInfo(updatedUser.resume),
         avatar: updatedUser.avatar,
+        avatarImages: toAvatarInfo(updatedUser.avatarImages),
         isEmailVerified: updatedUser.isEmailVerified,
         createdAt: updatedUser.createdAt,
         updatedAt: updatedUser.updatedAt,
@@ -308,6 +344,12 @@ export const deleteProfile = async (
       return;
     }
 
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: "profile.delete",
+      subject: String(user._id),
+    });
+
     // Soft delete - you can implement this based on your requirements
     // For now, we'll just return a success message
     res.json({
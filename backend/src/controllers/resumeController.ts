@@ -0,0 +1,285 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { IAuthenticatedRequest, IApiResponse, IStoredFile } from '../types';
+import { detectFileType, safeFileName, FILE_TYPES } from '../utils/fileType';
+import { generateFileKey, getFileStorage } from '../services/fileStorage';
+import { generateFileDownloadToken, FILE_DOWNLOAD_EXPIRES_IN_SECONDS } from '../utils/tokens';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+import { extractResumeText, ResumeTextError } from '../services/resumeText';
+import { parseResume } from '../services/resumeParser';
+
+export const RESUME_MAX_BYTES = (Number(process.env.RESUME_MAX_SIZE_MB) || 5) * 1024 * 1024;
+
+// What clients see of a stored resume; the storage key stays on the server
+export const toResumeInfo = (resume?: IStoredFile) =>
+  resume
+    ? {
+        fileName: resume.fileName,
+        contentType: resume.contentType,
+        size: resume.size,
+        uploadedAt: resume.uploadedAt,
+      }
+    : undefined;
+
+// Removing the old file is best effort: an orphaned file is only wasted space
+const deleteStoredFile = (file?: IStoredFile): void => {
+  if (!file) return;
+
+  getFileStorage().delete(file.key).catch((error) => {
+    console.error('Delete stored file error:', error);
+  });
+};
+
+const createDownloadLink = (resume: IStoredFile) => {
+  const token = generateFileDownloadToken({
+    key: resume.key,
+    fileName: resume.fileName,
+    contentType: resume.contentType,
+  });
+
+  return {
+    token,
+    url: `/api/files/${token}`,
+    expiresAt: new Date(Date.now() + FILE_DOWNLOAD_EXPIRES_IN_SECONDS * 1000),
+  };
+};
+
+// Upload or replace the current user's resume
+export const uploadResume = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'Choose a file to upload',
+      } as IApiResponse);
+      return;
+    }
+
+    const fileType = detectFileType(req.file.buffer);
+    if (fileType !== 'pdf' && fileType !== 'docx') {
+      res.status(415).json({
+        success: false,
+        message: 'Resume must be a PDF or Word (.docx) document',
+      } as IApiResponse);
+      return;
+    }
+
+    const { mimeType, extension } = FILE_TYPES[fileType];
+    const resume: IStoredFile = {
+      key: generateFileKey('resumes', extension),
+      fileName: safeFileName(req.file.originalname, extension),
+      contentType: mimeType,
+      size: req.file.size,
+      uploadedAt: new Date(),
+    };
+
+    await getFileStorage().put(resume.key, req.file.buffer, resume.contentType);
+
+    // Returns the user as it was, so the file being replaced is known even if two uploads race
+    const previous = await User.findByIdAndUpdate(req.user?._id, { $set: { resume } });
+
+    if (!previous) {
+      deleteStoredFile(resume);
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    deleteStoredFile(previous.resume);
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'profile.update',
+      subject: String(previous._id),
+      changes: [{ field: 'resume', before: previous.resume?.fileName ?? null, after: resume.fileName }],
+    });
+
+    res.json({
+      success: true,
+      message: 'Resume uploaded successfully',
+      data: { resume: toResumeInfo(resume) },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Upload resume error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error uploading resume',
+    } as IApiResponse);
+  }
+};
+
+// Remove the current user's resume
+export const deleteResume = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const previous = await User.findByIdAndUpdate(req.user?._id, { $unset: { resume: 1 } });
+
+    if (!previous) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (previous.resume) {
+      deleteStoredFile(previous.resume);
+
+      await recordAuditEvent({
+        ...getAuditContext(req),
+        action: 'profile.update',
+        subject: String(previous._id),
+        changes: [{ field: 'resume', before: previous.resume.fileName, after: null }],
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Resume removed',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Delete resume error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error removing resume',
+    } as IApiResponse);
+  }
+};
+
+const readStoredFile = async (key: string): Promise<Buffer | null> => {
+  const stream = await getFileStorage().get(key);
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Profile suggestions read from the current user's resume; nothing is saved
+export const getParsedResume = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id).select('resume');
+    const data = user?.resume ? await readStoredFile(user.resume.key) : null;
+    const fileType = data ? detectFileType(data) : null;
+
+    if (!data || !fileType) {
+      res.status(404).json({
+        success: false,
+        message: 'No resume uploaded',
+      } as IApiResponse);
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await extractResumeText(data, fileType);
+    } catch (extractError) {
+      if (!(extractError instanceof ResumeTextError)) throw extractError;
+
+      console.error('Resume text extraction error:', extractError.message);
+      text = '';
+    }
+
+    // Scanned resumes are images, with no text to read
+    if (!text.trim()) {
+      res.status(422).json({
+        success: false,
+        message: 'No text could be read from this resume. Scanned documents are not supported.',
+      } as IApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Resume parsed',
+      data: parseResume(text),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Parse resume error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error parsing resume',
+    } as IApiResponse);
+  }
+};
+
+// Short-lived download link for the current user's resume
+export const getResumeLink = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id).select('resume');
+
+    if (!user?.resume) {
+      res.status(404).json({
+        success: false,
+        message: 'No resume uploaded',
+      } as IApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Download link created',
+      data: createDownloadLink(user.resume),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get resume link error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating download link',
+    } as IApiResponse);
+  }
+};
+
+// Short-lived download link for a candidate's resume
+export const getCandidateResumeLink = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = mongoose.isValidObjectId(id) ? await User.findById(id).select('resume') : null;
+
+    if (!user?.resume) {
+      res.status(404).json({
+        success: false,
+        message: 'No resume uploaded',
+      } as IApiResponse);
+      return;
+    }
+
+    await recordAuditEvent({
+      ...getAuditContext(req),
+      action: 'resume.download',
+      subject: String(user._id),
+    });
+
+    res.json({
+      success: true,
+      message: 'Download link created',
+      data: createDownloadLink(user.resume),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get candidate resume link error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating download link',
+    } as IApiResponse);
+  }
+};
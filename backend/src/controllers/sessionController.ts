@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Session from '../models/Session';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import {
+  findActiveSession,
+  getRequestContext,
+  getSessionTimeouts,
+  isSessionIdle,
+  revokeTokenFamily,
+  revokeAllUserTokens,
+  touchSession,
+} from '../utils/tokens';
+
+// List active sessions for the current user
+export const getSessions = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const sessions = await Session.find({
+      user: req.user?._id,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastSeenAt: -1 });
+
+    res.json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: sessions.filter(session => !isSessionIdle(session)).map((session) => ({
+        _id: session._id,
+        device: session.device,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session.id === req.sessionId,
+      })),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving sessions',
+    } as IApiResponse);
+  }
+};
+
+// Sign out a single session
+export const revokeSession = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      } as IApiResponse);
+      return;
+    }
+
+    const session = await Session.findOne({
+      _id: id,
+      user: req.user?._id,
+      revokedAt: { $exists: false },
+    });
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      } as IApiResponse);
+      return;
+    }
+
+    await revokeTokenFamily(session.id);
+
+    res.json({
+      success: true,
+      message: 'Session signed out',
+      data: { current: session.id === req.sessionId },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error signing out session',
+    } as IApiResponse);
+  }
+};
+
+// Sign out everywhere, including the current session
+export const revokeAllSessions = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await revokeAllUserTokens(req.user?._id);
+
+    res.json({
+      success: true,
+      message: 'Signed out of all sessions',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error signing out sessions',
+    } as IApiResponse);
+  }
+};
+
+// Reset the idle timeout of the current session, e.g. from the expiry warning.
+// The absolute limit still applies
+export const extendSession = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const session = await findActiveSession(req.sessionId);
+
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has expired. Please log in again.',
+      } as IApiResponse);
+      return;
+    }
+
+    await touchSession(session, getRequestContext(req), true);
+
+    res.json({
+      success: true,
+      message: 'Session extended',
+      data: getSessionTimeouts(session),
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Extend session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error extending session',
+    } as IApiResponse);
+  }
+};
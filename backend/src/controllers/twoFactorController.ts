@@ -0,0 +1,292 @@
+import { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import QRCode from 'qrcode';
+import User from '../models/User';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { generateTotpSecret, buildOtpAuthUrl, verifyTotpCode, getCurrentStep } from '../utils/totp';
+import { verifySecondFactor, createRecoveryCodes, TWO_FACTOR_FIELDS } from '../services/twoFactor';
+
+// Validation rules
+export const twoFactorCodeValidation = [
+  body('code')
+    .isString()
+    .withMessage('Authentication code is required')
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+    .isLength({ max: 20 })
+    .withMessage('Authentication code is too long'),
+];
+
+export const disableTwoFactorValidation = [
+  body('password')
+    .isString()
+    .withMessage('Password is required')
+    .notEmpty()
+    .withMessage('Password is required'),
+  ...twoFactorCodeValidation,
+];
+
+// Start enrollment: generate a pending secret and its provisioning URI
+export const setupTwoFactor = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      } as IApiResponse);
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorPendingSecret: secret } });
+
+    res.json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: { secret, otpauthUrl, qrCode },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error starting two-factor setup',
+    } as IApiResponse);
+  }
+};
+
+// Confirm enrollment with a code from the authenticator app
+export const enableTwoFactor = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select('+twoFactorPendingSecret');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      } as IApiResponse);
+      return;
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup before confirming a code',
+      } as IApiResponse);
+      return;
+    }
+
+    const step = verifyTotpCode(user.twoFactorPendingSecret, req.body.code);
+
+    if (step === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+      } as IApiResponse);
+      return;
+    }
+
+    const { codes, hashes } = createRecoveryCodes();
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorRecoveryCodes: hashes,
+          twoFactorLastUsedStep: Math.max(step, getCurrentStep()),
+        },
+        $unset: { twoFactorPendingSecret: 1 },
+      }
+    );
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+      data: { recoveryCodes: codes },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error enabling two-factor authentication',
+    } as IApiResponse);
+  }
+};
+
+// Disable 2FA; requires both the password and a current code
+export const disableTwoFactor = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select(`+password ${TWO_FACTOR_FIELDS}`);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      } as IApiResponse);
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(req.body.password);
+    if (!isPasswordValid) {
+      res.status(401).json({
+        success: false,
+        message: 'Incorrect password',
+      } as IApiResponse);
+      return;
+    }
+
+    const method = await verifySecondFactor(user, req.body.code);
+    if (!method) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      } as IApiResponse);
+      return;
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      }
+    );
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error disabling two-factor authentication',
+    } as IApiResponse);
+  }
+};
+
+// Replace all recovery codes; requires a current code
+export const regenerateRecoveryCodes = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      } as IApiResponse);
+      return;
+    }
+
+    const method = await verifySecondFactor(user, req.body.code);
+    if (!method) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      } as IApiResponse);
+      return;
+    }
+
+    const { codes, hashes } = createRecoveryCodes();
+
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorRecoveryCodes: hashes } });
+
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      data: { recoveryCodes: codes },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error regenerating recovery codes',
+    } as IApiResponse);
+  }
+};
@@ -0,0 +1,148 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import User from '../models/User';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { ROLES } from '../config/roles';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Validation rules
+export const listUsersValidation = [
+  query('role')
+    .optional()
+    .isIn(ROLES)
+    .withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+];
+
+export const updateUserRoleValidation = [
+  body('role')
+    .isIn(ROLES)
+    .withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+];
+
+// List users, optionally filtered by role
+export const listUsers = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || DEFAULT_PAGE_SIZE;
+    const filter = req.query.role ? { role: String(req.query.role) } : {};
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .select('email firstName lastName role isEmailVerified createdAt')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Users retrieved successfully',
+      data: { users, total, page, limit },
+    } as IApiResponse);
+  } catch (error) {
+    console.error('List users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving users',
+    } as IApiResponse);
+  }
+};
+
+// Change a user's role
+export const updateUserRole = async (
+  req: IAuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      } as IApiResponse);
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    // Prevents an admin from accidentally removing the last admin account (their own)
+    if (String(req.user?._id) === id) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role',
+      } as IApiResponse);
+      return;
+    }
+
+    const previous = await User.findById(id).select('role');
+    const user = await User.findByIdAndUpdate(
+      id,
+      { $set: { role: req.body.role } },
+      { new: true, runValidators: true }
+    ).select('email firstName lastName role');
+
+    if (!previous || !user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      } as IApiResponse);
+      return;
+    }
+
+    if (previous.role !== user.role) {
+      await recordAuditEvent({
+        ...getAuditContext(req),
+        action: 'user.role.change',
+        subject: id,
+        changes: [{ field: 'role', before: previous.role, after: user.role }],
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: user,
+    } as IApiResponse);
+  } catch (error) {
+    console.error('Update user role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating role',
+    } as IApiResponse);
+  }
+};
@@ -0,0 +1,5795 @@
+// Generated by `npm run build-breach-corpus -- --common src/data/breachedPasswordPrefixes.ts`; do not edit.
+// Leading 64 bits of the SHA-1 of each password, sorted.
+export const BREACHED_PASSWORD_PREFIXES = `
+00040BAB8A787438
+0024847BCDE1E1DD
+003DD204693F075C
+004676543ACBD851
+00619DFCEDB6C415
+0067EFEAED41979D
+006839D264A38B7F
+0070F41745458F4F
+00741C623B5DD3D2
+0081B35E256F5F2A
+008692B2675EDF1C
+009E2861BB8A794B
+00C8D308D3DD38C1
+00CAFD126182E8A9
+00D0CC73B22D918A
+00D26545131CF084
+00E84838AC42E426
+00F266349E9B9969
+011C945F30CE2CBA
+012A97D22691E125
+0137924C116A42CF
+0138C8EA87981F92
+013E8975490BFF35
+0146F1CEF5DD4732
+014A95C071794D5B
+0166D1831E669E59
+01717A4C1272A486
+0182CDFCDD022FC3
+0182F97B66C29030
+018F4D7F06CB8626
+0196EAF96C0BB7DB
+019DB0BFD5F85951
+01AAF02F0526FAD6
+01AF0A541C761FB7
+01B307ACBA4F54F5
+01BF0DCDF8624693
+01C5A5EE221FDE71
+01CACAFAA0095A38
+01DC8B6B924FE15D
+01ECB292A477ACD8
+01F6C861BF8C1DD0
+020D0EDC83583B3C
+021FD1B957130801
+022E9C71439ACBCF
+0242E729276FD055
+0266C2B9E64DD0E7
+0269394C60B8CB10
+0270FBC54FCCEA71
+0283B84EE2F01437
+028F8169AA3C1B2A
+02A2C37A892EBF8F
+02A9C51C7F1E597C
+02B3BBAF45317FB8
+02D54BB867043E5A
+02E0A999C50B1F88
+02FAE84D684550F9
+02FE7B93D8170546
+030A6A7D29D486F7
+0324D06DBABDC112
+0340201FD40FB79A
+0341A9F0C0E89D33
+03480D9A0C08DAC7
+035D5C52F29FBEDE
+035E05F676144CA0
+036097BB91274CB6
+03635376E0789592
+036473B6449D1261
+036862374D6B7107
+037806984199EB23
+03826807F49ED43A
+0383C99D260049C7
+03896534C389418A
+03B2D10B947DB789
+03B99080733BFA41
+03C53C0D7AF9293A
+03CA95DA1E4443A8
+03D1738323369461
+03D4CE08733775F6
+03D8528F4CE055D2
+03FAF2D2D9B50F2C
+03FDF1323C8D4770
+0405F09E8CCD8CE4
+040AAC5D65A96494
+04127CC5DFB8C023
+04251FA17BA204A7
+043A558250409758
+044507C8314178F5
+044528E0ABAE88F7
+0462F23328F763D9
+04682C691D405FA6
+046F7CEEB5A470E1
+047B2F0A54535D12
+04915E0BD8DAA11C
+04B4EF92623BB8C3
+04C7C9550C0F3CC9
+04D32F5F48043811
+04E98B1CA45BDFB5
+04EC4ABE1B8321C4
+04F16D26C7C45643
+04FCF96D062914E8
+050B4DC2A85FA8CF
+05149731278CD6B0
+0523340000F8A88E
+056999EE57583DB4
+05702D832CA36B37
+05709932B3339E62
+057AA041D78822C9
+0594D7672D004700
+0597390906253F44
+059A69F5CCC9681F
+059BFC4354E42882
+05A756D0E7EFDF51
+05B3B3D31169820B
+05B530AD0FB56286
+05BF33C787E61EBF
+05CC52D1635CF1FA
+05CDEF2E8EEDFF3B
+05D8965F3F807B41
+05E01C11881B989D
+05ECBB6C2EB23F03
+05ED445FDF027FCF
+05EF7C240C22FEFA
+05F1B881B8DFA8C6
+05F9BC2B2234EA66
+05FE7461C607C332
+05FFF318C93859A7
+0602549DAD0BFB04
+060989C480543473
+06103C0CF2B332CE
+0611AF583293C392
+061713FA2AD37643
+06520A7ADD1BEAFC
+0655889EF1E98837
+065B9B75745B5392
+066300038230933E
+0670A30925EB0DB1
+0670A57BEC2B7C91
+0684E0D7FF2B1F1A
+068942C83F0E6994
+0691541B97B77F84
+069F628C6633CBA7
+069FA2514BD8BF1D
+06A3FD76243303FC
+06A4F20B0B7045D7
+06A5EC8376C2D8CA
+06B59B8B5ED2C8CA
+06B8448847F2B180
+06CEFB4468F7FAF5
+06D05B4CAE8178DF
+06DCFB657E685FF1
+06E3C4CC620E7BE9
+06EE8B41CC931E64
+06EEAED7AA0F2055
+06EEC9F0F596C864
+0716B9029D0818CB
+0721F518A848C222
+0722B3651BE10EEB
+073158933D0377D4
+0735EC8B35A32631
+07516E8137D0EEA3
+0753273276F649BE
+0754C2B0D11FA325
+07697448AC63CF85
+076BEB6D53F3B0E9
+076D3E6C4B9F654B
+0775E69605702623
+077ED126D3ACAA6C
+07970D19156505CF
+079711EA16F37FE4
+079F6548028BBF1A
+079F6A5880AA8E01
+07A68EA87C4D0535
+07B64F169450E860
+07DEDBBD9E222A73
+07E28CEEEBBC676B
+07F22CA713561A41
+07FE73AF1F604A80
+0806029055E2A419
+080C689FC8AC1389
+08104F1A1AE0186B
+08175C9C3B9721D4
+081BBFE5E6B96DA4
+0829CF835B86C7C5
+08354E4CA62779A0
+0845F1D54A18D462
+084901B8DB9CA97E
+08510FF852E8F411
+085955715A2FE34C
+08713E024920AD97
+08802D707979E4D7
+08808065106E0F48
+08912AD2BBA2067F
+089849790A229B01
+0899D9CB497A31E5
+08A14F4BF1255FBE
+08B314F0E1E2C41E
+08D3F81B1E907D13
+08D429F6DE6ECEF2
+08D7DE6CBF6C3FA0
+0906AD137AB6685E
+09179091767C52C2
+0933168E90687729
+094AD16A6F80FD0F
+095D863EAC333786
+0963992090AAC2D5
+0972BFAB325B2ABF
+097E4B32DAB832C3
+098C3FDEA75EA905
+098C6EBBEB98EAED
+0999FAB182973AAC
+09B8626D6F0455AB
+09E89404B17A4F5D
+09FB6AABA7940A7B
+0A13BF8F98C22921
+0A2393B5B57B17E4
+0A24C7CE70492D8E
+0A390B16ED2C6373
+0A4EE619F1F0F468
+0A590A2DBC729ADD
+0A592504B8107FD6
+0A59A641CF2E81DA
+0A649BD70EA375F2
+0A68D6A807F35962
+0A7050DA275BDF5F
+0A80C0E9844B66EF
+0A828390A686A4A0
+0A8A4F7B9B6ADB0B
+0AA7D33CCF0BB2FB
+0ABD35C1FE71E592
+0AD55B76FBC0C451
+0AF11F951AF648C4
+0AF9697427927D87
+0B03FF0D6F770CE9
+0B0462B2B0A13B01
+0B04D280B9D7D1FA
+0B1061180F867996
+0B11A335BDF17F9E
+0B12FC56D3B2C3F3
+0B15C29A853923C6
+0B1ACF145EAA1028
+0B1C425D9D0E5931
+0B2D293306511D90
+0B2FF7669F8405F5
+0B45A0FA5D0EB475
+0B45B25B9513C0C5
+0B4EEB35457C3624
+0B52E19EE73AEB1D
+0B53DBAA8388E883
+0B6C5DB2B5F4BDC3
+0B6DC854A7C4FCB3
+0B70AD5AC90D2BB0
+0B7D9F78A0E9A3CB
+0B7FBF343D9A2840
+0B9B86B0E8E53648
+0BA96775C19E26EB
+0BB25C4153A91812
+0BB31A7D6098F867
+0BB9A330F137DA16
+0BC3F4F5407716D1
+0BC88F539E76B71E
+0BE0B21D890744C4
+0BFCD340521016EE
+0BFDFCBC40FE3FE3
+0C0329E6FAD1348E
+0C04EE7B95ECC0A6
+0C2DD2C57C17EFFF
+0C3A5274908A640B
+0C4BED0E78BF4605
+0C4C611E92F59A90
+0C67AC18F50C5E6B
+0C6ADAD7F4D2E1AE
+0C6BA03885F3AAE7
+0C6D47A02431F6D3
+0C7353E619903B50
+0C7C591C40CC79D4
+0C9A9EE62603C2E0
+0CB5C9DF80BDB530
+0CC25D77BF6D3369
+0CD401C6A9D04917
+0CD4486BA88B5DB7
+0CE7911E6479995D
+0CECDB770BE6D1A3
+0CF222D337962A51
+0CF25E0C884CD39B
+0CFCE03424AA2AB7
+0D047160D703544F
+0D05E2CBD1BB6BF9
+0D0C65E86C444A03
+0D0CBB59296D9ACC
+0D0D0A992100260F
+0D1D35EA8F8454D5
+0D20358119015198
+0D363B06D6988D70
+0D3641A06E002213
+0D48871649D04CCF
+0D557DF22DBDD712
+0D5ED49A4D21522E
+0D68EF4CFAEC3326
+0D6A864B3EF04944
+0D907605375FD2DB
+0DB7C8249BE751EA
+0DC14CBE8AF76ED4
+0DD9DD82E5F26BFA
+0DE03B0DCA4ED30D
+0DE0E632647ABDB0
+0DEB13CB7FA65D66
+0DEDC12C17B35ECF
+0DEFA6326549B4AA
+0E038EEE8179BBF2
+0E1559B2792DE2BD
+0E2D319ADF28A2A1
+0E3594338E961365
+0E5C106AAB172CBD
+0E6234D13E44C976
+0E63CDB1F7EEA08E
+0E66413E4E744A18
+0E670764B21B9268
+0E6AC7DC36812181
+0E6F6DF6097063A1
+0E7490C207D41285
+0E7D5AFCBF585FC0
+0E818BFA0679DF30
+0E8470CA6F3B4334
+0E9330E6F99CB3FF
+0E951912FED1B299
+0E9BA4DA29658FBA
+0EA35A0C06B3DFA6
+0EABEDE9EA8ABB69
+0EB4DC1A95186951
+0EB6B0F93C0B05E4
+0EBA8C0EF7D65688
+0EBD4153E37DDA12
+0EC046231CAF3B0E
+0EC8577112E3915E
+0ECC17990368FEE5
+0ED47904A3B8DA39
+0ED610F5A1462FDB
+0ED753431CE86CEC
+0ED7E0D0E8E1EDF0
+0EE273E0BB3633B7
+0EF94897248AC954
+0F0D959BCA569BF2
+0F12541AFCCE175F
+0F194184CFEC113B
+0F200D64AF5C7E61
+0F2443F86383A937
+0F2DE2D4EE15A866
+0F50AEC131CA9329
+0F526124D9C0E976
+0F8CAA0C368CE3C2
+0F92598DEC991F5E
+0FA1D697C5BFC54E
+0FAE163097E48FB6
+0FB78778A2CFBB22
+0FBF38A7F8BFB925
+0FC6791A91D23F01
+0FCECB634323A605
+0FDB3B756D03D220
+0FE40BAC0803AC1C
+0FE87DAE9A8FC1E6
+0FF7EE492AB18E26
+1001B22C8E4ADEB7
+100B37D8D724E387
+10160D7B5E756752
+10357C088B8AB60E
+1036CCDA40BDA0A1
+103E2741D60BC2B4
+10470BECDD3563E9
+104E03314A82F3FB
+105DD42109558E4F
+1070427D103D20B9
+1078EB979190C734
+107E1B40ACAAE010
+107F7E20FAE38A93
+1084F6129E31A87D
+1088EB4AC4B6F4FC
+1092224E2A98AA4D
+10B04416A1615689
+10BAF437844C2510
+10C28F9CF0668595
+10C5006604BB715B
+10C6EF80BE6D28D3
+10CB94878F17CC89
+10D7B0BCEA5E1564
+10E4F3819007F514
+10EF3381EC67B35D
+10F538641504912D
+10FBD625E87A8DC9
+110820B2A94725F2
+1119163822B57E48
+111DFCB7A84ED9C2
+113C8F6557890DA2
+1144E9791066FCC2
+1145EB1928194959
+1146F61B3FA58EDB
+11555732DBAB9A06
+11594787A658A5DE
+119094EDFF9A523A
+1195E9A2C742EE4D
+119FFAB9FDA36E29
+11A2CC5B2FD6BC44
+11AEA6C3E27D3817
+11C72026127CE8FB
+11E48ECB5FDD9294
+11E7F8721C686BA8
+11F52AD50E8A42C8
+11FDA339A0226B37
+1203A4C689075867
+121AAD342AC15384
+122A417E6DCE08A4
+1239BDCBA17D6EEC
+123A7F2FCC9AE7CB
+12436980D761276B
+1249D35E5A033FC9
+1252626215E3FDDD
+1259718088E77006
+1266071A07B096DF
+127A661B8E2A7DD2
+127D62046A9DAE3A
+12B6972BB0799827
+12C37C5126282502
+12CA42C1D399B507
+12D57965BD88277E
+12D6098D8850F0B3
+12E05D38EB2777B7
+12E441624E16C2D4
+12E9293EC6B30C7F
+12F58634DC5DE953
+12FBA646C9B7F424
+1315ED28843916B6
+1318A6486B49F2B7
+1319AF9FD4C15C0D
+131BD316A77423E6
+1328E471EF902634
+133AFA9AD91545EC
+133C81002A0F73BE
+13422800E9E191B1
+134D4721126E91E0
+134E9305305A1E7C
+136B5D14880C8593
+138668B0D2A010DE
+138A66B6D4C0D608
+1390470C09DAF4C6
+1392237F1F8808C4
+13936E8898449DA2
+13A20F8DA7A80776
+13AE11065F3F55AD
+13B321B8CC61781A
+13B6A901C927720F
+13C3D98D3A2445AF
+13EBFB2A17993993
+13EC84EE74A20EE1
+140544CF924C39D4
+1411678A0B9E25EE
+143E68F1CB13A88B
+1467609B7FFA3AA2
+147847D73EE819CF
+14784B70487F4821
+1484FEACC191D0F9
+1488FB4630C5E20B
+14A3C4842FF4328C
+14BF48AE79E614D9
+14C09857B9C731A3
+14CBB72487C6EC6A
+14E72E2CC0E76C5A
+14ED9460B2AB646C
+14F368FEFFF31B9F
+1507EB4FA8389A32
+150C4FA01B8B2D6C
+15174E8FCF054E36
+151F1E642D6E4792
+151FF308E2C3A2B1
+153EED925DF20370
+15430166255A47B9
+1544E51B3E27AC53
+1551AFAEA91D8CE9
+1553773633850429
+156030C639974FCD
+1561482C12922224
+157C98538ED3183C
+1580C79FC7C428C1
+158404F91A729CEF
+158442FD5DB9FD8B
+15B026F90CE9D848
+15C7BA7F24767894
+15D834B328BB637E
+15E9518E21BEAADD
+15F1A0DE4FD145C2
+15F3752D6E19E839
+1620E96FABB0D36E
+162FD259D9C6C8F2
+16452C2DEC19A293
+1645EE78DE0F7C73
+164F8B618184DFC0
+16733AB87A538BC2
+16754CDD4BF4E7A5
+16782C4FDE9C19FA
+168DBF97F50E0A2B
+16A48B13F8751F5D
+16B3B819C7136698
+16BAE82949E4B99F
+16D74AA0133CCAAD
+16DE28EDBBF5D5B0
+16E9BB9E0517B5A8
+170EBD9BF3B2A6DC
+171CBE7E0C05248D
+171FA090072BD590
+17287DA2AE643537
+17305A2F2AED9D58
+1735691A0A8CFD41
+1735E47911B8FCD7
+17388C60A4B93421
+173DB088B2BBAF8D
+17614850F4F7D23D
+17704FCB3DB07D7C
+177B8A99DB9CA6FC
+178067EABBBBCEAD
+179940664680BF4B
+179A0CEB3BB4B943
+17B9E1C64588C7FA
+17C26A11199E3E4D
+17C283446D32F61A
+17E5617C2C760D0F
+17E7AA702EEDF4C7
+17EF32845B864BB6
+1800C1A172518EBD
+180E4E63EE810548
+180F0969DB3573C5
+182758929D2DFAE2
+183B1A1B10640465
+184778732615DDEF
+18639284746A5848
+1882FB6C4A421D45
+18858605FBF56D4D
+188C6E7B7BBEA62A
+189D2B4D61D6C47F
+18B8183066B5212D
+18BFCB298472A2D5
+18C28604DD31094A
+18C2CE04A1B6E022
+18CA2EFDF506DF16
+18DC4028BCDAF196
+18DD28435D5FCB2B
+18E3E3C5E8778CF7
+18E838C22920F500
+18F4FDEFF9A7A554
+1900D77B82BA5F7F
+1904FDEA1EEDEC71
+190C8CC91C728D49
+191CCA9A9C246040
+19485E369C691FA8
+1959DB8C23EEB9E1
+198445C238355FAD
+198B63901FB37CBE
+198D53D9465E5C40
+1993622B35ED43DF
+1998A22A258709F8
+1999E4893F732BA3
+19AD8EC7231E0CC9
+19B056140116019A
+19DEFA00BD720A50
+19F04F1C483CD0AE
+19F1205A2CD75276
+1A10F114846A7D93
+1A186B2D0F57F26F
+1A29AB0F427C2D0E
+1A2FB00F8D53BB72
+1A2FD1BEE7A70A37
+1A372715BFB41FBE
+1A3736E8BD74BC74
+1A4FC97E09415188
+1A7301F3DAA2A477
+1A7826F79DF74D62
+1A841AEECCB03B00
+1A8565A9DC72048B
+1A96C735C2CA72D3
+1A9B436C6C8C9927
+1AA25EAD38808254
+1AAFF3342C824D71
+1ABDCAFBE0E448A8
+1AC2E3E95FE7B180
+1AE61A1E2E18BDAF
+1AEE0642C8C8122E
+1AF371DF800D25FD
+1AFC5E24B19775B1
+1AFD551B7E6CB1F6
+1B0281EEFE1BB88E
+1B081FFC24F3776D
+1B08C92BE66784B8
+1B12848AD00B6657
+1B17664D76EBE215
+1B1C34D33F8E9588
+1B2B371B6A0D595F
+1B4627AA036F372E
+1B4B9816A4E99FD8
+1B54A044C052436A
+1B602C45BE3D9E7C
+1B67966BAFE1D29C
+1B70AD4BB4A5DAF5
+1B86F86C883BEC42
+1B8A53B9A6297597
+1B9D0AF558CAE438
+1BA33206BBFAA660
+1BA634B76D2E23E9
+1BCCB507D53B09AD
+1BD79603BD242FF9
+1BE708F48ADF5AE2
+1C19B696C6D52847
+1C1B39BBCC7DD656
+1C1E548837C800E8
+1C30D128BC8FC233
+1C357A99A7F0125B
+1C3957DF4ABD15C3
+1C3AD7285D885A93
+1C439FAC021803DE
+1C542E79C9B4257E
+1C6AA1ED9F2AB100
+1C6D24DF5A5A13B0
+1C6E48A00F80E17A
+1C7CBBDCAA8527E9
+1C8E29040762FBAB
+1C90591709108353
+1C98E23B773F96DB
+1C9E4D0D9B5045F6
+1CAFB04809C1708D
+1CB5BD5A9E454203
+1CD2EE3351AA6502
+1CDF5D93825316BA
+1CE762B83EFB3426
+1D0E73FF2ABF31D5
+1D3F46BED35B9E62
+1D4FC599676D5388
+1D57FADCF9D3BDBB
+1D6DA91A4A48B990
+1D78AC438374EBDF
+1D7E3BEA6CEC9C28
+1D80647F28F57D02
+1D81B5F6815BF0DA
+1DB976637EB9B082
+1DC043BB8EB56468
+1DC80FA9AA448DB8
+1DCB2BE1266496FF
+1DD85A963E415A3E
+1DF2E12658A0661B
+1E042403F13C7F6B
+1E0527882BE2E225
+1E277CFB343FAA48
+1E365F7FB15D292E
+1E377A41311EFA24
+1E390FAA4D7473E8
+1E3C893415D0D0F5
+1E41C981637834CA
+1E5F4BF501881966
+1E5FA75167DE66D1
+1E690CA3BEF69ADF
+1E6BB442C013C58B
+1E736368723AA5C8
+1E7C0724CD250492
+1E93D875AE3445F8
+1EB965A92A4BB668
+1EBC16E108B7AFD9
+1ECD76C2B070DDC4
+1ED2C68EFF9E0D65
+1EDA23758BE9E36E
+1EE7760A3190C956
+1EEBD6EAC14A3359
+1EF41AF4175FE164
+1EFD96BAA7B03CD3
+1F17C35981EFB69B
+1F1D3B429D1790E2
+1F2F8184C9B99850
+1F3D750A61178D62
+1F508554A7C67A85
+1F5523A8F535289B
+1F5F45C48DAD4093
+1F6453704CE93464
+1F7D36282A275C70
+1F8242AD6335E549
+1F82C942BEFDA29B
+1F85CBB69B49D1FA
+1F880764BA914C6E
+1F8A7EDD15A580D7
+1F9019BCFCE11DBB
+1F95CE272E0C467D
+1FADFB22B9FE1CEC
+1FC854110E553248
+1FCCDEA6369F12E7
+1FD1B4516473C36C
+1FD59B934C620C42
+1FDD07FE3DED93C7
+1FE2837909EFBD0B
+1FECCE4C711C4EF4
+1FF255B983514312
+1FF8EC2F241CF7DE
+1FFF8C7BE7829FB6
+2007F31611327ED4
+201243540408200D
+201B8F20DD1695D7
+20257AB9F1A51B87
+202A4C3A45F7ABF0
+202B37EE91606BE1
+202FAF3634F90F53
+204537D697B535C3
+2056C3F3CC641E00
+20796F8E97FAEFB5
+20886B6A9DB7C478
+208FB955D933B529
+20A90A01B292D311
+20A99CD399ADC3EA
+20B327DD07FE171F
+20BEED61F5D64368
+20C94FFC0942A152
+20D23242598C77BB
+20D253779A917A99
+20EABE5D64B0E216
+20F91B8A2DC074DB
+21010DE43F356A98
+21052C0EB692AC77
+2115BC2CFB5E0CC5
+212289B7C3241754
+21242BEB6CAAFFAD
+212E7238D0D41658
+2136DE5D098AE816
+213FC9103CA0FA20
+214507BE23FD187E
+215619756ED5E753
+2160CD38542783BD
+2168C0A7C523584C
+216DD2057D84176E
+2196F7EE075A656A
+21A0D43200BA0618
+21A741DE0FCE0912
+21BD12DC183F740E
+21C1BEDE89E3C7E4
+21DE65249A6C9A5E
+21F32D892D090B2E
+221D2C0B1D45B791
+22209B307876DF00
+22255DB5E42EE69F
+2225B8FD3B0AACEC
+222A36AAB0721088
+2238E0AC19521F27
+22396915ADE41417
+2243E8BC48F4CB89
+2245F63EC044E88E
+224CAD2B3B5137AC
+224DFA1379523406
+225C160E38A242D2
+2267E92C46C2AB71
+226A72621FDD0234
+226C5895228EBA46
+2276F9F836BDBE83
+22871141EA9B1449
+228A10E6B013B91C
+228F01D58D028C85
+2292672ECF57A99F
+22942B7C5CDF7813
+22A14A1667B9CB10
+22AC63087327912A
+22ADB6CC53027CF8
+22CE867C63A0B5EF
+22DAB0A8D0A74243
+22EADD19668F1C16
+22EBBDEF9118D3BD
+22F09F3B18884516
+22F3EE793FD154F4
+23013107D6E0DA6E
+23141A1C09C488E1
+2318CD21CFB130AD
+231B40173139841D
+231CD19DB2E5E444
+232BABB095242246
+2332912EAC8ECC06
+233B07574F1DAC16
+233B56C9F7691CE5
+234C94D78D710285
+23508C2F73584D77
+2352A22B9F352BD6
+235AA633F6490359
+237DFA0A21C8E17A
+23869B733FCD6665
+238835AFC9C7313C
+2394EEAC9FC3DB56
+239EB2AA61058A47
+23B92D335662094C
+23C614D0B4F47E09
+23C8B8113B6D8948
+23D6C3141690DD92
+23D718EC53BC45F3
+23E9E11A114DF645
+23ED3CBB89FB94DB
+23F2916E01209D62
+23F6F7E389010222
+23F71A0EB11912FD
+24065ABE1B9ECCE9
+2428DD91606633BE
+243677AD7770B241
+243F4A1C53E7A8FC
+243F5196FA067F8C
+244A758DDDB26142
+245343F7347D1D18
+2454DCFCFEE90EE1
+24615D93D230FFAC
+248510136410798C
+248902131A732628
+248C27067A1EA9F0
+248C86BA499B9A46
+24B7DEAC13FD0AF5
+24CFE5C21635F528
+24CFFF15B3ACB3B6
+24E8A3579C963E0C
+24EC40CC124A1CC4
+24ED0667978807C4
+24F1572A940BAF09
+2502483D832CD812
+2509005415BB5275
+250B6BEFBCA15727
+250BD370FCDDCB9B
+250E77F12A5AB697
+251BDE4F72142F7D
+25249F945212359F
+2535D9D4F185F32C
+2539D3DF1FCFA43C
+255AF4523D0D97A0
+255C8B38973150AE
+2570339C6EF2B3D7
+257696C131BE052B
+258465759831222D
+258F5032CC3E64CB
+2592243C1246C505
+25A304D8D391F528
+25AFF7F4B1BB7478
+25C1D0DDE29D93D7
+25E94B2FBD0AE254
+25F49D523BD4231A
+25F6F05321CAAD02
+25FF2752A65B5363
+26023FE19BBECD42
+261383F7CFFDF7C9
+261EB8E4B9BC3019
+2625C5EC982EA29B
+26288DBE3290C9FD
+262D1FC96F4CA0DD
+263AF06CD8D6DC30
+263D00820F9F5E0A
+264AA1A7627BE26D
+264AEB4A753EED96
+2654A0243C104983
+2657A333A01BA32D
+266DC053A8163E67
+266EC841A313476E
+2678B00F72A8240E
+2693894404B91C98
+269A03F47F0550E9
+269B6E0411C7F160
+269E8D833C08DF07
+26A3872C080FCF5A
+26C5CA843828BA66
+26C7EFD8E5F5FC76
+26D03BFA9E791E51
+26F3CD230E935F8B
+26F7E58FD95591AD
+2705C9C25D492045
+2707EED1588D48B0
+27160AD470D78C4C
+2736FAB291F04E69
+27372698ABF975BC
+273A0C7BD3C679BA
+273C0802A3643F03
+27566A0068FBFF98
+275E3257F6056873
+275E5D5F064B3DB5
+2760666E055262E9
+276947D89059BEF8
+277006C9124A9861
+27715B74DD3B17ED
+2779A4BEF1057865
+27838755DF34E336
+27983EC51B7F5AFA
+27AF58B1B189FEEB
+27B0290C0EF3CB5E
+27BE8D245CD2C4E8
+27C43C5D63B4DE54
+27C6D016760041C6
+27D0F2710D49E2BE
+27E72DBA56CBC8AD
+281709DCD5D7B77D
+282264440D217741
+2825D8316C4A64C5
+28342E8CC628B436
+284762CB4151B016
+285CCF96C1BE00B3
+2861C8E64779BDAB
+287274C1C3261760
+2878709ADE8B0596
+28933766F0DACDF8
+28941BE56BFC9D98
+289A70B8F9DFCE5D
+28BBC6AFF36A8D1A
+28C07D76D9E0D413
+28C4C229A7356BEB
+28CB7D92AAE6E14A
+28CE81DFD89ED3D6
+28E4240CF4C8468B
+28E97351FFE3E72C
+28FF8EDFD15F9F0F
+2940965F752BCD33
+2942CA8605012DB7
+2951421EF933491C
+2972109A9841C8A7
+297554C4A3588AE0
+29780EF1F452D3D8
+2984DD7ED2706A1A
+2999D93BBA270BB5
+299CD8B249229684
+29A3CADB84D7304A
+29F716260A7733EB
+2A0B6FCBA0773BEF
+2A2D392F8DEEE4A9
+2A3D5AEBAB352B9C
+2A466B771BD89E3D
+2A4C9E670BF0452F
+2A5A68316F0BA0D8
+2A62846A8931C040
+2A67F620DA494BE3
+2A6D2CDE57C00B78
+2A7057F8098DECF0
+2A8719BA9B1E84DD
+2A8AF370DE45FC6D
+2A932655A2DF5E3F
+2A9F68E49CE20248
+2AA707F9164BE2C5
+2AC1FFE9B083AF0F
+2ACD363882B45EBA
+2AD1EA09163185F9
+2ADBECEAA0188BA1
+2AE66EEF163339B7
+2AE8B36D3ABB9F7E
+2B06BF52ACE367C6
+2B0A3F7FC86670BA
+2B0C766C5D3A2CBD
+2B11CA4B432C5513
+2B41BD1AD0648AE4
+2B4C433B699BFFF0
+2B59FE1D11CF04BB
+2B5B1DA8096DC327
+2B6975A1EDD8182D
+2B791F512C4F94B4
+2B7C252DBD5FA325
+2B84737ABA547592
+2B8D0C90AFA526F5
+2B8EF6B151108D8D
+2B909FD3B250E9E7
+2B9ECEB7A86A9F57
+2BA2D9DD6F0F81D5
+2BADB0154D9FB30A
+2BB2E6E4F9C62D74
+2BC1A9F7B4981913
+2BC575B3F53EE445
+2BC800518A32C170
+2BD61306640A3048
+2BD9B489BA558EDF
+2C18884524CF5A08
+2C1C2926BC9D8F7C
+2C2F2C0FFA6575D0
+2C312A712140D725
+2C38668688D4838D
+2C40FCC8335ADD7D
+2C490B8E68B92E79
+2C4C3891E2AC6958
+2C4C779F675F8F1B
+2C55A05FEEB1CEEE
+2C5C9FC3413973A2
+2C6A0B9661ECA1FC
+2C777E932671619C
+2C782832F0980E2C
+2C8A94536EF74A6B
+2CA73B8FE3462675
+2CAD89EDCEC53A12
+2CAFA5A8DD3B2099
+2CC484326F8A146C
+2CC56B8ADBC15068
+2CD38DADA29A3C01
+2CF6952B7EDD989F
+2CFB91900AAC3012
+2CFBC9B7302272F8
+2D0DAECD752BF9DD
+2D27B62C597EC858
+2D4389CEAD10629E
+2D4868580947A6E8
+2D62EFFF3E3356ED
+2D8AA44BAD6D3C08
+2D903B4571AA26DF
+2D9B7A3CF465B0DB
+2DA8721C6010B87C
+2DB7A4BE659AE534
+2DC2AE89E2BEA659
+2DC459310C27448D
+2DD5833D0215534E
+2DDE7078653DC4DC
+2DF608B4AEDDC309
+2DFFC48C1F725059
+2E2F0D6AF0C02F99
+2E320BE2D05E382B
+2E5A4CAF7768F4F9
+2E5B6E231E872182
+2E5BEC5EF925C536
+2E5EF1C0345F1C25
+2E6DC95F2A2A5022
+2E735DA38847F768
+2E77A652226F05BD
+2E7A1AE421D688F6
+2E8D8F39C5230C61
+2E8FA1D907071D8C
+2E9430747FE47750
+2EA6201A068C5FA0
+2EC10E4F7CD2159E
+2EC2617094E709A5
+2EEB5F03E334B113
+2EF89AEBBBF57850
+2EF900C3E191B932
+2EFF3E815DA6DB21
+2F03E33D2A285820
+2F0609FB5EEEC340
+2F08381C88697FD0
+2F129C53EB52E444
+2F1FB1B68E48047B
+2F24FAB9EB5D32EB
+2F2BB917A7B0317E
+2F302E58D02B544C
+2F3220F475513F1B
+2F3FC55F0ECB7AD1
+2F4416FC8C7BEAF2
+2F4D89C8EBE407FD
+2F4DE0EFF521909E
+2F5F8551F24F40FA
+2F77A250B04E7C39
+2F81A22DE0AF5E9E
+2F8D596ACE51505F
+2F9F3F4EADE3E68F
+2FAC2D1CEE88EF8D
+2FC55281C80CEC20
+2FCF0DB3FBBB087E
+2FD1871D701A7C3C
+2FE03C049850E29B
+2FE2293FE5DB28DF
+2FE242123B1A3E40
+2FEACF6C0F959D80
+2FF8FB61E8568A98
+2FFB2E8A1C223205
+3010432BE8C007F7
+3013FD0A2253803C
+3018BB52B3A12531
+3024A3691D699222
+3028A98EB2B2B30B
+303F438858FA0AA8
+304511DDBB726098
+308E8395F2AC50DE
+30A92071619743FB
+30AFEF2C49D6B550
+30B22269AD654B7A
+30D537694AA99AE1
+30E60ED28E5669E6
+30E7F1D987B48517
+30F339C5AA855572
+3123158EA68A39A5
+312550C4F651D27B
+3134F49F6AA66DA5
+313AFA5189C150B7
+3148B8ABE39C7EDB
+314BBE6B68975615
+3155990A5D54438F
+316466D64C955A9A
+316939F150CDE595
+317E1E946C679663
+3181157FF5D6CE8A
+3197B05F6FC202ED
+319FB65DD3ED589D
+31A90D46B1247AEF
+31AD300BDAE5E974
+31B2C110E29F5F50
+31BD39D04E99D947
+31C583AE462E0D9F
+31C75A80786F9305
+31CE59E534AEC385
+31E8038FAA903FAD
+31EF9380CDF96E51
+31F7D72DB1EA20A7
+31FC7675F537164B
+31FCC45B03C6BCE7
+320BCA71FC381A4A
+3240BA4D75993C50
+324A25BF7D239E84
+32576F4FEDC07F63
+327156AB287C6AA5
+3287AC1AFEABA5B2
+32A44ABB7A66E19E
+32A9A094546B65A3
+32B26A271530F105
+32C19AA31D5ACE76
+32C7C5ECEF841624
+32CA2841C40118FB
+32CA9FC1A0F5B633
+32CE78FBAA832137
+32D17A8C55EC5FAB
+32D3D894B9CF4392
+32D4AC5B3C485A3C
+32E0830077DD025B
+32F2C8857A1B9CB3
+32F889541236CB94
+330F80E061F55383
+3315DCC284D8A746
+3315EE4EEB7B0BDC
+331C8B8A012AB2DD
+334394B968001E8E
+33451A3E6DB4B409
+334F53E29B7B00EB
+335939D1B5F09B73
+33676896A01674AD
+33712D62C7B46DBC
+3374AB9CC4136B87
+337E4FE45DE0CEFE
+338777681C790019
+3388C865797C41FA
+3389AB9E7DD694A8
+339B544F3235B884
+33A56128BA99A96D
+33AF52824ADE1EFF
+33B14C729C0BED57
+33BAB4A16748B7FA
+33BE6323AB3A5BA6
+33D6DCC324CB0F29
+33DE9D4711DD5318
+33F3E16CB521167B
+3407AED807AE78FE
+340E20CA2E8E150E
+3416DAD014E1516F
+341ABAF8135DE27C
+342414265B1D3804
+342C1BC901800AC6
+3432B2C3B5767D64
+3436ED8CE54E4827
+343886F13AFEA25B
+3458BDFC2CDC6572
+345A0E57BFC644B0
+3470CED74876D961
+3477E4D1598CBA62
+347A5A0DD7665C79
+34855AE418814158
+348F0BFE0E619BBE
+34971B8FB11CAEB1
+34A5D76B7010E9BC
+34ACC8438AEA0AC0
+34BF4584D5CD9702
+34C13BAB93A6A09D
+34CE8539EA2260E5
+34D2C8A7260B8296
+34D709FCAD2D11EB
+34D7DA83F3B60B01
+34DB111169CC5E1A
+34E711874E4F5256
+34EC7FB7CF53F451
+350BCFBFE8DB20EC
+350ECEA6204AED50
+3515E90CB77AD0A6
+3526F607BCD4F51A
+3528FA2D76B32E6B
+35351199BB624540
+35502F5A1686A95F
+35529670EBE14F75
+3559EFC37C61A31A
+35634D744EF15FDD
+35675E68F4B5AF7B
+356C55D1E0B9BCF8
+3570BF2A40824152
+3577D93D05002820
+357A65DDF2762953
+358F3F7FDA82635E
+359274C930D4FF2D
+35B95B6DCFC4880C
+35C7AE2B544FF712
+35E5A496AC047851
+35FAA4278A19023D
+35FDEAED92E8B2E8
+360A7305B5E72711
+360AF621823E04FC
+361BA22C159F5C31
+36285F04BC7040BD
+362C0A0D12BD384D
+362E61E75519EBD3
+36335288C6D5C2EC
+3635E19C41D9B639
+363A3828C39D2817
+364A3BAFE519B279
+364DE137C794276C
+36517A249B1724A5
+365226F3B3048F66
+36560AD779EE915D
+365870D4F043E6DA
+3662188D503AF0CB
+367380EB029D7D29
+3674951EC264A721
+36810ED90AA5DE17
+36822C549B91E2A6
+368602293FB238D5
+369EF3E51E6A9E11
+36ABC61C95B4B4F2
+36BB891EE67C4D22
+36D1858A98645F1C
+36DA464823405731
+36EDD7E5CAFD974D
+3708CF23BF5BCD14
+3709FE6259AB48DD
+372217BF2ACB406E
+37424670501B3D47
+37464A22390563DC
+3755F3F206953314
+375CF027592A1ACE
+3765EBDA31DB7593
+37703C2413FB2BF1
+3770FCCB3FD17105
+37759BE67125CF60
+3779973EC25A5454
+378F6CDFB9397422
+37CA7270DFBDA647
+37DD761517816ED8
+37EA07F372A5C2F8
+37EFFAF6C6C1F098
+37F81CA4F92EF140
+380533A0B24A2F85
+381A13164F6103D2
+3831E9216D0A7B6D
+3837356FEDD3E1C3
+385831F553A8705E
+389DB5AA47221E72
+38AD49AC495FFC71
+38B96DE8E2F48556
+38D16B4455D3CBBD
+38E921AE852BFA8B
+38EA985076835BF9
+38EB7965BE0FFD62
+38F078A81A2B033D
+390CA5BD44A23459
+39100813EFE10184
+391421EF97DAB07F
+39158E314C894663
+391B90D476201638
+392C21883D609D5E
+393CB6E5B543EA9C
+393CCD891C557E2D
+3943C34FBFC88262
+395AA52722F133F5
+397539707F390B0F
+397C54F51FA2216A
+399706ABF11EBE37
+39A581A4659CC189
+39AF5DEC08147BE0
+39B8BA4FE30D3FAD
+39CA690020C7C0A8
+39DFA55283318D31
+39E070713590C7A7
+39E88C5FBAB8E9B9
+3A012E69B917EEBA
+3A033A8938C1AF56
+3A20B9D4CFC16E22
+3A21204F96128EA0
+3A2879ECF443A12E
+3A2DCF462EE16DEE
+3A3AE363E2CDEFA7
+3A476945B199A523
+3A499F285BD74812
+3A49ED9196C09BC4
+3A50676B1128A41E
+3A5FC154F31DA6BF
+3A662B1B55D30C7F
+3A7B0E8CC4D1E2F4
+3A866A59476FEC73
+3A960464D36C1B8B
+3A9F3A7AECDD796E
+3AA6265C74E0D620
+3ABB594D47B2541D
+3ABC77DD18B15646
+3AC974649215F352
+3ACD0BE86DE7DCCC
+3AD664F9044AED95
+3AE8A08BCEE54AD5
+3AEE7C4D0A3F4949
+3B058098481A6BF2
+3B0DCCAA38A6DA60
+3B0E25126E7EFABA
+3B14F135F0E933AA
+3B18B4F40F41F2E3
+3B1ABCC1DA93F066
+3B1E81B92FC10CD0
+3B21FA00B6C263C1
+3B25ADB7CFEBB77A
+3B2FD5CC4C65247A
+3B3C7AAB0446ED1B
+3B5745A24CD1292B
+3B5CE2AB89EF8B4B
+3B6A746C7F2BAD72
+3B71B7E4609FBEB2
+3B76DE3BCA239718
+3B7BAEC7130B5A74
+3B89E460C151A49C
+3BA08ECC324E7E2C
+3BA8DC5CE7D1EE03
+3BAC836E86959E86
+3BC1A2711D1224CB
+3BC9BB50FC6E927A
+3BCC0A8433C8DBB5
+3BE39E248F5D19DA
+3BE97AAA587FA289
+3BECF248C79D06C2
+3BF7E6F2E77DF92D
+3C0943CC3623065D
+3C185DB99A0C3E25
+3C1AC59D28229010
+3C20F635CFAF45F9
+3C24EFE553BA0E9F
+3C27A8CA3BA0B159
+3C3CC3FC1AC7738C
+3C405A1E864AE373
+3C409CA681D4DE3D
+3C498C9C749D8436
+3C5BF776F5EFCAA2
+3C669F22C7A63EB1
+3C6F439FCFC33A11
+3C72ABBE626F27D1
+3C7C203183B11465
+3C7E5BCE80B1FF09
+3C90918BFC876DE5
+3C9F7C70BC8B5F45
+3CACE48956D2C205
+3CB2A8FC5EBCFC09
+3CCDCCE55EFBF68D
+3CD90E645156610C
+3CE46A34DC431505
+3CEA7BD44A83FF11
+3CF1FC94863FF03A
+3CF33D53701DE7BD
+3CFEFD5CF5DFDB9F
+3D066A54A8E62568
+3D0A36D183610080
+3D0F3B9DDCACEC30
+3D1F68889F797B5C
+3D1FB7442ECC1520
+3D37176124BA5843
+3D3AC6EA8E98B0FA
+3D42747B965947A1
+3D4A94CDC9DB1A4F
+3D4F2BF07DC1BE38
+3D5EB874A48D05B5
+3D8DF850B8074DB1
+3D9209C4598BFBC3
+3DA231A5C3890550
+3DA2D1D91138FBE2
+3DB0BDEC4FB154EF
+3DD1CF4193120B0D
+3DDC07B560E321B3
+3DE228E20BAAC075
+3DEA2EB074FC8D0B
+3DED7D05B63EB858
+3E0AFD885A42B8A8
+3E0E34A5CFAB0D03
+3E1F975601F59090
+3E3C5B32A8E6BC4E
+3E41F4A1B6B494EE
+3E420C2718B6D70F
+3E49C3E4513E9280
+3E60C2E4F5127E10
+3E6E9B705E1E0763
+3E6F9DEA0C683661
+3E78B28CFFEBAE12
+3E93856960D5957E
+3E978FBF8AAD93B7
+3E9BEEB92E4D4967
+3EA33EC2077E0B1B
+3EB04A8A559B92A1
+3EE127DEC1F62244
+3F0508BA43EC3177
+3F196CFB6C4CFFE3
+3F21A2A734C421F2
+3F3549FD8BFE05D1
+3F45849DE919EEA2
+3F57948BC9828CF1
+3F5DE61BCDBAC7A1
+3F73765ECD65A96D
+3F8BBFF20B5E9D77
+3FAEEEB934B14C2E
+3FB372A9023613AC
+3FC1BDCAD34F16B5
+3FCA7F0FC29F2E36
+3FCE19C3E6377836
+3FCFC1F7F34E78A9
+3FDFDF92741985E8
+3FE1D91B1450F6FF
+3FE9CB3BAB3B8D75
+3FFFADDD55B01633
+40027A49C722A440
+4002D776DCA1A4A4
+400CC9E24CD348EF
+40123E9C6273385E
+402033E0F9A2FF2D
+402428E1E8A66E80
+403E35A2B0243D40
+4053636D2E086EFB
+405B58E234228153
+405C04BB52C41479
+4061C2EE636F985A
+4068F0880B399410
+4078F76D1D5FDADD
+408417D1372E0E1F
+4091FC188AE35C2B
+40A783F7585FA7AB
+40AEB601DAEEA330
+40B9579D4B5792EE
+40B9CC71030A12B6
+40BF696D25DD56ED
+40D19D8DAB1B8412
+40D528303CFDAC10
+40DE109B048D2870
+40E2BFB07D7F9AD0
+40E8FDC1F8895FB2
+40FAC3BC5EBF5E74
+40FC5647DFCF83FA
+410FE6920ED6465C
+411BE7D33AF4A5A2
+411CF2B7DD5D7D7B
+41217084A032E008
+414EDFDB372EE81A
+414F467DD0E6B5EE
+4156E44D58575567
+415F6526E3E15249
+4169EA3C37E4C3F4
+417A306992E46AEB
+417E7FBFB12ACE4B
+41880EE3438C8787
+419928BAC227A9CA
+419C4247E68E3F99
+41A6619FDBAEBBA7
+41A76F2148DC8625
+41BAF091295ED40B
+41BB26671E26EB13
+41C066C25EE7EA08
+41D4285FB7B849AF
+41E873824A78EC60
+420C2AEC3ACD5A32
+420FCC63481AC21F
+4233137D1C510F2E
+423EE662AD35A7D1
+4246D1FB8171D870
+425B0D65725B5047
+42696FD9505D2D1D
+4272339FF2609E11
+427FAC7513BCA82B
+4296524415E0DBFC
+429C084E96A7FE2B
+42B44826CEFA6814
+42B93FA4D5704492
+42EFCED5325337DE
+42F0D9EAB863DA38
+42F5BE09807D63E8
+42F6CADC25520EF3
+4317339E5240CB4F
+4317D573CF3D89B5
+43181F6D478868AF
+432440FF1B3B454C
+432E2E764D439936
+4330D3A09F7451A4
+4334763D1BCC23DC
+433632EA5CD64CD1
+43386C44658A4158
+4356D7113A048EA3
+43570709018626F3
+435FEEF94BCD2C62
+436E2BB9EECAAA54
+437736FDB5BB707A
+4381DA04DFB68948
+438D93B5010F61E0
+439152CC61FEF6DE
+4391CC8E629DDEBF
+43A3827A134A1746
+43A492907681568E
+43B7C59B940CFD7A
+43BD24ED59E33E81
+43CDE71BC99EC48B
+43D95978F7C4AD8E
+43E76A837C99E70B
+43E9D9FA0A312B0D
+43EB8595A499C92E
+4411BD0B85A0C23E
+441547750C4A0D45
+44213F9F4D59B557
+4451AE61C3AB2352
+445C7754B09EAFD9
+445F625F9D594450
+4463CB59D68109C9
+44670C23E46B0A95
+4467E0C9EF71EA7B
+4475E25BF4E13347
+44781984609FBB14
+447B5E3623D424AC
+448C7B77277BA87C
+448CF42C0631F31E
+449938CD38C82BCD
+449AFE861A938CED
+44A41E0783B5D504
+44A9CB01BE58F33F
+44B5ACF8A2E42CEA
+44BAF52AA205B574
+44CA464D6FF38F66
+44DE8FB2F1AB8DC1
+44F753F69896BF5E
+44F9463C89F35EA4
+45007901DA202135
+45029078478DF106
+450528A7B4B88757
+451AE3AEDD1C1110
+4522AE1FEB1C9D11
+453323B8EA3F60BE
+4534E41D9637DA11
+453E6DA63545246A
+454C01839E4EE420
+4585ECBAD78ECC76
+458FE4123E288FF8
+45C8F117DDC232DD
+45D085E6DC036D72
+45D0FD4C36658D57
+45E1A5CAA86F8E1A
+45EA6CA66CCF80E4
+45ED9D79A1DE68E5
+46000D45016E21C7
+461476587780AA9F
+4614F1F2A506ABF9
+461537767A471714
+46159E4C9A141F74
+461EC1333112B6A5
+4627ED46E1786177
+4630B18139DEC239
+46394B07F1F26326
+4652F6CD1D886F16
+467DF5C6E227E863
+467E952170402157
+468A9E0382DFD37F
+468D67DA9458E3D9
+469F320D19B367F5
+46C9EA2899F66D8F
+46D581AE51268844
+46FC71FBA8A2D423
+46FC854F002BAFB7
+4712CD940B3EE518
+4715C53FA9414147
+47178DBF0979A35E
+472773A6ED75D541
+473C2D0D0950352C
+47456CC868F5920B
+474BA67BDB289C62
+474BB7A37D97A941
+4759C4D20286E97F
+475A74E3C0C82094
+47BAE8D1692C1BB7
+47DE14F78EFFE137
+47E3B180AB397CF1
+4804D32D728567AD
+48058E0C99BF7D68
+481ABA2E767E9097
+482D4FF293DBCA74
+482D5705FD10F274
+482FA19D5C487CB6
+483330DB231D8FD0
+4879AB0FA4EE7568
+489623F275A2752A
+48ADDE05F3A9ED0E
+48B22120A1072D64
+48B9BC80F8075D3F
+48C7F79CF97571E5
+48D31C0DFD711237
+48D56BA248965505
+48E65241896F34A1
+48EFC4851E15940A
+48EFD7F81C11D37E
+4908BBFA2EE5FEC1
+49372FB423237067
+49377C77E7264443
+494559CA59368D9B
+4948A0488EB55F65
+494D185C82CB4E2C
+49674DEC0302770E
+496D1CA45C606072
+4980C6D24E44F66D
+4989D304FCC975B1
+498F60090A08996F
+49B029411493BD31
+49B1BC9828E2EAF1
+49B387C3E2F71979
+49C44E5F9516B4C2
+49D17D6FFA1921D1
+49D25A47AFE9D011
+49D4167DC7D498A5
+49D4B10C7A23165C
+49DEC4C3237B9046
+49EED6E979E80B32
+49EFEF5F70D47ADC
+49F09596761EBB30
+49FD41C1F5319F79
+4A047AF956698C09
+4A1954F6FC1F8A1F
+4A281ED042C27BBB
+4A28DB0EEBDDB81F
+4A2A137980452B20
+4A2F20AC1B4DB616
+4A47932420A9AD6B
+4A54912931A46C20
+4A57014D400D9756
+4A58138121F5CF89
+4A5EA2E947B33DCC
+4A5F4B392AEFF8C7
+4A75B19DF52EBFFA
+4A793ADAF21502A9
+4A92F17E15364A67
+4A944712860D83D7
+4A9C49EF435279E0
+4AA1D9186CA1843D
+4AA2E940E256BF8D
+4AA5291C1375C545
+4ABC7458A14FB38A
+4AC4247733081CFE
+4ACEBEF29D98E2B5
+4AD3CF457942AE36
+4AD704BA3B244C16
+4ADCDFD1C4D920BB
+4AE249D9D6F2237C
+4AE8B0898D54C788
+4B0677CA1FC8BC7F
+4B076DAC870DD11C
+4B07DCEAADBD7C67
+4B12C99EAD3E1A2C
+4B1631F461B35EED
+4B222CF972FB7615
+4B2FA8CEE8E96664
+4B3520B1C5DC0E18
+4B3F7EF14B5B8A9A
+4B5366C8D9B4D0C5
+4B5396C5565CE89F
+4B7EA409BAC6844B
+4B85E900FCE2952B
+4BA1AF51024826B1
+4BA2077DD0E8067D
+4BB9A4EB529F3F2A
+4BBF4E7B8EFFEEFC
+4BC8BED273DF01BF
+4BC9F4CF86D64010
+4BCD177678A60605
+4BD0EC65B8F729D2
+4BD80130DDA8828F
+4BDE336E8B74B58E
+4BEF71B04E9A1FE7
+4BEF8FA749637104
+4C12266945456932
+4C1CF756E10DBDDC
+4C282E8359838674
+4C2D52E39D077348
+4C31D5F06F1953D3
+4C474D9E03E5523E
+4C4F03F5CB494A4F
+4C4F26B8C870E599
+4C57F0C88D984463
+4C5B579DF607FE8F
+4C5D8C871BDD22A4
+4C6FE35FE05D816B
+4C78EC764870E846
+4C7A8E6770B23905
+4C83F9AE4D5A39E3
+4C9584F36E5B5A68
+4C9693C7531CE0A6
+4CA3FFCFBF9B897C
+4CAC84333472FA5F
+4CADFB4376F6523A
+4CCEE6C69C3278F4
+4CD3677E5F005658
+4CD3D2ABD2F3476E
+4CDCC3B4A202EC4B
+4CE4A293732DD3A7
+4CE9A6DB823A03F1
+4CF42DF954E14738
+4CFCEFB3580800E4
+4D03641D6774D278
+4D0FB475B2422280
+4D1100DE62F72055
+4D1EBBC2ED9346A5
+4D3F685B75372C98
+4D47FC939D9156D4
+4D5C7D9CCA4BF6D8
+4D64F9F0C155B92E
+4D67D97C3E7A9D08
+4D8F35E9AE9055A7
+4D9012B4A77A9524
+4D9BF1F67B2B3E42
+4DB0EA790651DD4F
+4DC87F19238652D4
+4DE423D8B9724F54
+4DE4833D7F90184D
+4DF29F8757E32F90
+4E0003C5366BC180
+4E05D4FA6439A3DA
+4E0D45FF5B2AE290
+4E345A5A911B04AD
+4E36C651505A2190
+4E3ADCFE37C3701D
+4E3C75C7765F3C59
+4E484C25E0635B6B
+4E5A2893BDCC7D23
+4E6E0B9A08EC7EF1
+4E76A0A3BC7DB9C0
+4E7AFEBCFBAE000B
+4E840EA49C3C77D6
+4E883EA0CD5B5A5A
+4E8CEEC01B76E501
+4E901C080776061F
+4E91D19BD6A654C4
+4E9FCC7959AD404C
+4EA0F0AC386A87C6
+4EA101FE9131897C
+4EC106A206098673
+4EC61988A6CF4839
+4ECBA779121C6073
+4ECBCEDC28C1CD66
+4ED8C90B500F770D
+4EE02F43820B3361
+4EFB6CB7C018F0C6
+4F1B790DEF850F7B
+4F1EDC5918B21960
+4F21CD05B43CB230
+4F26AEAFDB236762
+4F38B0AB2AF17079
+4F4AA922F2C8B91B
+4F4E05F1322B25B6
+4F61EC4D2D1FD181
+4F6CD285A6FC2DB4
+4F8EF089B64B5690
+4F92F5C320CFBB9C
+4F9D07F732345619
+4FA0F9599D9ABCB6
+4FA341F571E64A51
+4FC7A9ED1ECDFFEB
+4FD1545AF28B69B9
+4FE220D0FDA24373
+4FE57E5050E4ED65
+4FF1A33E188B7B86
+500C29190D37DC40
+501152A17F6A9C11
+50117EC46BDA01CA
+5013DC2DFC1314B1
+501788217508AC66
+5018EC306710B338
+5022ED0CF7A2F7AD
+50269D7A3B9EEACD
+502EF7AC030DE759
+503012DC006C87DD
+5032866D3608FF7D
+503457AE251A1F30
+504BC0DD03A908CE
+504CB19E3268DBD4
+5053295102034C0A
+506197B769ED6403
+50716144C24BC0EE
+507481032013BADA
+508113C6A818BDA1
+5089C85CCF5F8643
+50962A1F1870B6EF
+50AACB4F1D6F493F
+50BC2DA29FA9EAA7
+50C2FC01EB2C4818
+50C61781CA9E28E3
+50C9D3B149B3F222
+50D7470B47736C17
+50DF93A26DE09E7F
+50E367E3C65E22AF
+50F9AD8FD74DBFD6
+5116E40694AC48F6
+51205E550DF75D0A
+5123E49AFBC4214B
+5125345B0FEDC98C
+512B541854FE07F4
+512CD8FB30F79B4C
+515489CEB7BE0AD8
+516139B232CB9FD3
+516655509BC73F97
+516EF966D5A8BA16
+51748C63712B42F2
+517AADC0204A1A5A
+51833174746EA4BB
+519BC3F0FDA96312
+51A6018BFD0FB27A
+51A910CEA74D2E68
+51AB708894BDA41D
+51C2E971915365BA
+51C40AC5F940519A
+51C67A8EF1371A14
+51D035C7A23F02F0
+51DADEEF680E9048
+51DE805409A2617D
+51E39512B16B626D
+51EF99173336F067
+522E39DD416ED9E7
+5243CCA54EF5A2FF
+524F12BB3BB1AE9C
+525CD317FEF5425C
+5272763A1AC994D5
+52789DEF23BD92B6
+527F5BE7752613B4
+5286EBFBD68D5993
+528BE6967DF43863
+52A1851340CECB03
+52A45F47D7E5BE6B
+52A8DC5C0F400702
+52AB64D3046E9CF6
+52B464D213A3C603
+52B6771E2EAF6751
+52B8F73AF2BCDCE9
+52B9A54C1E1FA312
+52C7E98DC7553F2A
+52DA8254FBBC9F5D
+52E09EE2FA384E77
+52EAD56469195282
+52EFF545CC0D1B64
+532A0458C6C6C95B
+53341414E1D6B6D4
+5339A4ED85948798
+5361056AF506C16E
+5362442F79E61AFE
+5376BC19BE9EA307
+537BD5AC1FBA1DCC
+537D8BA2E150854F
+538532CAC204D0D7
+53A1CDE1F307F0D0
+53A64CB78D17F6E1
+53B8B695DD5F884B
+53D15D4B52E25546
+53E2E8D5F9B61D3A
+53E2FB66DB44A538
+5412EEDD28785162
+541CBCA20D0962E2
+5428B0FCB281846E
+54577DB29EFF8092
+5459D39832983EB2
+54669547A225FF20
+5479F2FA49524ADA
+5493E85B425A147F
+549C6CA8A52F36B3
+54A29DF5E01E4A0A
+54B28A8F88251D6C
+54B4279FDD5108EB
+54B869057F5253A9
+54C3A40B3F5B3B05
+54C6DFA8A057899F
+54D6CE0A23B7A14C
+54D834B29D99AD6B
+54E8D2E15D3CAA89
+54EA3A2594872A85
+54F8D7AA73DFBA2C
+54FC72C88E271099
+55122FFF8D300A87
+552E363CE8EAAADF
+553FF5A61ADADA65
+5542BFFDA8007623
+5556688BD7C3F227
+558287DDCC3557B0
+5588B6481810958A
+5595FB19597747D1
+55A085722F674476
+55A118653CF448AE
+55A9D3D32D58A018
+55AC32BCB16A2163
+55B34F6F064998FB
+55B5A0F748D3A82D
+55C3536C368715B8
+55C3B83C41020C4F
+55C48907C2901C76
+55EBF93AC0E5479F
+55F092B663F5A456
+5608BEB8DDD8A968
+560D4EE723CE535E
+560F59530D36803D
+56210D746DA55302
+5628A744624DA8D6
+5645C12093CB8080
+5646D485CB2EB318
+566F7EE7ACE84238
+568704DD62C011DC
+568B6B8971BDCFBF
+5690F44C9115FC34
+5696FA08F6D699B7
+56A05EC785249577
+56A066935C52F72B
+56AC10B53E03512E
+56B4F5F3004CF99C
+56C7CFB343EB2425
+56E029CAA0F4F2CD
+56F0C496F94E4ED6
+56FB9292646F5C77
+570E756D1A33C9BA
+571915298A33A445
+57191C930C5CEA96
+571A398EC0C484A1
+5726497A30B8E48A
+573BACC4AB30167A
+576B9E995D71369D
+5771F5961254640A
+577A6E7E9F8C8CF4
+577EF1F87D42D81B
+579C8A60024F030A
+579EB5830EDE1F12
+57AAA3ABF773A403
+57AD5964354FDD3D
+57AD79649B677CF8
+57B29D747A0D1234
+57B2AD99044D3371
+57C12C63ABA880BD
+57C6F5C471E582DA
+57D9B03F80243E4D
+58004F64EBE6353E
+580932427EEEFB83
+5818FB2B37CF0C92
+58212DFB6B847284
+582375A352B63020
+58263F9C095654B3
+5830A3604AE0C508
+584D7D8FC79146FA
+5850E40E9ECF26DD
+585DEE7F3E26EB27
+5863A84D9CCAD07A
+5872C654E297C20A
+587CBC8AFC368A00
+5880194514CE16C1
+58947EBC8FF43456
+58A37CF13FAAED3B
+58B14B55BE9174B8
+58BB406CB8C9D241
+58C9637AC6A671AA
+58E3CD5EE3A9D0DC
+58E57026490CD781
+58EFE24E112B9936
+59033478180D0708
+5907DC3D6C5C079F
+59118B39E3EE7AC2
+591D8B24105B911E
+5924885F11B6AE3C
+59337B802AAF92EE
+59342D5B7BF60AA2
+594004DA65507A34
+594F64F67E3AEC90
+59511CD5B09BC2E3
+5957ED386E0E160C
+596E9FE031ABC1BA
+5977546F1610CFA2
+597C743C47D956C6
+598FB4F48E08B34B
+5994384914BF5049
+59A1E77CB818E49C
+59A9FC0A4B2844DF
+59AC288E8996C1E4
+59C795B661BE1566
+59C826FC854197CB
+59D62E9D3678747F
+59DA98289894DDB6
+59DE493B1764778E
+59F2173F4FFC18A3
+5A010091E08F9216
+5A0E1818803B6BBD
+5A13184F4D4DFD3E
+5A13EA4A93200AE4
+5A2055FB9E3932BF
+5A26951E952BE078
+5A2AE0F1FF25A922
+5A359718775220CF
+5A440A464D5F22A4
+5A46B8253D07320A
+5A46EF5B0553114E
+5A49ADB55323C95D
+5A4C988DC83BE2E3
+5A4F26B21EBC770C
+5A553E9FCF93F17A
+5A58E7EAE76912E0
+5A5CACFF61319537
+5A6EB10DD028AEFF
+5A760E1FCA257E33
+5A762E33B9CCDBD6
+5A7F70CA24D752F1
+5A800FB40468B3DE
+5A8F70E725742EE6
+5A93B417F60AA9B3
+5A97CC6D58D03CBE
+5AA99161A8E5B005
+5AB791471E089DDF
+5ABB6417F466C3EC
+5AC962F08BF7D22D
+5ACAC479F1F1A3E6
+5ACAFD3D8AC67A72
+5AD23DBA1001A2F7
+5AD56F95E58809DF
+5AD9056C83D9F898
+5B014803EFDEBB2A
+5B026CC0066E54E8
+5B06F1F08503B4E6
+5B0ADA1271ABBA22
+5B0E269D686FD981
+5B29C1BD90A19EC5
+5B29DA4BADCDED6D
+5B39C1DC917FC219
+5B3BF1013E0D6D1E
+5B3E76B3CE73AC2D
+5B59E6B778D577FC
+5B6583D6C1C24F39
+5B6D360CDEAD5619
+5B7E0C1939983581
+5B92FFA5E3D3AE38
+5BA936A3930B3147
+5BAA61E4C9B93F3F
+5BB8786AB1AC72EE
+5BC0125AFB713D36
+5BC0CCDB955D6498
+5BC1824930FFBBAF
+5BE5E2C8AC650E5E
+5BF1CFA0B08AF391
+5BF2B1B2339198DC
+5BF422C9A1A86F8E
+5BF4356643C04986
+5BFBDDF8377EB11E
+5BFD08BDAC5988B8
+5C0D011FE2B0B15E
+5C10140866A93EEE
+5C1162822DCADB69
+5C171986AA6D5EBC
+5C17FA03E6D5FC24
+5C1AE82C29543AC8
+5C2424EF7E808F4E
+5C29F2B8D84F86F6
+5C35F9C279BFAB37
+5C3A35EF85F22D50
+5C61BD1C779176A3
+5C661F749504FE0E
+5C6ACA6504E010FC
+5C6AFC7CE12B3C95
+5C6D9EDC3A951CDA
+5C796969877F11C7
+5C933E47E10DD2C8
+5C94950E9E741A36
+5C9688A59F3FCBFD
+5C995BBB81B028B8
+5CA168E44EA0F056
+5CB7D5439B65F11A
+5CC74F38183F27E3
+5CC9D92ED7B2C4B6
+5CEC175B165E3D5E
+5CEE8E07FB3CBEAB
+5D175045D213658B
+5D226D0A0B41279E
+5D37A607B6A161D7
+5D3BBA5BE89786D0
+5D3E9E374D116701
+5D5570CDA429F0EC
+5D69768B81AD6868
+5D70C3D101EFD9CC
+5D74AE093A16A00E
+5D78A7D8C021536A
+5D818E2AE3AD0F45
+5D83F9843775C8E6
+5D84A307F2BE8681
+5D99BBAB9FC86E4C
+5DA4EC0D8E254021
+5DA5896BCFD60F87
+5DAE27A5A2B50937
+5DC757704DAC085D
+5DCA56DF5CC3B25B
+5DF4A2A58E5A820F
+5DF944C04857DB67
+5DFC9C7596DB1512
+5E075E5691FD5AC2
+5E16354719C4B58E
+5E1853D8B5C7FEFC
+5E1F782824E8F4D2
+5E27C8F938F64D9B
+5E29374E36FAE7E2
+5E2E820199F65FC6
+5E3C6D88995D258D
+5E40771EF2049CD3
+5E86BF18FF28EDCB
+5E8858D41F069D4A
+5E9DF0490F0A5DE0
+5EAC8B1690EE67D9
+5EAED297B58709C9
+5EDD548CB2A1ADBD
+5EEA3B6B00EFC537
+5EEA6C1BA9CC1736
+5EEAFAB19FAEE040
+5EF11DE5E18A5835
+5F0033E58E22951A
+5F050C7F48BA9D72
+5F12775C25F06501
+5F1437EC331D7509
+5F15C192B107C00E
+5F1D2D6B275A456F
+5F235DFC7F1C7D8B
+5F26452467E5E566
+5F3407D2451ABD23
+5F35AB39BC01807A
+5F372BA065F777F1
+5F3B4648ECC5353D
+5F4133E104FEBCBA
+5F50A84C1FA3BCFF
+5F522956AE92D02C
+5F52C6D1D0E45847
+5F62CBD48B0A0B00
+5F80211CCB43CD49
+5F8A383BFF43CB5E
+5FA1DDCD68DCF9B5
+5FBC9B3A4C6DBEDB
+5FC34E2431BA4087
+5FD473F70C178CAA
+5FDBF58BC5C51AEF
+5FE07525E0018586
+5FEE00239940F883
+5FF0C1FB7F710449
+5FFCB835CFA88A7B
+60170CBA0CF7DF10
+601F1889667EFAEB
+6027E7336A63CEB3
+602D26186036C34E
+6032711B48CA3827
+605183A0EEAEDC67
+6051C171AAEB1F81
+605369BD52C45865
+6061D73281DFD73B
+6070AAADFEA7FBCF
+6089C64A4EF5656C
+6092A032351D76D6
+6092D02801264DEE
+6092D6BEA52F375B
+609B0ABE4CA49B93
+609D6A2F95659742
+60BE84B7F832B2E7
+60C085E8049CA19A
+60CC2A923A97E8EB
+60FA9047F227FB9E
+61010E3577590D1D
+6130ADA2B87DF7A9
+61381C952A21238E
+615157DE8F1D0B6B
+6156F3B4CCA63827
+6172C5EEC289BED2
+618188938A821F41
+61848DA208DF7314
+61952E402FC2B46B
+6197A4FF316C1073
+61A4A9C2DBB9092D
+61B1D0ECA6547F90
+61B443C1A9FBD7C7
+61D0CAE02CD65CCB
+61D6A92A14A248D6
+61DD2952957A728A
+61E91FCD6AE938BA
+61EA3A739FDDCC32
+61F2C7619129771F
+61F6D5E1E8133C6E
+61F728E3A8D39B3A
+61FF617CCEFDC488
+6202E584C58CE655
+620C4D1056E7CA85
+620D0305C26AE0BF
+6212333659ED0518
+621764EA3BEF76CE
+6224CD83814E3DAD
+6231697A7CD634E0
+6247B19254D3F45A
+624C22A8C8F8C93F
+626390A13D216AF2
+62784EFCFADCF30A
+627AF9D02D78F3C1
+6280B68928E0318E
+629161EE04325F67
+6296A29DCBA6D40B
+62A56A64C1489FBE
+62A7AC100A6D7677
+62B227E5D028B753
+62B487BC84825B3D
+62C4792B3836F6BD
+62DBF837A2A05813
+62DDB94E8AAD1F9A
+62F157898406F9CB
+62F79167F252BE3F
+62FAF7286CA5F748
+62FC148282453BC3
+630480EDD2B503EA
+6333B7E54F910ABA
+633518F810D3BB75
+6342BB94C666474A
+6345D828A3410BB4
+634B5FAC4FE5DD9A
+634C4ECE82568C2E
+6366982A50AF48A2
+6367C48DD193D56E
+636C9077CEE2735F
+636F1224B12610D4
+63834BA7EF3EE657
+6389D0B146F1204C
+63956323358E3E73
+63971D195E4AA054
+63984DBCB620B176
+6399063914AECF57
+639D84D872414D3C
+63AE0929B10D8ADB
+63B2BD190A8F456D
+63C1BDC371ABF179
+63CCD3EC0C221BAF
+63D55A2EB5D1F298
+63F5C347EF158500
+63FC8800627A4D2A
+640AB2BAE07BEDC4
+640FB06193D8F217
+641111978A46E742
+6420ED4D831B436D
+642D928E3299F39B
+642E8267E7BAF79F
+64356BCFAE350C97
+64438EE426438161
+644FD4FB90B2B8FB
+6462815E0C25104D
+64717B371ED04D4B
+6480DAE479F4791F
+6484B28EE2445D2D
+6486D8E8975F48F5
+64A537B0750CB729
+64A94CAD6E259670
+64B48BD447FF4584
+64B5492325EF5E7A
+64C1A55C1AF56BC3
+64C2F91018F8353E
+64D6440B9C1F814D
+64DA2DB39BA1A9BE
+64DF89E22C2EA6A5
+64E7C0B00D7A4360
+64EA0DC7DADD49A3
+64F350C27FA20460
+6523C721801F2547
+65257CC6318627DC
+65312B1C6AB89184
+65328DC87567AA3C
+6552B7A2CCFD7909
+65640C6577C9C724
+6582415C291CF4BE
+659668A0B3E0AB86
+659795BD2520323D
+65998BBA9B40231B
+659E943513105750
+65A07A06E8A6D09B
+65ACF68DFC511F93
+65B3DD225FE19C6A
+65B6DBEE3C16B39B
+65C04B10DC58867B
+65C26B6AFB3A1C8A
+65CD3109677A3EF5
+65D8DFD4D47DF79C
+65DE2388433E80F9
+65DF53E168471AA2
+65EC3CD37EC294B6
+66045EC31C4407C2
+66224F31B3A28456
+6647B4060C441459
+664819D8C5343676
+664EB62AD1F94CA3
+66587E3CD73C1CB3
+665C98AA6C0F7AE9
+66614CD0AFC6492F
+666601D0CB8AB9FF
+667641B92CEAE6BD
+6677F17F27605561
+667E8207C1602F8C
+6696A4537FDF0868
+669AC76CA7EB6E20
+66AEE5A8ED8CAC32
+66C06C11D179E39C
+66C35DB8FA38F1B3
+66D31FDBE77E8A2B
+66D5F04684DAFA43
+66E5D363FE272FBF
+66EABD25121CA91D
+670998C73338DFA3
+6709DD8807AEC049
+6712F9BF0EAFA270
+671611F07201AB79
+671DFF2C1939964B
+6724B635C4C13A7D
+6738DFCC5FA1E644
+674027E17B0ED64E
+674D6A22CD44A604
+675DC611BAFB0B73
+6767B479CD875D3E
+6777EB74792A095D
+67863DC0B0AC7CDB
+6787885C84CA6377
+6794EE2B68C699CA
+6795E8B50EA7287F
+67A258218F68F6B5
+67AA219007019C59
+67B5FA48F92CE852
+67C8EFA46828CD32
+67DD322F7F4BF03C
+67EC71C59CFD7624
+67EF607CDADF9123
+67F9ECC3E5340FEE
+68046273097ED0B7
+68126FAAAAF4ACF8
+6825EC7AEEF64837
+683023CE09177D73
+685139AADF5A3AEF
+685F866635D33874
+6868341E33BE9A7E
+6873D496A8E863AE
+6877896606580161
+68847E1A89BABBFB
+688BF9B7AD8765C8
+68B8D0B8C0C39182
+68BF32991E5A677B
+68D62CB4548C71D5
+68D70E596C656407
+68EF76D5001049A3
+68F72998397A325C
+68F8D985453C365E
+68FDCDCE20C7733C
+691AB698A43FD644
+6921DE228CF7579F
+69319E407E14C987
+69342C5C39E5AE5F
+693B980DEDF6379D
+695DBE6EAAF2A03F
+6966922100BF0063
+69746390A55D565D
+69861DF5367AF4E9
+698958B5E6A47ED9
+69AEC11D955CC963
+69AFC5A54ED2B0CC
+69D97C5797DC7D21
+69DD6029822318F7
+6A08F328E1217459
+6A0FB500E116F40F
+6A2A029E5CFB8FC6
+6A2CEC6668841753
+6A32094C3E2105E5
+6A4202BED94E001F
+6A474E494C715324
+6A4A08CD9BD4BE02
+6A572A242D58E973
+6A577A7743F405EA
+6A6013D357645665
+6A77B5E529C96DE6
+6A785E5EC115EE97
+6A9437F537D03541
+6A9A78F8B696121E
+6AA90772E79480EE
+6AC18781A7C1595F
+6AC32A0F65D6C1A4
+6AD0FD413C701129
+6AE979C1D6B1F804
+6AEAB6E5D37CC093
+6AF2BB477DBF550D
+6B055C266F275E64
+6B0620E2D0B3C745
+6B2A61490513FD74
+6B3509A92FCD4746
+6B3954D942F2FADA
+6B427A147DE563E9
+6B5D91FCBCDEB52D
+6B61559281E9A177
+6B8A292BCFB77174
+6B98EEB9B05D3146
+6B9CE887BCC5867F
+6B9E237DA25FB642
+6BB22F1A9BE94D92
+6BB3E9629906937D
+6BB925692F8ECA96
+6BE7349B055CE0D0
+6BFD97F177B7AEE7
+6C00D7A7FFB7F257
+6C3A72EAF6235DFA
+6C48923EA0DF6A08
+6C616F7C2D2FDE90
+6C63F32F941AD990
+6C686B706EEA6FA6
+6C78A3B6B131192B
+6C7CA345F63F835C
+6C95104E0C3BBAA3
+6CB0CF595A8B5C93
+6CB2CF9CDBFB455D
+6CB89E982FA05D3B
+6CBB2B3D6F5AF3B2
+6CCB346336AD064F
+6CD5B22B4BCB8E5C
+6CD97EA7A4C760D9
+6CF34755B9DE3322
+6CF5710F2BC978E8
+6CF7FA6C7877B4CD
+6D07C45D757C58B8
+6D0EBBBDCE32474D
+6D448A45EBEAE31D
+6D4D6C35725D6B46
+6D5655161372423A
+6D6BBA156ADEC20F
+6D724559B892F875
+6DA1F5B659BD3CEE
+6DA5AFA77FA91B83
+6DAC7FC3C6111F5F
+6DB581841AE61FC9
+6DB6B5E4E6A37A41
+6DB9B769CE3CB30D
+6DBDD71C2E687D72
+6DE36FF17BD7BDB5
+6DF4F7E666C32C6D
+6E039C90EE25D8C0
+6E1346A04A591554
+6E1707D0A635F2E8
+6E1A438CFE5A6C9E
+6E1C18CB0C960DBF
+6E2F9E6111E77EDD
+6E31C157470720CD
+6E40EA54C86C972D
+6E57D1F1D5AE638B
+6E6B3379B1372F28
+6E6DC08A2CC57046
+6E89102E02F3917F
+6E99B447950DBAD2
+6E9A8A8394A3813C
+6E9C5B34D4DEA786
+6EA030055D37DF44
+6EA164759ADCCDF0
+6EAEE07456C97271
+6EB003E8B46F82FA
+6EB9532F383DBFD8
+6EBF45B356CB9DB4
+6ECC2E6B2F65E823
+6ECE0DE3BDF2E8F8
+6ECFDED1D23DAB75
+6ED2E7A8A1229319
+6ED5A2A4483F808E
+6ED717D1B80335D6
+6EEDF590C54D31F3
+6EEFF940CFCCA799
+6EF22ECCAC9957CF
+6F1A2D3CEC4D70C6
+6F27783985BC25D6
+6F2CB98B6049839F
+6F2EE54FFD50BE8B
+6F433E5D53AD6DBD
+6F6C66DE16F3CCBF
+6F6EB137A897AFA8
+6F77E99DB40E7EF7
+6F77FFB16C2837DC
+6F977FE8E4D9B52F
+6FAB0345B1DAF53E
+6FC3BA60C6CB0F34
+6FCE055116670F7B
+6FEC40B5A0CD5C5B
+7016775BB17162F0
+702039A05D34BA2E
+702394FF8247B758
+7039F36A5594A5D3
+703D617AAC2698BE
+7049F32EDEB0EFD9
+705B042D710DD38A
+70631002DB2ED7E3
+7069285E82A00E27
+706CD16BDB3A9820
+7073D0FAB1EA36CD
+708B03176702E029
+709757C4F2861308
+70C0E3327B19390D
+70C57548DB776B5D
+70C6AE92E60080CC
+70C86459C1C98477
+70CCD9007338D6D8
+70DD98B75B4905B5
+70DE8D6E19FE546F
+7110EDA4D09E062A
+711386D51960A34F
+711C73F64AFDCE07
+711FA4FE07F5C813
+7120DCABA8373B3E
+7125E9BB1FCEA8F1
+7130B33B835745F3
+71338E93FC7DDE40
+7148686369B144C8
+714EBF9904C149C7
+7157A4894A43C24A
+71766302F88F5E05
+717DAF4C02A48621
+717F6B3F4ED6F5B8
+718A84713E7917E8
+718AA9C126A9B8FF
+71A87A4B68C997B9
+71B21161FFA1E651
+71CB006015676D7A
+71D2E246824AD800
+71D41999A926CF99
+71E978656B7E6D11
+71F846E4289AC4A7
+71FC26FCD0C1C8FF
+7212A9E01329EA93
+7212F996F6D0A7F7
+721D651227347348
+72208C719C50397F
+723B299D08488ED1
+72408207E7238017
+7251564CCE933BB5
+72550102873A2284
+72655306BB703517
+726AAC3244339876
+72846BBB8B7D0533
+7288E9C9BE6EABB8
+7288EDD0FC3FFCBE
+7294C0885E427069
+729FAF160290C31B
+72A2AD007954200A
+72B3A73D8B2F4C57
+72B981EF67EA856B
+72BCC76BA11A34A2
+72C1125C872D3BE1
+72D948B845714CE9
+72F04BB41855AF08
+730EDBFE54BF825A
+7346A84E2A9CF8C9
+7347FD3B86C52BE2
+7349197004C3C403
+735F86C942CD6176
+7364D9D4BCF56DDC
+73658EF817542506
+73B6475FD5FE4C07
+73C3F9DE21E77470
+73CD42E7C18F7FBC
+73CF6753A272550E
+73D1B5F714E59A38
+73D7FFBE6635C981
+73F415B78D61555F
+73F936B6DDD16855
+73F94A08FA1F0BB6
+73F9F5E946C4A04F
+740ADF35799BAF83
+742D4D16F51E72FA
+7433633D3858FDEF
+74433A68AEC8DC32
+744943D2425BC781
+74525E800A6F4D51
+7459C721ACEDAFBD
+745D055D10B52143
+746A6DDE920B9AC6
+74806A9F0C1A1C24
+749849DE55A7A70F
+749F07D23B6C0926
+74A871ACBF060DDA
+74C9E0B9B9088360
+74CFB1E143D85123
+75033D67A53B44B2
+7505D64A54E061B7
+750D3F32C732A626
+753ACEC0A83E0775
+755FFC66E83154C2
+758B3254ACFDD83A
+75926E6645F9F642
+75A0A1C981FEA69A
+75AF1A8A63643FB5
+75B298A477A72F77
+75BE419E7274CA5B
+75EFF7EA3F9CEDC3
+7650B9C678549614
+766D10DEEDBF1ADC
+766D8613BF8392B3
+76895397F422DADB
+768E70031B0531AE
+769512DE88D3526A
+76AF661CF5F7F07C
+76BFBDAB75446D55
+76C22BD175F4E02F
+76CCE725E5D0125D
+76D6E0D1FA66B30E
+76E03AA06C9C190E
+76E10D60218348E5
+76E49719C0A213A4
+76E998C4A2CCDACC
+76EE0E954CFAFE58
+7704AD7DD27BD0F3
+77100B3DA5BAF090
+7716ACA22CB2B358
+7716CF464DF36317
+771D9E7347E95BA1
+7722211AC210D9BC
+772DCB84FF796ADA
+772F3CF53BAD5B74
+7741A4994795C393
+774AEDA76F472542
+774CC687D9A29EE1
+775BB961B81DA1CA
+7767CA70F29136D7
+7771CC7CD7BABAE3
+777AA2A24462B049
+7782AFC9D36EE81D
+7782C1DF18E611A4
+77887A67E331955E
+778BF41858466F4C
+77957589EFEF624A
+779AD1B78C69ACC1
+77A5670A852F91B2
+77BCE9FB18F977EA
+77D0D1BF29B51E3C
+77DCB7D62F0F595F
+77FFC485415FAE1F
+781AE3EEE7B5BFB0
+782F9B10621E362D
+78387A6B4A6F0AA9
+78481E7374AC7B77
+7848C0CCB24B56C2
+784CCEF3CD1873DF
+78534731605C2F83
+785A2372C3C2358B
+7867D019807D8F82
+786944A4DBB70BA9
+78A5528127332ACC
+78A95BE988AB05EA
+78C1CFA2560D5FBB
+78CB362DA1277CE6
+78CC58843754E430
+78E230FC28E5BB41
+78F166948A74AFBC
+78F1915956A269D8
+78F3842F0201C993
+78FAA88341C865C1
+790755754D5EECAB
+79155E88884C4D9D
+791C8EB19D03F520
+79264FC13250540C
+792A38B0DF524089
+79310356BC4B64FB
+794742FE5D9878A2
+7952D003C312CEAF
+797E90BEECC7E748
+798BBAC31C07ACC7
+79921A1ECD86E36C
+799378614E48AFE5
+799F481354E2C293
+79A73C09AB4156CA
+79B333C96EC99512
+79C6749733B9724A
+79DA9EAA3469EABD
+7A1994999D181DEE
+7A22D73D336ABD62
+7A4CAC3103D9B765
+7A54DFD0E0F905FF
+7A6F8FBCBA37EB18
+7A81A1830923ED08
+7A8888FA6CDACB6E
+7A9D05FEB30D9957
+7AB515D12BD2CF43
+7AC7811BD83A2665
+7AC827BB2B0DF36A
+7ACA065193D461A6
+7ADC2AED257D100E
+7AEF7E082F134FE6
+7AF2D10B73AB7CD8
+7AFAA0A74C41394C
+7B12E0B19188AA8E
+7B21848AC9AF35BE
+7B2722C588174EA5
+7B2E4BDD3781BB55
+7B37259E149636E3
+7B3AAC508D6359A1
+7B416F595D45C7C8
+7B51CAF5D678E041
+7B64D78F62090E6A
+7B6A88DB360FA028
+7B6C808B6AE330C4
+7B7858E42B9997C9
+7B909469C3877995
+7B9597CB98AB4A4C
+7BB881F925C37002
+7BBF1937A88394A9
+7BC2EF964B58F60D
+7BD3F297BBFD4359
+7BDCE242119F6857
+7BE5160688614A2F
+7BEF76F64B2D99AC
+7BF57B851984383F
+7BFB0B57A62B9DAD
+7C029C0BB067454E
+7C0A05D660035480
+7C14138EE3D7C9EF
+7C222FB2927D828A
+7C356FF9A3B9C47E
+7C357F5B65BB67A5
+7C4A8D09CA3762AF
+7C562CE029C27A9C
+7C57B0607548F646
+7C5B634421B75828
+7C67C05A215A3CE6
+7C67DF09286C8A5C
+7C6A61C68EF8B9B6
+7C793286FCA95878
+7C7D23A1118D87D0
+7C92FC5CF65F2BA5
+7C95B4C1282FCECB
+7CACD27B6AF3383B
+7CB2A5359DC19740
+7CB54FDD1A9B7541
+7CB6C73D5C7F721B
+7CBFC4D6D2A91E7F
+7CC918F959308C71
+7CE0359F12857F2A
+7CE68E2C9F64403F
+7CF7EDDB17412553
+7CFFEBB147A25542
+7D099FC2A237C486
+7D09D488B5D724CE
+7D0A389F86FA9BC4
+7D1F6CF7B6A9876E
+7D263D724514B69F
+7D29A0B8EBE9EC8E
+7D2E9C1DA0E005C7
+7D2F285008CFBF12
+7D3164903E67BA6E
+7D38D561015A0767
+7D4D9D396AFFFC45
+7D4FD801C18D77B1
+7D53A78B95E36350
+7D58B02D76C7801B
+7D5CA208AD21B0E9
+7D60487A060D7903
+7D6675BF55DC10DE
+7D67C55DCEE2944E
+7D803673A0B8C64E
+7D8F4B4B4613DC7E
+7D92A977AA89F639
+7D9B709ADD56B601
+7DCF6A8A5B1C42F0
+7DDC5E8FBC0B867D
+7DE2E017BF2971FB
+7DF1ABB57369FEA1
+7DF43F59DF7AA609
+7E063A2577C0372E
+7E0888A97597050A
+7E20F761AC7B8DE3
+7E2741C9E64513A9
+7E333E48391C926A
+7E43A8EF136D7BA2
+7E5309D90F660471
+7E57F9D7F735A87E
+7E65035EF8BCEEA8
+7E72688E04544C8F
+7E82E9D1EEBE795B
+7E8368C765068388
+7E8A950468630359
+7E8E7D0ED69DAC1C
+7E90BD2EF8D411F3
+7E9A7F529B950672
+7E9DBCF6C0D53D9C
+7EA0DC7EA7895ED3
+7EA35D812706D921
+7EB3491E03E1C1B2
+7EB3EC264E631866
+7ECFD8F97B4729C6
+7ED834F73CC3C84C
+7EDA77675FEE6B6D
+7EE5BB745F80EC26
+7EE73D7CA2EF77EA
+7EED4505D40813E3
+7F0871085CB3A34C
+7F16445BE6AB0411
+7F1CDB52105A1A0B
+7F25C663A26B633D
+7F276A97B73AFED7
+7F2BE99D71F38FEE
+7F2D03E77AD4EDB5
+7F31F3E068620523
+7F5EB9568258A2A0
+7F60551432428954
+7F7A6211287E32F9
+7F87F915CDE85EA6
+7F8931DB4E6497A1
+7F9523D278170487
+7FA07D310B7AE7CE
+7FC82F81C58DBC59
+7FD3C461EC61D8F9
+7FE17C234042D9D2
+7FE8F67A3DE31941
+7FEDB831977B1A4D
+7FEE269BA12A358C
+7FF5AD061E6BCEDB
+7FFCA5FDE98CFAB4
+7FFDEAE88C06D7F9
+800335EE3193604A
+8004B21DC9E6885B
+8010B86E8ED8EFED
+8016B96A6A2DD353
+801EE1EE8312F4E8
+8033A7F55D17F679
+803D562B0022A16D
+80401D1CF7FD4D16
+8056412C77E7B464
+805DE934491913EC
+805FC78294D675E1
+806CADD5590DEF29
+80718ABD1D4604E1
+808D7DCA8A74D84A
+809756344714AF67
+80AEFE2D17198CA2
+80B2F597BE62B446
+80B6C49AF86E654A
+80BBD6A0B640B2A5
+80D56DC772F407DC
+80E55C10C5B6374C
+80EC9E58B643CCBA
+80EE04750103E5F0
+81025EBC56F6E977
+8106D01B8A13BB52
+811DEEBD0E96E820
+812BF04CD05E8693
+812CAA12AFA7AAB9
+81379F1D1E62C9A1
+813A7CF504057A67
+81434D86662DCB71
+814FF90C56A74B5E
+815058D6297D47EE
+8165C82EFF69D847
+8182D8BA131CD557
+81941ADD3E463581
+819BF25083DCD67D
+81A81C3D13ACD3CE
+81ADFB397BFDDC21
+81B2290678E8AC97
+81BE07C43EBAADFF
+81BF548936C02343
+81C08CE175D2A6BB
+81CAE200F0C16466
+81CCAA04357EB4B3
+81D13DA335C6510B
+81DB8C6EDB1C2174
+81E2C821441E7563
+81EB3E50F71BF500
+81F0CD7EC793EDEE
+81F973184E216DB9
+81FB542143851D91
+822163C80304A3B3
+823638DF856E7A7B
+824596230518EB3C
+8255848BD190D4C1
+826C4175A882A6F5
+82A409F3109F6231
+82AFC179CCC1A234
+82B594B7561200B9
+82BE76F6FF4A917E
+82C27EAF3472B30A
+82CE42FF07B94053
+82E4BC54E431D62A
+82E64BAE4D065CF4
+82FE423CC6DF98F5
+8308550B79973E5E
+8308651804FACB7B
+83172794E6513643
+8328B5BA7C9B0AAB
+83342B43A70BF797
+833F4663C0A41973
+834D83B4BDD599D2
+836516D34437AE7F
+836BABDDC66080E0
+8382C949071C9907
+839E20EFAB4BFB25
+83A4C7FE07C8BCC5
+83C3610D9779A51A
+83D0F417CE80140E
+83D5E2F584695B97
+83DCA3A09F52CEF3
+83EEDB93AA8574C8
+83F6DB5D7902CF7F
+840C01B0B85CA3C9
+8420CA204CDFCF77
+843AA02B8B5BD2A8
+844982F196EA1D73
+84525BDC041F090D
+84719C26094D50C0
+84723A4DB9A3F226
+847A191D17B693F5
+847B218478DC3A70
+848F35F837D2328B
+8491EBAC22AA2967
+84967C27B787F521
+84A72166630DFA6A
+84B3DD0C5AFA5602
+84B8F7018358B2FA
+84B9C252A87DABC0
+84C3792FAF386ED4
+84D6DABD9E290AC8
+84D7A3683A000812
+84F7B26796A98B11
+84FFF827CC32074A
+8504A83B2465F310
+851B319F738C63D3
+85221C14FECE2755
+852CCCB9EB69FC39
+852E70CD3F08F6EC
+8543136714C2AA38
+85435454ABDC6ED9
+85632E84EF840F64
+85796C311F99767B
+85836D5E278954CE
+858AB4F55E0C0B87
+859745A0891BF1E7
+85B236DE624CE465
+85B31311F3059C48
+85C12D7F9BC094EB
+85C831EF17F072FC
+85CEE605A1133ADE
+85D0EF826E0E5EE5
+85E71CB1DC91E6CA
+85F2AEA244DABE24
+85F940C72D551AB7
+86029D25D9A7D9F1
+8622942BF3A56A06
+86234AB8A6B33707
+8635E82DB16DD0BB
+864D831DC01445CE
+865265970365AC70
+866372038ECFEEAB
+8681D2AA20F41C6C
+8697F432058B914B
+869D5F45C5F60C0A
+86A72D598024348C
+86AB8F57E80D3262
+86C4199EF2615F77
+86F65B500803D0F5
+86FA715BE5BF8444
+871012CDE30C5398
+8714C71D4A137744
+87206AE236348349
+8728C34282E0E389
+873425E913113EA2
+873B2F7587934420
+873E4B0EB24D114A
+8741AE8F69160F03
+87441D089840CD69
+8748F85C85A8D3AB
+874BBB8341DF1DB6
+875B9C4B81480DCB
+875D10FA6AE9879F
+875D33D7D77369FD
+8763073A423B5598
+876E3E067B4C7620
+8795202243033209
+87987A9F8D2B6636
+879F9D82E6B5D6BA
+87A9AD2E04CD1D38
+87C5E09D93E2E4BA
+87CF72FD2590DE3D
+87D336D6F6F51C4E
+87E332C6774D0B44
+87EC9A8F2E35C167
+87EEB6142B44A454
+8816D25163FA68ED
+883ED934CF2BE0D4
+8840E3DAFAD01A2B
+88476A2F49320158
+885340E33ABC7577
+88549280AC6E90C3
+8856B9E8DB40C56C
+8857DA2C44B3D698
+887135CAA4001681
+88796D814A38A33D
+887B58F6B6C1BCB5
+88888080ACC95DC1
+8898579D2203764C
+889C6853A117ACA8
+889F3702453C3A1F
+88B182829ADEF129
+88C01AE2CAF730E9
+88C50A7286A6F3A2
+88C6B29BD51811E6
+88D2E7EB5C9CA7F1
+88E29661831E5999
+88EA39439E74FA27
+88FDA9A04117E395
+88FDD585121A4CCB
+891354497AB95E57
+8917DBAEBFF051FB
+892A587F41E0A731
+892B152A73426DA7
+894CA16763D02BB6
+895B317C76B8E504
+89677615C2EC030B
+896AF1F1A6B850DB
+89752435B5DB3BF6
+8975F039CA06EE9D
+8985C3BC53DD3194
+898DFDA438F6796F
+89BE931398C32929
+89CC3BC87897FB28
+89D1E7800ABAF81B
+89E5B24855898A95
+89E89C17F877CA28
+89ED11FA9A79ABEA
+8A0204AA57723D75
+8A035036A9F75922
+8A08CF7A9C42277C
+8A59771E7C81B7CA
+8A5C1DA8F7FB3D1E
+8A6264B5E66497DC
+8A655EAA113CB25E
+8A69D0DB44F0BA43
+8A6B3C5E6BA4DA6E
+8A6D7B0873FFF3EA
+8A7E0708355303EF
+8A813B2BC0B01C98
+8A86674287F26D01
+8A878C8C6BC1278A
+8A8820C397B6C59B
+8A91C656D39DE29F
+8A99A49FC68F0B72
+8AB722D3142A2E47
+8AB8E2F8B8D831DA
+8AC21C6ECDA35FFB
+8AC3AE1E59E9BA0F
+8AC67B4A755F565C
+8AC7FECF8D970568
+8ADB420A51FCF7B5
+8AF817A01401783A
+8AFDBDC7DA296B30
+8B0287BD936B4A1D
+8B0E63C40CCA1039
+8B2B53B6B04547C5
+8B3F3D503F015C14
+8B4BD7E85A2A95EC
+8B59D1641CAA35BB
+8B5B1B4F5EE8820D
+8B6477E33FCE9B45
+8B6493160504CD0E
+8B6821BD93899E63
+8B8364327282D9E8
+8B8E7DE3414817D1
+8BAC2F8909886B34
+8BAE5A9F7B06AC81
+8BB469A7734AB7C4
+8BBF5CA254F0CB19
+8BC4B2BA2B382DBE
+8BC6A303816011A0
+8BC6AFC2337CD4E5
+8BC972FE5C77242F
+8BE3C943B1609FFF
+8BE9377EB23A3A1F
+8BED57EE858BCC46
+8BF1FE851608A8B3
+8BF52832D10E9F36
+8BF683D0C2CAB498
+8BF85AA659CA5847
+8C05EA08465CBD1D
+8C06F58ACA5E597C
+8C149A4E53AB6AD8
+8C258085654083B8
+8C278F0B569F4E9A
+8C31B2FE7EE630D3
+8C3B6D3E2185BEDF
+8C41A64B94146C1F
+8C55E3FC2ED55FB7
+8C636DE2B871B720
+8C77B9CE807BE4A2
+8C78AF8F1B1F5DC2
+8C82BF904B5E8157
+8C8DC759D63E4421
+8C9182455635E3F8
+8CA7E78CAFB1F7ED
+8CA9A524CA279928
+8CACB4D061B22957
+8CAE537CEDC0E2EF
+8CB2237D0679CA88
+8CB706DCCB601EC7
+8CCECC16BEABE4CA
+8CD68CC0AA56A2DD
+8CD985A0E667B397
+8CDB59C17B0D68BE
+8CDDDF67316364E7
+8CE489349AA61697
+8CEAC321491CB78D
+8CED0E591073BBF9
+8CFF3D51343EF75C
+8D04071BFCA94223
+8D0A7472A1FE2615
+8D1A883BDAEB94EF
+8D2245653B8B6148
+8D31BA867FC9AFC4
+8D3443AAE10B0719
+8D4F951439C5C4F0
+8D5A97B94DA0A2EB
+8D66A53A381493BE
+8D68260147B545E3
+8D6E34F987851AA5
+8D73BAFBE15154B4
+8D79359DC27C97CE
+8D84E058EB01D792
+8D993CCDF628E26E
+8DA7882BC0EF9E51
+8DA9652987222C8D
+8DAC20AA7DA734D8
+8DACAEE15DD5522A
+8DB2F580B8572375
+8DB625398C50A735
+8DBAA136C83B1083
+8DC1EC2610AC7B31
+8DC2E533F34E4D10
+8DC32B0EBD38D5CC
+8DC803D112DE3C2B
+8DD7F3E3A6BD5457
+8DD867FFF2805474
+8DDBE2DD599FD965
+8DF29D998EE230AA
+8E06850D002171D1
+8E07FD4281234692
+8E0B3EA5041C8FFB
+8E2444901CEE442A
+8E2F4C1097227445
+8E3EE9D5D3C305F9
+8E40A4FE54745D99
+8E41CD90BA941262
+8E4322907F50D4A8
+8E4408B475D63385
+8E45B31A46BCDF17
+8E45FE2388A6C460
+8E4C7FC2C5000D69
+8E608A0A0061868B
+8E62655794A57B5B
+8E66727BFFC14EC9
+8E8CC12502E20656
+8E9AA44F0213DD79
+8EA2B2FFB6ED9A00
+8EA2DB31E0A05B98
+8EB882351F65E6AE
+8EB9310F5F15369D
+8EDB2394ECC8AB7F
+8EDC7B121DE37116
+8EDDC12ED88F606A
+8EEC7BC461808E0B
+8EFD1762B9B128AA
+8F0DA62CCF5A95A2
+8F13FCDB28DA1951
+8F2174C83B060AD8
+8F25862680FC5FC5
+8F2EF45764B6C280
+8F368579CA5EBD07
+8F48B8A37D8A6165
+8F59CCE842B890A6
+8F5C049ACF77258D
+8F626B066850C9ED
+8F6C16F281F18A52
+8F7557834C465AFE
+8F7D88E901A5AD3A
+8F8CC717A4040B69
+8F8CE7F3E6F31A9B
+8F8EA25B34C73B20
+8F986A3BF91713E1
+8FA7988409E2C2C8
+8FA8A3C2DE612BCB
+8FDA04E78DD1570A
+8FE5BBFD83BFE455
+8FFA391AEFD0F41A
+9002C06E16D00BC1
+9009337CF16333F0
+900CDBFE080DEAFF
+9018DE68DC245281
+902283E321A5C142
+9024CE82FCA51F8C
+9026E383478501B6
+905483A4B8007C66
+907F5509F2FE6D93
+909487520E5A1419
+909A1CF42797B2CC
+90AFCE78896D043E
+90BB2990A8386B02
+90BD087C2082D376
+90BD4D7CF1C75EF7
+90DBD7BEAF8BD578
+90DDD8185345603D
+90E01D6464588B26
+90E2A5D76EB7C894
+90E8D798CC0F64FB
+90EF0A5348A12D64
+90F5E9B39DBFD226
+90FBBCF2B72B5973
+91118BF3119A4028
+9114F1721082B45B
+913162E01DD5263A
+913671C1C2850AED
+91571A120CA0EF4C
+91666B38821622C2
+916E56F209599D6B
+917C1A2D1094E45E
+917FFAF0B1101EF1
+9182952D5811BA2F
+918C0DF6E613EB5C
+91928327A2DD15B7
+91A0A6874C5F7636
+91A5CB83C404E00F
+91AC7A516BC5E836
+91B0026897988E8B
+91B6B8D09BE4BBB4
+91E09D0708EC4EF6
+91E24FF7F408F716
+91EBA069BB34792F
+91F6FCB18482CC6F
+91FB64276C08BB21
+9201F4880F9E39B6
+92050A93995A5196
+9208B501230026F8
+9209B58372781867
+92119E2C63E9366A
+921C776EE7D590CB
+9235E4C69D137CBD
+92405D6B7ED3B4FA
+92429D82A41E9304
+924645B3E345A600
+9262239C8A8835BF
+9262BB7889AB5799
+9286FA940279AA33
+928A1C29102DB5A2
+928A44F8C3389D2E
+92939541BE81AD59
+92C30386E610E87B
+92CA7BBB6D453551
+92D89A1ED918F076
+92E606DABDC0196E
+92E9DA1C7C942045
+92F4E11169AC16F9
+932366717C9AB558
+9329E8B1C609979C
+932A59F71D4490C8
+932EEB1076C85E52
+9332E4508D13FCB9
+933A1FCA2669D484
+934E0FA9A6F63B34
+935065A8BB8BDB9A
+93564E3F849DFB10
+935E265F3CC34E56
+936B436777E242C3
+936FA92E3681CD19
+9375690299B41568
+937DFAA19F2392D8
+937E0D11BD0A3F50
+9393A82CF1E3E645
+93993E1F2A86CDC8
+939BDBF3C5EE2351
+93A3EB19A906AB04
+93AA3925A5EDF52D
+93BEB912738D0201
+93D225EA49C70067
+93D99FF28ADE64A5
+93E905B9F1D91BC8
+93EA69F75A9D81AD
+93EC71B22793A815
+93F5F087F985BFAC
+94164C852D3092D9
+942ABF2045BB502E
+943682543FE704B5
+943811FA341F72A9
+945158A160453A32
+945B55DD7AC68DBB
+946164FF7D04AEB9
+9472BC042C1B4AD9
+947C844D900B26A5
+947CD1864F6C3AFD
+948A09ED0C6F7F55
+94AB2ABE64F10A1B
+94AF6C4088103E96
+94C63D4EA1F3BF63
+94CA398432DA60F0
+94CA8C090CEF46CA
+94CC1A25FC703172
+94DA0BC7CA7E8F85
+94E277F24C77C6AA
+94EDD0419718C653
+94F939F8106AF813
+9511E9B55DD76B81
+9533656D4E7FF6D6
+954784DF6E43718C
+95531EAB4225FCFB
+95606DA1B9667D78
+956C45D333E0EA1A
+957776BCFC6D9B44
+957D3F6A269B35F4
+958ED77D12560375
+959434095277B2FE
+9594C488F9EAEF0E
+9598E1F0EC5CB209
+95C0245920F17448
+95CFE594B3D9FC83
+95DB31C1E2106F36
+95DDF4208EB2B0CB
+95DE7231123BEFEB
+95EA069691E174A7
+95EE1ED4FD1BC35D
+95F6DC8EC552363A
+9601820A6A0AF118
+96088E35410A7839
+961028F7CF73AC05
+961B83797DE521E4
+961FFC011425D184
+9629ABAF85FC07FC
+962A13F5FDEF0E23
+9653AF05F246108D
+967CE367D89DCCC1
+967DD4B3A38C765E
+968171B6D5C0C180
+968B29F44430D27F
+969431A911DD8BF2
+96A60153813860C0
+96ACB9691F963769
+96AFD7ABA406EAD4
+96D9132ABEB2CEB2
+96DE5543D183D7DE
+96E08246964539B4
+9706377A84DDF99F
+970983E78A89E70E
+971A8AD6B5885899
+97210558AE657CFE
+97230F4C1807F3E6
+973C193B1FD3DEDE
+9752FB540F7084FF
+9760814E30D0440B
+976272B40FB37F81
+976989925E8C0412
+976BC050C0DD1542
+977718E064F1B44A
+97AF59D37C6CA59D
+97B2A43EED8EF54B
+97C46A2980677F33
+97C8643151DA6272
+97E890C60C8A6BCB
+980D5066BD0BA461
+9816D537E76EE266
+98176D741B434C6C
+981D4B547640DCC5
+982AA9D151715B54
+984BF2CD3C83F73C
+987BFF91FE6E517A
+98905BB10010F871
+98B3BC1244C4138D
+98B5DE6B2BFFB1BC
+98C45DF52CA66F61
+98FCDFCD242C1557
+99023D33059DE5CA
+991125F9F5101DB1
+991E522892123F17
+9927FA3AC960DF1E
+993C7AFED352EA35
+9949632124D7E060
+995144E6BEFBCA01
+9951588299ADC0A2
+9953BDC7853D4E04
+99550A6A7AE12D8F
+9956884717ED0F9B
+996C1E9DD29C03D6
+9991E5670C1A0089
+99996B911567C83C
+99A706CF3E35F356
+99B23E32BF0F5D77
+99BB4860B8867604
+99C4AA1C1C236C87
+99CAB882AC13D571
+99DC718B051ECC25
+99E0EA1A40C9B1D5
+99EA7BF70F6E69AD
+99EF9608F2C4A679
+99F351F2822A00D1
+9A036285987DDA82
+9A0F60A38D4F5A7A
+9A11C39633497B46
+9A334561C2C8D77C
+9A33874B87ED6728
+9A56F9C9C690A95A
+9A578EE519D007E9
+9A60FC9F461ACCB2
+9A7631F913F68A86
+9A94C57E6509FB01
+9A98A10B10848A62
+9A9BAC33A7ACD2D8
+9AA44208FDDF7CBE
+9AAA22E75ACF0442
+9AAB272568136C88
+9AAB2EF07977D911
+9AB706836BF39475
+9AC20922B054316B
+9AC2A9506AA9EB35
+9AC68ACE0B2DC0E3
+9AD86A97567648E0
+9ADC7A1161DDF32F
+9ADFA3D955D149BC
+9B039247490E238C
+9B16222371FE5E49
+9B19D6F30658EABF
+9B468B57820002F6
+9B607A4352286870
+9B840BA4B9E7E879
+9B881E632741F7C9
+9B903954FE7DB0B3
+9B93F68C0CAF8A2F
+9B99668208B3F89D
+9BAE4F86303CAD31
+9BB035B4AE048EF7
+9BB43FBCB912DEC1
+9BCBF37D3DD0F427
+9BDD731653629759
+9BDFC3CAFD445BFF
+9BE31D5AFA2106E0
+9BE49DB5DE76F6CD
+9BEA86AB9FF4BC3B
+9BEE349AA51BD873
+9BF6AE44CE952219
+9C01A257262779E8
+9C03DC745881756D
+9C245C8BE365BC74
+9C2E289F26FE5BE4
+9C306CE592FB0C2A
+9C358E3CD3EE3CD9
+9C4EE961FEEF2B11
+9C6007EDB92A9470
+9C6315616DE846A5
+9C6516201E43ECEC
+9C6C5055444F3CFB
+9C735E1176E1748E
+9C7A57AE5C65987D
+9C7B460C08AD46ED
+9C856EA45CAFEDE8
+9C881BDB6BC930D1
+9C88487EBD81163F
+9C8957AF85440865
+9C8961E3DDAEBDB4
+9C96B7B692F31D05
+9C9F2C2E67D72176
+9CC58C63529B27EF
+9CC76940A9247140
+9CCBC837D69F5E2E
+9CE5D6326186A71D
+9CE7F228D84C76C7
+9CFBC09F9331508B
+9CFBF8ED08ED8F0F
+9D0BDA38CD21253C
+9D1FD8567CD3C9D9
+9D23EFE27686E841
+9D37EDF7A8822E73
+9D4E1E23BD5B7270
+9D52A222757D8EE3
+9D5729ABDEA0103E
+9D593911C2DF4023
+9D5FAE859CEDBD39
+9D61BA84065FC839
+9D63F547D620662E
+9D6E4D378C30EF1E
+9D85FA9BA0F4023C
+9D8FDD373EBEB7FE
+9D90636D2CA5751E
+9D954E1DAD3F9905
+9D97A5892B0BF1B1
+9DAC80A7A7693AD4
+9DB61A10697BFA92
+9DC185DE721FAFFA
+9DC7226A87062ACB
+9DCF6C99CB72DCB3
+9DD2D7ADD866D583
+9DD5DD0868C46756
+9DD90E44D9F24DCF
+9DDBE35A8FCB7B84
+9DDC7AE9CB082815
+9DE2029A4489C44B
+9DEE1EC52B5F9BFA
+9DF118415D2E8E34
+9DF81461164E0BC1
+9E09DA76B3D41BBF
+9E0D8E7331319D03
+9E2104319A1FC8C4
+9E2C3F5D12E86D38
+9E496FB90C82F544
+9E5A10892E1C259B
+9E5B13BD5B3ECC7F
+9E62777644DDEAD1
+9E887AE8EF605615
+9E8C5571ED239017
+9EA3F3D9A7201BC9
+9EA6E21266BF538F
+9EA867C56FAB4F75
+9EB7426EE6261E77
+9EBE6E701804599D
+9EBF94D9AD4C4670
+9EC4236A09D01395
+9EC470553891C49A
+9ECF1696E187B310
+9EEBC37EA8F05CC8
+9EECF07E76813654
+9F080E64FB1A9D4E
+9F0C59071448E0C9
+9F17CE58CA1777BC
+9F2FEB0F1EF425B2
+9F54610BB67287F1
+9F8B292416D449F5
+9F8C93C926400811
+9FA5F77B7092889C
+9FA60B939FAE5EBB
+9FB1B50F2D0EAF32
+9FBD060EF55AC223
+9FD4C7B909658A29
+9FD8DE5FC2A7C2C0
+9FE896CB00FF7FB5
+9FE951EADF8D2B42
+9FE9F154595A7E57
+A01DB5E335623E70
+A01F2FD62CEA82C5
+A022064FD721AD58
+A031A87F72E8857F
+A0324E3759144485
+A0393902DB1F516E
+A044FA3F19A78521
+A046CD2FABACE73B
+A04FE5019C5A4B3C
+A0764A3CDF6C4BBC
+A076700F1B27FA2F
+A0847543CDE93421
+A08670FF00AB376D
+A0A903BA9DB418C6
+A0AE8245B23C95A9
+A0B6C024E1C5677A
+A0BA713EE23C3BAF
+A0BA8FC850C989DC
+A0C849D62D67126B
+A0C8F58B4CB50CFB
+A0CF725D4E64FD4A
+A0D79E07881FF37D
+A0EE5B601C591C10
+A0EEE797719DD45B
+A0F67C99839351A7
+A1037F14CEBC6BD3
+A103B7219C91113A
+A1111ECB47FCC2F1
+A12B70A5BEBE5DE7
+A12D8BCB21BE9427
+A131762EF0FDF780
+A136A39AE57602C5
+A14116304EF45455
+A14AAD8580AD3056
+A14B9ADB0D417F39
+A1511CDE5C5368EE
+A15E435C9663D551
+A171085CD55A07FF
+A191A48D268E1911
+A1920EDA664DA0A4
+A192F7ED10BE8CB9
+A197AB2801876354
+A1A776E422879F04
+A1C3ABE2DFA3E23D
+A1C80022F2E4BF72
+A1D1CD5D63871AD0
+A1D323AB6078D34F
+A1DA651B37759453
+A1E290BAB556CC85
+A1EA4B59CEC4CB22
+A1F0280EDDD46E46
+A1F2ADE914D2352C
+A1F3CD1F9CE19D8D
+A1FCFC7B9B3B4315
+A2040869B8628502
+A21841DBD58BB57A
+A22275FF0A0BAF1A
+A254C6BEDEE9F099
+A25586B86DBAFE18
+A257C42ABDC482C8
+A25C0C9C7220AFF9
+A26783F528380355
+A2678900542CF28A
+A293289C155B7BE2
+A2A5FC5E4F1FFABB
+A2A6DBB16D56DD9D
+A2B2C8EE4696C5A3
+A2B41BBAA70D5E60
+A2BE8E2428B14EB3
+A2C3DBFF697A5CB9
+A2C652C7964867F0
+A2C901C8C6DEA989
+A2CB8618B9B605ED
+A2D445FE78F64EA1
+A2E0350CBA6D6B0F
+A2EBBA04049FB81C
+A2EC006BDB092F9D
+A2FD6A424212D4AC
+A326C9730FAB6146
+A32B2AA941E729F8
+A32BE9B6B93FA2D7
+A336F34C39190EDD
+A36E1F2D2C1309E9
+A37FECFC71042593
+A38803C1C7D5B52A
+A3ABFB32023FC352
+A3AFFF8DE352A044
+A3B211FDC8E50512
+A3B97EC4F7672684
+A3D5FCA1447E9E4B
+A3DAFC547E4D0B62
+A3E24E8540592EA7
+A3E516C2FF6D5722
+A3E807995CF51BDA
+A3ED77F371602948
+A4044FEF350C22C4
+A43B91138D02D613
+A46267B00DBFC764
+A4684CCF29047FC3
+A478D65FD1F13FD8
+A47B5CC8F06168F0
+A49394EA1ADF7AF9
+A49E58BB3B714405
+A4A2A72F2C86146C
+A4AC914C09D7C097
+A4AD13B5BCCF8E83
+A4AE452E2FED16ED
+A4B95AE3592A9A4D
+A4C83D9AE1896B85
+A4DD4AA60FC8E99F
+A5017F4D86B39469
+A50218E6D9B3B6DC
+A50F60931115DB8A
+A51B38B40CB58A45
+A5261A5CA55AD56C
+A562E5A82C1C8550
+A56CFE813AF3104E
+A587ACD7C9615BDE
+A593DD11478DF658
+A5A63A67CFDA5C0D
+A5B436BB9F737B92
+A5B7A933EF06C93F
+A5C297C15E40AC38
+A5CFC4CF1D1D22E2
+A5D69A1C4C8CDF0F
+A5F2FDBFCB5CCC2F
+A5F820A4CCA8CA81
+A606F08F2010E06D
+A60A2E2B46358223
+A6166DF88ED0BFB3
+A620977BF82412C4
+A62F05F56F281EA3
+A6325E552B742D81
+A642A77ABD7D4F51
+A6440E6DA182BA70
+A655BB8F5BEA6E7C
+A665E455D8F96261
+A669276A48608922
+A67485F573F8AE8A
+A67669908C1E564E
+A67D5A576E4BA3B4
+A681DD000F72970F
+A687926F6622570E
+A6892BE1FF24340C
+A6BE82004B484D47
+A6C103C3B15B4FF9
+A6C43FD19FB86244
+A6C833BB9EBDD536
+A6D52E7AA5C37E6A
+A6DE5B3506DF1DAB
+A6F375A196CD4C89
+A6F55A350E3C2151
+A6FFF999C88E6D56
+A70E6FE6FC9D427B
+A71E79B173659397
+A7392862830C39A2
+A73D4E5DAFF65486
+A747B0C887F7F737
+A74C8F6C3DCC8311
+A752ADBBD754AB08
+A75805CE8536BD95
+A760C3823CA7D6EB
+A765E5DF7E68F9FB
+A76E64FD94A982F4
+A77591BE2044AFCD
+A777EDD09BF64FD0
+A7853FD3B294EB2F
+A79C739556A676FD
+A79E850D54DCD736
+A7A27915677A7850
+A7BA212EE9871D95
+A7C0C13C7074DB9D
+A7D579BA76398070
+A7D889D40EA9F248
+A7E67F802B90592D
+A827345418EFEA5E
+A82C68D2913D0957
+A84AC35E85BE4496
+A854AC95DDEDD1F8
+A8552D3A89530A88
+A85C9116E693095A
+A88210824C84972B
+A884CB0F7E075C7F
+A890503E82D4B195
+A893D4A704742B4D
+A89C82F70976C359
+A89F6AD6F1AF22C9
+A8A74431AD4702DD
+A8AE5AA42B14485D
+A8C4A59498FE4D42
+A8D0DC93EAFBCC20
+A8F0659AEC14AF30
+A8F3009026443463
+A8FFB7112965DD8C
+A9205C844C064F4D
+A92DDE892B6E11CE
+A940AF9DEE5C2CA3
+A942D90A62BE36A9
+A94A8FE5CCB19BA6
+A968DB3C7ACA825B
+A968FD8E2A5A86B1
+A96AA4E3E16E1FD3
+A96AF1D36888B3CB
+A9796277CDF26CDF
+A983552FC92B6D42
+A98D114C55205594
+A996A8D78AEF00DB
+A99DA9BC3F0C0443
+A9A2E8456BF9D58E
+A9AE72519CB99545
+A9B2E164E470CB9C
+A9CC1C2112B23B9B
+A9CDB8332BC55FE1
+A9DB906761699B31
+A9E1716CDB4924AD
+A9EF7295B04169A7
+A9F5C3CBC5913048
+A9FA084EE11960EC
+AA0002A70CD09A99
+AA032F0CB819773E
+AA09B51D5EB09531
+AA0E7E86B7AA21E9
+AA14F09D751AFE88
+AA18CB66A34EB4A2
+AA1C7D931CF140BB
+AA29D2E2D7A31962
+AA3894E1307066C6
+AA562DA417E81C7F
+AA57CB5780DB885B
+AA5CBD2BD33558AB
+AA5CC69FD6C0DADA
+AA602EE0BA50F232
+AA6A140DAFB473BC
+AA8B7C48E6A3F9E9
+AAAC8B8AC7F713DF
+AABC0FE9C2E62BF6
+AAC090B6C320611A
+AAD0E25A4BB3C23E
+AAD8C406E46F045E
+AADA5C1EAA4F000A
+AAE79C4BEA83255B
+AAEB9802E2E5B14E
+AAF4C61DDCC5E8A2
+AAF77D37AE500E15
+AAFDC23870ECBCD3
+AB0FD9394536799D
+AB3E3247E4C86BB5
+AB572AB2774F89CD
+AB5D5C91E60EC6F2
+AB65D8B9611FB58F
+AB740C2EEB62BB82
+AB7B8EA47EADF931
+AB832198FF15159A
+AB87D24BDC7452E5
+ABA08399156CD829
+ABB97DE99B1B85E1
+ABCCF54B832D2561
+ABDAE2FB392EB7F0
+AC05F5ED6C3C5C3F
+AC0B8EAE095043FA
+AC137C6AE0947718
+AC24049B444D2821
+AC27B2B59B975C57
+AC2B9FBAFC724B18
+AC2D6C9C2E1DE7CA
+AC3A0D49BE869439
+AC4F4985E73B7190
+AC58B520E46905F5
+AC5DB828E5B5C567
+AC6D27DDEA9B9D9C
+AC81468FDC6A2D40
+AC87DAFC03BA13EF
+AC895D5AF75E037A
+AC8A3492375B803D
+AC9674CB76153159
+AC9A2CD0A01D65C2
+AC9AD76C2F4E1BC3
+ACA00BAF51CD9692
+ACA9F407AE7EAFC7
+ACAE92F4C4C1C314
+ACB0F67E5092C567
+ACB628B005D33BAE
+ACB91DD9BED13D95
+ACBCD8EF17C83224
+ACDCBA192E71E940
+ACDCF8F3F05EA69C
+ACE2897DED654672
+ACE404AD32BD4FD8
+ACE423FEA6877DA4
+ACEABC8629E49946
+ACF3B96B82C9D09C
+AD04CF0D2596793F
+AD228ECBEF8D6CF5
+AD3FEEE433F9CAB7
+AD43E8C776766ECF
+AD5E5AF501E6AEBB
+AD5E999447A0A93F
+AD5FC434E77226B2
+AD61EE8F19F3D7D6
+AD70AB97AE1376E6
+AD7ECBC474405B2B
+AD8167DF4B75BD9F
+AD9056406390CFAA
+AD97A3BFB6C9A21F
+ADC311F8233A81AC
+ADC730AFD62971BA
+ADCEF45807438297
+ADD75F750CF6AEA8
+ADDBD3AA5619F293
+ADDEDCAD7AE1F7BF
+ADDEFBAC6E4AA134
+ADFC82A4DED82426
+AE024D278269AE28
+AE02AEAAC1D1FB3C
+AE08756E1623C255
+AE2D3FAF98B77D3F
+AE48D07860A39959
+AE650375DA23193C
+AE672A80B7F35D14
+AE6CF5C8329C0153
+AE74E071C253AA50
+AE776FC2771463ED
+AE78A7BBD66E4C4A
+AE908DD259C14D16
+AE9D2A1B23E21051
+AEC75DDF990E44E8
+AEC78482C1F64D42
+AECA5BB54E10EC70
+AED111F47A591396
+AED49B67C026B500
+AEDE8C79F0E3A0A2
+AEEBD9C070A674C1
+AEF0E8E9859884E5
+AEF22C0C125845B3
+AEFA43A7D0966EDF
+AF194F162932A0AC
+AF1C99AB83732929
+AF2C41EB4E034ED0
+AF406765141C81FA
+AF526A207A76632B
+AF537EEBEEB24855
+AF5B01BA6AECFB35
+AF5BFAE50D7601E7
+AF60E2381F9E4834
+AF6DAF5F1A60C91F
+AF712A409D1E803B
+AF891DC8631EE59A
+AF8978B1797B72AC
+AF964B142DB0E9C8
+AF987DCA8C3C5821
+AF9B6B9739281706
+AFA6EAB8E6226E1C
+AFAC3438BBC2DC5A
+AFADA29971E417A7
+AFAED75406BD4148
+AFC552C6937A88EA
+AFC70B3B612C520D
+AFD45BEE8406FB94
+AFE10E017B6811B6
+AFE1A51685666521
+AFF8D18E7CCCA4B4
+AFF9CE656A73FDDF
+B00BB05904870F2F
+B011BB2735E4597D
+B02A6CBA00F5E2CF
+B02EC0B56A413056
+B0386F7DBE993FAD
+B0399D2029F64D44
+B03AA764758EAF6B
+B03B74363BBB6EE4
+B03D4277EC8C8F4F
+B0473D2385C77C7E
+B05139004693B44E
+B05C038EDC70FC65
+B08C31175C98BD7D
+B09833CEC69EFF1B
+B09A897DDAF9C4B8
+B09E685AB19D90A0
+B0B313D7281F9B8C
+B0D86DA88A8D29C4
+B0DC786026C2233B
+B0E2CCC02E8A9249
+B0EA52FE84245BA2
+B0EB590FFBFC1520
+B0F204F142B99F91
+B0F7ADBBB69E916E
+B0FA31E04D0FC438
+B0FCFAC2252702AC
+B10BE9F20B21E794
+B14AB480028768CB
+B14C58679FEA72E5
+B14EAA46BAE0B985
+B17771CE239EB3A7
+B182563D505AB8D0
+B196CB026BF154C8
+B1982127B985CDF3
+B1A5BFECCD0BB3DB
+B1AEB68A9B0B902A
+B1B0C461AD649213
+B1B2A8533C2785F8
+B1B3773A05C0ED01
+B1C698FAF57E1A15
+B1CE1CDEEC3D27C1
+B1D1B6F79FDB2F60
+B1DB4F8BD855D06F
+B1E2DF585A20E47D
+B1EC0384B4CB7546
+B1F45ED147D6803A
+B202B147C04259FD
+B20562A1277F7341
+B238B8D9770EFDCF
+B240732FF44FAD58
+B2475002DAEA240B
+B24C3A95AEF4ABCA
+B25CAAE5F0CAA875
+B28F5A63BCBE3990
+B29658B4C5FB5ED0
+B296D05903F47E2B
+B2990B360C1D94C1
+B2A4BF10534FDA9C
+B2AAE3DA479BDE3D
+B2BA3C7465714049
+B2BBA55D21F25043
+B2C21E8AF4B085AF
+B2CE3B72778BB8DC
+B2D583AD28A43B8D
+B2DAC9F9273840A8
+B2E98AD6F6EB8508
+B2EE60370AD57D9B
+B2F561B8BC2706AB
+B2FD7B5C7B7A67E4
+B2FE939D679D67F6
+B2FF3625E9B36CA4
+B309B27DFA8247C4
+B322F14FDAD8F539
+B339EB044FC44754
+B348997660DC58B4
+B35B40E527FCE954
+B363C6EF45640A79
+B3661C89AA7F0453
+B36E5307A7D79EC8
+B36F003A506081D5
+B3850E04B5CC1092
+B3932535E8072DA5
+B3ACA92C793EE0E9
+B3AF44FA863FABEA
+B3BD0B5A70497BEC
+B3CA4E6EC1C5D34C
+B3CB92948EECE406
+B3CB94F8645235B4
+B3CEBA22DC3C39EB
+B3DE55CFDB5FE80C
+B3E30FE20713D6DF
+B3E8698A25073898
+B3F2CAF2CAEE5843
+B3F70CABBEF2D4CF
+B401A00E26036392
+B408C42C3E1CC6FC
+B4097E9CD1F81917
+B40E38024F9AE69D
+B40E64B5AA764066
+B40F9C8BB5E34E8A
+B413A7136246337D
+B438748428CA8082
+B444AC06613FC8D6
+B44DDA1DADD35194
+B45441EC2174803E
+B4566DCF18D5098A
+B45B62F4B65BCF2C
+B4691715AF470E6D
+B473A8A37CEEA8C4
+B47B5340A10F5D0F
+B487AF41779CFFB9
+B49327FD1E977DA0
+B49BEC8A43175FB7
+B49F1565F1CCD5BF
+B4A5AAB972A9650D
+B4B6A9F750CD9C7D
+B4D5269B17F8DBED
+B4DC144C44723BD9
+B4E9167FB0622ED8
+B4F8178B0E047A7C
+B509F9716996063C
+B51BB18F03B5A27D
+B563FF040E42EF4D
+B564F716B495CFEF
+B567AADEFB58EA65
+B56CB7D18FA5DD7F
+B56F294A99AA277B
+B584192C296CA67B
+B58F0E92C75B25D8
+B58FA4D7047179C9
+B592DA74FAB3E25F
+B5AA8A882D6242C4
+B5B09B15565CD7F4
+B5BD3EF964041EAC
+B5C45AF944F6D942
+B5C5E686BFFD09E1
+B5CD32DDB22D8037
+B5CF498B70A176EF
+B5D9EA706DB19EB4
+B5E15FD100BF871B
+B5E541A080478349
+B5F9E6DBAD41D9D8
+B5FDD9EE08CDF406
+B5FE06D67D43DF78
+B6109BA069F88960
+B611BBD5851502D8
+B61A624E29874A4C
+B630C6CF8F59440A
+B6327C2E07E39512
+B633571CF4D8CC25
+B65FB1E51E206D63
+B66525C5409AA374
+B66A5337CC0D5F1A
+B6717CAEFD1F28E1
+B67A58F3F85DC02D
+B68E49A388508F5E
+B69C06AC08D8078C
+B6A187A8A1732166
+B6B1747A356D59A8
+B6C337EF6C7AEECB
+B6C52BE06AF384E2
+B6E505D0778AEA5D
+B6EAB9693B0024A0
+B70FF710FF3C09B9
+B71912C8523D55FC
+B71C76A6B049694B
+B72239326F526818
+B7290A5472AE8747
+B72A8CAF30FCCC7C
+B74BBE1606589025
+B74C67F39F7E6C65
+B74DF8452BE95E3B
+B760BD4A77DE4C33
+B765A0346371016C
+B772CD4BF68195D3
+B7A875FC1EA228B9
+B7A9CBBC711D80ED
+B7C0A3D1C11AFBB2
+B7C10C4BEC83AB34
+B7C40B9C66BC88D3
+B7D04055D023A2B6
+B7DD4118046ED40F
+B7DD942D1EDE611F
+B7DE915AF36FA3B0
+B7DEAC0D80BB356C
+B7E6FFEB76FB218A
+B7EE4C8F3ACF7AFF
+B7F73C5B66DCA06B
+B8004E80A7E75031
+B800E8E1FF392127
+B80C1CDB88E0363C
+B8123334662720A9
+B8134DF9DB23A995
+B8173896F87ABBE9
+B8198BA5FDBED928
+B82A6912FDDB82D7
+B82AFF31265B30FD
+B837ADAA0713D683
+B84689B769AB3D92
+B84D27A350FC3ED3
+B86791D85A26450A
+B87205E476386B09
+B8871F449990E16B
+B89C76FDD889CE93
+B89D8BAA4DD04233
+B8B3D00839292843
+B8C9F2EA7C54B2AE
+B8D3E89FAA0DA0D7
+B8D54575EA5013DC
+B8EA80AFE9DDA6FE
+B8EAFD8232BA7759
+B8EE1760FD046A8C
+B8F7A37AF63153B1
+B8F7B122240020C1
+B8FC262CCDFE90D8
+B907818E0997C8CE
+B90986B79EB1144D
+B913B5BE7863B837
+B92109273455DA69
+B93365359C145716
+B9355E154272B262
+B93AEBA96ADE20D1
+B93E4C0DCABBA653
+B945C05897FD8BF2
+B948AB4FFF63F580
+B94C1991D95583AA
+B94C73DB035E8A33
+B9614A2509320208
+B962B9132D90B746
+B9683551C0270BEA
+B990D049EFA33166
+B99459EB00C08180
+B998887BE9B34D9E
+B99AA7139DAFFE64
+B9BD02B5E3714250
+B9CA5EF421378801
+B9D7F95E1F740735
+B9DD45C69C405766
+B9F01847B52E316E
+B9F143FCA765A282
+BA036D99C58A0BD2
+BA03EB889D8F9C01
+BA0C6E7F475531FA
+BA1FE9FB9CAB2334
+BA27949E1EA7F240
+BA2E4E8B8AB27814
+BA36536FF799A31E
+BA4C8AE02C48FB4F
+BA5395889104AEF0
+BA5D8027D4FBAF0E
+BA602E6E69C5C3FE
+BA65A40B314834F7
+BA6D0E3FAACB5D8C
+BA8062353CB5DD24
+BA856797A6ED7651
+BA87D4E5A9157275
+BA9ADB7296FDC289
+BAA41E9B20BBD700
+BAAA18844B8DB958
+BAADD8764F32FFB4
+BABE3050E2E81DFD
+BAC82203B0A1D3B0
+BACFAABCD5856318
+BAD33420FC9C20EA
+BAD69E23F1D5C4DA
+BADCFA3C62742B3B
+BAE1FAC12897A098
+BAE53C0F7748DEED
+BAF4655048FF1D05
+BB0123EF7CE315A9
+BB0377E75DD89D8B
+BB07DD81BB75A9C1
+BB16FCDF8EA8EB1D
+BB1BDEF9AD527E6B
+BB373C18D5EBA5BF
+BB39BB3B4EFB68D4
+BB3DE9E6B1DAE987
+BB41C9729342F6EB
+BB4389F6C9349499
+BB4DD43B4E074EA0
+BB6FC67649AF6267
+BB73488BBAA00DD5
+BB81C36100A1BC89
+BB87798B8553E326
+BB8A42781B656827
+BBACAC2CD1471663
+BBADAA8D512B8BEC
+BBB1F5300ADB6B2C
+BBB8C9FD326EB3AD
+BBC12342D0879C82
+BBF60F50BC4574B8
+BBF849DCBA7EC8D4
+BC082955FBD791AF
+BC177F280C1AE12F
+BC2131978992DD66
+BC469A76E474A04D
+BC5DD045B8623DDF
+BC635892D8BE4C7F
+BC6791A6BB2D9605
+BC7B8A1E70C42547
+BC7E4F1A917E912A
+BC82F38302EE6230
+BCA6D88582916C78
+BCA8D9D380052618
+BCB68379B8850F00
+BCBCF223AD9F2B7F
+BCC4F6DDCBB82AA4
+BCD3CCD0FE402632
+BCD5917B85289CF8
+BCDB84DAFB6CA607
+BCDFD7D6A2048B78
+BCEF7A0462580829
+BCF4B2FA3A552F2E
+BCF7ED4CC5C61689
+BCFD4A1FEA4955FC
+BD0202A72CB50284
+BD2108F3C935EA9C
+BD223EB552FF977A
+BD273715D9D4BB4D
+BD2D3C40C45A6489
+BD344F033B937F56
+BD379DA743CE289F
+BD3AA098E7A69724
+BD3B0A1B71F3C1DA
+BD3B20B10755A9F9
+BD48009167D3E94E
+BD4A01878AB35405
+BD4DE2197D79FF01
+BD65914C877C363B
+BD71890597A1486B
+BD8319B0B38FDC28
+BD834EC625873C0F
+BD99A921F3E756A9
+BDB5196020FA0784
+BDB73C3F4CB4DF5E
+BDC2305179206695
+BDCF2B23C07A73D8
+BDD48C24E6BC52C7
+BE085C1FAACC4A3A
+BE0E953B1131FAD8
+BE1377A0B538C2EA
+BE1E442EDEFF57DB
+BE31D9FEA39E0568
+BE4AEBEB41F6C65F
+BE4E2E8594B2C5C4
+BE6C2CB01D1245AD
+BE6D8FFCC4D44F08
+BE721FACFE42AED0
+BE8D598FFFD4F472
+BE959CF41EF33448
+BEB8372EBB58315B
+BEC75D2E4E2ACF4F
+BEC9D9B25662FDA3
+BEE0193D9480CDA3
+BF2F749E80C970F5
+BF3A03C56B02BF68
+BF49D40B268A60E4
+BF5AC669F9CAF144
+BF65E796F5EDDFC3
+BF6DDD53584F5BFE
+BF6DE335346312E6
+BF6F1CD040FF9B3B
+BF7349127C4FE6FC
+BFA48EB1127EC185
+BFB0DCC90EF49B41
+BFD0D07631A1DFD9
+BFD1BBD9E19E2151
+BFE54CAA6D483CC3
+BFF488954002A2AF
+BFF90D6C945CED4C
+BFFC2330511CDAB0
+BFFFE9AD39C3C953
+C0108ED0269EFCCB
+C0183758699775BC
+C01B5EF2C78E8670
+C0217093F2DC1F0F
+C0217C4209874683
+C031237268E45A38
+C03555C828941849
+C03A4DE0F8C83161
+C0422182CEC97EAF
+C048F5FB0A3CC146
+C05B208FD12BE2B6
+C0624F1AE89DD513
+C06ABB89FEC5AADA
+C06BEEC1B539DDE2
+C07F415FD501A792
+C0854D8805C1474C
+C086580BECBB9840
+C0A5B6340101AD81
+C0A7959C34C26BEA
+C0A8F28B61C37FE2
+C0AD90BA1F62D734
+C0B137FE2D792459
+C0B92ADFF6655AC0
+C0D497294FA268FE
+C0D821EEFE9E6CC9
+C0D9400B7CAD10C4
+C0E08E0453EE601B
+C0E636EB1D7183A1
+C0F3F85D3260F4B7
+C0F7F1AE9C191439
+C10C9FEEA1D5ACB6
+C11C70E8899C8189
+C11D5E1D35FB7E15
+C125304ED2481CA2
+C12C5BC8FD50B3D4
+C12D5610EE2F6F13
+C130468A2CA902BF
+C1397ABD0BC56D05
+C1508A5A91C794C2
+C15447974B5CAD2C
+C165BB234EE4ABDC
+C1678B2B3FF4D7D6
+C17296C8E5D91D68
+C17415666A95277A
+C17DBDC6C8C80794
+C1816A07A1D20B9B
+C18511F2F1521F6E
+C187A9472016E78F
+C18B77E0EB8C574C
+C198E0C508943B10
+C19FF4F8F993B2E7
+C1ABCF0BEF39AE16
+C1B2B91990E94530
+C1B485D2E936A988
+C1C2C0CAAB28E6C1
+C1F4F9E91DD0774B
+C22460F9EDEAA092
+C23C437402ADE33B
+C23CA618D465AF5C
+C23E2A6EF79EF0DC
+C246EAAEB2A79CFA
+C2577430D9171649
+C269AF59B8D32AF4
+C27121BB0633356B
+C2730E3DE8FB85BD
+C27611045AFE546C
+C27793C9BE123F69
+C28142DB8621FC66
+C28411F95D405A3C
+C2BA59CEED2FF8FB
+C2CE758B25EA872C
+C2D316ACD9C27516
+C2FD687207A272E7
+C3109B9B125987C1
+C31405B16FBB48AD
+C329AA8D9291157B
+C33F059B0CA7725F
+C3465193D96D5E3E
+C35B07262FCA5764
+C35D5FD12D99367F
+C36EB2FB3D86465F
+C38359133A8F4B59
+C386DDB9A2146006
+C3B7C69E95C45E6D
+C3C3707C81AEB1B5
+C3DDD5FD82303A2D
+C3E7B01E048296E0
+C3F15D27BCB5AB07
+C3F270C0C70794C0
+C3F63EE769C8F251
+C3FCC7E6BD03D0B3
+C40382DD2EA6B1D9
+C40ABC015984E8BF
+C40B9E661040C51F
+C40F5F16F3DF8D09
+C41579082D72FDFE
+C425421DACF582C4
+C432802C0DDF96C1
+C451017E581F5CDF
+C46843806AFCD7D9
+C470E76DF6EA6B50
+C4798C50D9385959
+C47C1FB413B29687
+C482C60492061B7B
+C48679E5F61BC445
+C486B6DBD676EC3D
+C48A1755802E009A
+C49465453D6B53F5
+C4951D39DB19517A
+C4A6B689E378ED55
+C4AA403780174430
+C4AE8BD30AEFD7E8
+C4AEEBA61CCD7B4C
+C4B10D7814056113
+C4B48C74F80F1C28
+C4B9144101F34953
+C4C309A9436D968A
+C4D0E763DFFD5744
+C4E16AA6A921E71E
+C4E1AD846176F1E7
+C4FD0E4ABA8C5071
+C506E42036AD92D7
+C507AC6EBE6AEE90
+C516F127AB98688A
+C518B69F0950147F
+C5265C76FF9BFC08
+C52888225C692996
+C52D6EBBB7F67455
+C52E9EBFDA8ECCE5
+C538D6D5E4E82A58
+C539153BA1F947BD
+C543E750C4BFD00D
+C547610ED2818845
+C54EFB1655F294CE
+C55152DB120DB8A9
+C561D66E42ED58CE
+C567EE5299807CFA
+C56C4276A65F1D15
+C5731FFBEA7CEC90
+C57823BEC793F10E
+C578A977FA611815
+C5830D0BD0B84D43
+C58AE89B5D7338D7
+C58FD14D64272461
+C590AFA9BB59191F
+C596085C67DF46E9
+C597742520FC6F52
+C5AF0484AE9CD863
+C5B50D6102984281
+C5C109E5E5521BDB
+C5CD9AF038C33E56
+C5D835D958583014
+C5DA298BAC3CCD5B
+C5E1D88EFEE383CB
+C5E50518BD77627B
+C5E6BA6043ACDD07
+C5F0B3F97762D2F0
+C5F215913304CA79
+C5F378F5E3769D90
+C60266A8ADAD2F8E
+C627EE06270CD1CC
+C62E583F78A4EDE9
+C62F11D8B7166E79
+C636CFBC5D3CC1F9
+C63EED30DBBCC24D
+C6552D59A7D17226
+C65983BA7CA3AF6B
+C65ED9DDD6087FFB
+C6695E7714034C75
+C67618A387E1F44E
+C67B454D77F63BE6
+C68DAC844E2415DF
+C68E2EDD6F01D947
+C6922B6BA9E09395
+C69329513404DD13
+C696C491B6CECCED
+C6AA1F6E65D8580C
+C6BDAAC9493D7C5B
+C6CEEC9FE1D02D60
+C6E3A5507986652C
+C6F99E1C6E992009
+C7017D8E40089C09
+C7106DBFE5864BFA
+C7109AE727BD0502
+C71D7F5B7933B5BE
+C72C3185D2C4C102
+C72F1CD2270E28D7
+C731B4219D8A475B
+C74B1B0FC233E8CC
+C74C0022F07C7532
+C76DB9BF5E0BF31C
+C77033BF9A949CC7
+C78DA305D435EFCD
+C79C43734E0E6146
+C7A1A6CE9D83EC23
+C7A7054706026F6A
+C7ADEC31BDD56F8F
+C7B376C573A0255D
+C7D12D147DA77F90
+C7E811B3416E494C
+C7E89E9F393D497E
+C7F18C763249A68C
+C81A34131B382CA7
+C824FE0AFE16857D
+C82661CCD3859931
+C8292D7FBFE1C7AF
+C8389AA0BD11F3B9
+C838E049A8FF3BFA
+C84A9F5313603183
+C85B038A428A03AD
+C85EF666591BD1BF
+C86AB38FC6CC2082
+C86D65C0B7BB9B8C
+C87BBB1A06411B12
+C88737F80AC94888
+C89B12ED99991C5E
+C8A50F632C3C4BAF
+C8A5584B28C70A05
+C8A8F767C1870104
+C8C4D511872958AA
+C8CE0AECDB894266
+C8D72FB5A56C317D
+C8E3E81DD8F01B0C
+C8F7F5A18BE255A0
+C902A0E3F559935D
+C90E9FFEFE259457
+C91114BB7663B37F
+C91222E9B1C7E43D
+C916E71D733D06CB
+C93FB8FCC5AABE3C
+C941B0A01CCA5F8A
+C944D8A54FDF21F2
+C950A2082152F3A1
+C95259DE1FD71981
+C95E440EBC195792
+C9635D9E34E95341
+C978FA13383B8BCC
+C97F16FA82361995
+C984AED014AEC762
+C99A869FCEDA8280
+C99B7D8D742E1C48
+C99DB68C595C9C25
+C9A27FB4166B266F
+C9DB941C9D6508A4
+C9F955F7DEBC17BA
+CA0DDE834001DC45
+CA1737A5B2D9A7B2
+CA2F846ED004A3D7
+CA3CBBDE6F5C080C
+CA4F9DCF204E2037
+CA5BCB700453BCF1
+CA6E8BB60DFF63C6
+CA86CCF7A0050366
+CAC1AE097E72EBE2
+CAD1E50462AA441A
+CADFB5BE2A34AAC0
+CAE355B615B61313
+CAEE804986812C37
+CAF31D39B10FD86C
+CAF322F0BBED721E
+CB071DE4F3479A82
+CB078EB7C8FD083C
+CB31561BFAC95BB6
+CB37512E8D8910CC
+CB37DE1D915A1244
+CB428BE5821976F1
+CB45C671CBC50062
+CB51013C0F5933CA
+CB584E1EE518438D
+CB64ADC14325B762
+CB8B9A802B34F57E
+CBB481113EECB6D4
+CBB7353E6D953EF3
+CBBDD2ACEC6D3954
+CBDB0CC7F3F5B4BE
+CBE57221C4F1A466
+CBE7D50DCFF970A5
+CBE869668B9F87F1
+CBEB54241ED70480
+CBFDAC6008F9CAB4
+CBFE24B13ABD796C
+CC02AFC28A3E49CB
+CC042292474FDB58
+CC19E69D0399AA1C
+CC31765F1D133D4A
+CC35AD1FBE06BE7F
+CC3B22781763CD33
+CC3D50EBDD40ECEC
+CC4723995CE81991
+CC600A46CC766FE2
+CC60F7488171EAB8
+CC78C8031BE084B3
+CC982AABB733CEE0
+CC9F816A42431CF8
+CCA5C9B8B472BDE8
+CCAD63C495216861
+CCB80575CBE1A0CB
+CCB831731F1FCB41
+CCBF3DA2E2EE083A
+CCC17521DD6FD775
+CCE3C8B06362E8AA
+CCEA8EE573D3BF13
+CD0ED783CC5132B2
+CD0EE5D408BE7735
+CD127701A2D0B3E7
+CD209136A592EEC2
+CD20C968DF76833E
+CD21826697D3F74E
+CD2FB4E60BC6251B
+CD4676C058E4C8AA
+CD481DCEA5F13B27
+CD49DA9D2AC9373E
+CD6A7B8768528485
+CD72F54AF341A45A
+CD751A8BB320C8B6
+CD78CF8D65E0E5D2
+CD8999B61E82C709
+CD9D6B7ECC9BC605
+CDAAAE55F729E68A
+CDDAABFE504F7691
+CDE18011727E2597
+CDEACAED24274CB3
+CDEBD26367201497
+CDF3074B0DC09D83
+CDF547ED4C64E699
+CDFA6A4FF70769AD
+CDFA8A0F21B1E194
+CE0CDFBA2CD4D222
+CE0D60D87789209C
+CE23F43B7DFBD2B9
+CE3E50EA3A966A8E
+CE456BEA95CD0D0A
+CE460A947B14D42C
+CE516F3286D025D0
+CE548A54435D04E7
+CE5B181501A1C4B3
+CE6166079990A12D
+CE6F86BD97774536
+CE71DF295CE7ACBA
+CE73A01703D70283
+CE76C9AF7FADCA61
+CE7BBC34528942EA
+CE7CF89F524E639C
+CE877357483F06C2
+CE942CE9B5AAC86D
+CEA7E9EDB4C19E7A
+CEAFB51E2B0783D5
+CEBCA1A3ABD5C150
+CECCB2F02281E20C
+CEE05D4E2B9BDF02
+CEF7E59218E3A7E1
+CF10CD746A8148EC
+CF1C33D21A4F887C
+CF2520DB9C0F5B49
+CF2AFB787D1A7A80
+CF2DB6AF0D30CAFC
+CF2E875D70C402E4
+CF2F3A3D04552013
+CF3876A2C4245BBD
+CF3DD000C2564766
+CF4A947F79D83627
+CF5165B945FC460F
+CF52829346030D93
+CF52D4563442B77F
+CF60B2B865D4A836
+CF6EB109FF8F0599
+CF75C68BF4847006
+CF7D73BB6ED704CF
+CF7F96E9E600174D
+CF8A9D3177D4C046
+CF90E547E2C1B185
+CFAA5C32798B4790
+CFC1E52B06A164FA
+CFCED82237C1B14B
+CFD8BA62143F37D9
+CFE77C59B82B0139
+CFEF11D457DA9DC9
+CFFA40787CF103E9
+D00284A99F604302
+D003859C6EE6E399
+D015CC465BDB4E51
+D0219B87CC88F834
+D02F9A6392D21017
+D030C8AB563F676A
+D033E22AE348AEB5
+D04121BDB182332A
+D04C1675B232C6EC
+D05802CB9344A839
+D06643694449442B
+D073A0E7496B8A19
+D073BC318121D77A
+D07CBEA180CDD2B9
+D099D77F42B9ABF8
+D09A8A9A69D14297
+D0A65436A81128B4
+D0ACAAE940E865A0
+D0C5BEC7BA9C5F63
+D0D1E74E6CD427F9
+D0DEACFDEF5651DD
+D0DF322461475146
+D0E0414DEFDD8255
+D0E10941C7FAF8ED
+D0F095667B8A9EF1
+D0F9C1867D17D18B
+D109EC1A6562104A
+D131ADB1454055F8
+D13BB0771A63C946
+D1559A9DF29C4CD3
+D166E844A3F3F871
+D1801A2FDACE9290
+D1860C08C397ADFA
+D18631A03F728FE6
+D192A7A70A0D4DC3
+D196F6A89618F2B9
+D19BF42824CEBFFE
+D19F94DAD9360780
+D1A0F8F9A6D72B08
+D1AA4DF922CE43EF
+D1BE5D48D8A73E4B
+D1C424DBE12E7757
+D1C9E8341E98A125
+D1CD56A32873DF2B
+D1CE03E672588599
+D1D145BDBB89B304
+D1DEB400DE7825B0
+D1E17B433C918F85
+D20C787C48CE2739
+D24CC98B506D33DE
+D25A8007E4559EFA
+D26B7223C8BDFB36
+D27ADF72F01C00BB
+D27B23C6DA4EF808
+D27C82E1DE5C6479
+D280C07DE9323B8A
+D284EB7FC6ED908D
+D289F4486CE784A7
+D28C481D71E51696
+D28D48075D9DDCDE
+D292D1B4586868C5
+D2AB089D8CA1BE17
+D2B23758B20706B5
+D2BC6405467135D6
+D2C4B9640B1ACBED
+D2C8736CB0680860
+D2DE21CDE0A5C234
+D2E5B73CB02C547C
+D2F8F5DE6E2C7EE3
+D300662CBA935FF3
+D300C33CCFC912D7
+D318F44739DCED66
+D31A87DA3B376962
+D328BF57D823BB16
+D330564E6CF71A19
+D33578C3AE9B0643
+D3395867D05CC4C2
+D3399E0501224051
+D34598325EEBFCCC
+D34E07616366E2D3
+D3516721B51942C0
+D35ADB2B046641B6
+D39B16FBC417CFE2
+D39E4F01393723DA
+D3BAC6BDCB84E042
+D3D8FF06700A72D1
+D3E2E284EB261AF8
+D3E4C4DB8006538B
+D3E6FD79A7575EF3
+D3F25FC811F3BA4B
+D417A11A3B84666C
+D41FBD9B3141E224
+D42E610E7305533C
+D445A32EE8C45B84
+D44677FA49F39CE8
+D4503E87763803F1
+D4543CFB987CC7B3
+D46E723DD6F38E59
+D475701085F37AAF
+D479A93E6DE0DCA9
+D47D53FC94BC5CB8
+D48006226C6F5134
+D48B39393F18C374
+D48DA00AB88D4749
+D4995AE0BF95805D
+D49A52732176396A
+D4A0009C9DCE1071
+D4A1E4C1E5C5F08A
+D4AD68206E67AD38
+D4B566B4CAC07038
+D4B90F2DFAFC7362
+D4BAFB9BD40B8C76
+D4D1887B7146824B
+D4D31A17AA7106B3
+D4D54CB421E6A3B3
+D4DD5385B8CF396F
+D4F078005935DB6D
+D4F164B207A4B4DD
+D4F55DEC8C7BC967
+D511FB8289778BC6
+D53652DE63B26F2B
+D53F35746110A5A3
+D54278F8A1AE4F12
+D561AAD4326B6A3C
+D58ECC1617D86AFC
+D5925069A29B9605
+D595A6D0A3FFCBA7
+D5A6686FC84883F0
+D5AD4C78031096D2
+D5BB925D332591AA
+D5BD104D3FFB3C5B
+D5CC7CBADBDBE866
+D5D7EF7895B54FE9
+D5E1319795CC5F47
+D5EC74E16154E896
+D5EFD44D3B631AAC
+D637E6EDAF4193FF
+D64815889A08E7A0
+D6558B0BE179868C
+D65991E71C551E15
+D661D905BBA23120
+D6663DDA5FE9B252
+D66837181941BC42
+D67CCBFACC940195
+D67D4E07DBCC329A
+D6955D9721560531
+D69846E97EFC1195
+D6B5E02621486AAD
+D6BA70255C54529F
+D6C2F62B94D2E629
+D6CFC61C43B384DA
+D6CFE5E76C8347BC
+D6D179707A746AFC
+D6E40D194CB262A4
+D6F53B3234A69058
+D6F7DC74A8B9C6AE
+D6F9CD9F2B557F41
+D701FB8CE3906A86
+D703DD0BF3F6FA05
+D707A99FE0651DBF
+D714D8456935FA20
+D71F06E9A2A6F928
+D736815F73E7C22E
+D7404D553CD2A9D1
+D747C826BA427EA5
+D74F4D80F2F3272B
+D75555C0F89906B1
+D769DED7E87AFF8E
+D786137A312E9FFD
+D789536779CB8A85
+D7966074B3D619B4
+D7977566C6714D1A
+D7BEAE0478AFD31B
+D7C134F08C72AB98
+D7C73AB2138A9044
+D7CD56F2A2A3F478
+D7D1EB4B6D7E0246
+D7DD809B61E5CE3D
+D7EFA75AB3AA61A6
+D7F581E013753225
+D7FBC061EE164CE0
+D7FFB8F9C36858C4
+D8080F6CB6D9EB2A
+D812B03A7F4B0321
+D81B69B3443BE652
+D81D4530CC25B037
+D822327225A4DC6A
+D832E95665F90CDF
+D8414F484BD19446
+D84BF4D4D27D96B9
+D84C1C8439E9DA35
+D850B8240A432C29
+D85B36DA842F68FF
+D867F1A3FFF6239F
+D869DB7FE62FB07C
+D877204C5BD1E44E
+D87B854F0D9E4D34
+D88B84F8C25101B8
+D88BBCE16E030D10
+D89FCFB3544904A1
+D8A612A0F2DD07F6
+D8AB810FED77BFC1
+D8B1B5821DE9F8D6
+D8B504F784DCB60F
+D8B87A1EB19D797C
+D8BE03EA63392122
+D8C64FB4213DC46D
+D8CD10B920DCBDB5
+D8DFBC2A9AE8B563
+D8E33C042030F3E3
+D8F7BAA2DCA3E34F
+D909B493DBAE7A78
+D90A84406C7862C3
+D90E810B6149C680
+D9136DC12301A610
+D91438E75ABEFC2B
+D91CA31BC14AA793
+D92DFF24A5AEB38D
+D933DD681E710E12
+D93AB91151958B02
+D94E82FD9D574BDF
+D9507145FE70A1C6
+D9540B2CD5851E37
+D9614C06BE35FB57
+D96FD464724A41BE
+D971CA020EDF71D0
+D9753057BA583D71
+D98F682F6B92E03E
+D99282340F583529
+D99761ACE1A60174
+D9C691D27B376635
+D9C71F04624A7805
+D9D45C214155603A
+D9DA8DDA616E5B65
+D9EF109E5C007451
+D9F3F7B9EAA14A1D
+D9FB482A7EA1F85E
+DA0E159D5D429904
+DA15A4B13C756D75
+DA1E62747DE6BC01
+DA35347F08D053B9
+DA3CA7D6A7954809
+DA427397A1A46BA6
+DA5C4EDA64708319
+DA5D6A1AE2A1BB14
+DA6A81787AA46D8A
+DA7D3388C18B2530
+DA83C7BF759E5D5D
+DA9454BABD12C8DB
+DA95A9AF4FEB23A5
+DAA7BA3738655F7E
+DAB850CC17977BFD
+DAC0E03BC13CD56E
+DAC9F2F13CEB3F51
+DACBA05753228443
+DAD1987D14B8BAA3
+DAD1E5F4B84D0ADA
+DAD323F82616F9DB
+DADA9CF977BDC502
+DB02FDB273142D68
+DB1DD4F3C3EE6BDC
+DB25F2FC14CD2D2B
+DB3C2A2F5A6BEE68
+DB53187E9D84EEC5
+DB59E4B91F7AFCA5
+DB5DF9DC112A5C75
+DB736ABC2A0AD771
+DB7DB5897571E433
+DB8C50E2B05A7396
+DBA03B8ED0DF6C06
+DBAAB1F96625B437
+DBBF0E67AB3E90A7
+DBC5EB621DC05FF9
+DBCE705929C7DC19
+DBEA0A57BD85CB0D
+DBEC206B8688C80F
+DBED166D8ADFF2A0
+DBFFB25B95F81A98
+DC0A51DFEC583207
+DC0B16D9E34515EE
+DC0B6B1A441A2CEB
+DC25F9DC0DF2BE9E
+DC2802C65FBFB667
+DC30BF06C44ED9DC
+DC3BD5DFA33B27AD
+DC3CA53D42988808
+DC562159D3003CA8
+DC6250DBC23018D7
+DC67C419B9D5A106
+DC68E17844BC44F0
+DC6D4BC5E258C18D
+DC72184D7F332847
+DC76E9F0C0006E8F
+DC796FFDB94337B1
+DC7A3618C74903B9
+DC8F9E67ECC283B8
+DC919A2BC300DF84
+DCA5F865F39D9DCC
+DCADF4A53CA1CA25
+DCB8E23E256D1017
+DCB94B0B87D6222F
+DCC83626D0953352
+DCEEEF63BCE33DAE
+DCF08FECEF3852D1
+DCF1BBB7AAD0CDDF
+DCF5BCBFCCA2346E
+DCFFAFD4C90EA22D
+DD08B58E1D30DAD4
+DD0E0045D285F634
+DD13CD2AAF98F1FA
+DD1A4245BBA6F1E3
+DD204896EB237FB2
+DD220074F39C3676
+DD242D3A56DC2F6C
+DD39009B1B495B7B
+DD3BD5EDA76E9E3E
+DD5FEF9C1C1DA139
+DD6AB95EE097E14B
+DD6E085D7FC47BC8
+DD70DF1364D41192
+DD7ACCA808561B87
+DD7BC79A84650F68
+DD7C0733F04836E0
+DD9A6057CD78535A
+DD9D99F8033D7168
+DDA3039558EB4E6B
+DDA9F995DFC42C4A
+DDB3712BEF67913C
+DDB67C3487DAFBEB
+DDC41092A3C09C1C
+DDC5B03262E13140
+DDC877A1FD299043
+DDCEDEF566B02025
+DDDF0289506D985C
+DDF1CEAF0A82B730
+DDF45997A7E18A25
+DDF4B9F04575FD37
+DDF6C9A1DF4D57AE
+DE20DBC8A98273F5
+DE268EBE8875DF0D
+DE2F8E1738CAC5FE
+DE3460832EA070EF
+DE38F300011969A1
+DE408E8DEED34E16
+DE4285EE8A9FB99C
+DE4AB6E26DB462B9
+DE4CDC2BAB5BD668
+DE87ABEDA29D146E
+DE8EB7CA96F958F8
+DE9FDDEFF3CD72C3
+DEA742E166979027
+DEB5362A9DC8A072
+DEE1825767228FB6
+DEE99AF0D1C612BF
+DEEF25829C396D0D
+DEEF6132A4011627
+DEF2B225F4D5200F
+DEFE3F685F8795C9
+DF18CE139EBB7D86
+DF19B6F2FEF795AF
+DF1E9A98B8022278
+DF3F55A80911C78A
+DF418181878A120D
+DF4EBE8FE035CB06
+DF53E98ABA875095
+DF57A5B9DB4BF17D
+DF70F9B975B42116
+DF81BD89CBEBAA0D
+DF88A2109825319F
+DF8CD538BA12F869
+DF97A42549E5C0E1
+DFA0DD1536D22625
+DFAB34E11396327D
+DFB4182CCBE3D3A5
+DFB44AA437937960
+DFB85310814892A9
+DFB9ED09DC17C7FE
+DFDE20B356BDD57A
+DFE368E5D43B8669
+DFFE2AE2C738D515
+DFFEDCB123BE7FB0
+E002F954E9F5CB18
+E009FE111A0AD86E
+E00CD6C0EEF532E7
+E026306522CB94D1
+E038F2D9AF3B3AD2
+E05C402F0DB70B24
+E060D05F14738B2E
+E0618AD565656FF6
+E06EDB3D1A727F29
+E074138D45B04949
+E07C432320DE593B
+E07E346BEB489F2B
+E07F8C4AB6822127
+E083612B4A67573E
+E0849B02E243712A
+E09D45BA453D1E39
+E0A5590CD5F0BFFA
+E0AD1CDE7BD8460F
+E0C4E9AF334A264A
+E0C95748A455C27A
+E101FD352E2D56EC
+E1048757E84DE648
+E10DEB787CFD31D8
+E111DE3565A6A3AE
+E117FF08EF7C6DCF
+E1345BAABD92FCA4
+E147E69525827C8B
+E1509CB810870798
+E1639497832EA8D1
+E166BF3498EAA73E
+E17D228BC3AEE644
+E18738418BD100C0
+E198D68A9DFE2145
+E1B026BEE19BB534
+E1BE40F42E03D393
+E1CB76B0599FB39B
+E1D55C311FB617FC
+E1E23F4C9D55B18C
+E1E4EFD29D45CBF2
+E1FCF236160D95B2
+E223A80AA31A4242
+E2287F04386008FD
+E22C9878D9C39A6B
+E231AB5E39A2D46D
+E23D37E74BE5F219
+E2516AD316BA1CAE
+E274EEFF768C6396
+E281EE0324CDB4FC
+E286977B13F1A89E
+E2927471D311A67D
+E29C94AB2807E627
+E2A93ABFA60F5F3E
+E2A9B4F7002F908D
+E2BD6D0A6BDD4E89
+E2BED5CE41A80509
+E2C808909C177B22
+E302E43BADE7A622
+E308B57242B51C82
+E309EA0C4730D204
+E3283E086ADD3D49
+E33071040348B527
+E34B6E512A2BAE6B
+E35600BD6FBB5E69
+E35BECE6C5E6E0E8
+E37011E8CA02E8F7
+E37AEA2756103A1C
+E381C549ED786153
+E38AD214943DAAD1
+E39FA6F177092337
+E3A6D5B2BE1A7ABD
+E3B473A3BBEFF1A8
+E3C5028808ECBC22
+E3CD9F6469FC3E1A
+E3D4A22607375FA6
+E3F22E52DBB8EFC6
+E3FB72BE4979CCF2
+E3FD062AEFA7C499
+E41D0CEBD8D17C11
+E421028269715F36
+E43084C694A3066B
+E436C21431EBC424
+E439DBCFAF126B3C
+E4407A46DDC26478
+E44CE1CDC6E4C880
+E45CCC9071284384
+E46505239E6B64B6
+E469CB949957217D
+E481B5E4A71B4D68
+E486487C87BD344B
+E48AE48F42FC8151
+E4970BE8A295CD49
+E49F7DBE4367A57A
+E4A66F8851B3C5A7
+E4BA51C383719FE8
+E4D2360091998039
+E4D8BA04D0C630C7
+E4DD5B3B47B0430C
+E4F81994FED009C2
+E4F998E90F8FD59F
+E509C34E9BD3F802
+E50F3474AE97F4A1
+E5136B0F150D84B1
+E51FA4428B0F3763
+E52DF08E8E490F61
+E52E5E6CD50EF4DE
+E53407CFE1A5156B
+E53549280F1B82E5
+E5357D658EF45F30
+E5362A6C0773D5B0
+E549AE5EFAD1834A
+E54E8E371398E7AD
+E55F801B773E6FC5
+E56D1B1BB38E8929
+E571044DF0DE5392
+E579F5B87B047CED
+E580C4C799F66851
+E58EDB0FE3D9CB44
+E58F29830C0BC00D
+E59E8B61D945A074
+E5A0AF1773F05A4D
+E5B4A7601D9B9408
+E5C2F55423CAA3C6
+E5C59DBCC6B44AD4
+E5C67328755A2A01
+E5D7BA47D8903988
+E5D867BD498F557C
+E5E9FA1BA31ECD1A
+E5F2926DC6C0EF98
+E5F4C7C6FC96213F
+E5FA4C65287321C1
+E5FAC2B0764ABDC2
+E60046DB34CC9267
+E60B8F054A7F4494
+E61FE4A9F61F063B
+E63830931E3E486B
+E6390CAC1FFB10DC
+E63D88BD7BF30604
+E6427457497FE0F4
+E643E81D2800486A
+E6455CC6EB8A5B71
+E64C24C65B3470CE
+E652B7B0918A8B28
+E65910FC81FA3721
+E65AF0233710B1BF
+E670AF555A453A7C
+E6852777C0260493
+E6862933EAEEBBE8
+E68E11BE8B70E435
+E69A64E75F7ECCCE
+E6B191CEA08DE8E3
+E6B58B6C81D51EF9
+E6BBD62C9189D216
+E6BD5A81D67795FB
+E6BF3D54C30A7C71
+E6DC78A0D1620F3A
+E6E46F7209BFCA2B
+E71201E9BDB7D58C
+E719DB599A00A2F2
+E721FE954C2B85AC
+E72D548A52423A1F
+E731E309F34011D9
+E733843E9D9E5E40
+E73C331397A2BDD9
+E747E10520BE0A59
+E75113AC5EDBEB9E
+E75466849DE662A5
+E75787856C781087
+E76A43EACC765A48
+E76B6E8886C73617
+E76DAC66147F4362
+E76DF769B3C69CDB
+E77216B01DF4C39D
+E777E2C9050BD8BD
+E77998CABD556932
+E77AB8F38BF8B7FA
+E780281233E39305
+E78AD873A5CAE50B
+E78CC1DAD268F989
+E793E29B4F741131
+E7965266C3622F9B
+E79D3D8938FB6FC9
+E79F4321FA817066
+E7A1F2FA05A11660
+E7AA4C75B8A6F0E6
+E7AF0B1D59970FD2
+E7B152194773C74F
+E7DF2102F016F31E
+E7F70E55C3F15D2A
+E80721793C24AE14
+E811BC7DF0BE8F42
+E811E8E7CC04B0B8
+E8126C64C3486E84
+E849A821A5CED2F9
+E84AA24658F328B3
+E84F6C2B3AC421BD
+E87D7F5302B20D72
+E8839FCE52DB1C50
+E8843D2BF5376D63
+E8878F85C72D8FA1
+E88907A469EC9C9D
+E88AE13ACCEC5997
+E88F69B79FC7BAC9
+E8947193ED5C142C
+E894AF95A6270634
+E89B80912B98CB43
+E8AFA59ED9036D14
+E8B45C3BAB342D98
+E8B63B3703C4F87F
+E8CE957D24DEF8B9
+E8D4546BEC9A10A1
+E8DEEDDC3A7CA3EC
+E8E0155F9A20032F
+E8E0DD66FA90A4AD
+E8F4EA77242421FD
+E8F699DE8D75FA32
+E8F8C33384E571D9
+E90BEA2017739ED1
+E90F618E7B419DD6
+E92CEB2819F9D940
+E9424E7E2A8860A0
+E9438110F00598BB
+E94762436DBDFF19
+E956F001520559F0
+E95D1FA3496EA887
+E96857C58F716104
+E96ECC857169B164
+E977F30EA412972B
+E97BEC539CDE6266
+E97E1256F3CF60C7
+E98198FC49D09C94
+E98C4B337F54FEE8
+E9AF588C391D8833
+E9B09F9B20A15489
+E9B10B049EF849FE
+E9C02FEB5B669907
+E9CBF3D1F5E14A0F
+E9D1138F1F62686D
+E9DDB7A8BE08D377
+E9E41FD6F5967275
+E9E54469E3CF5F64
+E9F2B9B61AE38897
+EA288D9A0E97E7B7
+EA32D2DE08036502
+EA3392206408F93A
+EA3ACE6085B77D75
+EA764D45FFC8121E
+EA782526E704ECA4
+EA8B8ADA430FD082
+EA8DE923F1F4CAE0
+EAA14FA1C6ACFAF9
+EAB0F0D675765E4F
+EAC572194EA4090D
+EACB0D1B53A6F128
+EACB23A25520D3EF
+EAD0542D6E8311CA
+EAD7826B1C4FFE18
+EAE8977B9EF14F9B
+EB067043EC5AF23A
+EB13CE21D87064BB
+EB1C96F3373DB585
+EB21D02FD1C27443
+EB22C5E28ADF024C
+EB26DD8005A2D281
+EB3B0C150D06E5AA
+EB42B16814333310
+EB448852E4474E96
+EB49E3CD35638088
+EB4DA12BF661C557
+EB564145C24984C3
+EB60469E1DB40261
+EB63172BF807C4AA
+EB6E2BB2689EE813
+EB7DE65B351AD6F0
+EB848286E5C11AF4
+EB97DE16395E85FD
+EB9C5DEE0395B441
+EB9E488CCA6D7B95
+EBA31384DE620DC2
+EBAB282F7ECF4D21
+EBB3C97FE18ACCF2
+EBB5DBEF2313D8F4
+EBBE445C36F82A2F
+EBF12E6EDEDF301F
+EBFC7910077770C8
+EC0C102338626192
+EC1541B4B0C5CF09
+EC258A75A233B04A
+EC2613E3BD874EC3
+EC2955C9316F93D1
+EC297FA57E4C3D6C
+EC2AC7B0E2170E3B
+EC2D7744C603BAF5
+EC30ADC79E734900
+EC33B5FF002164DE
+EC4083CA341DA862
+EC461B5480380ECF
+EC4BF1BC5230FCDD
+EC565F7F6FAE8B0B
+EC5A7C3E21436A8E
+EC5D0210E062C74A
+EC5FC916F5E00202
+EC604A8F4ED51945
+EC654393F7E8318D
+EC65A740F5A00CAF
+EC6CD74E420A7D0F
+EC701588E00B07EB
+EC88ADDCBF209032
+EC896F613B39091F
+EC8D51E550A6A30F
+EC9003255BD6FE4D
+ECAFBE2D913D28E0
+ECB8CEBCE7274363
+ECBE268D2F102511
+ECC7AFA2B78528D0
+ECC92703E8C21221
+ECCE7EDD090C35CB
+ECDCBBCEC3DDC821
+ECE2068B9B1CC45E
+ECE8922B39F4109C
+ECF4A5D4AE6A6401
+ECF81EABEC96BBD6
+ECFC81B6BE444C78
+ECFDCF4E67BD777B
+ED06DDB1859A34BF
+ED1ED2E2C22317AD
+ED2324B0EAA76046
+ED4B6DBA289707C1
+ED62854DB967BE6B
+ED64B585206ACAB7
+ED79166B4AE075EE
+ED869B76B74C3977
+ED8DE449BA6EDCC7
+ED97F86F1C5A082C
+ED9D3D832AF89903
+ED9ED23B385C460F
+EDA097D7163D21BE
+EDA1EB55D1A532A7
+EDAC36944DB78612
+EDC7E99028A8CCD8
+EDCC903B320C71AB
+EDDD9C38017477C8
+EDE1C695D5AA9FA0
+EDE74204CD2F7158
+EDE927F8E42318A8
+EDF360B3F9F25E1B
+EDF6BC092952F783
+EDFD7EC3944B6A0C
+EE0630B33F1DE43C
+EE0FDE7AD359523A
+EE1C885CA539BB9D
+EE27929623E2E521
+EE461858B0AE1675
+EE50C4FEB0A62E19
+EE7161E0FE1A06BE
+EE7484C4423A6EC4
+EE77892517A89DDC
+EE7A77BEE7FEBF14
+EE8D8728F435FD55
+EE9791FAB2B459C7
+EEBF26B3016B7FA7
+EECC450AE84E0107
+EF0684107CE0FD53
+EF0B47D307BBB6B0
+EF0EBBB77298E1FB
+EF12787E81DA00A8
+EF170267A075E94C
+EF1746D4A56ABD1B
+EF1775C74C0A5CC6
+EF359DBC370FB3A2
+EF3D86A0CE41B7BC
+EF406F24B1BC5C68
+EF43852BC2EF0F97
+EF47B25A1DB000D4
+EF496931497F58D0
+EF4F5FA62E5A7408
+EF547BADB8B0801D
+EF6308C126558C39
+EF7830DB5BFBF353
+EF7A55553260A8FB
+EF8420D70DD7676E
+EF8FCA9E5EE48BDA
+EF91FA4C07C854CE
+EF971EE38BBA25D9
+EFAC35A50290CF28
+EFB24B909FA4D4CD
+EFB4E648EF9501CB
+EFBC19993C089DE7
+EFC0DAF3E77AE2A7
+EFD1C1ED5628BAED
+EFD2E102EF9B4AF1
+EFD8A2D7A5E5DE47
+EFDA468ED26DFC04
+EFDDE0B382A1C336
+EFE115C283173C7E
+EFE1A3D74684E6DC
+EFE531E0B2B68BA5
+EFEBDFC78EA1935C
+EFEDA2605ADC89C2
+EFF7343C007DF76C
+EFFA24DB46B544F0
+F0014882083AD040
+F01236E3A27DEAFD
+F0127360987BAD27
+F013051BC8CA9723
+F01375052FDEE1F9
+F015168A2406CA60
+F02A761D8DA05F8E
+F04ED67042234F5C
+F0578F1E7174B1A4
+F059686D815960DB
+F05B51C294C32403
+F0744D60DD500C92
+F074AE548A312B9D
+F074C5AA086728B7
+F08ABA189B52523C
+F0AC9C1AC37E7DDA
+F0B9E01AA06F53CD
+F0CB20A87BF74D02
+F0D61723FDF73013
+F0F0AC09091A311A
+F0F0D617AA337B19
+F0F2FB1D620C2B60
+F0F8E902CA7A41C6
+F0F982D18912D32D
+F0F9BC431E2B1F48
+F0F9E1969E45E276
+F0FC73FB35842CD5
+F10469165FF8B64B
+F118763794AC161E
+F11EA65808234995
+F12369157742C2DE
+F12D5A522F782D9D
+F1371A9747EC634B
+F1416844B9EC16AF
+F1481434BF87384B
+F150AFAB8C3B1671
+F15E518A239A5DDB
+F162D82D320B7F8F
+F1707F87B7662B61
+F17881A3334E0CDE
+F178F73041C4DB48
+F18A0852D1870746
+F1905C69B3F3F4BC
+F19414373D5CE773
+F1A3A6689FD2AC6F
+F1A7DAAD61240EB4
+F1AA4F3546D4A79E
+F1B498E6A9D7AA8D
+F1BA847181793B3B
+F1D2811AE5E6C79A
+F1ED159A2CABB9FF
+F1FDF1F0E4663BC0
+F1FEB8FD19AB6B59
+F209AC0CCC57CCF0
+F20B25E88554769E
+F21B1E25EC34E2C8
+F221B8DA5B71ADCE
+F23226259BB0807D
+F2340FCDBE7A6382
+F258F42A6FE89E4F
+F25CE1B8A399BD86
+F25E4859A4D5E03D
+F2643D6A917EF925
+F2682DAB34895074
+F272D2217E5FCABB
+F27F31812827C40B
+F2847B1BD9624F92
+F29FB5E570E0151E
+F2A12F187EBB7080
+F2A62DEA3C9CBE73
+F2B14F68EB995FAC
+F2C26839E7D7C14E
+F2DA7B0212A90535
+F2EDF456353FF95E
+F302A7F2CEB402B3
+F307C50569BDF867
+F3184C25B7AC9943
+F31FAEA90773032A
+F32157A45887E4FE
+F33D0C8075F4C3A6
+F353155113758FDB
+F3583CD8E44409E1
+F35BC30C0AB88378
+F35F7C7DDCC0BD7C
+F3641AA58E75FC94
+F36B14D0C8025423
+F37B329CEA3096C4
+F385E7207E30F05C
+F387DB5B2AD08E81
+F38D760AD4B84E41
+F39B15CD58425D41
+F3A1D752CFD85D4F
+F3A39518189E6726
+F3B356786435FB45
+F3B544E7596C8AF8
+F3B866446EA5B206
+F3BB374F73E17654
+F3BD9646BDD17689
+F3BF3127CD6FF4C4
+F3D11F4AD2A240E0
+F3E1596EA9B85B72
+F3E3532CA0C8502D
+F3E94B6762330E4D
+F3F1758B099689D5
+F3F4BB4AE334A091
+F3FA3ECD6D636B76
+F40D1C437BF5A2E5
+F429B4209CA7382E
+F42A3FABE1E9BED0
+F44826999A7EB92C
+F4554ABBC0C5DEE0
+F4595DB255EAAF1B
+F45FC5847BEE336E
+F4660C4D49268517
+F47425A897019319
+F47E8064143775A2
+F481A118F8922100
+F485FA3FC36D9252
+F48623A64B483254
+F4A1529440E0C551
+F4A69973E7B0BF9D
+F4A7CA7870465CB1
+F4B7511CA7F480FE
+F4C67F124BC79AB3
+F4D016A67318187D
+F4DA24783D326762
+F4DDBA1997324703
+F4E7A8740DB0B7A0
+F4EE7415066B23ED
+F4F2F099C1F78E2B
+F4F3434631DFAC32
+F504A9CFF6350B31
+F5074EC003C1FC5B
+F5162C9B9CD57D51
+F51C61BAB4A9B8DA
+F5326789308AE28F
+F53F4C589452B73A
+F54E02D7B98FE4D5
+F551119667D74EF2
+F560CAD0F8316EE9
+F5613B462A8CF69A
+F57FBD76DACAD4A5
+F5B4EA961862D05E
+F5C5665E4FD7EDBC
+F5CB77A8E8BC85A4
+F5E7004936482EF7
+F5EFE3C7B79AA2C2
+F601EEDA08500F9F
+F60EDE23F36BAE11
+F6129064E3A02328
+F618660945279AF5
+F62243E5C8460F0A
+F62F10A51FCD5ACD
+F638EA12A8D29005
+F63C3456CACD9E36
+F63D270AEB518214
+F642B267FF782639
+F64DE3184FB2DE1B
+F657ADBC2E120B62
+F668019FC3200E80
+F66DE17E39C8A8EE
+F6727CEEF04BDE79
+F68D94CECDD31CF0
+F690AC83C4A90AD3
+F6929BF003D3560E
+F69486DDD2C84512
+F69E0845C1100817
+F69FCA6BC5909397
+F6AFB5351BFB2224
+F6B268FD78D6F466
+F6B68D29A8C9E52E
+F6C4683DF5CC3FEB
+F6C7662F3BC03A6F
+F6CDAD441917ACA9
+F6E9F78387902CBD
+F6F91716C376B79B
+F700A6934E78CD90
+F713E381921B4473
+F71B47E5F8BE4C6E
+F71EDD8DFBEBB296
+F71FE67A9E4B4FF8
+F72F121E4D93E869
+F732DFDBD0AED627
+F734638C86A474EA
+F73D543F6238A986
+F741CC7D1AAAA5FC
+F755EE1E8BF14A35
+F75DA0FFCCAFD5B9
+F763A77120BC4B5E
+F76845B1BA89F13A
+F77D5687ACEE6484
+F7872BA682888416
+F78875A9C30951B7
+F7A9E24777EC2321
+F7B32D6F7F590BB0
+F7C3BC1D808E0473
+F7CFE6914B8516AA
+F7D07F3DF406E966
+F7D70817428F9772
+F7E00273CF594AB6
+F7FD93EDCC4EAF29
+F7FE4FC479D9127D
+F7FF9E8B7BB2E09B
+F80D0CA101E967B5
+F8105D256B0FF9EF
+F8143B925F3DE998
+F819410B8EE304BE
+F8248E12727710C9
+F825AFAFEDCD105E
+F82A34EAB04E9B4F
+F850CC6BE5CCB63F
+F8548C86A8BDA787
+F85F0461126756BA
+F865B53623B121FD
+F8697535D0725159
+F86D0FE81D0B99C2
+F872CAAD177D67BB
+F872DFF066FDAED1
+F892A4C491A1FBBD
+F899C5870AC23766
+F8A48E5BA1072379
+F8B463BAF2365885
+F8C38B2167C0AB6D
+F8D26E7DF1820C38
+F8DEA91010CE6DEE
+F8F117E9D86335F9
+F906FAFA64C095DB
+F9201F8A4CE40578
+F9659274E3D9080A
+F9678F87D8927B02
+F977B03753624D00
+F97B688B2054969F
+F99CE3A5BE6A866C
+F9AD446FE4D66596
+F9B9126E1DEECD47
+F9D369A535E6FBA6
+F9D6A60A1458C8CD
+F9D84C079A137ECB
+F9DB0484CA871256
+F9DC4D5D844D08B6
+F9E6D0785C5A5016
+F9EF66F90CBE240D
+F9F5D7C3D10EAEC4
+F9FC55B9129FFDDF
+FA17D76FE3F40103
+FA1EC7A6559120BB
+FA3C9ECFC251824D
+FA442EBBFFB680A8
+FA5D6A5CBAE08E5C
+FA7D9640E4D8D256
+FA805C03F697250C
+FA907C72A2163457
+FA9648BE870A175A
+FA9BEB99E4029AD5
+FAA0C9ABE6ECB0CD
+FAA3F016DE7FBF29
+FAB0F3B7AE8E4343
+FAB754E2FD5DCF32
+FABACD1F32A96908
+FABDA04548EEDC42
+FAC673092FBDCAB2
+FAC6B98400BA9E5D
+FACE83EE3014BDC8
+FACED1D2F3647ADC
+FAEC670CE75FE79C
+FAF1D1A2D09750FE
+FAFC5D97CFFBABE6
+FB1D795EF4C9FAE6
+FB1D9EF6A0229966
+FB1E0716797ECB43
+FB2D2E86E8F9001D
+FB3151C8055F095A
+FB4273D14E2B17C9
+FB5391EB542424DB
+FB5BD89FDD110280
+FB5EA56ED6C7C8ED
+FB63111045A34986
+FB783274BE9461C3
+FB7ACCBAE065DD6A
+FB7D55065263037E
+FB8149AEB4EBC502
+FB81EB694B1AFBF5
+FB8C4F4DD505BC41
+FB9A7B842C78E124
+FB9F580CB259A3D0
+FBA9F1C9AE2A8AFE
+FBB53584A8813830
+FBCD7F67D39A4C1A
+FBCE34DCD1738637
+FBD02718171E945E
+FBE1B577A06756E0
+FBE9E7D47FBBDB0A
+FBF596EC969B7925
+FC089013CCF5C11A
+FC130C69B55E3141
+FC1AD22309F1549F
+FC26CFA4730A47A0
+FC28BAFA9E634762
+FC370ED4816D687A
+FC3EBE2B96D866BF
+FC50A978BC736254
+FC510EB6C0D83E3B
+FC5C15C3FB874CA4
+FC6FAE10DB2BD0B6
+FC781D6C04500CF8
+FC79C8451F9CAA98
+FC84AAA687374AED
+FCA4948DAB1EC649
+FCB7D126F850BF6C
+FCB8AF0F7A61CA89
+FCBECC0B0FDE637E
+FCBF6CFCC02DF0BB
+FCC13CCAE73DC28E
+FCC5F90203F83F63
+FCCBCB1443409CB0
+FCDB1EFC200970CF
+FCE636E758ABFE8D
+FCECD2294CC2AE5A
+FCFC884D49AA4AEC
+FD11973D3C954497
+FD1D4919285F9929
+FD2B9C7BB6AC3D7E
+FD34542FA94241C2
+FD4BE10F1C7CB900
+FD4FC482476FAAC1
+FD733BEC1C6DFFDD
+FD8DBC187FF7AA5B
+FD9BC11A52FA259C
+FDAFE27A9896EE30
+FDB355CCBEAD2052
+FDB6B702E37565E6
+FDB87DFD199045AF
+FDC560F2E9ACCFB1
+FDCA295090BAD302
+FDCCB411F0520B52
+FDCDEB784FAAEB4F
+FDE63C9C7E7298E1
+FE15B594699D9356
+FE2308D29D9ACFCF
+FE24C5F63B4E401E
+FE2C9038D7D5822C
+FE3A4D44703424FC
+FE42B117A8805D68
+FE4CB7DAFF628523
+FE5305F870C1913F
+FE6B0FBBA8A1DD46
+FE6F49E9691B16E4
+FE7626D45F065079
+FEA7A1DF954315BE
+FEABEBDADEF66E22
+FEC73A6FC8A1074F
+FED0BA75F1DB2507
+FEDB98F755B64588
+FEE1E2A466993C4A
+FEEEA4E69FA51EE2
+FEF2D9FFAADA9B00
+FEF9C3C85A8B4B9B
+FEFA3222C66DE201
+FEFF1692535644A2
+FF066D7A11AE417A
+FF1138875A04AC29
+FF11F082D3E209F9
+FF217884BB387C38
+FF2E2C462C9A63FB
+FF30C798BEBAA679
+FF32B049E8ACF1DC
+FF3951E5BE8B5737
+FF6C2A1AC05D9FDF
+FF7B26A00645DFAF
+FF902ED015142C06
+FF92D02C1B04CBE5
+FF9A2DB2590D0DE7
+FFA8F60B30D1AB24
+FFA94F5D114D2BDE
+FFAAAFBDEE1DE041
+FFB00CA4848BA14F
+FFB2D9A6E2CAC5ED
+FFB827F99C0D6A3D
+FFC5A63603C5253D
+FFC7B1A14AFB4575
+FFD058FA0155B6FF
+FFD9CBB68EBCEFBF
+FFF3338B94D335B4
+FFFB93F7F3DBA3A9
+`;
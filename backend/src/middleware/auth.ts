@@ -1,7 +1,57 @@
-import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
-import { IAuthenticatedRequest, IJwtPayload, IApiResponse } from '../types';
+import {
+  IAuthenticatedRequest,
+  IApiResponse,
+  IApiKeyDocument,
+  IAuthResponse,
+  IUserDocument,
+  Permission,
+} from '../types';
+import { hasPermission } from '../config/roles';
+import { findActiveApiKey, touchApiKey, hasScope } from '../services/apiKeys';
+import {
+  verifyAccessToken,
+  isIssuedBeforePasswordChange,
+  findActiveSession,
+  touchSession,
+  getRequestContext,
+} from '../utils/tokens';
+import { getAccessTokenCookie } from '../utils/authCookies';
+
+const API_KEY_SCHEME = 'ApiKey ';
+const BEARER_SCHEME = 'Bearer ';
+
+// Background requests (session checks, polling) send `passive` so they do not reset the idle timeout
+const SESSION_ACTIVITY_HEADER = 'X-Session-Activity';
+
+const RECENT_AUTH_MAX_AGE = (Number(process.env.RECENT_AUTH_MAX_AGE_MINUTES) || 10) * 60 * 1000;
+
+// An Authorization header wins; browsers in cookie auth mode send the access token as a cookie
+const getAccessToken = (req: Request): string | undefined => {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader) {
+    return authHeader.startsWith(BEARER_SCHEME) ? authHeader.substring(BEARER_SCHEME.length) : undefined;
+  }
+
+  return getAccessTokenCookie(req);
+};
+
+// Resolve an API key and its owner, or null if either is no longer valid
+const resolveApiKey = async (
+  rawKey: string
+): Promise<{ apiKey: IApiKeyDocument; user: IUserDocument } | null> => {
+  const apiKey = await findActiveApiKey(rawKey);
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const user = await User.findById(apiKey.user).select('-password');
+
+  return user ? { apiKey, user } : null;
+};
 
 export const authenticate = async (
   req: IAuthenticatedRequest,
@@ -11,7 +61,28 @@ export const authenticate = async (
   try {
     const authHeader = req.headers.authorization;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (authHeader?.startsWith(API_KEY_SCHEME)) {
+      const resolved = await resolveApiKey(authHeader.substring(API_KEY_SCHEME.length).trim());
+
+      if (!resolved) {
+        res.status(401).json({
+          success: false,
+          message: 'API key is not valid.',
+        });
+        return;
+      }
+
+      await touchApiKey(resolved.apiKey, getRequestContext(req));
+
+      req.user = resolved.user;
+      req.apiKey = resolved.apiKey;
+      next();
+      return;
+    }
+
+    const token = getAccessToken(req);
+
+    if (token === undefined) {
       res.status(401).json({
         success: false,
         message: 'Access denied. No token provided.',
@@ -19,8 +90,6 @@ export const authenticate = async (
       return;
     }
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
     if (!token) {
       res.status(401).json({
         success: false,
@@ -30,10 +99,7 @@ export const authenticate = async (
     }
 
     try {
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || 'your-secret-key'
-      ) as IJwtPayload;
+      const decoded = verifyAccessToken(token);
 
       const user = await User.findById(decoded.userId).select('-password');
 
@@ -45,7 +111,32 @@ export const authenticate = async (
         return;
       }
 
+      if (isIssuedBeforePasswordChange(decoded, user)) {
+        res.status(401).json({
+          success: false,
+          message: 'Token is no longer valid. Please log in again.',
+        });
+        return;
+      }
+
+      // Reject tokens whose session was signed out remotely
+      const session = await findActiveSession(decoded.sid);
+
+      if (!session || String(session.user) !== String(user._id)) {
+        res.status(401).json({
+          success: false,
+          message: 'Session has been signed out. Please log in again.',
+        });
+        return;
+      }
+
+      if (req.get(SESSION_ACTIVITY_HEADER) !== 'passive') {
+        await touchSession(session, getRequestContext(req));
+      }
+
       req.user = user;
+      req.sessionId = session.id;
+      req.authTime = decoded.auth_time ? new Date(decoded.auth_time * 1000) : undefined;
       next();
     } catch (jwtError) {
       res.status(401).json({
@@ -71,23 +162,37 @@ export const optionalAuth = async (
   try {
     const authHeader = req.headers.authorization;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (authHeader?.startsWith(API_KEY_SCHEME)) {
+      const resolved = await resolveApiKey(authHeader.substring(API_KEY_SCHEME.length).trim());
+
+      if (resolved) {
+        req.user = resolved.user;
+        req.apiKey = resolved.apiKey;
+      }
+
       next();
       return;
     }
 
-    const token = authHeader.substring(7);
+    const token = getAccessToken(req);
+
+    if (!token) {
+      next();
+      return;
+    }
 
     try {
-      const decoded = jwt.verify(
-        token,
-        (process.env.JWT_SECRET || 'your-secret-key') as jwt.Secret
-      ) as IJwtPayload;
+      const decoded = verifyAccessToken(token);
 
       const user = await User.findById(decoded.userId).select('-password');
 
-      if (user) {
-        req.user = user;
+      if (user && !isIssuedBeforePasswordChange(decoded, user)) {
+        const session = await findActiveSession(decoded.sid);
+
+        if (session && String(session.user) === String(user._id)) {
+          req.user = user;
+          req.sessionId = session.id;
+        }
       }
 
       next();
@@ -123,6 +228,88 @@ export const handleValidationErrors = (
   next();
 };
 
+// Must run after authenticate. API keys never reach account security actions
+// (password, 2FA, sessions, key management), whatever their scopes
+export const requireSession = (req: IAuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({
+      success: false,
+      message: 'This action requires signing in. API keys cannot be used here',
+    } as IApiResponse);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Step-up authentication ("sudo mode") for sensitive actions. Must run after
+ * authenticate. The request's access token must come from a login or
+ * re-authentication (POST /api/auth/reauthenticate) within `maxAge`
+ * milliseconds; otherwise the client is asked to confirm the user's password
+ * or 2FA code and retry. API keys are always refused.
+ */
+export const requireRecentAuth = (maxAge: number = RECENT_AUTH_MAX_AGE) => {
+  return (req: IAuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.apiKey) {
+      res.status(403).json({
+        success: false,
+        message: 'This action requires signing in. API keys cannot be used here',
+      } as IApiResponse);
+      return;
+    }
+
+    if (!req.authTime || Date.now() - req.authTime.getTime() > maxAge) {
+      res.status(403).json({
+        success: false,
+        message: 'Please confirm your identity to continue',
+        code: 'REAUTH_REQUIRED',
+      } as IAuthResponse);
+      return;
+    }
+
+    next();
+  };
+};
+
+// Must run after authenticate; the user's current role is read from the database, not the token.
+// An API key is limited to the scopes it was created with, on top of its owner's role
+export const authorize = (...permissions: Permission[]) => {
+  return (req: IAuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Access denied. No token provided.',
+      } as IApiResponse);
+      return;
+    }
+
+    const role = req.user.role || 'candidate';
+    const missing = permissions.filter(permission => !hasPermission(role, permission));
+
+    if (missing.length > 0) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+      } as IApiResponse);
+      return;
+    }
+
+    if (req.apiKey && !permissions.every(permission => hasScope(req.apiKey!, permission))) {
+      res.status(403).json({
+        success: false,
+        message: 'API key does not have the required scope',
+      } as IApiResponse);
+      return;
+    }
+
+    next();
+  };
+};
+
+// Left as sent: rewriting a password changes what gets hashed
+const UNSANITIZED_FIELDS = new Set(['password', 'currentPassword', 'newPassword']);
+
 export const sanitizeInput = (
   req: Request,
   res: Response,
@@ -130,7 +317,7 @@ export const sanitizeInput = (
 ): void => {
   if (req.body && typeof req.body === 'object') {
     Object.keys(req.body).forEach(key => {
-      if (typeof req.body[key] === 'string') {
+      if (typeof req.body[key] === 'string' && !UNSANITIZED_FIELDS.has(key)) {
         // Remove potential XSS vectors
         req.body[key] = req.body[key]
           .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
@@ -161,36 +348,3 @@ export const sanitizeInput = (
 
   next();
 };
-
-// Rate limiting simulation (basic implementation)
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-
-export const rateLimit = (maxRequests: number = 5, windowMs: number = 15 * 60 * 1000) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-    const now = Date.now();
-    const windowKey = `${clientIP}-${Math.floor(now / windowMs)}`;
-
-    const clientData = requestCounts.get(windowKey);
-
-    if (!clientData || now > clientData.resetTime) {
-      // Reset or initialize
-      requestCounts.set(windowKey, {
-        count: 1,
-        resetTime: now + windowMs
-      });
-      next();
-    } else if (clientData.count < maxRequests) {
-      // Increment counter
-      clientData.count++;
-      next();
-    } else {
-      // Rate limit exceeded
-      res.status(429).json({
-        success: false,
-        message: 'Too many requests. Please try again later.',
-        retryAfter: Math.ceil((clientData.resetTime - now) / 1000)
-      } as IApiResponse);
-    }
-  };
-};
\ No newline at end of file
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IAuthResponse } from '../types';
+import { CSRF_HEADER, getCsrfTokenCookie, hasAuthCookies } from '../utils/authCookies';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const tokensMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Double-submit check for state-changing requests that the browser could authenticate with
+// cookies on its own. Requests with an Authorization header (Bearer or API key) are not
+// affected: another site cannot make a browser attach one.
+export const csrfProtection = (req: Request, res: Response, next: NextFunction): void => {
+  if (SAFE_METHODS.includes(req.method) || req.headers.authorization || !hasAuthCookies(req)) {
+    next();
+    return;
+  }
+
+  const cookieToken = getCsrfTokenCookie(req);
+  const headerToken = req.get(CSRF_HEADER);
+
+  if (!cookieToken || !headerToken || !tokensMatch(cookieToken, headerToken)) {
+    res.status(403).json({
+      success: false,
+      message: 'Invalid or missing CSRF token',
+      code: 'CSRF_INVALID',
+    } as IAuthResponse);
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from 'express';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { getRateLimitStore, IRateLimitStore } from '../services/rateLimitStore';
+
+export type RateLimitKey = 'ip' | 'user' | 'email';
+
+export interface IRateLimitOptions {
+  // Counters are tracked separately per key type; a request is rejected if any is exhausted
+  keyBy?: RateLimitKey | RateLimitKey[];
+  // Namespace for the counters; defaults to the method and route path
+  name?: string;
+  message?: string;
+  store?: IRateLimitStore;
+}
+
+interface IRateLimitDecision {
+  limited: boolean;
+  remaining: number;
+  resetMs: number;
+}
+
+const getClientIp = (req: Request): string => req.ip || req.socket.remoteAddress || 'unknown';
+
+// Falls back to the client IP when the identifier is unavailable (anonymous request, missing body field)
+const resolveKey = (req: IAuthenticatedRequest, keyBy: RateLimitKey): string => {
+  if (keyBy === 'user' && req.user?._id) {
+    return `user:${String(req.user._id)}`;
+  }
+
+  if (keyBy === 'email' && typeof req.body?.email === 'string' && req.body.email.trim()) {
+    return `email:${req.body.email.trim().toLowerCase()}`;
+  }
+
+  return `ip:${getClientIp(req)}`;
+};
+
+/**
+ * Sliding-window counter: the previous fixed window's hits are weighted by how
+ * much of it still overlaps the sliding window ending now.
+ */
+const decide = (
+  current: number,
+  previous: number,
+  elapsedMs: number,
+  windowMs: number,
+  maxRequests: number
+): IRateLimitDecision => {
+  const previousWeight = 1 - elapsedMs / windowMs;
+  const estimate = previous * previousWeight + current;
+  const untilWindowEnd = windowMs - elapsedMs;
+
+  if (estimate <= maxRequests) {
+    return {
+      limited: false,
+      remaining: Math.max(0, Math.floor(maxRequests - estimate)),
+      resetMs: untilWindowEnd,
+    };
+  }
+
+  // Time until one more request would fit, assuming no further hits
+  let resetMs: number;
+  if (current < maxRequests) {
+    const decayedAt = windowMs * (1 - (maxRequests - current - 1) / previous);
+    resetMs = Math.max(0, decayedAt - elapsedMs);
+  } else {
+    resetMs = untilWindowEnd + windowMs * Math.max(0, 1 - (maxRequests - 1) / current);
+  }
+
+  return { limited: true, remaining: 0, resetMs };
+};
+
+export const rateLimit = (
+  maxRequests: number = 5,
+  windowMs: number = 15 * 60 * 1000,
+  options: IRateLimitOptions = {}
+) => {
+  const keyTypes = Array.isArray(options.keyBy) ? options.keyBy : [options.keyBy || 'ip'];
+  const windowSeconds = Math.ceil(windowMs / 1000);
+
+  return async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const store = options.store || getRateLimitStore();
+    const name = options.name || `${req.method}:${req.baseUrl}${req.route?.path ?? req.path}`;
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    let decisions: IRateLimitDecision[];
+    try {
+      decisions = await Promise.all(
+        keyTypes.map(async keyType => {
+          const key = `${name}|${resolveKey(req, keyType)}`;
+          const { current, previous } = await store.increment(key, windowStart, windowMs);
+          return decide(current, previous, now - windowStart, windowMs, maxRequests);
+        })
+      );
+    } catch (error) {
+      // Fail open: an unavailable store must not take authentication down with it
+      console.error('Rate limit store error:', error);
+      next();
+      return;
+    }
+
+    // Report the most restrictive counter
+    const decision = decisions.reduce((strictest, candidate) => {
+      if (candidate.limited !== strictest.limited) {
+        return candidate.limited ? candidate : strictest;
+      }
+      return candidate.remaining < strictest.remaining
+        || (candidate.remaining === strictest.remaining && candidate.resetMs > strictest.resetMs)
+        ? candidate
+        : strictest;
+    });
+    const resetSeconds = Math.ceil(decision.resetMs / 1000);
+
+    res.set({
+      'RateLimit-Policy': `${maxRequests};w=${windowSeconds}`,
+      'RateLimit-Limit': String(maxRequests),
+      'RateLimit-Remaining': String(decision.remaining),
+      'RateLimit-Reset': String(resetSeconds),
+    });
+
+    if (decision.limited) {
+      res.set('Retry-After', String(resetSeconds));
+      res.status(429).json({
+        success: false,
+        message: options.message || 'Too many requests. Please try again later.',
+        retryAfter: resetSeconds,
+      } as IApiResponse);
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { IApiResponse } from '../types';
+
+const formatMegabytes = (bytes: number): string => `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+
+// Buffer a single multipart file field in memory, up to maxBytes, for the controller to check and store.
+// Up to maxFields text fields are accepted alongside it and end up in req.body
+export const singleFileUpload = (field: string, maxBytes: number, maxFields = 0) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1, fields: maxFields, fieldSize: 1024 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+
+        res.status(tooLarge ? 413 : 400).json({
+          success: false,
+          message: tooLarge
+            ? `File must be ${formatMegabytes(maxBytes)} or smaller`
+            : `Upload a single file in the "${field}" field`,
+        } as IApiResponse);
+        return;
+      }
+
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import { IApiKeyDocument } from '../types';
+
+// Only the SHA-256 hash of a key is stored; the prefix identifies it in listings and logs. Keys
+// belong to a user; there are no organization accounts to own them
+const apiKeySchema = new Schema<IApiKeyDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    scopes: {
+      type: [String],
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const ApiKey = mongoose.model<IApiKeyDocument>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,93 @@
+import mongoose, { Schema } from 'mongoose';
+import { AuditAction, IAuditEventDocument } from '../types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'user.register',
+  'user.role.change',
+  'auth.login.success',
+  'auth.login.failure',
+  'auth.token.issue',
+  'auth.password.change',
+  'auth.password.reset',
+  'auth.login.reported',
+  'auth.email.change',
+  'auth.reauth.success',
+  'auth.reauth.failure',
+  'profile.update',
+  'profile.delete',
+  'resume.download',
+];
+
+const auditChangeSchema = new Schema(
+  {
+    field: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const auditEventSchema = new Schema<IAuditEventDocument>(
+  {
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    apiKey: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    subject: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    changes: {
+      type: [auditChangeSchema],
+      default: undefined,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+auditEventSchema.index({ createdAt: -1 });
+auditEventSchema.index({ subject: 1, createdAt: -1 });
+auditEventSchema.index({ actor: 1, createdAt: -1 });
+auditEventSchema.index({ action: 1, createdAt: -1 });
+
+// Append-only: existing events can never be modified or removed through the application
+const rejectMutation = () => {
+  throw new Error('Audit events are append-only');
+};
+
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+
+auditEventSchema.pre('deleteOne', { document: true, query: false }, rejectMutation);
+
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    rejectMutation();
+  }
+});
+
+const AuditEvent = mongoose.model<IAuditEventDocument>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
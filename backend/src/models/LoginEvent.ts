@@ -0,0 +1,74 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILoginEventDocument } from '../types';
+
+const LOGIN_HISTORY_RETENTION_DAYS = Number(process.env.LOGIN_HISTORY_RETENTION_DAYS) || 180;
+
+const loginEventSchema = new Schema<ILoginEventDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    sessionId: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    device: {
+      type: String,
+      required: true,
+    },
+    deviceFingerprint: {
+      type: String,
+      required: true,
+    },
+    location: {
+      country: { type: String },
+      region: { type: String },
+      city: { type: String },
+    },
+    newDevice: {
+      type: Boolean,
+      default: false,
+    },
+    unusualLocation: {
+      type: Boolean,
+      default: false,
+    },
+    // Only the SHA-256 hash is stored, never the raw token
+    reportTokenHash: {
+      type: String,
+    },
+    reportTokenExpiresAt: {
+      type: Date,
+    },
+    reportedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// History listing, and the device and country lookups made on every login
+loginEventSchema.index({ user: 1, createdAt: -1 });
+loginEventSchema.index({ user: 1, deviceFingerprint: 1 });
+loginEventSchema.index({ user: 1, 'location.country': 1 });
+loginEventSchema.index({ reportTokenHash: 1 }, { sparse: true });
+
+// Old history is purged automatically
+loginEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: LOGIN_HISTORY_RETENTION_DAYS * 24 * 60 * 60 });
+
+const LoginEvent = mongoose.model<ILoginEventDocument>('LoginEvent', loginEventSchema);
+
+export default LoginEvent;
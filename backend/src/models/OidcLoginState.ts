@@ -0,0 +1,31 @@
+import mongoose, { Schema } from 'mongoose';
+import { IOidcLoginStateDocument } from '../types';
+
+// PKCE verifier and nonce for an OIDC login in progress, consumed by the callback
+const oidcLoginStateSchema = new Schema<IOidcLoginStateDocument>({
+  // Only the SHA-256 hash of the state parameter is stored
+  stateHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  codeVerifier: {
+    type: String,
+    required: true,
+  },
+  nonce: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Let MongoDB purge abandoned logins automatically
+oidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OidcLoginState = mongoose.model<IOidcLoginStateDocument>('OidcLoginState', oidcLoginStateSchema);
+
+export default OidcLoginState;
@@ -0,0 +1,31 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRateLimitCounterDocument } from '../types';
+
+// One document per limiter key and fixed window; the limiter combines two of them
+const rateLimitCounterSchema = new Schema<IRateLimitCounterDocument>({
+  key: {
+    type: String,
+    required: true,
+  },
+  windowStart: {
+    type: Date,
+    required: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+rateLimitCounterSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+
+// Let MongoDB purge windows that can no longer affect a decision
+rateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimitCounter = mongoose.model<IRateLimitCounterDocument>('RateLimitCounter', rateLimitCounterSchema);
+
+export default RateLimitCounter;
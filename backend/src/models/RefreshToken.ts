@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRefreshTokenDocument } from '../types';
+
+const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    // Only the SHA-256 hash is stored, never the raw token
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // All tokens issued from the same login share a family
+    family: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    replacedByHash: {
+      type: String,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB purge expired tokens automatically
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model<IRefreshTokenDocument>('RefreshToken', refreshTokenSchema);
+
+export default RefreshToken;
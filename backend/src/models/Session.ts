@@ -0,0 +1,54 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISessionDocument } from '../types';
+
+// One document per login; its id is also the refresh token family
+const sessionSchema = new Schema<ISessionDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    device: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    idleTimeoutMinutes: {
+      type: Number,
+    },
+    absoluteExpiresAt: {
+      type: Date,
+    },
+    authenticatedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB purge expired sessions automatically
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISessionDocument>('Session', sessionSchema);
+
+export default Session;
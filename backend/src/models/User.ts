@@ -1,6 +1,10 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { IUserDocument } from '../types';
+import { ROLES } from '../config/roles';
+import { isBreachedPassword, BREACHED_PASSWORD_MESSAGE } from '../services/breachedPasswords';
+import { validatePassword, PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH } from '../../../shared/passwordStrength';
+import { toLegacySanitizedPassword } from '../utils/legacyPassword';
 
 interface IUserMethods {
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -8,6 +12,8 @@ interface IUserMethods {
 
 type UserModel = Model<IUserDocument, {}, IUserMethods>;
 
+export const WORK_HISTORY_MAX_ENTRIES = 50;
+
 const userSchema = new Schema<IUserDocument, UserModel, IUserMethods>(
   {
     email: {
@@ -25,30 +31,24 @@ const userSchema = new Schema<IUserDocument, UserModel, IUserMethods>(
     password: {
       type: String,
       required: [true, 'Password is required'],
-      minlength: [8, 'Password must be at least 8 characters long'],
-      maxlength: [128, 'Password cannot exceed 128 characters'],
+      minlength: [PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`],
+      maxlength: [PASSWORD_MAX_LENGTH, `Password cannot exceed ${PASSWORD_MAX_LENGTH} characters`],
       select: false, // Don't include password in queries by default
       validate: {
-        validator: function(value: string) {
-          // Additional password strength validation
-          const hasUpperCase = /[A-Z]/.test(value);
-          const hasLowerCase = /[a-z]/.test(value);
-          const hasNumbers = /\d/.test(value);
-          const hasSpecialChar = /[@$!%*?&]/.test(value);
-
-          if (!hasUpperCase || !hasLowerCase || !hasNumbers || !hasSpecialChar) {
-            return false;
+        validator: function(this: IUserDocument, value: string) {
+          // Same estimator as the registration form, penalising the account's own name and email
+          const error = validatePassword(value, [this.email, this.firstName, this.lastName]);
+          if (error) {
+            throw new Error(error);
           }
 
-          // Check for common weak passwords
-          const commonPasswords = ['password', 'password123', '123456', 'qwerty', 'abc123', 'admin', 'letmein'];
-          if (commonPasswords.includes(value.toLowerCase())) {
-            return false;
+          if (isBreachedPassword(value)) {
+            throw new Error(BREACHED_PASSWORD_MESSAGE);
           }
 
           return true;
         },
-        message: 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)'
+        message: (props) => props.reason?.message || 'Password is not strong enough'
       }
     },
     designation: {
@@ -194,23 +194,189 @@ const userSchema = new Schema<IUserDocument, UserModel, IUserMethods>(
       trim: true,
       maxlength: [500, 'Bio cannot exceed 500 characters'],
     },
+    skills: {
+      type: [{ type: String, trim: true, maxlength: [50, 'A skill cannot exceed 50 characters'] }],
+      validate: {
+        validator: function(value: string[]) {
+          return value.length <= 50;
+        },
+        message: 'Cannot list more than 50 skills'
+      }
+    },
     experience: {
       type: String,
       trim: true,
       maxlength: [1000, 'Experience description cannot exceed 1000 characters'],
     },
+    // Structured employment history, in the order the user lists it
+    workHistory: {
+      type: [
+        new Schema({
+          company: { type: String, required: true, trim: true, maxlength: 100 },
+          title: { type: String, required: true, trim: true, maxlength: 100 },
+          location: { type: String, trim: true, maxlength: 100 },
+          startDate: { type: String, required: true, match: /^\d{4}-(0[1-9]|1[0-2])$/ },
+          endDate: { type: String, match: /^\d{4}-(0[1-9]|1[0-2])$/ },
+          current: { type: Boolean, default: false },
+          description: { type: String, trim: true, maxlength: 2000 },
+          skills: [{ type: String, trim: true, maxlength: 50 }],
+        }),
+      ],
+      validate: {
+        validator: function(value: unknown[]) {
+          return value.length <= WORK_HISTORY_MAX_ENTRIES;
+        },
+        message: `Cannot list more than ${WORK_HISTORY_MAX_ENTRIES} positions`
+      }
+    },
     resumeUrl: {
       type: String,
       trim: true,
     },
+    // Uploaded CV; resumeUrl remains for a link to one hosted elsewhere
+    resume: {
+      type: new Schema(
+        {
+          key: { type: String, required: true },
+          fileName: { type: String, required: true },
+          contentType: { type: String, required: true },
+          size: { type: Number, required: true },
+          uploadedAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    },
     avatar: {
       type: String,
       trim: true,
     },
+    // Uploaded avatar in every generated size; takes the place of an avatar URL
+    avatarImages: {
+      type: [
+        new Schema(
+          {
+            size: { type: Number, required: true },
+            key: { type: String, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: undefined,
+    },
     isEmailVerified: {
       type: Boolean,
       default: false,
     },
+    role: {
+      type: String,
+      enum: {
+        values: ROLES,
+        message: `Role must be one of: ${ROLES.join(', ')}`
+      },
+      default: 'candidate',
+      index: true,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
+    // Set by `npm run mark-legacy-passwords` on accounts whose hash was made while sanitizeInput
+    // still rewrote passwords; cleared once the password is hashed as typed
+    legacySanitizedPassword: {
+      type: Boolean,
+    },
+    // Bcrypt hashes of previous passwords, newest first, to prevent reuse
+    passwordHistory: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    // Address awaiting confirmation; `email` only changes once the link sent to it is opened
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    emailChangeTokenHash: {
+      type: String,
+      select: false,
+    },
+    emailChangeExpires: {
+      type: Date,
+      select: false,
+    },
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    // Pending passwordless sign-in link, bound to the device that requested it
+    magicLinkTokenHash: {
+      type: String,
+      select: false,
+    },
+    magicLinkExpires: {
+      type: Date,
+      select: false,
+    },
+    magicLinkDeviceHash: {
+      type: String,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    // Secret generated during enrollment, promoted once a code is confirmed
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    // SHA-256 hashes of unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    // Last accepted TOTP time step, used to reject replayed codes
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    // Consecutive failed password attempts, reset on successful login
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    lockUntil: {
+      type: Date,
+      select: false,
+    },
+    // Pending two-factor login challenges issued before this are no longer accepted
+    twoFactorChallengesRevokedAt: {
+      type: Date,
+      select: false,
+    },
+    // External OpenID Connect identities that can sign in to this account
+    identities: {
+      type: [
+        {
+          _id: false,
+          issuer: { type: String, required: true },
+          subject: { type: String, required: true },
+          linkedAt: { type: Date, default: Date.now },
+        },
+      ],
+      select: false,
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -221,6 +387,13 @@ const userSchema = new Schema<IUserDocument, UserModel, IUserMethods>(
 
 // Index for better query performance
 userSchema.index({ createdAt: -1 });
+userSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+userSchema.index({ magicLinkTokenHash: 1 }, { sparse: true });
+userSchema.index({ emailChangeTokenHash: 1 }, { sparse: true });
+userSchema.index(
+  { 'identities.issuer': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
@@ -231,15 +404,51 @@ userSchema.pre('save', async function (next) {
     // Hash password with cost of 12
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
+
+    // Lets authenticate reject access tokens issued before the change
+    if (!this.isNew) {
+      this.passwordChangedAt = new Date();
+    }
+    this.legacySanitizedPassword = undefined;
     next();
   } catch (error) {
     next(error as Error);
   }
 });
 
-// Instance method to compare password
+// Instance method to compare password. The hash of an account marked legacySanitizedPassword
+// is of the rewritten form, so that form is accepted too, until the first sign-in settles the
+// password as typed. The rehash is written directly so that the save hook does not mark the
+// password changed and end the user's sessions; it is the same password, so history is untouched
 userSchema.methods.comparePassword = async function (candidatePassword: string): Promise<boolean> {
-  return bcrypt.compare(candidatePassword, this.password);
+  if (await bcrypt.compare(candidatePassword, this.password)) {
+    if (this.legacySanitizedPassword) {
+      await User.updateOne({ _id: this._id }, { $unset: { legacySanitizedPassword: 1 } });
+    }
+    return true;
+  }
+
+  if (!this.legacySanitizedPassword) {
+    return false;
+  }
+
+  const legacyPassword = toLegacySanitizedPassword(candidatePassword);
+  if (legacyPassword === candidatePassword || !(await bcrypt.compare(legacyPassword, this.password))) {
+    return false;
+  }
+
+  // A password as typed that fails today's policy keeps the rewritten hash until it is changed
+  const isAcceptable =
+    !validatePassword(candidatePassword, [this.email, this.firstName, this.lastName]) &&
+    !isBreachedPassword(candidatePassword);
+  if (isAcceptable) {
+    const password = await bcrypt.hash(candidatePassword, 12);
+    await User.updateOne(
+      { _id: this._id },
+      { $set: { password }, $unset: { legacySanitizedPassword: 1 } }
+    );
+  }
+  return true;
 };
 
 // Virtual for full profile URL (if needed)
@@ -251,6 +460,23 @@ userSchema.virtual('profileUrl').get(function () {
 userSchema.methods.toJSON = function () {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.passwordHistory;
+  delete userObject.legacySanitizedPassword;
+  delete userObject.emailChangeTokenHash;
+  delete userObject.emailChangeExpires;
+  delete userObject.passwordResetTokenHash;
+  delete userObject.passwordResetExpires;
+  delete userObject.magicLinkTokenHash;
+  delete userObject.magicLinkExpires;
+  delete userObject.magicLinkDeviceHash;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorPendingSecret;
+  delete userObject.twoFactorRecoveryCodes;
+  delete userObject.twoFactorLastUsedStep;
+  delete userObject.failedLoginAttempts;
+  delete userObject.lockUntil;
+  delete userObject.twoFactorChallengesRevokedAt;
+  delete userObject.identities;
   return userObject;
 };
 
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { listAuditEvents, listAuditEventsValidation } from '../controllers/auditController';
+
+const router = Router();
+
+// All audit routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/audit
+// @desc    Search audit events by action, actor, subject and date range
+// @access  Private (audit:read)
+router.get('/', authorize('audit:read'), listAuditEventsValidation, listAuditEvents);
+
+export default router;
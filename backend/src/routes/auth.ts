@@ -1,7 +1,70 @@
 import { Router } from 'express';
-import { register, login, getMe } from '../controllers/authController';
-import { authenticate, sanitizeInput, rateLimit } from '../middleware/auth';
-import { registerValidation, loginValidation } from '../controllers/authController';
+import {
+  register,
+  login,
+  getMe,
+  refresh,
+  logout,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  loginTwoFactor,
+  getCsrfToken,
+  reauthenticate,
+} from '../controllers/authController';
+import { authenticate, authorize, requireSession, requireRecentAuth, sanitizeInput } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  registerValidation,
+  loginValidation,
+  refreshTokenValidation,
+  verifyEmailValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  changePassword,
+  changePasswordValidation,
+  loginTwoFactorValidation,
+  reauthenticateValidation,
+} from '../controllers/authController';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  twoFactorCodeValidation,
+  disableTwoFactorValidation,
+} from '../controllers/twoFactorController';
+import { getSessions, revokeSession, revokeAllSessions, extendSession } from '../controllers/sessionController';
+import { getSecurityActivity } from '../controllers/auditController';
+import { getLoginHistory, reportLogin, reportLoginValidation } from '../controllers/loginHistoryController';
+import {
+  requestEmailChange,
+  requestEmailChangeValidation,
+  cancelEmailChange,
+  confirmEmailChange,
+  confirmEmailChangeValidation,
+} from '../controllers/emailChangeController';
+import {
+  listApiKeys,
+  createApiKey,
+  createApiKeyValidation,
+  revokeApiKey,
+} from '../controllers/apiKeyController';
+import {
+  requestMagicLink,
+  requestMagicLinkValidation,
+  consumeMagicLink,
+  consumeMagicLinkValidation,
+} from '../controllers/magicLinkController';
+import {
+  getOidcProvider,
+  startOidcLogin,
+  oidcCallback,
+  oidcCallbackValidation,
+  completeOidcSignup,
+  completeOidcSignupValidation,
+} from '../controllers/oidcController';
 
 const router = Router();
 
@@ -19,15 +82,279 @@ router.post('/register',
 // @desc    Login user
 // @access  Public
 router.post('/login',
-  rateLimit(5, 15 * 60 * 1000), // 5 requests per 15 minutes
+  rateLimit(5, 15 * 60 * 1000, { keyBy: ['ip', 'email'] }), // 5 requests per 15 minutes
   sanitizeInput,
   loginValidation,
   login
 );
 
+// @route   POST /api/auth/login/2fa
+// @desc    Complete login with a TOTP or recovery code
+// @access  Public
+router.post('/login/2fa',
+  rateLimit(5, 15 * 60 * 1000), // 5 requests per 15 minutes
+  loginTwoFactorValidation,
+  loginTwoFactor
+);
+
+// @route   POST /api/auth/magic-link
+// @desc    Email a single-use sign-in link bound to this browser
+// @access  Public
+router.post('/magic-link',
+  rateLimit(3, 15 * 60 * 1000, { keyBy: ['ip', 'email'] }), // 3 requests per 15 minutes
+  sanitizeInput,
+  requestMagicLinkValidation,
+  requestMagicLink
+);
+
+// @route   GET /api/auth/magic-link/:token
+// @desc    Sign in with a magic link from the same browser that requested it
+// @access  Public
+router.get('/magic-link/:token',
+  rateLimit(10, 15 * 60 * 1000), // 10 requests per 15 minutes
+  consumeMagicLinkValidation,
+  consumeMagicLink
+);
+
+// @route   GET /api/auth/oidc/config
+// @desc    Whether single sign-on is configured, and its display name
+// @access  Public
+router.get('/oidc/config', getOidcProvider);
+
+// @route   POST /api/auth/oidc/authorize
+// @desc    Start an OpenID Connect login and get the provider URL
+// @access  Public
+router.post('/oidc/authorize',
+  rateLimit(20, 15 * 60 * 1000), // 20 requests per 15 minutes
+  startOidcLogin
+);
+
+// @route   POST /api/auth/oidc/callback
+// @desc    Exchange the provider's authorization code and sign in
+// @access  Public
+router.post('/oidc/callback',
+  rateLimit(20, 15 * 60 * 1000), // 20 requests per 15 minutes
+  oidcCallbackValidation,
+  oidcCallback
+);
+
+// @route   POST /api/auth/oidc/complete
+// @desc    Create an account from an OIDC identity plus the missing profile fields
+// @access  Public
+router.post('/oidc/complete',
+  rateLimit(5, 15 * 60 * 1000), // 5 requests per 15 minutes
+  sanitizeInput,
+  completeOidcSignupValidation,
+  completeOidcSignup
+);
+
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new token pair
+// @access  Public
+router.post('/refresh',
+  rateLimit(30, 15 * 60 * 1000), // 30 requests per 15 minutes
+  refreshTokenValidation,
+  refresh
+);
+
+// @route   POST /api/auth/logout
+// @desc    Revoke the current refresh token family and clear auth cookies
+// @access  Public
+router.post('/logout', refreshTokenValidation, logout);
+
+// @route   GET /api/auth/csrf
+// @desc    Current CSRF token for cookie auth mode
+// @access  Public
+router.get('/csrf', getCsrfToken);
+
+// @route   POST /api/auth/verify-email
+// @desc    Mark the email address in a verification token as verified
+// @access  Public
+router.post('/verify-email',
+  rateLimit(10, 15 * 60 * 1000), // 10 requests per 15 minutes
+  verifyEmailValidation,
+  verifyEmail
+);
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new verification email to the current user
+// @access  Private
+router.post('/resend-verification',
+  authenticate,
+  requireSession,
+  rateLimit(3, 15 * 60 * 1000, { keyBy: 'user' }), // 3 requests per 15 minutes
+  resendVerification
+);
+
+// @route   POST /api/auth/forgot-password
+// @desc    Send a password reset link if the account exists
+// @access  Public
+router.post('/forgot-password',
+  rateLimit(3, 15 * 60 * 1000, { keyBy: ['ip', 'email'] }), // 3 requests per 15 minutes
+  sanitizeInput,
+  forgotPasswordValidation,
+  forgotPassword
+);
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password using a reset token
+// @access  Public
+router.post('/reset-password',
+  rateLimit(5, 15 * 60 * 1000), // 5 requests per 15 minutes
+  resetPasswordValidation,
+  resetPassword
+);
+
+// @route   PUT /api/auth/password
+// @desc    Change password and sign out other sessions
+// @access  Private
+router.put('/password',
+  authenticate,
+  requireSession,
+  rateLimit(5, 15 * 60 * 1000, { keyBy: 'user' }), // 5 requests per 15 minutes
+  changePasswordValidation,
+  changePassword
+);
+
+// @route   POST /api/auth/email
+// @desc    Request an email address change; the new address must confirm it
+// @access  Private
+router.post('/email',
+  authenticate,
+  requireSession,
+  rateLimit(5, 15 * 60 * 1000, { keyBy: 'user' }), // 5 requests per 15 minutes
+  requestEmailChangeValidation,
+  requestEmailChange
+);
+
+// @route   DELETE /api/auth/email
+// @desc    Cancel a pending email address change
+// @access  Private
+router.delete('/email', authenticate, requireSession, cancelEmailChange);
+
+// @route   POST /api/auth/email/confirm
+// @desc    Confirm a new email address with the token sent to it
+// @access  Public
+router.post('/email/confirm',
+  rateLimit(10, 15 * 60 * 1000), // 10 requests per 15 minutes
+  confirmEmailChangeValidation,
+  confirmEmailChange
+);
+
+// @route   POST /api/auth/reauthenticate
+// @desc    Confirm the password or a 2FA code before a sensitive action
+// @access  Private
+router.post('/reauthenticate',
+  authenticate,
+  requireSession,
+  rateLimit(5, 15 * 60 * 1000, { keyBy: 'user' }), // 5 requests per 15 minutes
+  reauthenticateValidation,
+  reauthenticate
+);
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start TOTP enrollment and return the provisioning URI
+// @access  Private (recent authentication)
+router.post('/2fa/setup', authenticate, requireSession, requireRecentAuth(), setupTwoFactor);
+
+// @route   POST /api/auth/2fa/enable
+// @desc    Confirm TOTP enrollment and receive recovery codes
+// @access  Private
+router.post('/2fa/enable',
+  authenticate,
+  requireSession,
+  rateLimit(10, 15 * 60 * 1000, { keyBy: 'user' }), // 10 requests per 15 minutes
+  twoFactorCodeValidation,
+  enableTwoFactor
+);
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Disable two-factor authentication
+// @access  Private
+router.post('/2fa/disable',
+  authenticate,
+  requireSession,
+  rateLimit(5, 15 * 60 * 1000, { keyBy: 'user' }), // 5 requests per 15 minutes
+  disableTwoFactorValidation,
+  disableTwoFactor
+);
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Regenerate two-factor recovery codes
+// @access  Private
+router.post('/2fa/recovery-codes',
+  authenticate,
+  requireSession,
+  rateLimit(5, 15 * 60 * 1000, { keyBy: 'user' }), // 5 requests per 15 minutes
+  twoFactorCodeValidation,
+  regenerateRecoveryCodes
+);
+
+// @route   GET /api/auth/sessions
+// @desc    List active sessions for the current user
+// @access  Private
+router.get('/sessions', authenticate, requireSession, getSessions);
+
+// @route   DELETE /api/auth/sessions
+// @desc    Sign out of every session
+// @access  Private
+router.delete('/sessions', authenticate, requireSession, revokeAllSessions);
+
+// @route   POST /api/auth/sessions/extend
+// @desc    Reset the idle timeout of the current session
+// @access  Private
+router.post('/sessions/extend', authenticate, requireSession, extendSession);
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Sign out a single session
+// @access  Private
+router.delete('/sessions/:id', authenticate, requireSession, revokeSession);
+
+// @route   GET /api/auth/activity
+// @desc    Recent security activity on the current user's account
+// @access  Private
+router.get('/activity', authenticate, requireSession, getSecurityActivity);
+
+// @route   GET /api/auth/login-history
+// @desc    Recent logins to the current user's account
+// @access  Private
+router.get('/login-history', authenticate, requireSession, getLoginHistory);
+
+// @route   POST /api/auth/login-history/report
+// @desc    Report a login from an alert email and sign out every session
+// @access  Public
+router.post('/login-history/report',
+  rateLimit(10, 15 * 60 * 1000), // 10 requests per 15 minutes
+  reportLoginValidation,
+  reportLogin
+);
+
+// @route   GET /api/auth/api-keys
+// @desc    List the current user's API keys
+// @access  Private
+router.get('/api-keys', authenticate, requireSession, listApiKeys);
+
+// @route   POST /api/auth/api-keys
+// @desc    Create a scoped API key for an integration
+// @access  Private (recent authentication)
+router.post('/api-keys',
+  authenticate,
+  requireSession,
+  requireRecentAuth(),
+  rateLimit(10, 15 * 60 * 1000, { keyBy: 'user' }), // 10 requests per 15 minutes
+  sanitizeInput,
+  createApiKeyValidation,
+  createApiKey
+);
+
+// @route   DELETE /api/auth/api-keys/:id
+// @desc    Revoke an API key
+// @access  Private
+router.delete('/api-keys/:id', authenticate, requireSession, revokeApiKey);
+
 // @route   GET /api/auth/me
 // @desc    Get current user
-// @access  Private
-router.get('/me', authenticate, getMe);
+// @access  Private (API keys need profile:read)
+router.get('/me', authenticate, authorize('profile:read'), getMe);
 
 export default router;
\ No newline at end of file
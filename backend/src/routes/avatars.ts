@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { serveAvatar } from '../controllers/avatarController';
+
+const router = Router();
+
+// @route   GET /api/avatars/:name
+// @desc    Get an avatar image
+// @access  Public
+router.get('/:name', serveAvatar);
+
+export default router;
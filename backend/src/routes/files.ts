@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { rateLimit } from '../middleware/rateLimit';
+import { downloadFile } from '../controllers/fileController';
+
+const router = Router();
+
+// @route   GET /api/files/:token
+// @desc    Download a stored file with a short-lived link
+// @access  Public (the link is the credential)
+router.get(
+  '/:token',
+  rateLimit(60, 15 * 60 * 1000), // 60 requests per 15 minutes
+  downloadFile
+);
+
+export default router;
@@ -4,7 +4,31 @@ import {
   updateProfile,
   deleteProfile,
 } from "../controllers/profileController";
-import { authenticate } from "../middleware/auth";
+import {
+  uploadResume,
+  deleteResume,
+  getResumeLink,
+  getParsedResume,
+  RESUME_MAX_BYTES,
+} from "../controllers/resumeController";
+import {
+  uploadAvatar,
+  deleteAvatar,
+  uploadAvatarValidation,
+  AVATAR_MAX_BYTES,
+} from "../controllers/avatarController";
+import {
+  getWorkHistory,
+  addWorkExperience,
+  updateWorkExperience,
+  deleteWorkExperience,
+  reorderWorkHistory,
+  workExperienceValidation,
+  reorderWorkHistoryValidation,
+} from "../controllers/experienceController";
+import { authenticate, authorize, requireRecentAuth } from "../middleware/auth";
+import { singleFileUpload } from "../middleware/upload";
+import { rateLimit } from "../middleware/rateLimit";
 import { updateProfileValidation } from "../controllers/profileController";
 
 const router = Router();
@@ -15,16 +39,89 @@ router.use(authenticate);
 // @route   GET /api/profile
 // @desc    Get user profile
 // @access  Private
-router.get("/", getProfile);
+router.get("/", authorize("profile:read"), getProfile);
 
 // @route   PUT /api/profile
 // @desc    Update user profile
 // @access  Private
-router.put("/", updateProfileValidation, updateProfile);
+router.put("/", authorize("profile:write"), updateProfileValidation, updateProfile);
 
 // @route   DELETE /api/profile
 // @desc    Delete user profile
+// @access  Private (recent authentication)
+router.delete("/", authorize("profile:write"), requireRecentAuth(), deleteProfile);
+
+// @route   PUT /api/profile/resume
+// @desc    Upload or replace resume (PDF or DOCX, multipart field "resume")
+// @access  Private
+router.put(
+  "/resume",
+  authorize("profile:write"),
+  singleFileUpload("resume", RESUME_MAX_BYTES),
+  uploadResume
+);
+
+// @route   DELETE /api/profile/resume
+// @desc    Remove resume
+// @access  Private
+router.delete("/resume", authorize("profile:write"), deleteResume);
+
+// @route   GET /api/profile/resume/link
+// @desc    Get a short-lived download link for the resume
+// @access  Private
+router.get("/resume/link", authorize("profile:read"), getResumeLink);
+
+// @route   GET /api/profile/resume/parsed
+// @desc    Get profile suggestions parsed from the resume
+// @access  Private
+router.get(
+  "/resume/parsed",
+  authorize("profile:read"),
+  rateLimit(10, 15 * 60 * 1000, { keyBy: "user" }), // 10 requests per 15 minutes
+  getParsedResume
+);
+
+// @route   PUT /api/profile/avatar
+// @desc    Upload or replace avatar (JPEG, PNG or WebP, multipart field "avatar",
+//          optional cropX / cropY / cropSize fields)
+// @access  Private
+router.put(
+  "/avatar",
+  authorize("profile:write"),
+  rateLimit(10, 15 * 60 * 1000, { keyBy: "user" }), // 10 requests per 15 minutes
+  singleFileUpload("avatar", AVATAR_MAX_BYTES, 3),
+  uploadAvatarValidation,
+  uploadAvatar
+);
+
+// @route   DELETE /api/profile/avatar
+// @desc    Remove avatar
+// @access  Private
+router.delete("/avatar", authorize("profile:write"), deleteAvatar);
+
+// @route   GET /api/profile/experience
+// @desc    Get work history
+// @access  Private
+router.get("/experience", authorize("profile:read"), getWorkHistory);
+
+// @route   POST /api/profile/experience
+// @desc    Add a position to the work history
+// @access  Private
+router.post("/experience", authorize("profile:write"), workExperienceValidation, addWorkExperience);
+
+// @route   PUT /api/profile/experience/order
+// @desc    Reorder the work history
+// @access  Private
+router.put("/experience/order", authorize("profile:write"), reorderWorkHistoryValidation, reorderWorkHistory);
+
+// @route   PUT /api/profile/experience/:id
+// @desc    Replace a position in the work history
+// @access  Private
+router.put("/experience/:id", authorize("profile:write"), workExperienceValidation, updateWorkExperience);
+
+// @route   DELETE /api/profile/experience/:id
+// @desc    Remove a position from the work history
 // @access  Private
-router.delete("/", deleteProfile);
+router.delete("/experience/:id", authorize("profile:write"), deleteWorkExperience);
 
 export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  listUsers,
+  listUsersValidation,
+  updateUserRole,
+  updateUserRoleValidation,
+} from '../controllers/userController';
+import { getCandidateResumeLink } from '../controllers/resumeController';
+
+const router = Router();
+
+// All user management routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/users
+// @desc    List users, optionally filtered by role
+// @access  Private (users:read)
+router.get('/', authorize('users:read'), listUsersValidation, listUsers);
+
+// @route   PATCH /api/users/:id/role
+// @desc    Change a user's role
+// @access  Private (users:manage)
+router.patch('/:id/role', authorize('users:manage'), updateUserRoleValidation, updateUserRole);
+
+// @route   GET /api/users/:id/resume/link
+// @desc    Get a short-lived download link for a candidate's resume
+// @access  Private (candidates:read)
+router.get('/:id/resume/link', authorize('candidates:read'), getCandidateResumeLink);
+
+export default router;
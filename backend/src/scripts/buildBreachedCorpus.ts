@@ -0,0 +1,123 @@
+import fs from 'fs';
+import readline from 'readline';
+import { COMMON_PASSWORDS } from '../../../shared/passwordStrength';
+import { BREACHED_PREFIX_BYTES, hashPasswordPrefix } from '../services/breachedPasswords';
+
+/**
+ * Builds a breached-password corpus for BREACHED_PASSWORDS_FILE, e.g.
+ *   npm run build-breach-corpus -- rockyou.txt breached.txt --limit 1000000
+ *   npm run build-breach-corpus -- pwned-passwords-sha1.txt breached.txt --sha1
+ * Plaintext input is one password per line, most common first. With --sha1 the
+ * input is SHA-1 hashes, optionally in Have I Been Pwned "HASH:COUNT" form, and
+ * --limit keeps the most frequent. An output ending in .ts writes a module in the
+ * shape of the bundled corpus; `--common` as input rebuilds that corpus from
+ * the shared common password list.
+ */
+const USAGE = 'Usage: npm run build-breach-corpus -- <wordlist|--common> <output> [--sha1] [--limit N]';
+
+// Suffixes people add to satisfy composition rules
+const COMMON_SUFFIXES = ['', '1', '12', '123', '!', '1!', '123!', '2024', '2025'];
+
+interface ICorpusEntry {
+  prefix: string;
+  count: number;
+}
+
+const parseArgs = () => {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let sha1 = false;
+  let limit: number | undefined;
+
+  for (let index = 0; index < args.length; index++) {
+    if (args[index] === '--sha1') {
+      sha1 = true;
+    } else if (args[index] === '--limit') {
+      limit = Number(args[++index]);
+    } else {
+      positional.push(args[index]);
+    }
+  }
+
+  const [input, output] = positional;
+  if (!input || !output || (limit !== undefined && !(limit > 0))) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  return { input, output, sha1, limit };
+};
+
+const commonPasswordEntries = (): ICorpusEntry[] =>
+  COMMON_PASSWORDS.flatMap((word) => {
+    const capitalised = word.charAt(0).toUpperCase() + word.slice(1);
+    return COMMON_SUFFIXES.flatMap(suffix => [word + suffix, capitalised + suffix]);
+  }).map((password, index) => ({ prefix: hashPasswordPrefix(password), count: -index }));
+
+const readEntries = async (input: string, sha1: boolean): Promise<ICorpusEntry[]> => {
+  const entries: ICorpusEntry[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(input), crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line) continue;
+
+    if (!sha1) {
+      // Earlier lines are more common; negative ranks keep that order when sorting by count
+      entries.push({ prefix: hashPasswordPrefix(line), count: -lineNumber });
+      continue;
+    }
+
+    const [hash, count] = line.trim().split(':');
+    if (!/^[0-9A-F]{40}$/i.test(hash)) {
+      throw new Error(`Line ${lineNumber} is not a SHA-1 hash`);
+    }
+    entries.push({
+      prefix: hash.slice(0, BREACHED_PREFIX_BYTES * 2).toUpperCase(),
+      count: count ? Number(count) : -lineNumber,
+    });
+  }
+
+  return entries;
+};
+
+const writeCorpus = (output: string, prefixes: string[], source: string): void => {
+  if (!output.endsWith('.ts')) {
+    fs.writeFileSync(output, `${prefixes.join('\n')}\n`);
+    return;
+  }
+
+  fs.writeFileSync(
+    output,
+    [
+      `// Generated by \`npm run build-breach-corpus -- ${source}\`; do not edit.`,
+      '// Leading 64 bits of the SHA-1 of each password, sorted.',
+      'export const BREACHED_PASSWORD_PREFIXES = `',
+      ...prefixes,
+      '`;',
+      '',
+    ].join('\n')
+  );
+};
+
+const main = async (): Promise<void> => {
+  const { input, output, sha1, limit } = parseArgs();
+  const started = Date.now();
+
+  let entries = input === '--common' ? commonPasswordEntries() : await readEntries(input, sha1);
+
+  if (limit !== undefined) {
+    entries = entries.sort((a, b) => b.count - a.count).slice(0, limit);
+  }
+
+  const prefixes = Array.from(new Set(entries.map(entry => entry.prefix))).sort();
+  writeCorpus(output, prefixes, `${input} ${output}`);
+
+  console.log(`Wrote ${prefixes.length} prefixes to ${output} in ${Date.now() - started}ms`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+import { IJwtKeyConfig, JwtAlgorithm } from '../utils/jwtKeys';
+
+// Prints a JWT_KEYS entry, e.g. `npm run generate-jwt-key -- EdDSA 2025-06`
+const ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'EdDSA'];
+
+const main = (): void => {
+  const [alg, kid = new Date().toISOString().slice(0, 10)] = process.argv.slice(2) as [JwtAlgorithm, string?];
+
+  if (!ALGORITHMS.includes(alg)) {
+    console.error(`Usage: npm run generate-jwt-key -- <${ALGORITHMS.join('|')}> [kid]`);
+    process.exit(1);
+  }
+
+  let config: IJwtKeyConfig;
+
+  if (alg === 'HS256') {
+    config = { kid, alg, secret: crypto.randomBytes(48).toString('base64url') };
+  } else {
+    const { privateKey } = alg === 'RS256'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : crypto.generateKeyPairSync('ed25519');
+    config = { kid, alg, privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString() };
+  }
+
+  console.log(JSON.stringify(config, null, 2));
+};
+
+main();
@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import User from '../models/User';
+
+/**
+ * Marks accounts whose password hash was made while sanitizeInput still rewrote
+ * passwords: registered before the cutoff and never reset or changed since, as
+ * resets and changes always hashed the password as typed. Run once when deploying
+ * the release that stopped rewriting passwords, e.g.
+ * `npm run mark-legacy-passwords -- 2026-10-19T00:00:00Z`; the cutoff defaults to now.
+ */
+const main = async (): Promise<void> => {
+  const [cutoffArg] = process.argv.slice(2);
+  const cutoff = cutoffArg ? new Date(cutoffArg) : new Date();
+
+  if (Number.isNaN(cutoff.getTime())) {
+    console.error('Usage: npm run mark-legacy-passwords -- [cutoff ISO date]');
+    process.exit(1);
+  }
+
+  await connectDB();
+
+  const result = await User.updateMany(
+    { createdAt: { $lt: cutoff }, passwordChangedAt: { $exists: false } },
+    { $set: { legacySanitizedPassword: true } }
+  );
+
+  console.log(`Marked ${result.modifiedCount} accounts registered before ${cutoff.toISOString()}`);
+
+  await mongoose.connection.close();
+  process.exit(0);
+};
+
+main();
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for local development, e.g.
+ *   npm run mock-idp
+ *   OIDC_ISSUER=http://localhost:5055 OIDC_CLIENT_ID=recruitment-platform npm run dev
+ * Every sign-in is approved; the form lets you choose the identity returned.
+ */
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 5055;
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString('hex');
+
+interface IPendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, IPendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+});
+
+// Sign-in form; the OAuth parameters ride along as hidden fields
+app.get('/authorize', (req, res) => {
+  const params = req.query as Record<string, string>;
+
+  if (params.response_type !== 'code' || params.code_challenge_method !== 'S256' || !params.code_challenge) {
+    res.status(400).send('Only the authorization code flow with S256 PKCE is supported');
+    return;
+  }
+
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] || '')}">`)
+    .join('');
+
+  res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 360px; margin: 40px auto">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="jane.doe@example.com" style="width: 100%"></label></p>
+    <p><label>Given name<br><input name="given_name" value="Jane" style="width: 100%"></label></p>
+    <p><label>Family name<br><input name="family_name" value="Doe" style="width: 100%"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, email, given_name, family_name } = req.body;
+  const code = crypto.randomBytes(24).toString('base64url');
+
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    claims: {
+      // Stable subject per email, so repeated logins map to the same identity
+      sub: crypto.createHash('sha256').update(String(email)).digest('hex').slice(0, 24),
+      email,
+      email_verified: req.body.email_verified === 'on',
+      given_name: given_name || undefined,
+      family_name: family_name || undefined,
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  res.redirect(target.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  const challenge = code_verifier
+    ? crypto.createHash('sha256').update(code_verifier).digest('base64url')
+    : undefined;
+
+  if (
+    grant_type !== 'authorization_code'
+    || !pending
+    || pending.expiresAt < Date.now()
+    || pending.clientId !== client_id
+    || pending.redirectUri !== redirect_uri
+    || pending.codeChallenge !== challenge
+  ) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const accessToken = crypto.randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, pending.claims);
+
+  const idToken = jwt.sign(
+    { ...pending.claims, nonce: pending.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: kid, issuer: ISSUER, audience: client_id, expiresIn: '5m' }
+  );
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') || '';
+  const claims = accessTokens.get(token);
+
+  if (!claims) {
+    res.status(401).json({ error: 'invalid_token' });
+    return;
+  }
+
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER}`);
+});
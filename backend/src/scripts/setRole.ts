@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import User from '../models/User';
+import { ROLES, isRole } from '../config/roles';
+
+// Bootstraps the first admin, e.g. `npm run set-role -- admin@example.com admin`
+const main = async (): Promise<void> => {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !isRole(role)) {
+    console.error(`Usage: npm run set-role -- <email> <${ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  await connectDB();
+
+  const user = await User.findOneAndUpdate(
+    { email: email.toLowerCase() },
+    { $set: { role } },
+    { new: true }
+  );
+
+  if (!user) {
+    console.error(`No user found with email ${email}`);
+  } else {
+    console.log(`${user.email} is now ${user.role}`);
+  }
+
+  await mongoose.connection.close();
+  process.exit(user ? 0 : 1);
+};
+
+main();
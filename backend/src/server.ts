@@ -1,14 +1,29 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import connectDB from './config/database';
 import authRoutes from './routes/auth';
 import profileRoutes from './routes/profile';
+import userRoutes from './routes/users';
+import auditRoutes from './routes/audit';
+import fileRoutes from './routes/files';
+import avatarRoutes from './routes/avatars';
+import { rateLimit } from './middleware/rateLimit';
+import { csrfProtection } from './middleware/csrf';
+import { getJwtKeyRing, getPublicJwks } from './utils/jwtKeys';
+import { getBreachedPasswordCorpus } from './services/breachedPasswords';
+import { getGeoIpDatabase } from './services/geoip';
 
 dotenv.config();
 
+// Fail at startup, not on the first login, when no usable signing key is configured
+getJwtKeyRing();
+// Likewise for a missing or malformed BREACHED_PASSWORDS_FILE
+getBreachedPasswordCorpus();
+// And GEOIP_DATABASE_FILE
+getGeoIpDatabase();
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
@@ -16,9 +31,15 @@ connectDB();
 
 app.use(helmet());
 
-const limiter = rateLimit({
-  windowMs: 10 * 60 * 1000, 
-  max: 1000, 
+// Needed for per-IP rate limiting behind a reverse proxy (e.g. TRUST_PROXY=1)
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
+// Global limit; shares its store and headers with the per-route limits
+const limiter = rateLimit(1000, 10 * 60 * 1000, {
+  name: 'global',
   message: 'Too many requests from this IP, please try again later.',
 });
 app.use(limiter);
@@ -31,6 +52,9 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Cookie-authenticated browser requests must echo their CSRF token
+app.use(csrfProtection);
+
 app.get('/api/health', (req, res) => {
   res.status(200).json({
     success: true,
@@ -39,8 +63,18 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// Public keys for verifying access tokens signed with RS256 / EdDSA keys
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(getPublicJwks());
+});
+
 app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/files', fileRoutes);
+app.use('/api/avatars', avatarRoutes);
 
 app.use((req, res) => {
   res.status(404).json({
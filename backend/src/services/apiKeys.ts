@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import ApiKey from '../models/ApiKey';
+import { IApiKeyDocument, Permission } from '../types';
+import { hashToken, IRequestContext } from '../utils/tokens';
+
+// Keys look like rpk_<8 hex prefix>_<secret>; the prefix makes them easy to spot in logs and secret scanners
+const KEY_NAMESPACE = 'rpk';
+const KEY_FORMAT = /^rpk_[a-f0-9]{8}_[A-Za-z0-9_-]{43}$/;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const MAX_API_KEYS_PER_USER = 20;
+export const MAX_API_KEY_TTL_DAYS = 365;
+
+export interface IGeneratedApiKey {
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+export const generateApiKey = (): IGeneratedApiKey => {
+  const prefix = `${KEY_NAMESPACE}_${crypto.randomBytes(4).toString('hex')}`;
+  const key = `${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+  return { key, prefix, keyHash: hashToken(key) };
+};
+
+export const isApiKeyActive = (apiKey: IApiKeyDocument): boolean =>
+  !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now());
+
+// Returns null for malformed, unknown, revoked and expired keys alike
+export const findActiveApiKey = async (rawKey: string): Promise<IApiKeyDocument | null> => {
+  if (!KEY_FORMAT.test(rawKey)) {
+    return null;
+  }
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashToken(rawKey) });
+
+  return apiKey && isApiKeyActive(apiKey) ? apiKey : null;
+};
+
+// Record usage at most once a minute to avoid a write on every request
+export const touchApiKey = async (apiKey: IApiKeyDocument, context: IRequestContext): Promise<void> => {
+  if (apiKey.lastUsedAt && Date.now() - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) {
+    return;
+  }
+
+  await ApiKey.updateOne(
+    { _id: apiKey._id },
+    { $set: { lastUsedAt: new Date(), lastUsedIp: context.ip } }
+  );
+};
+
+export const hasScope = (apiKey: IApiKeyDocument, permission: Permission): boolean =>
+  apiKey.scopes.includes(permission);
+
+// Public shape of a key; the secret itself is only ever returned once, at creation
+export const serializeApiKey = (apiKey: IApiKeyDocument) => ({
+  _id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  createdAt: apiKey.createdAt,
+  expired: !!apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now(),
+});
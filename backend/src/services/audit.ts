@@ -0,0 +1,66 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import AuditEvent from '../models/AuditEvent';
+import { AuditAction, IAuditChange, IAuthenticatedRequest } from '../types';
+import { getRequestContext } from '../utils/tokens';
+
+export interface IAuditEventInput {
+  action: AuditAction;
+  actor?: Types.ObjectId | string;
+  apiKey?: Types.ObjectId | string;
+  subject?: Types.ObjectId | string;
+  ip?: string;
+  userAgent?: string;
+  changes?: IAuditChange[];
+  metadata?: Record<string, unknown>;
+}
+
+// Values of these fields are recorded as changed, but never stored
+export const MASKED_AUDIT_FIELDS = ['phone', 'dob', 'currentCTC', 'expectedCTC'];
+const MASK = '[masked]';
+
+// Who is making the request, and from where
+export const getAuditContext = (req: Request): Pick<IAuditEventInput, 'actor' | 'apiKey' | 'ip' | 'userAgent'> => {
+  const { user, apiKey } = req as IAuthenticatedRequest;
+  const { ip, userAgent } = getRequestContext(req);
+
+  return {
+    actor: user?._id as Types.ObjectId | undefined,
+    apiKey: apiKey?._id as Types.ObjectId | undefined,
+    ip,
+    userAgent,
+  };
+};
+
+/**
+ * Append an audit event. Failures are logged rather than thrown: an audit
+ * outage must not turn a successful login or profile update into an error.
+ */
+export const recordAuditEvent = async (event: IAuditEventInput): Promise<void> => {
+  try {
+    await AuditEvent.create(event);
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
+
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === null || value === '') return undefined;
+  return value;
+};
+
+// Field-level differences between two versions of a document, with sensitive values masked
+export const diffAuditFields = (before: object, after: object, fields: string[]): IAuditChange[] => {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+
+  return fields
+    .filter(field => JSON.stringify(normalize(previous[field])) !== JSON.stringify(normalize(next[field])))
+    .map(field => {
+      if (MASKED_AUDIT_FIELDS.includes(field)) {
+        return { field, before: MASK, after: MASK };
+      }
+      return { field, before: normalize(previous[field]), after: normalize(next[field]) };
+    });
+};
@@ -0,0 +1,81 @@
+import sharp from 'sharp';
+
+/**
+ * Square avatar renditions cut from an uploaded photo. The photo is turned
+ * upright from its EXIF orientation, and none of its metadata (EXIF, GPS,
+ * ICC profile) is carried into the output.
+ */
+export class AvatarImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvatarImageError';
+  }
+}
+
+// Every avatar is stored in each of these sizes (px)
+export const AVATAR_SIZES = [64, 128, 256, 512] as const;
+
+// Bounds the memory a decompression bomb can claim
+const MAX_INPUT_PIXELS = 40_000_000;
+const MIN_CROP_SIZE = 32;
+const WEBP_QUALITY = 82;
+
+export interface IAvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface IAvatarRendition {
+  size: number;
+  data: Buffer;
+}
+
+// Width and height as displayed, i.e. after applying the EXIF orientation
+const getUprightDimensions = async (data: Buffer) => {
+  const { width, height, orientation } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  if (!width || !height) {
+    throw new AvatarImageError('Image has no dimensions');
+  }
+
+  // Orientations 5-8 are rotated by 90 degrees
+  return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+};
+
+/**
+ * Crop is in pixels of the upright image; without one the largest centred
+ * square is used. Throws AvatarImageError for anything sharp cannot decode or
+ * a crop that does not fit.
+ */
+export const createAvatarRenditions = async (data: Buffer, crop?: IAvatarCrop): Promise<IAvatarRendition[]> => {
+  try {
+    const { width, height } = await getUprightDimensions(data);
+
+    let region: IAvatarCrop;
+    if (crop) {
+      if (crop.size < MIN_CROP_SIZE || crop.x + crop.size > width || crop.y + crop.size > height) {
+        throw new AvatarImageError(`Crop must be at least ${MIN_CROP_SIZE}px and inside the ${width}x${height} image`);
+      }
+      region = crop;
+    } else {
+      const size = Math.min(width, height);
+      region = { x: Math.floor((width - size) / 2), y: Math.floor((height - size) / 2), size };
+    }
+
+    const square = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .extract({ left: region.x, top: region.y, width: region.size, height: region.size })
+      .png()
+      .toBuffer();
+
+    return await Promise.all(
+      AVATAR_SIZES.map(async (size) => ({
+        size,
+        data: await sharp(square).resize(size, size).webp({ quality: WEBP_QUALITY }).toBuffer(),
+      }))
+    );
+  } catch (error) {
+    if (error instanceof AvatarImageError) throw error;
+    throw new AvatarImageError(`Unreadable image: ${error instanceof Error ? error.message : error}`);
+  }
+};
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { BREACHED_PASSWORD_PREFIXES } from '../data/breachedPasswordPrefixes';
+
+/**
+ * Offline breached-password check. The corpus holds the first 64 bits of the
+ * SHA-1 of each known breached password (the hash Have I Been Pwned publishes),
+ * sorted, so no plaintext ships and a lookup is a binary search.
+ *
+ * The bundled corpus covers the most common passwords and their usual
+ * variations; BREACHED_PASSWORDS_FILE points at a larger one built with
+ * `npm run build-breach-corpus`.
+ */
+export const BREACHED_PREFIX_BYTES = 8;
+
+export class BreachedPasswordCorpusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BreachedPasswordCorpusError';
+  }
+}
+
+export const BREACHED_PASSWORD_MESSAGE =
+  'This password has appeared in a data breach. Please choose a different password';
+
+// Upper-case hex, as written to the corpus
+export const hashPasswordPrefix = (password: string): string =>
+  crypto
+    .createHash('sha1')
+    .update(password)
+    .digest('hex')
+    .slice(0, BREACHED_PREFIX_BYTES * 2)
+    .toUpperCase();
+
+// One prefix per line; blank lines and # comments are ignored
+const parseCorpus = (source: string, origin: string): Buffer => {
+  const lines = source
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  const corpus = Buffer.alloc(lines.length * BREACHED_PREFIX_BYTES);
+  const entryPattern = new RegExp(`^[0-9A-F]{${BREACHED_PREFIX_BYTES * 2}}$`, 'i');
+
+  lines.forEach((line, index) => {
+    if (!entryPattern.test(line)) {
+      throw new BreachedPasswordCorpusError(`${origin} entry ${index + 1} is not a ${BREACHED_PREFIX_BYTES * 2}-digit hex prefix`);
+    }
+
+    const offset = index * BREACHED_PREFIX_BYTES;
+    corpus.write(line, offset, 'hex');
+
+    // Lookups are a binary search, so an unsorted corpus would silently miss entries
+    if (index > 0 && corpus.compare(corpus, offset - BREACHED_PREFIX_BYTES, offset, offset, offset + BREACHED_PREFIX_BYTES) <= 0) {
+      throw new BreachedPasswordCorpusError(`${origin} must be sorted with no duplicates (entry ${index + 1})`);
+    }
+  });
+
+  return corpus;
+};
+
+let corpus: Buffer | null = null;
+
+// Loaded on first use; call at startup to fail fast on a bad BREACHED_PASSWORDS_FILE
+export const getBreachedPasswordCorpus = (): Buffer => {
+  if (!corpus) {
+    const file = process.env.BREACHED_PASSWORDS_FILE;
+    corpus = file
+      ? parseCorpus(fs.readFileSync(file, 'utf8'), 'BREACHED_PASSWORDS_FILE')
+      : parseCorpus(BREACHED_PASSWORD_PREFIXES, 'Bundled breached password corpus');
+  }
+  return corpus;
+};
+
+export const isBreachedPassword = (password: string): boolean => {
+  const entries = getBreachedPasswordCorpus();
+  const target = Buffer.from(hashPasswordPrefix(password), 'hex');
+
+  let low = 0;
+  let high = entries.length / BREACHED_PREFIX_BYTES - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    const offset = middle * BREACHED_PREFIX_BYTES;
+    const comparison = entries.compare(target, 0, BREACHED_PREFIX_BYTES, offset, offset + BREACHED_PREFIX_BYTES);
+
+    if (comparison === 0) {
+      return true;
+    }
+    if (comparison < 0) {
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return false;
+};
@@ -0,0 +1,170 @@
+import { sendMail } from './mailer';
+import { ILoginEventDocument, IUserDocument } from '../types';
+import { describeLocation } from './geoip';
+
+export const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// For every value in an HTML body that comes from users or requests, such as names and user agents
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export const sendVerificationEmail = async (user: IUserDocument, token: string): Promise<void> => {
+  const link = `${getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      link,
+      '',
+      'If you did not create an account, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>Please confirm your email address by clicking the link below:</p>
+<p><a href="${escapeHtml(link)}">Verify email address</a></p>
+<p>If you did not create an account, you can ignore this email.</p>`,
+  });
+};
+
+export const sendPasswordResetEmail = async (user: IUserDocument, token: string): Promise<void> => {
+  const link = `${getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      link,
+      '',
+      'This link expires in 1 hour and can only be used once.',
+      'If you did not request a password reset, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>We received a request to reset your password. Click the link below to choose a new one:</p>
+<p><a href="${escapeHtml(link)}">Reset password</a></p>
+<p>This link expires in 1 hour and can only be used once.</p>
+<p>If you did not request a password reset, you can ignore this email.</p>`,
+  });
+};
+
+export const sendMagicLinkEmail = async (user: IUserDocument, token: string, ttlMinutes: number): Promise<void> => {
+  const link = `${getFrontendUrl()}/magic-link?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your sign-in link',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Open the link below to sign in. It only works in the browser where you requested it:',
+      link,
+      '',
+      `This link expires in ${ttlMinutes} minutes and can only be used once.`,
+      'If you did not request it, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>Click the link below to sign in. It only works in the browser where you requested it:</p>
+<p><a href="${escapeHtml(link)}">Sign in</a></p>
+<p>This link expires in ${ttlMinutes} minutes and can only be used once.</p>
+<p>If you did not request it, you can ignore this email.</p>`,
+  });
+};
+
+// Sent to the new address; the change only happens once this link is opened
+export const sendEmailChangeConfirmationEmail = async (
+  user: IUserDocument,
+  newEmail: string,
+  token: string,
+  ttlHours: number
+): Promise<void> => {
+  const link = `${getFrontendUrl()}/confirm-email-change?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Please confirm this as the new email address for your account by opening the link below:',
+      link,
+      '',
+      `This link expires in ${ttlHours} hours and can only be used once.`,
+      'If you did not request this change, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>Please confirm this as the new email address for your account by clicking the link below:</p>
+<p><a href="${escapeHtml(link)}">Confirm email address</a></p>
+<p>This link expires in ${ttlHours} hours and can only be used once.</p>
+<p>If you did not request this change, you can ignore this email.</p>`,
+  });
+};
+
+// Sent to the current address, so a takeover cannot quietly move the account
+export const sendEmailChangeNoticeEmail = async (user: IUserDocument, newEmail: string): Promise<void> => {
+  const link = `${getFrontendUrl()}/forgot-password`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your email address is being changed',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `We received a request to change your account's email address to ${newEmail}.`,
+      'It will change once the new address is confirmed.',
+      '',
+      'If you did not request this, reset your password now to secure your account:',
+      link,
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>We received a request to change your account's email address to ${escapeHtml(newEmail)}.</p>
+<p>It will change once the new address is confirmed.</p>
+<p>If you did not request this, <a href="${escapeHtml(link)}">reset your password</a> now to secure your account.</p>`,
+  });
+};
+
+export const sendNewLoginAlertEmail = async (
+  user: IUserDocument,
+  login: ILoginEventDocument,
+  reportToken: string,
+  ttlDays: number
+): Promise<void> => {
+  const link = `${getFrontendUrl()}/report-login?token=${encodeURIComponent(reportToken)}`;
+  const reason = login.newDevice ? 'a new device' : 'a new location';
+  const details: Array<[string, string]> = [
+    ['Device', login.device],
+    ['Location', describeLocation(login.location) || 'Unknown'],
+    ['IP address', login.ip || 'Unknown'],
+    ['Time', login.createdAt.toUTCString()],
+  ];
+
+  await sendMail({
+    to: user.email,
+    subject: 'New sign-in to your account',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `Your account was just signed in from ${reason}:`,
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      '',
+      'If this was you, you can ignore this email.',
+      'If it was not, open the link below to sign out of every session, then reset your password:',
+      link,
+      '',
+      `This link expires in ${ttlDays} days.`,
+    ].join('\n'),
+    html: `<p>Hi ${escapeHtml(user.firstName)},</p>
+<p>Your account was just signed in from ${reason}:</p>
+<ul>
+${details.map(([label, value]) => `<li>${escapeHtml(label)}: ${escapeHtml(value)}</li>`).join('\n')}
+</ul>
+<p>If this was you, you can ignore this email.</p>
+<p>If it was not, click the link below to sign out of every session, then reset your password:</p>
+<p><a href="${escapeHtml(link)}">This wasn't me</a></p>
+<p>This link expires in ${ttlDays} days.</p>`,
+  });
+};
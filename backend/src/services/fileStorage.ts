@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * Where uploaded files live. Controllers only see keys; each adapter maps
+ * them to its own storage. A key is created with generateFileKey and is never
+ * derived from user input.
+ */
+export interface IFileStorage {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null if there is no file under the key
+  get(key: string): Promise<Readable | null>;
+  // Succeeds if the file is already gone
+  delete(key: string): Promise<void>;
+}
+
+const FILE_KEY_PATTERN = /^[a-z]+\/[a-f0-9]{32}\.[a-z]+$/;
+
+export const generateFileKey = (prefix: string, extension: string): string =>
+  `${prefix}/${crypto.randomBytes(16).toString('hex')}${extension}`;
+
+const isMissingFileError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+
+// Files under a local directory; fine for a single instance, but not shared between instances
+export const createLocalDiskStorage = (directory: string): IFileStorage => {
+  const resolve = (key: string): string => {
+    if (!FILE_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return path.join(directory, key);
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolve(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      // Written aside and renamed, so a half-written file is never served
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    },
+    async get(key) {
+      const filePath = resolve(key);
+
+      try {
+        await fs.promises.access(filePath);
+      } catch (error) {
+        if (isMissingFileError(error)) {
+          return null;
+        }
+        throw error;
+      }
+
+      return fs.createReadStream(filePath);
+    },
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+const resolveDefaultStorage = (): IFileStorage => {
+  switch (process.env.FILE_STORAGE) {
+    case 'local':
+    default:
+      return createLocalDiskStorage(process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+  }
+};
+
+let storage: IFileStorage = resolveDefaultStorage();
+
+// Allows another adapter (S3-compatible object storage, ...) to be plugged in at startup
+export const setFileStorage = (nextStorage: IFileStorage): void => {
+  storage = nextStorage;
+};
+
+export const getFileStorage = (): IFileStorage => storage;
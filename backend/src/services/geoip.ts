@@ -0,0 +1,199 @@
+import fs from 'fs';
+import net from 'net';
+
+/**
+ * Offline IP geolocation from a DB-IP "IP to Country Lite" or "IP to City Lite"
+ * CSV (https://db-ip.com/db/lite.php), set with GEOIP_DATABASE_FILE. Ranges are
+ * held in sorted typed arrays, so a lookup is a binary search. IPv6 ranges are
+ * matched on their first 64 bits, which is finer than any location they carry.
+ *
+ * Without a database every location is unknown, and login alerts only
+ * consider devices.
+ */
+export interface IGeoLocation {
+  country: string;
+  region?: string;
+  city?: string;
+}
+
+export class GeoIpDatabaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoIpDatabaseError';
+  }
+}
+
+interface IRangeTable<T extends number | bigint> {
+  starts: ArrayLike<T>;
+  ends: ArrayLike<T>;
+  locations: Uint32Array;
+}
+
+interface IGeoIpDatabase {
+  ipv4: IRangeTable<number>;
+  ipv6: IRangeTable<bigint>;
+  locations: IGeoLocation[];
+}
+
+// DB-IP marks unallocated and private ranges with ZZ
+const UNKNOWN_COUNTRY = 'ZZ';
+
+const ipv4ToNumber = (ip: string): number =>
+  ip.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const ipv6Prefix = (ip: string): bigint => {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = [
+    ...headGroups,
+    ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'),
+    ...tailGroups,
+  ];
+
+  return groups
+    .slice(0, 4)
+    .reduce((value, group) => (value << BigInt(16)) | BigInt(parseInt(group, 16) || 0), BigInt(0));
+};
+
+// Quoted fields may contain commas ("Washington, D.C.")
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+};
+
+const findRange = <T extends number | bigint>(table: IRangeTable<T>, value: T): number => {
+  let low = 0;
+  let high = table.starts.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+
+    if (value < table.starts[middle]) {
+      high = middle - 1;
+    } else if (value > table.ends[middle]) {
+      low = middle + 1;
+    } else {
+      return table.locations[middle];
+    }
+  }
+
+  return -1;
+};
+
+const parseDatabase = (source: string, origin: string): IGeoIpDatabase => {
+  const ipv4 = { starts: [] as number[], ends: [] as number[], locations: [] as number[] };
+  const ipv6 = { starts: [] as bigint[], ends: [] as bigint[], locations: [] as number[] };
+  const locations: IGeoLocation[] = [];
+  const locationIndex = new Map<string, number>();
+
+  source.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    // Country edition: start,end,country. City edition: start,end,continent,country,region,city,...
+    const fields = parseCsvLine(line.trim());
+    const [start, end] = fields;
+    const [country, region, city] = fields.length >= 6 ? fields.slice(3, 6) : [fields[2]];
+    const version = net.isIP(start);
+
+    if (!version || net.isIP(end) !== version || !/^[A-Z]{2}$/.test(country || '')) {
+      throw new GeoIpDatabaseError(`${origin} line ${index + 1} is not a DB-IP lite CSV row`);
+    }
+
+    if (country === UNKNOWN_COUNTRY) return;
+
+    const key = [country, region, city].join('|');
+    let location = locationIndex.get(key);
+    if (location === undefined) {
+      location = locations.push({ country, region: region || undefined, city: city || undefined }) - 1;
+      locationIndex.set(key, location);
+    }
+
+    if (version === 4) {
+      ipv4.starts.push(ipv4ToNumber(start));
+      ipv4.ends.push(ipv4ToNumber(end));
+      ipv4.locations.push(location);
+    } else {
+      ipv6.starts.push(ipv6Prefix(start));
+      ipv6.ends.push(ipv6Prefix(end));
+      ipv6.locations.push(location);
+    }
+  });
+
+  // Lookups are a binary search, so unsorted ranges would silently miss
+  const isSorted = (starts: Array<number | bigint>) => starts.every((value, i) => i === 0 || starts[i - 1] <= value);
+  if (!isSorted(ipv4.starts) || !isSorted(ipv6.starts)) {
+    throw new GeoIpDatabaseError(`${origin} must be sorted by range start`);
+  }
+
+  return {
+    ipv4: {
+      starts: Uint32Array.from(ipv4.starts),
+      ends: Uint32Array.from(ipv4.ends),
+      locations: Uint32Array.from(ipv4.locations),
+    },
+    ipv6: {
+      starts: BigUint64Array.from(ipv6.starts),
+      ends: BigUint64Array.from(ipv6.ends),
+      locations: Uint32Array.from(ipv6.locations),
+    },
+    locations,
+  };
+};
+
+let database: IGeoIpDatabase | null | undefined;
+
+// Loaded on first use; call at startup to fail fast on a bad GEOIP_DATABASE_FILE
+export const getGeoIpDatabase = (): IGeoIpDatabase | null => {
+  if (database === undefined) {
+    const file = process.env.GEOIP_DATABASE_FILE;
+    database = file ? parseDatabase(fs.readFileSync(file, 'utf8'), 'GEOIP_DATABASE_FILE') : null;
+  }
+  return database;
+};
+
+export const lookupLocation = (ip?: string): IGeoLocation | undefined => {
+  const geoIp = getGeoIpDatabase();
+  if (!geoIp || !ip) return undefined;
+
+  // Express reports IPv4 clients of a dual-stack server as ::ffff:a.b.c.d
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const version = net.isIP(address);
+
+  const index = version === 4
+    ? findRange(geoIp.ipv4, ipv4ToNumber(address))
+    : version === 6
+      ? findRange(geoIp.ipv6, ipv6Prefix(address))
+      : -1;
+
+  return index >= 0 ? geoIp.locations[index] : undefined;
+};
+
+export const describeLocation = (location?: IGeoLocation): string | undefined =>
+  location ? [location.city, location.region, location.country].filter(Boolean).join(', ') : undefined;
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import LoginEvent from '../models/LoginEvent';
+import { ILoginEventDocument, IUserDocument, LoginMethod } from '../types';
+import { getRequestContext, hashToken } from '../utils/tokens';
+import { describeUserAgent } from '../utils/userAgent';
+import { lookupLocation } from './geoip';
+import { sendNewLoginAlertEmail } from './emails';
+
+export const LOGIN_REPORT_TTL_DAYS = 7;
+
+// Version numbers are left out, so a browser update does not look like a new device
+export const getDeviceFingerprint = (req: Request): string => {
+  const userAgent = (req.get('user-agent') || '').replace(/\d+/g, '');
+  const language = (req.get('accept-language') || '').split(',')[0].trim().toLowerCase();
+
+  return crypto.createHash('sha256').update(`${userAgent}|${language}`).digest('hex').slice(0, 32);
+};
+
+/**
+ * Add a successful login to the user's history, and alert them by email when
+ * it came from a device or country their history has not seen. The first
+ * recorded login only starts the history. Failures are logged rather than
+ * thrown: history is not worth failing a login over.
+ */
+export const recordLogin = async (
+  user: IUserDocument,
+  req: Request,
+  method: LoginMethod | 'register',
+  sessionId: string
+): Promise<void> => {
+  try {
+    const { ip, userAgent } = getRequestContext(req);
+    const deviceFingerprint = getDeviceFingerprint(req);
+    const location = lookupLocation(ip);
+
+    const [hasHistory, knownDevice, hasLocatedHistory, knownCountry] = await Promise.all([
+      LoginEvent.exists({ user: user._id }),
+      LoginEvent.exists({ user: user._id, deviceFingerprint }),
+      location && LoginEvent.exists({ user: user._id, 'location.country': { $exists: true } }),
+      location && LoginEvent.exists({ user: user._id, 'location.country': location.country }),
+    ]);
+
+    const newDevice = !!hasHistory && !knownDevice;
+    // Requires located history, or turning on GeoIP would flag everyone's next login
+    const unusualLocation = !!hasLocatedHistory && !knownCountry;
+    const reportToken = newDevice || unusualLocation ? crypto.randomBytes(32).toString('hex') : undefined;
+
+    const login = await LoginEvent.create({
+      user: user._id,
+      method,
+      sessionId,
+      ip,
+      userAgent,
+      device: describeUserAgent(userAgent),
+      deviceFingerprint,
+      location,
+      newDevice,
+      unusualLocation,
+      ...(reportToken && {
+        reportTokenHash: hashToken(reportToken),
+        reportTokenExpiresAt: new Date(Date.now() + LOGIN_REPORT_TTL_DAYS * 24 * 60 * 60 * 1000),
+      }),
+    });
+
+    if (reportToken) {
+      // Do not hold up the login on mail delivery
+      sendNewLoginAlertEmail(user, login, reportToken, LOGIN_REPORT_TTL_DAYS).catch((mailError) => {
+        console.error('Failed to send new login alert:', mailError);
+      });
+    }
+  } catch (error) {
+    console.error('Login history error:', error);
+  }
+};
+
+// Redeem a "this wasn't me" link; null if it is invalid, expired or already used
+export const redeemLoginReport = async (token: string): Promise<ILoginEventDocument | null> =>
+  LoginEvent.findOneAndUpdate(
+    {
+      reportTokenHash: hashToken(token),
+      reportTokenExpiresAt: { $gt: new Date() },
+      reportedAt: { $exists: false },
+    },
+    {
+      $set: { reportedAt: new Date() },
+      $unset: { reportTokenHash: 1, reportTokenExpiresAt: 1 },
+    },
+    { new: true }
+  );
@@ -0,0 +1,98 @@
+import User from '../models/User';
+import { IUserDocument } from '../types';
+
+// Failures before progressive delays kick in, and before the account is locked
+const BACKOFF_THRESHOLD = 2;
+const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5;
+const LOCKOUT_DURATION_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export const LOGIN_ERROR_CODES = {
+  THROTTLED: 'LOGIN_THROTTLED',
+  LOCKED: 'ACCOUNT_LOCKED',
+} as const;
+
+export interface ILoginLock {
+  code: typeof LOGIN_ERROR_CODES[keyof typeof LOGIN_ERROR_CODES];
+  retryAfter: number; // seconds
+}
+
+// Fields that must be selected on the user before calling getLoginLock
+export const LOGIN_THROTTLE_FIELDS = '+failedLoginAttempts +lockUntil';
+
+/**
+ * Delay imposed after `attempts` consecutive failures: exponential back-off
+ * (1s, 2s, 4s, ...) until the threshold, then a lockout that doubles with
+ * every further failure, capped at 24 hours.
+ */
+const getLockDuration = (attempts: number): number => {
+  if (attempts >= LOCKOUT_THRESHOLD) {
+    return Math.min(LOCKOUT_DURATION_MS * 2 ** (attempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+  }
+
+  if (attempts >= BACKOFF_THRESHOLD) {
+    return 1000 * 2 ** (attempts - BACKOFF_THRESHOLD);
+  }
+
+  return 0;
+};
+
+export const getLoginLock = (user: IUserDocument): ILoginLock | null => {
+  if (!user.lockUntil || user.lockUntil.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return {
+    code: user.failedLoginAttempts >= LOCKOUT_THRESHOLD
+      ? LOGIN_ERROR_CODES.LOCKED
+      : LOGIN_ERROR_CODES.THROTTLED,
+    retryAfter: Math.ceil((user.lockUntil.getTime() - Date.now()) / 1000),
+  };
+};
+
+// Record a failed attempt and return the resulting lock, if any
+export const registerFailedLogin = async (user: IUserDocument): Promise<ILoginLock | null> => {
+  // Atomic increment so parallel attempts are all counted
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  ).select(LOGIN_THROTTLE_FIELDS);
+
+  if (!updated) {
+    return null;
+  }
+
+  const duration = getLockDuration(updated.failedLoginAttempts);
+  if (duration === 0) {
+    return null;
+  }
+
+  updated.lockUntil = new Date(Date.now() + duration);
+  await User.updateOne({ _id: user._id }, { $set: { lockUntil: updated.lockUntil } });
+
+  return getLoginLock(updated);
+};
+
+// A wrong two-factor code counts like a wrong password. Once the account locks, every
+// pending challenge is revoked, so the password must be entered again after the lockout
+export const registerFailedTwoFactor = async (user: IUserDocument): Promise<ILoginLock | null> => {
+  const lock = await registerFailedLogin(user);
+
+  if (lock?.code === LOGIN_ERROR_CODES.LOCKED) {
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorChallengesRevokedAt: new Date() } });
+  }
+
+  return lock;
+};
+
+export const resetFailedLogins = async (user: IUserDocument): Promise<void> => {
+  if (!user.failedLoginAttempts && !user.lockUntil) {
+    return;
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } }
+  );
+};
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface IMailTransport {
+  name: string;
+  send(message: IMailMessage & { from: string }): Promise<void>;
+}
+
+// Logs outgoing mail to stdout; the default for local development
+export const consoleTransport: IMailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log('--- Outgoing email ---');
+    console.log(`From: ${message.from}`);
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log('');
+    console.log(message.text);
+    console.log('----------------------');
+  },
+};
+
+// Writes each message as a JSON file so tests and developers can inspect it
+export const createFileTransport = (directory: string): IMailTransport => ({
+  name: 'file',
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+const resolveDefaultTransport = (): IMailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    case 'console':
+    default:
+      return consoleTransport;
+  }
+};
+
+let transport: IMailTransport = resolveDefaultTransport();
+
+// Allows a production transport (SMTP, SES, ...) to be plugged in at startup
+export const setMailTransport = (nextTransport: IMailTransport): void => {
+  transport = nextTransport;
+};
+
+export const getMailTransport = (): IMailTransport => transport;
+
+export const sendMail = async (message: IMailMessage): Promise<void> => {
+  await transport.send({
+    ...message,
+    from: process.env.MAIL_FROM || 'Recruitment Platform <no-reply@localhost>',
+  });
+};
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import OidcLoginState from '../models/OidcLoginState';
+import { hashToken } from '../utils/tokens';
+import { getFrontendUrl } from './emails';
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const HTTP_TIMEOUT_MS = 5000;
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+export interface IOidcConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface IProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+// Standard OIDC claims the login flow understands
+export interface IOidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  phone_number?: string;
+  gender?: string;
+  birthdate?: string;
+  address?: { country?: string };
+  nonce?: string;
+}
+
+// Failures caused by the provider or the callback request, safe to show to the user
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+// Returns null when no provider is configured, which disables the feature
+export const getOidcConfig = (): IOidcConfig | null => {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID } = process.env;
+
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID) {
+    return null;
+  }
+
+  return {
+    name: process.env.OIDC_PROVIDER_NAME || 'Single Sign-On',
+    issuer: OIDC_ISSUER.replace(/\/$/, ''),
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${getFrontendUrl()}/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  };
+};
+
+const requireConfig = (): IOidcConfig => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new OidcError('Single sign-on is not configured');
+  }
+  return config;
+};
+
+const fetchJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+
+  if (!response.ok) {
+    throw new OidcError(`Identity provider request failed (${response.status})`);
+  }
+
+  return response.json() as Promise<T>;
+};
+
+let metadataCache: { issuer: string; metadata: Promise<IProviderMetadata> } | null = null;
+
+const discover = (config: IOidcConfig): Promise<IProviderMetadata> => {
+  if (!metadataCache || metadataCache.issuer !== config.issuer) {
+    const metadata = fetchJson<IProviderMetadata>(`${config.issuer}/.well-known/openid-configuration`);
+    metadataCache = { issuer: config.issuer, metadata };
+    // Retry discovery on the next login rather than caching a failure
+    metadata.catch(() => {
+      metadataCache = null;
+    });
+  }
+
+  return metadataCache.metadata;
+};
+
+let jwksCache: { uri: string; keys: crypto.JsonWebKey[] } | null = null;
+
+// Keys are refetched once when an unknown kid appears, which covers provider key rotation
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = () => jwksCache?.keys.find(key => !kid || key.kid === kid);
+
+  if (!jwksCache || jwksCache.uri !== jwksUri || !findKey()) {
+    const { keys } = await fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri);
+    jwksCache = { uri: jwksUri, keys };
+  }
+
+  const jwk = findKey();
+  if (!jwk) {
+    throw new OidcError('Identity provider signing key not found');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+const base64Url = (buffer: Buffer): string => buffer.toString('base64url');
+
+// Start a login: persist the PKCE verifier and nonce, return the provider URL to redirect to
+export const createAuthorizationRequest = async (): Promise<{ authorizationUrl: string; state: string }> => {
+  const config = requireConfig();
+  const metadata = await discover(config);
+
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await OidcLoginState.create({
+    stateHash: hashToken(state),
+    codeVerifier,
+    nonce,
+    expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { authorizationUrl: url.toString(), state };
+};
+
+const verifyIdToken = async (
+  idToken: string,
+  config: IOidcConfig,
+  metadata: IProviderMetadata,
+  nonce: string
+): Promise<IOidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('Identity provider returned an invalid ID token');
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+
+  let claims: IOidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId,
+    }) as IOidcClaims;
+  } catch (error) {
+    throw new OidcError('Identity provider returned an invalid ID token');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new OidcError('Identity provider returned an invalid ID token');
+  }
+
+  return claims;
+};
+
+// Finish a login: consume the state, redeem the code and return the verified claims
+export const exchangeAuthorizationCode = async (code: string, state: string): Promise<IOidcClaims> => {
+  const config = requireConfig();
+
+  // Single use: a replayed callback finds nothing
+  const loginState = await OidcLoginState.findOneAndDelete({
+    stateHash: hashToken(state),
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!loginState) {
+    throw new OidcError('Sign-in request has expired. Please try again');
+  }
+
+  const metadata = await discover(config);
+
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: loginState.codeVerifier,
+  });
+  if (config.clientSecret) {
+    params.set('client_secret', config.clientSecret);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new OidcError('Identity provider did not return an ID token');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, config, metadata, loginState.nonce);
+
+  // Many providers only put profile claims in userinfo; the ID token stays authoritative for sub
+  if (metadata.userinfo_endpoint && tokens.access_token) {
+    try {
+      const userInfo = await fetchJson<IOidcClaims>(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userInfo.sub === claims.sub) {
+        return { ...userInfo, ...claims };
+      }
+    } catch (error) {
+      console.error('OIDC userinfo error:', error);
+    }
+  }
+
+  return claims;
+};
+
+const GENDERS: Record<string, string> = {
+  male: 'Male',
+  female: 'Female',
+  'non-binary': 'Non-binary',
+  other: 'Other',
+};
+
+// Map provider claims onto the User fields they can fill
+export const mapClaimsToProfile = (claims: IOidcClaims): Record<string, unknown> => {
+  const profile: Record<string, unknown> = {};
+
+  if (claims.given_name) profile.firstName = claims.given_name;
+  if (claims.family_name) profile.lastName = claims.family_name;
+  if (claims.phone_number) profile.phone = claims.phone_number;
+  if (claims.address?.country) profile.country = claims.address.country;
+  if (claims.gender && GENDERS[claims.gender.toLowerCase()]) {
+    profile.gender = GENDERS[claims.gender.toLowerCase()];
+  }
+  // Providers may omit the year ("0000-MM-DD"), which is useless for the age check
+  if (claims.birthdate && /^\d{4}-\d{2}-\d{2}$/.test(claims.birthdate) && !claims.birthdate.startsWith('0000')) {
+    profile.dob = claims.birthdate;
+  }
+
+  return profile;
+};
+
+// Fields a User cannot be created without; noticePeriodDays is only required when noticePeriod is "Yes"
+export const MANDATORY_PROFILE_FIELDS = [
+  'designation',
+  'firstName',
+  'lastName',
+  'country',
+  'phone',
+  'gender',
+  'dob',
+  'totalExperience',
+  'currentCTC',
+  'expectedCTC',
+  'noticePeriod',
+];
+
+export const getMissingProfileFields = (profile: Record<string, unknown>): string[] =>
+  MANDATORY_PROFILE_FIELDS.filter(field => profile[field] === undefined || profile[field] === '');
+
+// OIDC-created accounts get an unusable random password; "forgot password" can set a real one
+export const generateRandomPassword = (): string =>
+  `${crypto.randomBytes(24).toString('base64url')}aA1@`;
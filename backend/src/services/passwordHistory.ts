@@ -0,0 +1,44 @@
+import bcrypt from 'bcryptjs';
+import { IUserDocument } from '../types';
+import { toLegacySanitizedPassword } from '../utils/legacyPassword';
+
+// Number of most recent passwords, including the current one, that cannot be reused
+export const PASSWORD_HISTORY_SIZE = Math.max(1, Number(process.env.PASSWORD_HISTORY_SIZE) || 5);
+
+// Fields that must be selected on the user before using these helpers
+export const PASSWORD_HISTORY_FIELDS = '+password +passwordHistory';
+
+export const isPasswordReused = async (user: IUserDocument, candidate: string): Promise<boolean> => {
+  const recentHashes = [user.password, ...(user.passwordHistory || [])]
+    .filter(Boolean)
+    .slice(0, PASSWORD_HISTORY_SIZE);
+
+  for (const hash of recentHashes) {
+    if (await bcrypt.compare(candidate, hash)) {
+      return true;
+    }
+  }
+
+  // Only the current hash of a marked account can be of the form sanitizeInput used to
+  // rewrite passwords into; any change since was hashed as typed
+  const legacyCandidate = toLegacySanitizedPassword(candidate);
+  if (
+    user.legacySanitizedPassword &&
+    legacyCandidate !== candidate &&
+    (await bcrypt.compare(legacyCandidate, user.password))
+  ) {
+    return true;
+  }
+
+  return false;
+};
+
+// Set a new password, keeping the outgoing hash; the pre-save hook hashes the new one
+export const applyPasswordChange = (user: IUserDocument, newPassword: string): void => {
+  const previousHashes = user.password
+    ? [user.password, ...(user.passwordHistory || [])]
+    : user.passwordHistory || [];
+
+  user.passwordHistory = previousHashes.slice(0, PASSWORD_HISTORY_SIZE - 1);
+  user.password = newPassword;
+};
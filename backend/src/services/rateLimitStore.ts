@@ -0,0 +1,144 @@
+import RateLimitCounter from '../models/RateLimitCounter';
+
+// Hit counts for the window containing "now" and the one before it
+export interface IRateLimitWindowCounts {
+  current: number;
+  previous: number;
+}
+
+export interface IRateLimitStore {
+  name: string;
+  /** Record a hit for `key` in the fixed window starting at `windowStart`. */
+  increment(key: string, windowStart: number, windowMs: number): Promise<IRateLimitWindowCounts>;
+  reset(key: string): Promise<void>;
+}
+
+interface IMemoryEntry {
+  windowStart: number;
+  current: number;
+  previous: number;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_KEYS = 10000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Process-local store. Entries expire once both of their windows have passed,
+ * are swept once a minute, and the least recently used keys are evicted when
+ * `maxKeys` is reached, so memory stays bounded under key churn.
+ */
+export const createMemoryStore = (maxKeys: number = DEFAULT_MAX_KEYS): IRateLimitStore => {
+  const entries = new Map<string, IMemoryEntry>();
+
+  const sweep = (): void => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  // Never keep the process alive just to sweep
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+
+  return {
+    name: 'memory',
+    async increment(key, windowStart, windowMs) {
+      const existing = entries.get(key);
+      let entry: IMemoryEntry;
+
+      if (existing && existing.windowStart === windowStart) {
+        entry = { ...existing, current: existing.current + 1 };
+      } else if (existing && existing.windowStart === windowStart - windowMs) {
+        entry = { windowStart, current: 1, previous: existing.current, expiresAt: 0 };
+      } else {
+        entry = { windowStart, current: 1, previous: 0, expiresAt: 0 };
+      }
+      entry.expiresAt = windowStart + 2 * windowMs;
+
+      // Re-insert so Map iteration order doubles as LRU order
+      entries.delete(key);
+      if (entries.size >= maxKeys) {
+        sweep();
+        if (entries.size >= maxKeys) {
+          const oldestKey = entries.keys().next().value;
+          if (oldestKey !== undefined) {
+            entries.delete(oldestKey);
+          }
+        }
+      }
+      entries.set(key, entry);
+
+      return { current: entry.current, previous: entry.previous };
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Shared store for multi-instance deployments; expired windows are removed by a TTL index
+export const createMongoStore = (): IRateLimitStore => {
+  const incrementWindow = async (key: string, windowStart: Date, expiresAt: Date) => {
+    try {
+      return await RateLimitCounter.findOneAndUpdate(
+        { key, windowStart },
+        { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      // Two instances raced to create the same window; the second upsert now matches it
+      if (!isDuplicateKeyError(error)) throw error;
+      return RateLimitCounter.findOneAndUpdate(
+        { key, windowStart },
+        { $inc: { count: 1 } },
+        { new: true }
+      );
+    }
+  };
+
+  return {
+    name: 'mongo',
+    async increment(key, windowStart, windowMs) {
+      const [current, previous] = await Promise.all([
+        incrementWindow(key, new Date(windowStart), new Date(windowStart + 2 * windowMs)),
+        RateLimitCounter.findOne({ key, windowStart: new Date(windowStart - windowMs) }).lean(),
+      ]);
+
+      return { current: current?.count ?? 1, previous: previous?.count ?? 0 };
+    },
+    async reset(key) {
+      await RateLimitCounter.deleteMany({ key });
+    },
+  };
+};
+
+const resolveDefaultStore = (): IRateLimitStore => {
+  switch (process.env.RATE_LIMIT_STORE) {
+    case 'mongo':
+      return createMongoStore();
+    case 'memory':
+    default:
+      return createMemoryStore(Number(process.env.RATE_LIMIT_MAX_KEYS) || DEFAULT_MAX_KEYS);
+  }
+};
+
+let store: IRateLimitStore | null = null;
+
+// Allows another backend (Redis, ...) to be plugged in at startup
+export const setRateLimitStore = (nextStore: IRateLimitStore): void => {
+  store = nextStore;
+};
+
+// Resolved lazily so the memory store's sweep timer only starts when used
+export const getRateLimitStore = (): IRateLimitStore => {
+  if (!store) {
+    store = resolveDefaultStore();
+  }
+  return store;
+};
@@ -0,0 +1,325 @@
+/**
+ * Heuristic parsing of resume text into profile fields. Resumes have no fixed
+ * layout, so every field is a guess: results are only ever offered to the
+ * candidate for review, never saved directly.
+ *
+ * The text is split into sections at recognised headings ("Experience",
+ * "Skills", ...). Contact details and the name come from anywhere near the
+ * top; skills and work history only from their own sections.
+ */
+export interface IParsedWorkEntry {
+  title?: string;
+  company?: string;
+  // YYYY-MM
+  startDate?: string;
+  // YYYY-MM; absent while current
+  endDate?: string;
+  current: boolean;
+}
+
+export interface IParsedResume {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  totalExperience?: number;
+  skills: string[];
+  workHistory: IParsedWorkEntry[];
+}
+
+type SectionName = 'header' | 'experience' | 'skills' | 'other';
+
+interface ISection {
+  name: SectionName;
+  lines: string[];
+}
+
+interface IMonth {
+  year: number;
+  month: number;
+}
+
+const MAX_SKILLS = 30;
+const MAX_WORK_ENTRIES = 20;
+const MAX_EXPERIENCE_YEARS = 50;
+// The name is expected among the first few lines
+const NAME_SEARCH_LINES = 5;
+
+const SECTION_HEADINGS: Array<[Exclude<SectionName, 'header'>, RegExp]> = [
+  ['experience', /^((work|professional|employment|career|relevant)\s+)?(experience|history)$|^employment$/],
+  ['skills', /^((technical|key|core|professional)\s+)?(skills|competencies|expertise)(\s+(&|and)\s+\w+)?$|^(technologies|tech stack|tools)$/],
+  ['other', /^(education|projects?|certifications?|awards|publications|languages|interests|hobbies|references|summary|(professional\s+)?profile|objective|about me|volunteering|courses|achievements|contact( details)?)$/],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+// "Jan 2020", "01/2020", "2020-01" or "2020"
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}(?!\\d)|\\d{4})`;
+const CURRENT_PATTERN = '(?:present|current|now|today|date)';
+const DATE_RANGE = new RegExp(
+  `\\b(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|${CURRENT_PATTERN})\\b`,
+  'i'
+);
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{6,}\d/g;
+const STATED_EXPERIENCE = /(\d{1,2}(?:\.\d)?)\+?\s*(?:years?|yrs?)(?:\s+of)?\s+(?:[a-z]+\s+)?experience/i;
+const BULLET = /^[•·*▪‣◦●■-]\s*/;
+
+const normalizeHeading = (line: string): string =>
+  line.toLowerCase().replace(/[^a-z&\s]/g, '').replace(/\s+/g, ' ').trim();
+
+const matchHeading = (text: string): Exclude<SectionName, 'header'> | null => {
+  if (text.length > 40) return null;
+
+  const heading = normalizeHeading(text);
+  const match = SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading));
+  return match ? match[0] : null;
+};
+
+// "Skills: Go, SQL" opens the skills section and keeps "Go, SQL" as its first line.
+// Within the skills section, "Languages: Go, SQL" is a group of skills instead
+const splitSections = (lines: string[]): ISection[] => {
+  const sections: ISection[] = [{ name: 'header', lines: [] }];
+
+  lines.forEach((line) => {
+    const section = sections[sections.length - 1];
+    const colon = line.indexOf(':');
+    const inline = colon > 0 ? line.slice(colon + 1).trim() : '';
+    const name = matchHeading(line) ||
+      (inline && section.name !== 'skills' ? matchHeading(line.slice(0, colon)) : null);
+
+    if (!name) {
+      section.lines.push(line);
+      return;
+    }
+
+    sections.push({ name, lines: inline && !matchHeading(line) ? [inline] : [] });
+  });
+
+  return sections;
+};
+
+const linesOf = (sections: ISection[], name: SectionName): string[] =>
+  sections.filter((section) => section.name === name).flatMap((section) => section.lines);
+
+// "SMITH-JONES" -> "Smith-Jones"; names already in mixed case are kept
+const capitalizeName = (word: string): string =>
+  word === word.toUpperCase()
+    ? word.toLowerCase().replace(/(^|['-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+    : word;
+
+const parseName = (lines: string[]): Pick<IParsedResume, 'firstName' | 'lastName'> => {
+  for (const line of lines.slice(0, NAME_SEARCH_LINES)) {
+    // "Jane Smith, Software Engineer" or "Jane Smith | London"
+    const candidate = line.split(/\s*[,|–—]\s*|\s+-\s+/)[0];
+
+    if (/\d|@/.test(candidate) || /\b(resume|curriculum vitae|cv)\b/i.test(candidate)) continue;
+
+    // Middle initials ("J.") are dropped
+    const words = candidate.split(/\s+/).filter((word) => !/^[a-z]\.?$/i.test(word));
+
+    if (words.length < 2 || words.length > 4 || !words.every((word) => /^[a-z][a-z'-]+$/i.test(word))) continue;
+
+    const [firstName, ...rest] = words.map(capitalizeName);
+    return { firstName, lastName: rest.join(' ') };
+  }
+
+  return {};
+};
+
+const parsePhone = (lines: string[]): string | undefined => {
+  for (const line of lines) {
+    for (const match of line.match(PHONE) || []) {
+      const digits = match.replace(/\D/g, '');
+      const international = match.trim().startsWith('+');
+
+      // Shorter digit runs are more likely dates or years ("2019 - 2021")
+      if (digits.length <= 15 && (digits.length >= 10 || (international && digits.length >= 8))) {
+        return `${international ? '+' : ''}${digits}`;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+const parseSkills = (lines: string[]): string[] => {
+  const skills = new Map<string, string>();
+
+  lines.forEach((line) => {
+    // "Languages: Go, Python" -> "Go, Python"
+    const text = line.replace(BULLET, '').replace(/^[^:,]{1,30}:\s*/, '');
+    const parts = text.split(/\s*[,;•·|]\s*|\s+\/\s+|\t+/);
+
+    // A sentence rather than a list
+    if (parts.length === 1 && text.split(/\s+/).length > 4) return;
+
+    parts.forEach((part) => {
+      const skill = part.replace(/\.$/, '').trim();
+
+      if (skill.length > 0 && skill.length <= 40 && /[a-z]/i.test(skill) && skill.split(/\s+/).length <= 4) {
+        skills.set(skill.toLowerCase(), skills.get(skill.toLowerCase()) || skill);
+      }
+    });
+  });
+
+  return Array.from(skills.values()).slice(0, MAX_SKILLS);
+};
+
+const parseMonth = (token: string, now: Date): IMonth | null => {
+  const text = token.toLowerCase();
+
+  if (new RegExp(`^${CURRENT_PATTERN}$`).test(text)) {
+    return { year: now.getFullYear(), month: now.getMonth() };
+  }
+
+  let year: number;
+  let month = 0;
+  const named = text.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/) || text.match(/^(\d{4})-(\d{2})$/);
+
+  if (named) {
+    month = MONTHS.indexOf(named[1].slice(0, 3));
+    year = Number(named[2]);
+  } else if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    [year, month] = first > 12 ? [first, second - 1] : [second, first - 1];
+  } else {
+    year = Number(text);
+  }
+
+  if (month < 0 || month > 11 || year < 1950 || year > now.getFullYear() + 1) {
+    return null;
+  }
+
+  return { year, month };
+};
+
+const formatMonth = ({ year, month }: IMonth): string => `${year}-${String(month + 1).padStart(2, '0')}`;
+
+const dates = (start: IMonth, end: IMonth, current: boolean) => ({
+  startDate: formatMonth(start),
+  endDate: current ? undefined : formatMonth(end),
+  current,
+});
+
+// "Engineer at Acme", "Engineer | Acme", "Engineer, Acme"
+const splitRole = (text: string): Pick<IParsedWorkEntry, 'title' | 'company'> => {
+  const [title, company] = /\s+(?:at|@)\s+/i.test(text)
+    ? text.split(/\s+(?:at|@)\s+/i)
+    : text.split(/\s+[|–—-]\s+|,\s+|\t+/);
+
+  return {
+    title: title?.trim().slice(0, 100) || undefined,
+    company: company?.trim().slice(0, 100) || undefined,
+  };
+};
+
+const trimSeparators = (text: string): string =>
+  text.replace(/\(\s*\)/g, '').replace(/^[\s|,:•·–—-]+|[\s|,:•·–—(-]+$/g, '');
+
+const parseWorkHistory = (lines: string[], now: Date): IParsedWorkEntry[] => {
+  const entries: IParsedWorkEntry[] = [];
+  // Lines after the previous entry that may name the role of the next one
+  let pending: string[] = [];
+  // A line below the dates that already named a role
+  let usedLine = -1;
+
+  lines.forEach((line, index) => {
+    const range = line.match(DATE_RANGE);
+
+    if (!range || range.index === undefined) {
+      if (!BULLET.test(line) && index !== usedLine) pending.push(line);
+      return;
+    }
+
+    const start = parseMonth(range[1], now);
+    const end = parseMonth(range[2], now);
+    if (!start || !end) return;
+
+    const current = new RegExp(`^${CURRENT_PATTERN}$`, 'i').test(range[2]);
+    let role = trimSeparators(line.slice(0, range.index) + ' ' + line.slice(range.index + range[0].length));
+
+    // Title and company on the lines above the dates, or else on the line below
+    if (!role) {
+      const above = pending.slice(-2);
+      const below = lines[index + 1];
+
+      if (above.length === 2) {
+        entries.push({ title: above[0].slice(0, 100), company: above[1].slice(0, 100), ...dates(start, end, current) });
+        pending = [];
+        return;
+      }
+      if (above.length === 1) {
+        role = above[0];
+      } else if (below && !BULLET.test(below) && !DATE_RANGE.test(below)) {
+        role = below;
+        usedLine = index + 1;
+      }
+    }
+
+    entries.push({ ...splitRole(role), ...dates(start, end, current) });
+    pending = [];
+  });
+
+  return entries.slice(0, MAX_WORK_ENTRIES);
+};
+
+const toMonthIndex = (date: string): number => {
+  const [year, month] = date.split('-').map(Number);
+  return year * 12 + month - 1;
+};
+
+// Overlapping positions are counted once
+const sumExperienceYears = (entries: IParsedWorkEntry[], now: Date): number | undefined => {
+  const nowIndex = now.getFullYear() * 12 + now.getMonth();
+  const intervals = entries
+    .filter((entry) => entry.startDate)
+    .map((entry) => [toMonthIndex(entry.startDate!), entry.endDate ? toMonthIndex(entry.endDate) : nowIndex])
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  if (intervals.length === 0) return undefined;
+
+  let months = 0;
+  let [currentStart, currentEnd] = intervals[0];
+
+  intervals.slice(1).forEach(([start, end]) => {
+    if (start > currentEnd) {
+      months += currentEnd - currentStart;
+      [currentStart, currentEnd] = [start, end];
+    } else {
+      currentEnd = Math.max(currentEnd, end);
+    }
+  });
+  months += currentEnd - currentStart;
+
+  return Math.min(MAX_EXPERIENCE_YEARS, Math.round((months / 12) * 10) / 10);
+};
+
+export const parseResume = (text: string, now: Date = new Date()): IParsedResume => {
+  const lines = text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  // Without an experience heading, look for positions outside the other known sections
+  const experienceLines = linesOf(sections, 'experience');
+  const workHistory = parseWorkHistory(experienceLines.length > 0 ? experienceLines : linesOf(sections, 'header'), now);
+
+  const stated = text.match(STATED_EXPERIENCE);
+  const totalExperience = stated
+    ? Math.min(MAX_EXPERIENCE_YEARS, Number(stated[1]))
+    : sumExperienceYears(workHistory, now);
+
+  return {
+    ...parseName(lines),
+    email: text.match(EMAIL)?.[0].toLowerCase(),
+    phone: parsePhone([...linesOf(sections, 'header'), ...lines]),
+    totalExperience,
+    skills: parseSkills(linesOf(sections, 'skills')),
+    workHistory,
+  };
+};
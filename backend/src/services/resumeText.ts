@@ -0,0 +1,150 @@
+import zlib from 'zlib';
+import pdfParse from 'pdf-parse';
+import { FileType } from '../utils/fileType';
+
+/**
+ * Plain text of an uploaded resume, extracted offline. Lines are kept, since
+ * the parser relies on them; scanned PDFs have no text layer and yield ''.
+ */
+export class ResumeTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeTextError';
+  }
+}
+
+// Resumes are short; this bounds the work spent on a hostile file
+const PDF_MAX_PAGES = 10;
+const DOCX_MAX_XML_BYTES = 20 * 1024 * 1024;
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+interface IPdfTextItem {
+  str: string;
+  width: number;
+  transform: number[];
+}
+
+// The part of the pdf.js page pdf-parse passes to its page renderer that is used here
+interface IPdfPage {
+  getTextContent(): Promise<{ items: IPdfTextItem[] }>;
+}
+
+// pdf-parse's default renderer glues together text items on the same line;
+// this one puts a space where there is a gap between them
+const renderPdfPage = async (pageData: IPdfPage): Promise<string> => {
+  const content = await pageData.getTextContent();
+  let text = '';
+  let lastY: number | undefined;
+  let lastEnd = 0;
+
+  content.items.forEach((item) => {
+    const [, , , , x, y] = item.transform;
+
+    if (lastY !== undefined && Math.abs(y - lastY) > 1) {
+      text += '\n';
+    } else if (lastY !== undefined && x - lastEnd > 1 && !text.endsWith(' ') && !item.str.startsWith(' ')) {
+      text += ' ';
+    }
+
+    text += item.str;
+    lastY = y;
+    lastEnd = x + item.width;
+  });
+
+  return text;
+};
+
+const extractPdfText = async (data: Buffer): Promise<string> => {
+  try {
+    const result = await pdfParse(data, { max: PDF_MAX_PAGES, pagerender: renderPdfPage });
+    return result.text;
+  } catch (error) {
+    throw new ResumeTextError(`Unreadable PDF: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Reads one entry of a ZIP archive through its central directory
+const readZipEntry = (data: Buffer, name: string): Buffer => {
+  // The end record is within the last 64 KB (its comment is at most 65535 bytes)
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ResumeTextError('Unreadable DOCX: no ZIP directory');
+  }
+
+  const entries = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let index = 0; index < entries && offset + 46 <= data.length; index++) {
+    if (data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) break;
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new ResumeTextError(`Unreadable DOCX: bad entry ${name}`);
+      }
+
+      const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const compressed = data.subarray(start, start + compressedSize);
+
+      if (method === ZIP_STORED) return compressed;
+      if (method === ZIP_DEFLATED) {
+        try {
+          return zlib.inflateRawSync(compressed, { maxOutputLength: DOCX_MAX_XML_BYTES });
+        } catch (error) {
+          throw new ResumeTextError(`Unreadable DOCX: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      throw new ResumeTextError(`Unreadable DOCX: unsupported compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new ResumeTextError(`Unreadable DOCX: no ${name}`);
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+
+// Paragraphs, breaks and tabs of word/document.xml; everything else is markup
+const extractDocxText = (data: Buffer): string => {
+  const xml = readZipEntry(data, 'word/document.xml').toString('utf8');
+
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>|<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+};
+
+export const extractResumeText = async (data: Buffer, fileType: FileType): Promise<string> => {
+  const text = fileType === 'pdf' ? await extractPdfText(data) : extractDocxText(data);
+  return text.replace(/\r\n?/g, '\n');
+};
@@ -0,0 +1,62 @@
+import User from '../models/User';
+import { IUserDocument } from '../types';
+import { hashToken } from '../utils/tokens';
+import { verifyTotpCode, generateRecoveryCodes, normalizeRecoveryCode } from '../utils/totp';
+
+export type SecondFactorMethod = 'totp' | 'recovery';
+
+// Fields that must be selected on the user before calling verifySecondFactor
+export const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled. Accepted TOTP
+ * steps are recorded to block replays and recovery codes are consumed.
+ */
+export const verifySecondFactor = async (
+  user: IUserDocument,
+  code: string
+): Promise<SecondFactorMethod | null> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotpCode(user.twoFactorSecret, code);
+
+  if (step !== null) {
+    // Atomic guard so the same code cannot be used twice, even concurrently
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+
+    return result.modifiedCount === 1 ? 'totp' : null;
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+
+  if (user.twoFactorRecoveryCodes?.includes(codeHash)) {
+    const result = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } }
+    );
+
+    return result.modifiedCount === 1 ? 'recovery' : null;
+  }
+
+  return null;
+};
+
+// Returns plain codes for one-time display and their hashes for storage
+export const createRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = generateRecoveryCodes();
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(code)),
+  };
+};
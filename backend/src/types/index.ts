@@ -1,7 +1,36 @@
 // User types
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { Request } from 'express';
 
+export type UserRole = 'candidate' | 'recruiter' | 'admin';
+
+export type Permission =
+  | 'profile:read'
+  | 'profile:write'
+  | 'candidates:read'
+  | 'jobs:manage'
+  | 'users:read'
+  | 'users:manage'
+  | 'audit:read';
+
+export type LoginMethod = 'password' | 'two-factor' | 'oidc' | 'magic-link';
+
+export type AuditAction =
+  | 'user.register'
+  | 'user.role.change'
+  | 'auth.login.success'
+  | 'auth.login.failure'
+  | 'auth.token.issue'
+  | 'auth.password.change'
+  | 'auth.password.reset'
+  | 'auth.login.reported'
+  | 'auth.email.change'
+  | 'auth.reauth.success'
+  | 'auth.reauth.failure'
+  | 'profile.update'
+  | 'profile.delete'
+  | 'resume.download';
+
 export interface IUser {
   _id: string;
   email: string;
@@ -19,14 +48,51 @@ export interface IUser {
   noticePeriod: string;
   noticePeriodDays?: number;
   bio?: string;
+  skills?: string[];
   experience?: string;
   resumeUrl?: string;
   avatar?: string;
   isEmailVerified: boolean;
+  role: UserRole;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Link between a local account and an external OpenID Connect identity
+export interface IUserIdentity {
+  issuer: string;
+  subject: string;
+  linkedAt: Date;
+}
+
+// An uploaded file; `key` locates it in file storage and is never sent to clients
+export interface IStoredFile {
+  key: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+// A position in a user's employment history; months are "YYYY-MM" and a
+// current position has no endDate
+export interface IWorkExperience {
+  company: string;
+  title: string;
+  location?: string;
+  startDate: string;
+  endDate?: string;
+  current: boolean;
+  description?: string;
+  skills: string[];
+}
+
+// One generated size of an uploaded avatar, stored as WebP
+export interface IAvatarImage {
+  size: number;
+  key: string;
+}
+
 export interface IUserDocument extends Document {
   email: string;
   password: string;
@@ -43,10 +109,35 @@ export interface IUserDocument extends Document {
   noticePeriod: string;
   noticePeriodDays?: number;
   bio?: string;
+  skills?: string[];
   experience?: string;
+  workHistory: Types.DocumentArray<IWorkExperience>;
   resumeUrl?: string;
+  resume?: IStoredFile;
   avatar?: string;
+  avatarImages?: IAvatarImage[];
   isEmailVerified: boolean;
+  role: UserRole;
+  passwordChangedAt?: Date;
+  legacySanitizedPassword?: boolean;
+  passwordHistory?: string[];
+  pendingEmail?: string;
+  emailChangeTokenHash?: string;
+  emailChangeExpires?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpires?: Date;
+  magicLinkTokenHash?: string;
+  magicLinkExpires?: Date;
+  magicLinkDeviceHash?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  failedLoginAttempts: number;
+  lockUntil?: Date;
+  twoFactorChallengesRevokedAt?: Date;
+  identities?: IUserIdentity[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -103,16 +194,148 @@ export interface IAuthResponse {
     experience?: string;
     resumeUrl?: string;
     avatar?: string;
+    avatarImages?: { size: number; name: string }[];
     isEmailVerified: boolean;
+    pendingEmail?: string;
+    role: UserRole;
+    twoFactorEnabled?: boolean;
     createdAt: Date;
   };
   token?: string;
+  refreshToken?: string;
+  // Cookie auth mode: echoed in X-CSRF-Token on state-changing requests
+  csrfToken?: string;
+  session?: ISessionTimeouts;
+  requiresTwoFactor?: boolean;
+  twoFactorToken?: string;
+  code?: string;
+  retryAfter?: number;
+  requiresProfile?: boolean;
+  signupToken?: string;
+  profile?: Record<string, unknown>;
+  missingFields?: string[];
+}
+
+// Refresh token types
+export interface IRefreshTokenDocument extends Document {
+  user: Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Session types
+export interface ISessionDocument extends Document {
+  user: Types.ObjectId;
+  device: string;
+  userAgent?: string;
+  ip?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  // Limits from the role's session policy at login; absent on sessions created before policies
+  idleTimeoutMinutes?: number;
+  absoluteExpiresAt?: Date;
+  // Last time the user proved who they are in this session: login or re-authentication
+  authenticatedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// When the current session ends if nothing extends it
+export interface ISessionTimeouts {
+  idleTimeoutSeconds?: number;
+  idleExpiresAt?: Date;
+  absoluteExpiresAt: Date;
+  // Until whichever of the two comes first
+  remainingSeconds: number;
+}
+
+export interface ILoginEventDocument extends Document {
+  user: Types.ObjectId;
+  method: LoginMethod | 'register';
+  sessionId?: string;
+  ip?: string;
+  userAgent?: string;
+  device: string;
+  // Hash of the request's stable characteristics; see services/loginHistory.ts
+  deviceFingerprint: string;
+  location?: {
+    country: string;
+    region?: string;
+    city?: string;
+  };
+  newDevice: boolean;
+  unusualLocation: boolean;
+  // Single-use "this wasn't me" link sent with a new-device alert
+  reportTokenHash?: string;
+  reportTokenExpiresAt?: Date;
+  reportedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IApiKeyDocument extends Document {
+  user: Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: Permission[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditEventDocument extends Document {
+  action: AuditAction;
+  // Who performed the action; absent for anonymous requests such as failed logins
+  actor?: Types.ObjectId;
+  apiKey?: Types.ObjectId;
+  // Whose account the action affected
+  subject?: Types.ObjectId;
+  ip?: string;
+  userAgent?: string;
+  changes?: IAuditChange[];
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface IOidcLoginStateDocument extends Document {
+  stateHash: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+export interface IRateLimitCounterDocument extends Document {
+  key: string;
+  windowStart: Date;
+  count: number;
+  expiresAt: Date;
 }
 
 // JWT Payload
 export interface IJwtPayload {
   userId: string;
   email: string;
+  role?: UserRole;
+  sid?: string;
+  // Seconds since the epoch, as in OpenID Connect; see requireRecentAuth
+  auth_time?: number;
   iat?: number;
   exp?: number;
 }
@@ -120,6 +343,11 @@ export interface IJwtPayload {
 // Request extensions
 export interface IAuthenticatedRequest extends Request {
   user?: IUserDocument;
+  sessionId?: string;
+  // From the access token's auth_time claim
+  authTime?: Date;
+  // Set instead of sessionId when the request authenticated with an API key
+  apiKey?: IApiKeyDocument;
 }
 
 // API Response types
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import { REFRESH_TOKEN_TTL_DAYS } from './tokens';
+
+/**
+ * Cookie auth mode for the browser app. A client opts in by sending
+ * `X-Auth-Mode: cookie`; tokens are then set as httpOnly SameSite cookies
+ * instead of being returned in the body, so scripts on the page never see them.
+ * Bearer tokens keep working unchanged for API clients.
+ *
+ * Cookie-authenticated state-changing requests must echo the CSRF token
+ * (double-submit): see middleware/csrf.ts.
+ */
+export const AUTH_MODE_HEADER = 'X-Auth-Mode';
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+const isSecure = (): boolean =>
+  process.env.AUTH_COOKIE_SECURE
+    ? process.env.AUTH_COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production';
+
+// __Host- cookies must be Secure, host-only and path "/", so a sibling subdomain cannot plant them
+const cookieName = (name: string, prefix: '__Host-' | '__Secure-'): string =>
+  isSecure() ? `${prefix}${name}` : name;
+
+export const getAuthCookieNames = () => ({
+  access: cookieName('accessToken', '__Host-'),
+  // Only sent to the endpoints that rotate or revoke it
+  refresh: cookieName('refreshToken', '__Secure-'),
+  csrf: cookieName('csrfToken', '__Host-'),
+});
+
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const SAME_SITE_VALUES = ['strict', 'lax', 'none'] as const;
+
+const baseCookieOptions = (): CookieOptions => {
+  const sameSite = (process.env.AUTH_COOKIE_SAMESITE || 'strict').toLowerCase() as CookieOptions['sameSite'];
+
+  return {
+    httpOnly: true,
+    secure: isSecure(),
+    sameSite: SAME_SITE_VALUES.includes(sameSite as typeof SAME_SITE_VALUES[number]) ? sameSite : 'strict',
+    path: '/',
+  };
+};
+
+export const wantsCookieAuth = (req: Request): boolean =>
+  req.get(AUTH_MODE_HEADER)?.toLowerCase() === 'cookie';
+
+// Minimal Cookie header parser; the app has no other use for cookie-parser
+export const readCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+export const getAccessTokenCookie = (req: Request): string | undefined =>
+  readCookie(req, getAuthCookieNames().access);
+
+export const getRefreshTokenCookie = (req: Request): string | undefined =>
+  readCookie(req, getAuthCookieNames().refresh);
+
+export const getCsrfTokenCookie = (req: Request): string | undefined =>
+  readCookie(req, getAuthCookieNames().csrf);
+
+export const hasAuthCookies = (req: Request): boolean =>
+  !!(getAccessTokenCookie(req) || getRefreshTokenCookie(req));
+
+/**
+ * Set the session cookies and return the CSRF token the client must echo in X-CSRF-Token.
+ * The access cookie has no Max-Age: the JWT's own expiry applies, and it ends with the browser.
+ */
+export const setAuthCookies = (
+  req: Request,
+  res: Response,
+  tokens: { token: string; refreshToken?: string }
+): string => {
+  const names = getAuthCookieNames();
+  const options = baseCookieOptions();
+  // Keep the current CSRF token on refresh so requests already in flight in other tabs stay valid
+  const csrfToken = getCsrfTokenCookie(req) || crypto.randomBytes(32).toString('base64url');
+  const refreshMaxAge = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+  res.cookie(names.access, tokens.token, options);
+  res.cookie(names.csrf, csrfToken, { ...options, maxAge: refreshMaxAge });
+
+  if (tokens.refreshToken) {
+    res.cookie(names.refresh, tokens.refreshToken, { ...options, path: REFRESH_COOKIE_PATH, maxAge: refreshMaxAge });
+  }
+
+  return csrfToken;
+};
+
+export const clearAuthCookies = (res: Response): void => {
+  const names = getAuthCookieNames();
+  const options = baseCookieOptions();
+
+  res.clearCookie(names.access, options);
+  res.clearCookie(names.csrf, options);
+  res.clearCookie(names.refresh, { ...options, path: REFRESH_COOKIE_PATH });
+};
+
+/**
+ * Body fields carrying the tokens of a new or refreshed session: the tokens themselves
+ * for Bearer clients, or only the CSRF token once they have been set as cookies
+ */
+export const deliverTokens = (
+  req: Request,
+  res: Response,
+  tokens: { token: string; refreshToken?: string },
+  useCookies: boolean = wantsCookieAuth(req)
+): { token?: string; refreshToken?: string; csrfToken?: string } => {
+  if (useCookies) {
+    return { csrfToken: setAuthCookies(req, res, tokens) };
+  }
+
+  return { token: tokens.token, refreshToken: tokens.refreshToken };
+};
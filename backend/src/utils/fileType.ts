@@ -0,0 +1,67 @@
+import path from 'path';
+
+export type FileType = 'pdf' | 'docx' | 'jpeg' | 'png' | 'webp';
+
+export const FILE_TYPES: Record<FileType, { mimeType: string; extension: string }> = {
+  pdf: { mimeType: 'application/pdf', extension: '.pdf' },
+  docx: {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: '.docx',
+  },
+  jpeg: { mimeType: 'image/jpeg', extension: '.jpg' },
+  png: { mimeType: 'image/png', extension: '.png' },
+  webp: { mimeType: 'image/webp', extension: '.webp' },
+};
+
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Identify a file from its content ("magic bytes"). The name and Content-Type
+ * sent by the client are never trusted.
+ */
+export const detectFileType = (data: Buffer): FileType | null => {
+  if (data.length >= 5 && data.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+
+  // DOCX is a ZIP archive containing word/document.xml; entry names are stored
+  // uncompressed. Macro-enabled documents (vbaProject.bin) are refused
+  if (
+    data.length >= 4 &&
+    data.readUInt32LE(0) === ZIP_LOCAL_FILE_HEADER &&
+    data.includes('[Content_Types].xml') &&
+    data.includes('word/document.xml') &&
+    !data.includes('vbaProject.bin')
+  ) {
+    return 'docx';
+  }
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+
+  if (data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'png';
+  }
+
+  if (
+    data.length >= 12 &&
+    data.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    data.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'webp';
+  }
+
+  return null;
+};
+
+// A display name that is safe in a Content-Disposition header and ends in the detected type's extension
+export const safeFileName = (originalName: string, extension: string): string => {
+  const base = path.basename(originalName, path.extname(originalName))
+    .replace(/[^\w .()-]/g, '_')
+    .trim()
+    .slice(0, 100);
+
+  return `${base || 'file'}${extension}`;
+};
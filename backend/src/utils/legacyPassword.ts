@@ -0,0 +1,14 @@
+/**
+ * The form a password took when `sanitizeInput` still rewrote password fields:
+ * script tags, `javascript:` and `on…=` removed, trimmed and whitespace runs
+ * collapsed. Passwords registered back then were hashed in this form.
+ */
+export const toLegacySanitizedPassword = (password: string): string => {
+  const sanitized = password
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/javascript:/gi, '')
+    .replace(/on\w+\s*=/gi, '')
+    .trim();
+
+  return sanitized.length > 0 ? sanitized.replace(/\s+/g, ' ') : sanitized;
+};
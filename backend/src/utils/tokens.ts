@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import RefreshToken from '../models/RefreshToken';
+import Session from '../models/Session';
+import User from '../models/User';
+import { getSessionPolicy } from '../config/sessionPolicy';
+import { IJwtPayload, IRefreshTokenDocument, ISessionDocument, ISessionTimeouts, IUserDocument } from '../types';
+import { describeUserAgent } from './userAgent';
+import { signJwt, verifyJwt } from './jwtKeys';
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+const EMAIL_VERIFICATION_EXPIRES_IN = process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h';
+
+export interface IRequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface ITokenPair {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  session: ISessionTimeouts;
+}
+
+export const getRequestContext = (req: Request): IRequestContext => ({
+  ip: req.ip || req.socket.remoteAddress,
+  userAgent: req.get('user-agent'),
+});
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const getRefreshTokenExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Sessions from before step-up re-authentication count from their login
+const getAuthTime = (session: ISessionDocument): Date => session.authenticatedAt || session.createdAt;
+
+export const generateAccessToken = (user: IUserDocument, session: ISessionDocument): string =>
+  signJwt(
+    {
+      userId: user._id,
+      email: user.email,
+      role: user.role,
+      sid: session.id,
+      auth_time: Math.floor(getAuthTime(session).getTime() / 1000),
+    },
+    ACCESS_TOKEN_EXPIRES_IN
+  );
+
+export const verifyAccessToken = (token: string): IJwtPayload => {
+  const decoded = verifyJwt<IJwtPayload & { purpose?: string }>(token);
+
+  // Purpose-bound tokens (email verification, ...) must never authenticate requests
+  if (decoded.purpose) {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+
+  return decoded;
+};
+
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const OIDC_SIGNUP_EXPIRES_IN = '30m';
+export const FILE_DOWNLOAD_EXPIRES_IN_SECONDS = 5 * 60;
+
+type TokenPurpose = 'email-verification' | 'two-factor' | 'oidc-signup' | 'file-download';
+
+interface IPurposeTokenPayload {
+  userId: string;
+  email: string;
+  purpose: TokenPurpose;
+}
+
+// Short-lived tokens bound to a single purpose, never accepted as access tokens
+const signPurposeToken = (user: IUserDocument, purpose: TokenPurpose, expiresIn: string): string =>
+  signJwt({ userId: user._id, email: user.email, purpose }, expiresIn);
+
+const verifyPurposeToken = (token: string, purpose: TokenPurpose): IPurposeTokenPayload & jwt.JwtPayload => {
+  const decoded = verifyJwt<IPurposeTokenPayload>(token);
+
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+
+  return decoded;
+};
+
+// The email is embedded so a token stops working if the address changes
+export const generateEmailVerificationToken = (user: IUserDocument): string =>
+  signPurposeToken(user, 'email-verification', EMAIL_VERIFICATION_EXPIRES_IN);
+
+export const verifyEmailVerificationToken = (token: string): IPurposeTokenPayload =>
+  verifyPurposeToken(token, 'email-verification');
+
+// Proves the password step of a login succeeded while the second factor is pending
+export const generateTwoFactorChallengeToken = (user: IUserDocument): string =>
+  signPurposeToken(user, 'two-factor', TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+
+/**
+ * Resolve a challenge token to its user, selected with `fields`. Challenges
+ * issued before the user's were revoked (see registerFailedTwoFactor) are
+ * rejected like expired ones.
+ */
+export const verifyTwoFactorChallengeToken = async (
+  token: string,
+  fields: string
+): Promise<IUserDocument | null> => {
+  const payload = verifyPurposeToken(token, 'two-factor');
+  const user = await User.findById(payload.userId).select(`${fields} +twoFactorChallengesRevokedAt`);
+
+  if (
+    user?.twoFactorChallengesRevokedAt &&
+    (!payload.iat || payload.iat < Math.floor(user.twoFactorChallengesRevokedAt.getTime() / 1000))
+  ) {
+    throw new jwt.JsonWebTokenError('Two-factor challenge revoked');
+  }
+
+  return user;
+};
+
+export interface IOidcSignupPayload {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  profile: Record<string, unknown>;
+  purpose: TokenPurpose;
+}
+
+// Carries a verified external identity while the user fills in missing profile fields
+export const generateOidcSignupToken = (identity: Omit<IOidcSignupPayload, 'purpose'>): string =>
+  signJwt({ ...identity, purpose: 'oidc-signup' }, OIDC_SIGNUP_EXPIRES_IN);
+
+export const verifyOidcSignupToken = (token: string): IOidcSignupPayload => {
+  const decoded = verifyJwt<IOidcSignupPayload>(token);
+
+  if (decoded.purpose !== 'oidc-signup') {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+
+  return decoded;
+};
+
+export interface IFileDownloadPayload {
+  key: string;
+  fileName: string;
+  contentType: string;
+  purpose: TokenPurpose;
+}
+
+// A download link for a stored file. Whoever holds it can fetch the file until it
+// expires, so links are only handed to users allowed to see the file
+export const generateFileDownloadToken = (file: Omit<IFileDownloadPayload, 'purpose'>): string =>
+  signJwt({ ...file, purpose: 'file-download' }, `${FILE_DOWNLOAD_EXPIRES_IN_SECONDS}s`);
+
+export const verifyFileDownloadToken = (token: string): IFileDownloadPayload => {
+  const decoded = verifyJwt<IFileDownloadPayload>(token);
+
+  if (decoded.purpose !== 'file-download') {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+
+  return decoded;
+};
+
+// Access tokens issued before the last password change are no longer accepted
+export const isIssuedBeforePasswordChange = (payload: IJwtPayload, user: IUserDocument): boolean => {
+  if (!user.passwordChangedAt || !payload.iat) {
+    return false;
+  }
+
+  return payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000);
+};
+
+const createRefreshToken = async (
+  userId: IUserDocument['_id'],
+  family: string,
+  context: IRequestContext
+): Promise<{ raw: string; doc: IRefreshTokenDocument }> => {
+  const raw = crypto.randomBytes(48).toString('hex');
+
+  const doc = await RefreshToken.create({
+    user: userId,
+    tokenHash: hashToken(raw),
+    family,
+    expiresAt: getRefreshTokenExpiry(),
+    createdByIp: context.ip,
+    userAgent: context.userAgent,
+  });
+
+  return { raw, doc };
+};
+
+const getIdleExpiry = (session: ISessionDocument): Date | undefined =>
+  session.idleTimeoutMinutes
+    ? new Date(session.lastSeenAt.getTime() + session.idleTimeoutMinutes * 60 * 1000)
+    : undefined;
+
+export const isSessionIdle = (session: ISessionDocument): boolean => {
+  const idleExpiresAt = getIdleExpiry(session);
+  return !!idleExpiresAt && idleExpiresAt.getTime() <= Date.now();
+};
+
+// expiresAt never passes absoluteExpiresAt, so it is the absolute limit
+export const getSessionTimeouts = (session: ISessionDocument): ISessionTimeouts => {
+  const idleExpiresAt = getIdleExpiry(session);
+  const endsAt = Math.min(session.expiresAt.getTime(), idleExpiresAt?.getTime() ?? Infinity);
+
+  return {
+    idleTimeoutSeconds: session.idleTimeoutMinutes ? session.idleTimeoutMinutes * 60 : undefined,
+    idleExpiresAt,
+    absoluteExpiresAt: session.expiresAt,
+    remainingSeconds: Math.max(0, Math.floor((endsAt - Date.now()) / 1000)),
+  };
+};
+
+export const findActiveSession = async (sessionId?: string): Promise<ISessionDocument | null> => {
+  if (!sessionId || !mongoose.isValidObjectId(sessionId)) {
+    return null;
+  }
+
+  const session = await Session.findOne({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+
+  // An idle session has expired rather than been signed out; the TTL index purges it
+  if (session && isSessionIdle(session)) {
+    await Session.updateOne({ _id: session._id }, { $set: { expiresAt: new Date() } });
+    return null;
+  }
+
+  return session;
+};
+
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Record activity at most once a minute to avoid a write on every request, unless forced
+export const touchSession = async (
+  session: ISessionDocument,
+  context: IRequestContext,
+  force: boolean = false
+): Promise<void> => {
+  if (!force && Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return;
+  }
+
+  const lastSeenAt = new Date();
+
+  await Session.updateOne(
+    { _id: session._id },
+    { $set: { lastSeenAt, ip: context.ip } }
+  );
+
+  session.lastSeenAt = lastSeenAt;
+};
+
+// Record that the user has just confirmed their identity in this session; tokens
+// issued afterwards carry the new auth_time
+export const markSessionAuthenticated = async (session: ISessionDocument): Promise<void> => {
+  const authenticatedAt = new Date();
+
+  await Session.updateOne({ _id: session._id }, { $set: { authenticatedAt } });
+
+  session.authenticatedAt = authenticatedAt;
+};
+
+// Start a new session and issue its access token plus first refresh token
+export const issueTokenPair = async (
+  user: IUserDocument,
+  context: IRequestContext = {}
+): Promise<ITokenPair> => {
+  const policy = getSessionPolicy(user.role);
+  const absoluteExpiresAt = new Date(Date.now() + policy.absoluteTimeoutHours * 60 * 60 * 1000);
+  const refreshExpiresAt = getRefreshTokenExpiry();
+
+  const session = await Session.create({
+    user: user._id,
+    device: describeUserAgent(context.userAgent),
+    userAgent: context.userAgent,
+    ip: context.ip,
+    lastSeenAt: new Date(),
+    authenticatedAt: new Date(),
+    expiresAt: absoluteExpiresAt < refreshExpiresAt ? absoluteExpiresAt : refreshExpiresAt,
+    idleTimeoutMinutes: policy.idleTimeoutMinutes,
+    absoluteExpiresAt,
+  });
+
+  const { raw } = await createRefreshToken(user._id, session.id, context);
+
+  return {
+    token: generateAccessToken(user, session),
+    refreshToken: raw,
+    sessionId: session.id,
+    session: getSessionTimeouts(session),
+  };
+};
+
+// A refresh token family and its session share an id, so both are revoked together
+export const revokeTokenFamily = async (family: string): Promise<void> => {
+  await RefreshToken.updateMany(
+    { family, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  if (mongoose.isValidObjectId(family)) {
+    await Session.updateOne(
+      { _id: family, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+};
+
+export const revokeAllUserTokens = async (
+  userId: IUserDocument['_id'],
+  exceptSessionId?: string
+): Promise<void> => {
+  const now = new Date();
+  const tokenFilter: Record<string, unknown> = { user: userId, revokedAt: { $exists: false } };
+  const sessionFilter: Record<string, unknown> = { user: userId, revokedAt: { $exists: false } };
+
+  if (exceptSessionId) {
+    tokenFilter.family = { $ne: exceptSessionId };
+    sessionFilter._id = { $ne: exceptSessionId };
+  }
+
+  await RefreshToken.updateMany(tokenFilter, { $set: { revokedAt: now } });
+  await Session.updateMany(sessionFilter, { $set: { revokedAt: now } });
+};
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+/**
+ * Exchange a refresh token for a new pair. The presented token is revoked and
+ * replaced by one in the same family; presenting an already-revoked token is
+ * treated as theft and revokes the entire family.
+ */
+export const rotateRefreshToken = async (
+  rawToken: string,
+  context: IRequestContext = {}
+): Promise<{ user: IUserDocument; tokens: ITokenPair }> => {
+  const existing = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) });
+
+  if (!existing) {
+    throw new RefreshTokenError('Refresh token is not valid.');
+  }
+
+  if (existing.revokedAt) {
+    await revokeTokenFamily(existing.family);
+    throw new RefreshTokenError('Refresh token reuse detected. Please log in again.');
+  }
+
+  if (existing.expiresAt.getTime() <= Date.now()) {
+    throw new RefreshTokenError('Refresh token has expired.');
+  }
+
+  const user = await User.findById(existing.user);
+
+  if (!user) {
+    await revokeTokenFamily(existing.family);
+    throw new RefreshTokenError('Refresh token is not valid. User not found.');
+  }
+
+  const session = await findActiveSession(existing.family);
+
+  if (!session) {
+    await revokeTokenFamily(existing.family);
+    throw new RefreshTokenError('Session has been signed out. Please log in again.');
+  }
+
+  const { raw, doc } = await createRefreshToken(user._id, existing.family, context);
+
+  // Only one concurrent rotation may win; the loser is treated as reuse
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { _id: existing._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), replacedByHash: doc.tokenHash } }
+  );
+
+  if (!claimed) {
+    await revokeTokenFamily(existing.family);
+    throw new RefreshTokenError('Refresh token reuse detected. Please log in again.');
+  }
+
+  // A refresh is not user activity, so it leaves lastSeenAt and the idle timeout alone
+  session.expiresAt =
+    session.absoluteExpiresAt && session.absoluteExpiresAt < doc.expiresAt ? session.absoluteExpiresAt : doc.expiresAt;
+
+  await Session.updateOne(
+    { _id: session._id },
+    { $set: { expiresAt: session.expiresAt, ip: context.ip } }
+  );
+
+  return {
+    user,
+    tokens: {
+      token: generateAccessToken(user, session),
+      refreshToken: raw,
+      sessionId: session.id,
+      session: getSessionTimeouts(session),
+    },
+  };
+};
@@ -5,6 +5,17 @@ import Register from './pages/Register'
 import Profile from './pages/Profile'
 import ProtectedRoute from './components/ProtectedRoute'
 import NotFound from './pages/NotFound'
+import VerifyEmail from './pages/VerifyEmail'
+import ForgotPassword from './pages/ForgotPassword'
+import ResetPassword from './pages/ResetPassword'
+import AccountSettings from './pages/AccountSettings'
+import OidcCallback from './pages/OidcCallback'
+import CompleteProfile from './pages/CompleteProfile'
+import MagicLinkLogin from './pages/MagicLinkLogin'
+import ReportLogin from './pages/ReportLogin'
+import ConfirmEmailChange from './pages/ConfirmEmailChange'
+import SessionExpiryDialog from './components/SessionExpiryDialog'
+import ReauthDialog from './components/ReauthDialog'
 
 function App() {
   return (
@@ -13,6 +24,14 @@ function App() {
         <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
+          <Route path="/confirm-email-change" element={<ConfirmEmailChange />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/auth/oidc/callback" element={<OidcCallback />} />
+          <Route path="/complete-profile" element={<CompleteProfile />} />
+          <Route path="/magic-link" element={<MagicLinkLogin />} />
+          <Route path="/report-login" element={<ReportLogin />} />
           <Route
             path="/profile"
             element={
@@ -21,9 +40,19 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/settings"
+            element={
+              <ProtectedRoute>
+                <AccountSettings />
+              </ProtectedRoute>
+            }
+          />
           <Route path="/" element={<Login />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
+        <SessionExpiryDialog />
+        <ReauthDialog />
       </div>
     </AuthProvider>
   )
@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { sessionService, ActiveSession } from '../services/sessions';
+import { useAuth } from '../hooks/useAuth';
+
+const ActiveSessions: React.FC = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await sessionService.getSessions();
+      if (response.success && response.data) {
+        setSessions(response.data);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const signOutLocally = () => {
+    logout();
+    navigate('/login');
+  };
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setPendingId(session._id);
+    try {
+      const response = await sessionService.revokeSession(session._id);
+      if (response.success) {
+        if (response.data?.current) {
+          toast.success('Signed out of this device');
+          signOutLocally();
+          return;
+        }
+        toast.success(response.message);
+        setSessions(prev => prev.filter(item => item._id !== session._id));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to sign out session');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+
+    setPendingId('all');
+    try {
+      const response = await sessionService.revokeAllSessions();
+      if (response.success) {
+        toast.success(response.message);
+        signOutLocally();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to sign out sessions');
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Active Sessions</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Devices currently signed in to your account.
+          </p>
+        </div>
+        <button
+          onClick={handleRevokeAll}
+          disabled={pendingId !== null || sessions.length === 0}
+          className="bg-red-500 hover:bg-red-600 text-white font-medium py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Sign out everywhere
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-600">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map(session => (
+            <li key={session._id} className="py-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {session.device}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {session.ip || 'Unknown IP'} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Signed in {new Date(session.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={pendingId !== null}
+                className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingId === session._id ? 'Signing out...' : 'Sign out'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
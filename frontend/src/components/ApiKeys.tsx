@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { apiKeyService, ApiKey, CreatedApiKey } from '../services/apiKeys';
+import FormField from './FormField';
+
+interface ApiKeyFormData {
+  name: string;
+  scopes: string[];
+  expiresInDays: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'Never' },
+];
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const ApiKeys: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ApiKeyFormData>({
+    defaultValues: { name: '', scopes: [], expiresInDays: '90' }
+  });
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      const response = await apiKeyService.getApiKeys();
+      if (response.success && response.data) {
+        setApiKeys(response.data.apiKeys);
+        setAvailableScopes(response.data.availableScopes);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const onSubmit = async (data: ApiKeyFormData) => {
+    setIsCreating(true);
+    try {
+      const response = await apiKeyService.createApiKey({
+        name: data.name,
+        scopes: data.scopes,
+        expiresInDays: data.expiresInDays ? Number(data.expiresInDays) : undefined
+      });
+      if (response.success && response.data) {
+        const { key, ...apiKey } = response.data;
+        setCreatedKey(response.data);
+        setApiKeys(prev => [apiKey, ...prev]);
+        reset();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey.key);
+      toast.success('API key copied');
+    } catch (error) {
+      toast.error('Copy failed. Select the key and copy it manually');
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working immediately.`)) return;
+
+    setPendingId(apiKey._id);
+    try {
+      const response = await apiKeyService.revokeApiKey(apiKey._id);
+      if (response.success) {
+        toast.success(response.message);
+        setApiKeys(prev => prev.filter(item => item._id !== apiKey._id));
+        if (createdKey?._id === apiKey._id) {
+          setCreatedKey(null);
+        }
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to revoke API key');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-gray-900">API Keys</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Keys let integrations call the API on your behalf with only the scopes you choose.
+          Send them as <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">Authorization: ApiKey &lt;key&gt;</code>.
+        </p>
+      </div>
+
+      {createdKey && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg" role="alert">
+          <p className="text-sm font-medium text-green-800">
+            Copy your new key now. It will not be shown again.
+          </p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white border border-green-200 rounded px-2 py-2 break-all">
+              {createdKey.key}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="text-sm font-medium text-green-700 hover:text-green-900"
+            >
+              Copy
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setCreatedKey(null)}
+            className="mt-2 text-xs text-green-700 hover:text-green-900"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField label="Name" required error={errors.name?.message}>
+            <input
+              {...register('name', {
+                required: 'Name is required',
+                maxLength: { value: 100, message: 'Name cannot exceed 100 characters' }
+              })}
+              type="text"
+              placeholder="e.g. HRIS sync"
+              className={inputClassName}
+            />
+          </FormField>
+
+          <FormField label="Expires" error={errors.expiresInDays?.message}>
+            <select {...register('expiresInDays')} className={inputClassName}>
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </FormField>
+        </div>
+
+        <FormField label="Scopes" required error={errors.scopes?.message}>
+          <div className="flex flex-wrap gap-4">
+            {availableScopes.map(scope => (
+              <label key={scope} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  {...register('scopes', { validate: value => value.length > 0 || 'Choose at least one scope' })}
+                  type="checkbox"
+                  value={scope}
+                  className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <code className="text-xs">{scope}</code>
+              </label>
+            ))}
+          </div>
+        </FormField>
+
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="bg-green-500 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isCreating ? 'Creating...' : 'Create API key'}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <p className="text-sm text-gray-600">No API keys.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {apiKeys.map(apiKey => (
+            <li key={apiKey._id} className="py-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {apiKey.name}
+                  <code className="ml-2 text-xs text-gray-500">{apiKey.prefix}…</code>
+                  {apiKey.expired && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-600">
+                      Expired
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{apiKey.scopes.join(', ')}</p>
+                <p className="text-xs text-gray-500">
+                  {apiKey.lastUsedAt
+                    ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                    : 'Never used'}
+                  {' · '}
+                  {apiKey.expiresAt
+                    ? `${apiKey.expired ? 'Expired' : 'Expires'} ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                    : 'No expiry'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(apiKey)}
+                disabled={pendingId !== null}
+                className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingId === apiKey._id ? 'Revoking...' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeys;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { profileService, AvatarImage } from '../services/profile';
+
+interface AvatarProps {
+  name: string;
+  images?: AvatarImage[];
+  url?: string;
+  // Displayed size in CSS pixels, used to pick the image size
+  size: number;
+  className?: string;
+}
+
+// Full class names, so Tailwind keeps them
+const INITIALS_COLORS = [
+  'bg-green-500',
+  'bg-blue-500',
+  'bg-purple-500',
+  'bg-amber-500',
+  'bg-rose-500',
+  'bg-teal-500',
+  'bg-indigo-500',
+  'bg-cyan-600'
+];
+
+const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const letters = words.length === 1 ? [words[0]] : [words[0], words[words.length - 1]];
+  return letters.map(word => Array.from(word)[0].toUpperCase()).join('');
+};
+
+// The same name always gets the same colour
+const getInitialsColor = (name: string): string => {
+  let hash = 0;
+  for (const character of name) {
+    hash = (hash * 31 + (character.codePointAt(0) ?? 0)) >>> 0;
+  }
+  return INITIALS_COLORS[hash % INITIALS_COLORS.length];
+};
+
+// Uploaded image, then a linked one, then generated initials
+const Avatar: React.FC<AvatarProps> = ({ name, images, url, size, className = '' }) => {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [images, url]);
+
+  if (!failed && images && images.length > 0) {
+    const sorted = [...images].sort((a, b) => a.size - b.size);
+    const fallback = sorted.find(image => image.size >= size) || sorted[sorted.length - 1];
+
+    return (
+      <img
+        src={profileService.getAvatarImageUrl(fallback)}
+        srcSet={sorted.map(image => `${profileService.getAvatarImageUrl(image)} ${image.size}w`).join(', ')}
+        sizes={`${size}px`}
+        alt={name}
+        onError={() => setFailed(true)}
+        className={`rounded-full object-cover ${className}`}
+      />
+    );
+  }
+
+  if (!failed && url) {
+    return (
+      <img
+        src={url}
+        alt={name}
+        onError={() => setFailed(true)}
+        className={`rounded-full object-cover ${className}`}
+      />
+    );
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={name}
+      className={`rounded-full flex items-center justify-center text-white font-semibold select-none ${getInitialsColor(name)} ${className}`}
+      style={{ fontSize: Math.round(size * 0.4) }}
+    >
+      {getInitials(name)}
+    </div>
+  );
+};
+
+export default Avatar;
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AvatarCrop } from '../services/profile';
+
+interface AvatarCropDialogProps {
+  file: File;
+  onCrop: (crop: AvatarCrop) => void;
+  onClose: () => void;
+}
+
+interface DragStart {
+  pointerX: number;
+  pointerY: number;
+  crop: AvatarCrop;
+}
+
+// Matches the smallest crop the server accepts
+const MIN_CROP_SIZE = 32;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// Picks a square of the image to upload. Browsers show photos upright from their
+// EXIF orientation, as the server reads them, so the crop is in the same pixels.
+const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, onCrop, onClose }) => {
+  const [imageUrl, setImageUrl] = useState('');
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<AvatarCrop | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<DragStart | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    dialogRef.current?.querySelector<HTMLElement>('button')?.focus();
+  }, []);
+
+  const maxSize = natural ? Math.min(natural.width, natural.height) : 0;
+  const minSize = Math.min(MIN_CROP_SIZE, maxSize);
+
+  // Keeps the square inside the image
+  const placeCrop = (x: number, y: number, size: number) => {
+    if (!natural) return;
+    const nextSize = Math.round(clamp(size, minSize, maxSize));
+    setCrop({
+      x: Math.round(clamp(x, 0, natural.width - nextSize)),
+      y: Math.round(clamp(y, 0, natural.height - nextSize)),
+      size: nextSize
+    });
+  };
+
+  // Starts with the largest centred square, as the server would pick
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = event.currentTarget;
+    const size = Math.min(width, height);
+    setNatural({ width, height });
+    setCrop({ x: Math.floor((width - size) / 2), y: Math.floor((height - size) / 2), size });
+  };
+
+  // Resizing keeps the centre of the square where it is
+  const handleSizeChange = (size: number) => {
+    if (!crop) return;
+    const centreX = crop.x + crop.size / 2;
+    const centreY = crop.y + crop.size / 2;
+    placeCrop(centreX - size / 2, centreY - size / 2, size);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    const rect = imageRef.current?.getBoundingClientRect();
+    if (!start || !rect || !natural) return;
+
+    // Screen pixels to image pixels
+    const scale = natural.width / rect.width;
+    placeCrop(
+      start.crop.x + (event.clientX - start.pointerX) * scale,
+      start.crop.y + (event.clientY - start.pointerY) * scale,
+      start.crop.size
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Arrow keys move the square, + and - resize it
+  const handleCropKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    const step = Math.max(1, Math.round(maxSize / 50));
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+
+    if (moves[event.key]) {
+      event.preventDefault();
+      const [dx, dy] = moves[event.key];
+      placeCrop(crop.x + dx, crop.y + dy, crop.size);
+    } else if (event.key === '+' || event.key === '=') {
+      event.preventDefault();
+      handleSizeChange(crop.size + step);
+    } else if (event.key === '-') {
+      event.preventDefault();
+      handleSizeChange(crop.size - step);
+    }
+  };
+
+  // Keep focus inside the dialog; Escape cancels
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    const focusable = dialogRef.current?.querySelectorAll<HTMLElement>(
+      'input, button:not([disabled]), [tabindex="0"]'
+    );
+    if (!focusable || focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="avatar-crop-title"
+        aria-describedby="avatar-crop-description"
+        onKeyDown={handleKeyDown}
+        className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <h2 id="avatar-crop-title" className="text-xl font-bold text-gray-900">
+          Crop your photo
+        </h2>
+        <p id="avatar-crop-description" className="text-sm text-gray-600 mt-2">
+          Drag the square to frame your photo and use the slider to zoom. The circle shows how it will look.
+        </p>
+
+        <div className="mt-6 flex justify-center">
+          {loadError ? (
+            <p className="text-sm text-red-500">{loadError}</p>
+          ) : (
+            <div className="relative overflow-hidden select-none touch-none">
+              {imageUrl && (
+                <img
+                  ref={imageRef}
+                  src={imageUrl}
+                  alt=""
+                  draggable={false}
+                  onLoad={handleImageLoad}
+                  onError={() => setLoadError('This image could not be opened')}
+                  className="block max-w-full max-h-[50vh]"
+                />
+              )}
+              {natural && crop && (
+                <div
+                  tabIndex={0}
+                  role="group"
+                  aria-label="Crop area. Use the arrow keys to move it and plus or minus to resize it."
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  onKeyDown={handleCropKeyDown}
+                  className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(17,24,39,0.6)] focus:outline-none focus:ring-2 focus:ring-green-500"
+                  style={{
+                    left: `${(crop.x / natural.width) * 100}%`,
+                    top: `${(crop.y / natural.height) * 100}%`,
+                    width: `${(crop.size / natural.width) * 100}%`,
+                    height: `${(crop.size / natural.height) * 100}%`
+                  }}
+                >
+                  <div className="w-full h-full rounded-full border border-white/70" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {natural && crop && maxSize > minSize && (
+          <div className="mt-6">
+            <label htmlFor="avatar-crop-zoom" className="block text-sm font-medium text-gray-700 mb-2">
+              Zoom
+            </label>
+            {/* The slider runs from the whole image to the smallest crop */}
+            <input
+              id="avatar-crop-zoom"
+              type="range"
+              min={minSize}
+              max={maxSize}
+              value={maxSize + minSize - crop.size}
+              onChange={(e) => handleSizeChange(maxSize + minSize - Number(e.target.value))}
+              className="w-full accent-green-500"
+            />
+          </div>
+        )}
+
+        <div className="mt-8 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => crop && onCrop(crop)}
+            disabled={!crop}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use photo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvatarCropDialog;
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { profileService, AvatarCrop, AvatarImage } from '../services/profile';
+import { validateAvatarFile, AVATAR_MAX_SIZE_MB } from '../utils/validation';
+import Avatar from './Avatar';
+import AvatarCropDialog from './AvatarCropDialog';
+import FormField from './FormField';
+
+interface AvatarUploadProps {
+  name: string;
+  images?: AvatarImage[];
+  url?: string;
+  // Called with the new images, or none once removed; either way any avatar URL is gone
+  onChange: (images?: AvatarImage[]) => void;
+}
+
+// Like resume uploads, changes take effect straight away
+const AvatarUpload: React.FC<AvatarUploadProps> = ({ name, images, url, onChange }) => {
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isUploading = progress !== null;
+  const hasAvatar = Boolean((images && images.length > 0) || url);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    const fileError = validateAvatarFile(file);
+    setError(fileError);
+    if (!fileError) {
+      setPendingFile(file);
+    }
+  };
+
+  const handleCrop = async (crop: AvatarCrop) => {
+    const file = pendingFile;
+    setPendingFile(null);
+    if (!file) return;
+
+    setProgress(0);
+    try {
+      const response = await profileService.uploadAvatar(file, crop, setProgress);
+      if (response.success && response.data) {
+        toast.success('Avatar updated');
+        onChange(response.data.avatarImages);
+      }
+    } catch (uploadError: any) {
+      setError(uploadError.response?.data?.message || 'Failed to upload avatar');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const response = await profileService.deleteAvatar();
+      if (response.success) {
+        toast.success('Avatar removed');
+        onChange(undefined);
+      }
+    } catch (removeError: any) {
+      toast.error(removeError.response?.data?.message || 'Failed to remove avatar');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <FormField
+      label="Avatar"
+      error={error}
+      helperText={`JPEG, PNG or WebP, up to ${AVATAR_MAX_SIZE_MB} MB`}
+    >
+      <div className="flex items-center space-x-6">
+        <Avatar name={name} images={images} url={url} size={80} className="w-20 h-20 shrink-0" />
+
+        {isUploading ? (
+          <div className="flex-1">
+            <div
+              role="progressbar"
+              aria-label="Avatar upload progress"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+            >
+              <div
+                className="h-full bg-green-500 transition-all duration-200"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-600 mt-2">Uploading... {Math.round(progress * 100)}%</p>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-4">
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+            >
+              {hasAvatar ? 'Change photo' : 'Upload photo'}
+            </button>
+            {hasAvatar && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                disabled={isRemoving}
+                className="text-sm text-red-600 hover:text-red-800 transition-colors disabled:opacity-50"
+              >
+                {isRemoving ? 'Removing...' : 'Remove'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {pendingFile && (
+        <AvatarCropDialog
+          file={pendingFile}
+          onCrop={handleCrop}
+          onClose={() => setPendingFile(null)}
+        />
+      )}
+    </FormField>
+  );
+};
+
+export default AvatarUpload;
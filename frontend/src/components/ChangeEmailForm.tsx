@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authService } from '../services/auth';
+import { useAuth } from '../hooks/useAuth';
+import FormField from './FormField';
+
+interface ChangeEmailFormData {
+  newEmail: string;
+  currentPassword: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const ChangeEmailForm: React.FC = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const { user, refreshUser } = useAuth();
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ChangeEmailFormData>();
+
+  const onSubmit = async (data: ChangeEmailFormData) => {
+    setIsSubmitting(true);
+    try {
+      const response = await authService.requestEmailChange(data.newEmail, data.currentPassword);
+      if (response.success) {
+        toast.success(response.message);
+        reset();
+        await refreshUser();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to request email change');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const response = await authService.cancelEmailChange();
+      if (response.success) {
+        toast.success(response.message);
+        await refreshUser();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to cancel email change');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Email Address</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          You sign in with <span className="font-medium text-gray-900">{user?.email}</span>.
+          We'll send a confirmation link to the new address before changing it.
+        </p>
+      </div>
+
+      {user?.pendingEmail && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-4">
+          <p className="text-sm text-yellow-800">
+            Waiting for you to confirm <span className="font-medium">{user.pendingEmail}</span>. Check that inbox for the link.
+          </p>
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="text-sm text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <FormField label="New email address" required error={errors.newEmail?.message}>
+          <input
+            {...register('newEmail', {
+              required: 'Email is required',
+              pattern: {
+                value: /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,
+                message: 'Please enter a valid email address'
+              },
+              maxLength: {
+                value: 254,
+                message: 'Email address is too long'
+              }
+            })}
+            type="email"
+            autoComplete="email"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <FormField label="Current password" required error={errors.currentPassword?.message}>
+          <input
+            {...register('currentPassword', { required: 'Current password is required' })}
+            type="password"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Please wait...' : 'Change email'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangeEmailForm;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authService } from '../services/auth';
+import { useAuth } from '../hooks/useAuth';
+import FormField from './FormField';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import { validatePassword } from '../../../shared/passwordStrength';
+
+interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const ChangePasswordForm: React.FC = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user } = useAuth();
+  const { register, handleSubmit, watch, reset, formState: { errors } } = useForm<ChangePasswordFormData>();
+
+  const newPassword = watch('newPassword');
+  const passwordUserInputs = user ? [user.email] : [];
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setIsSubmitting(true);
+    try {
+      const response = await authService.changePassword(data.currentPassword, data.newPassword);
+      if (response.success) {
+        toast.success(response.message);
+        reset();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to change password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Change Password</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Changing your password signs you out of all other devices.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <FormField label="Current password" required error={errors.currentPassword?.message}>
+          <input
+            {...register('currentPassword', { required: 'Current password is required' })}
+            type="password"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <FormField
+          label="New password"
+          required
+          error={errors.newPassword?.message}
+          helperText="Longer is stronger: a few unrelated words make a good password"
+        >
+          <input
+            {...register('newPassword', {
+              required: 'New password is required',
+              validate: value => validatePassword(value, passwordUserInputs) || true
+            })}
+            type="password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <PasswordStrengthMeter password={newPassword} userInputs={passwordUserInputs} />
+
+        <FormField label="Confirm new password" required error={errors.confirmPassword?.message}>
+          <input
+            {...register('confirmPassword', {
+              required: 'Please confirm your new password',
+              validate: value => value === newPassword || 'Passwords do not match'
+            })}
+            type="password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Please wait...' : 'Change password'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePasswordForm;
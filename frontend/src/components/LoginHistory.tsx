@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { loginHistoryService, LoginHistoryEntry } from '../services/loginHistory';
+
+const METHOD_LABELS: Record<string, string> = {
+  register: 'Account created',
+  password: 'Password',
+  'two-factor': 'Two-factor code',
+  oidc: 'Single sign-on',
+  'magic-link': 'Email link',
+};
+
+const LoginHistory: React.FC = () => {
+  const [logins, setLogins] = useState<LoginHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loginHistoryService.getLoginHistory()
+      .then(response => {
+        if (response.success && response.data) {
+          setLogins(response.data);
+        }
+      })
+      .catch((error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to load login history');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Login History</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          We email you when a sign-in comes from a new device or an unusual location.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading login history...</p>
+      ) : logins.length === 0 ? (
+        <p className="text-sm text-gray-600">No logins recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {logins.map(login => (
+            <li key={login._id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {login.device}
+                  {login.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700">
+                      This session
+                    </span>
+                  )}
+                  {login.newDevice && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                      New device
+                    </span>
+                  )}
+                  {login.unusualLocation && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                      Unusual location
+                    </span>
+                  )}
+                  {login.reportedAt && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                      Reported
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {login.location || 'Unknown location'} · {login.ip || 'Unknown IP'} · {METHOD_LABELS[login.method] || login.method}
+                </p>
+              </div>
+              <p className="text-xs text-gray-500">{new Date(login.createdAt).toLocaleString()}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LoginHistory;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { authService } from '../services/auth';
+
+interface MagicLinkRequestFormProps {
+  onCancel: () => void;
+}
+
+interface MagicLinkFormData {
+  email: string;
+}
+
+const MagicLinkRequestForm: React.FC<MagicLinkRequestFormProps> = ({ onCancel }) => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { register, handleSubmit, formState: { errors } } = useForm<MagicLinkFormData>();
+
+  const onSubmit = async (data: MagicLinkFormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await authService.requestMagicLink(data.email);
+      setSentTo(data.email);
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Could not send a sign-in link. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="w-16 h-16 bg-green-100 rounded-full mx-auto flex items-center justify-center">
+          <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"></path>
+          </svg>
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Check your email</h3>
+          <p className="text-sm text-gray-600">
+            If an account exists for <span className="font-medium text-gray-900">{sentTo}</span>, we sent it a sign-in link.
+            Open the link in this browser to log in.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          Back to login
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <p className="text-sm text-gray-600 text-center">
+        We&apos;ll email you a link that signs you in without a password.
+      </p>
+
+      <div>
+        <input
+          {...register('email', {
+            required: 'Email is required',
+            pattern: {
+              value: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+              message: 'Please enter a valid email address'
+            },
+            maxLength: {
+              value: 254,
+              message: 'Email address is too long'
+            }
+          })}
+          type="email"
+          autoFocus
+          className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+          placeholder="Email"
+        />
+        {errors.email && (
+          <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Sending...' : 'EMAIL ME A LINK'}
+      </button>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          Sign in with a password instead
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MagicLinkRequestForm;
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  estimatePasswordStrength,
+  PASSWORD_MIN_SCORE,
+  PASSWORD_SCORE_LABELS,
+} from '../../../shared/passwordStrength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // Name and email of the account, which make a password easier to guess
+  userInputs?: string[];
+}
+
+const BAR_COLORS = ['bg-red-500', 'bg-red-500', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+const TEXT_COLORS = ['text-red-600', 'text-red-600', 'text-yellow-600', 'text-green-600', 'text-green-700'];
+
+// Same estimator the API validates with; the API also rejects passwords found in breaches
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, userInputs = [] }) => {
+  if (!password) {
+    return null;
+  }
+
+  const strength = estimatePasswordStrength(password, userInputs);
+
+  const feedback = [strength.warning, ...strength.suggestions].filter(Boolean);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm text-gray-600">Password strength:</span>
+        <span className={`text-sm font-medium ${TEXT_COLORS[strength.score]}`}>
+          {PASSWORD_SCORE_LABELS[strength.score]}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${BAR_COLORS[strength.score]}`}
+          style={{ width: `${((strength.score + 1) / 5) * 100}%` }}
+        ></div>
+      </div>
+      {feedback.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-500">
+          {feedback.map((item, index) => (
+            <li key={index}>• {item}</li>
+          ))}
+        </ul>
+      )}
+      {strength.score < PASSWORD_MIN_SCORE && (
+        <p className="mt-1 text-xs text-gray-500">
+          Needs to be at least "{PASSWORD_SCORE_LABELS[PASSWORD_MIN_SCORE]}".
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
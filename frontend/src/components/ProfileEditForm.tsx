@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
-import { profileService, UserProfile, UpdateProfileData } from '../services/profile';
+import { profileService, UserProfile, UpdateProfileData, ParsedResume, ResumeFile, AvatarImage } from '../services/profile';
 import FormField from './FormField';
+import ResumeUpload from './ResumeUpload';
+import AvatarUpload from './AvatarUpload';
+import ResumeReviewDialog from './ResumeReviewDialog';
 import { validateUrl } from '../utils/validation';
 
 interface ProfileEditFormProps {
@@ -10,6 +13,9 @@ interface ProfileEditFormProps {
   onCancel: () => void;
 }
 
+const splitSkills = (text: string): string[] =>
+  text.split(',').map(skill => skill.trim()).filter(Boolean);
+
 const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCancel }) => {
   const [formData, setFormData] = useState<UpdateProfileData>({
     designation: profile.designation || '',
@@ -27,9 +33,14 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
     bio: profile.bio || '',
     experience: profile.experience || '',
     resumeUrl: profile.resumeUrl || '',
-    avatar: profile.avatar || '',
   });
 
+  const [skillsText, setSkillsText] = useState((profile.skills || []).join(', '));
+  const [resume, setResume] = useState(profile.resume);
+  const [avatar, setAvatar] = useState(profile.avatar);
+  const [avatarImages, setAvatarImages] = useState(profile.avatarImages);
+  const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
+  const [isParsingResume, setIsParsingResume] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -51,50 +62,53 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
       bio: profile.bio || '',
       experience: profile.experience || '',
       resumeUrl: profile.resumeUrl || '',
-      avatar: profile.avatar || '',
     });
+    setSkillsText((profile.skills || []).join(', '));
+    setResume(profile.resume);
+    setAvatar(profile.avatar);
+    setAvatarImages(profile.avatarImages);
   }, [profile]);
 
   const designationOptions = ['Mr', 'Mrs', 'Ms', 'Dr', 'Prof'];
   const genderOptions = ['Male', 'Female', 'Non-binary', 'Prefer not to say', 'Other'];
   const noticePeriodOptions = ['Yes', 'No'];
 
-  const validateForm = (): boolean => {
+  const validateForm = (data: UpdateProfileData = formData): boolean => {
     const newErrors: Record<string, string> = {};
 
     // Required field validations
-    if (!formData.designation) newErrors.designation = 'Designation is required';
-    if (!formData.firstName?.trim()) newErrors.firstName = 'First name is required';
-    if (!formData.lastName?.trim()) newErrors.lastName = 'Last name is required';
-    if (!formData.country?.trim()) newErrors.country = 'Country is required';
-    if (!formData.phone?.trim()) newErrors.phone = 'Phone number is required';
-    if (!formData.gender) newErrors.gender = 'Gender is required';
-    if (!formData.dob) newErrors.dob = 'Date of birth is required';
-    if (formData.totalExperience === undefined || formData.totalExperience === null) {
+    if (!data.designation) newErrors.designation = 'Designation is required';
+    if (!data.firstName?.trim()) newErrors.firstName = 'First name is required';
+    if (!data.lastName?.trim()) newErrors.lastName = 'Last name is required';
+    if (!data.country?.trim()) newErrors.country = 'Country is required';
+    if (!data.phone?.trim()) newErrors.phone = 'Phone number is required';
+    if (!data.gender) newErrors.gender = 'Gender is required';
+    if (!data.dob) newErrors.dob = 'Date of birth is required';
+    if (data.totalExperience === undefined || data.totalExperience === null) {
       newErrors.totalExperience = 'Total experience is required';
     }
-    if (formData.currentCTC === undefined || formData.currentCTC === null) {
+    if (data.currentCTC === undefined || data.currentCTC === null) {
       newErrors.currentCTC = 'Current CTC is required';
     }
-    if (formData.expectedCTC === undefined || formData.expectedCTC === null) {
+    if (data.expectedCTC === undefined || data.expectedCTC === null) {
       newErrors.expectedCTC = 'Expected CTC is required';
     }
-    if (!formData.noticePeriod) newErrors.noticePeriod = 'Notice period status is required';
+    if (!data.noticePeriod) newErrors.noticePeriod = 'Notice period status is required';
 
     // Conditional validation
-    if (formData.noticePeriod === 'Yes' && (!formData.noticePeriodDays || formData.noticePeriodDays <= 0)) {
+    if (data.noticePeriod === 'Yes' && (!data.noticePeriodDays || data.noticePeriodDays <= 0)) {
       newErrors.noticePeriodDays = 'Notice period days is required when notice period is Yes';
     }
 
     // Business logic validations
-    if (formData.expectedCTC !== undefined && formData.currentCTC !== undefined && formData.expectedCTC < formData.currentCTC) {
+    if (data.expectedCTC !== undefined && data.currentCTC !== undefined && data.expectedCTC < data.currentCTC) {
       newErrors.expectedCTC = 'Expected CTC must be greater than or equal to current CTC';
     }
 
     // Date validation
-    if (formData.dob) {
+    if (data.dob) {
       const today = new Date();
-      const birthDate = new Date(formData.dob);
+      const birthDate = new Date(data.dob);
       let age = today.getFullYear() - birthDate.getFullYear();
       const monthDiff = today.getMonth() - birthDate.getMonth();
 
@@ -108,21 +122,21 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
     }
 
     // Experience validation
-    if (formData.totalExperience !== undefined && (formData.totalExperience < 0 || formData.totalExperience > 50)) {
+    if (data.totalExperience !== undefined && (data.totalExperience < 0 || data.totalExperience > 50)) {
       newErrors.totalExperience = 'Total experience must be between 0 and 50 years';
     }
 
     // CTC validation
-    if (formData.currentCTC !== undefined && (formData.currentCTC < 0 || formData.currentCTC > 10000000)) {
+    if (data.currentCTC !== undefined && (data.currentCTC < 0 || data.currentCTC > 10000000)) {
       newErrors.currentCTC = 'Current CTC must be between 0 and 10,000,000';
     }
 
-    if (formData.expectedCTC !== undefined && (formData.expectedCTC < 0 || formData.expectedCTC > 10000000)) {
+    if (data.expectedCTC !== undefined && (data.expectedCTC < 0 || data.expectedCTC > 10000000)) {
       newErrors.expectedCTC = 'Expected CTC must be between 0 and 10,000,000';
     }
 
     // URL validation
-    const resumeUrlError = validateUrl(formData.resumeUrl || '');
+    const resumeUrlError = validateUrl(data.resumeUrl || '');
     if (resumeUrlError) {
       newErrors.resumeUrl = resumeUrlError;
     }
@@ -140,10 +154,17 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
   };
 
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // A resume or avatar is saved as soon as it is uploaded, so cancelling the other edits keeps it
+  const handleCancel = () => {
+    if (resume !== profile.resume || avatar !== profile.avatar || avatarImages !== profile.avatarImages) {
+      onSave({ ...profile, resume, avatar, avatarImages });
+    } else {
+      onCancel();
+    }
+  };
 
-    if (!validateForm()) {
+  const saveProfile = async (data: UpdateProfileData) => {
+    if (!validateForm(data)) {
       toast.error('Please fix the errors in the form');
       return;
     }
@@ -151,7 +172,7 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
     setIsSubmitting(true);
 
     try {
-      const response = await profileService.updateProfile(formData);
+      const response = await profileService.updateProfile(data);
 
       if (response.success && response.data) {
         toast.success('Profile updated successfully!');
@@ -176,12 +197,55 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveProfile({ ...formData, skills: splitSkills(skillsText) });
+  };
+
+  const handleFillFromResume = async () => {
+    setIsParsingResume(true);
+    try {
+      const response = await profileService.getParsedResume();
+      if (response.success && response.data) {
+        setParsedResume(response.data);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Could not read your resume');
+    } finally {
+      setIsParsingResume(false);
+    }
+  };
+
+  // Uploading or removing an avatar also drops any avatar URL
+  const handleAvatarChange = (nextImages?: AvatarImage[]) => {
+    setAvatarImages(nextImages);
+    setAvatar(undefined);
+  };
+
+  // A newly uploaded resume is offered straight away for filling in the profile
+  const handleResumeChange = (nextResume?: ResumeFile) => {
+    setResume(nextResume);
+    if (nextResume) {
+      handleFillFromResume();
+    }
+  };
+
+  // Accepted suggestions go into the form, which is then saved with the user's other edits
+  const handleApplyResume = async (accepted: UpdateProfileData) => {
+    const data = { ...formData, skills: splitSkills(skillsText), ...accepted };
+
+    setFormData(data);
+    setSkillsText((data.skills || []).join(', '));
+    setParsedResume(null);
+    await saveProfile(data);
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-xl p-8">
       <div className="flex justify-between items-center mb-8">
         <h2 className="text-2xl font-bold text-gray-900">Edit Profile</h2>
         <button
-          onClick={onCancel}
+          onClick={handleCancel}
           className="text-gray-500 hover:text-gray-700 text-xl font-bold"
         >
           ×
@@ -426,6 +490,17 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
           />
         </FormField>
 
+        {/* Skills */}
+        <FormField label="Skills" error={errors.skills} helperText="Separate skills with commas">
+          <input
+            type="text"
+            value={skillsText}
+            onChange={(e) => setSkillsText(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            placeholder="TypeScript, SQL, Project management"
+          />
+        </FormField>
+
 
         {/* Experience Description */}
         <FormField label="Experience Description">
@@ -438,6 +513,14 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
           />
         </FormField>
 
+        {/* Resume file */}
+        <ResumeUpload
+          resume={resume}
+          onChange={handleResumeChange}
+          onFillFromResume={handleFillFromResume}
+          isParsing={isParsingResume}
+        />
+
         {/* Resume URL */}
         <FormField label="Resume URL" error={errors.resumeUrl}>
           <input
@@ -451,22 +534,19 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
           />
         </FormField>
 
-        {/* Avatar URL */}
-        <FormField label="Avatar URL">
-          <input
-            type="url"
-            value={formData.avatar || ''}
-            onChange={(e) => handleInputChange('avatar', e.target.value)}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-            placeholder="https://example.com/avatar.jpg"
-          />
-        </FormField>
+        {/* Avatar */}
+        <AvatarUpload
+          name={`${profile.firstName} ${profile.lastName}`}
+          images={avatarImages}
+          url={avatar}
+          onChange={handleAvatarChange}
+        />
 
         {/* Form Actions */}
         <div className="flex justify-end space-x-4 pt-6 border-t">
           <button
             type="button"
-            onClick={onCancel}
+            onClick={handleCancel}
             className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
           >
             Cancel
@@ -480,6 +560,16 @@ const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSave, onCa
           </button>
         </div>
       </form>
+
+      {parsedResume && (
+        <ResumeReviewDialog
+          parsed={parsedResume}
+          current={{ ...formData, skills: splitSkills(skillsText) }}
+          accountEmail={profile.email}
+          onApply={handleApplyResume}
+          onClose={() => setParsedResume(null)}
+        />
+      )}
     </div>
   );
 };
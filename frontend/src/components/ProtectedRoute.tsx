@@ -1,13 +1,17 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { UserRole } from '../services/auth';
+import Forbidden from '../pages/Forbidden';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Restrict the route to these roles; any authenticated user when omitted
+  roles?: UserRole[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { isAuthenticated, isLoading, user } = useAuth();
   const location = useLocation();
 
   if (isLoading && isAuthenticated === false) {
@@ -25,6 +29,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // The server enforces permissions too; this only keeps users out of screens they cannot use
+  if (roles && !roles.includes(user?.role || 'candidate')) {
+    return <Forbidden />;
+  }
+
   return <>{children}</>;
 };
 
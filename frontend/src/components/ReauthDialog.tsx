@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { authService } from '../services/auth';
+import { reauthPrompt } from '../services/reauth';
+import { useAuth } from '../hooks/useAuth';
+import FormField from './FormField';
+
+interface ReauthFormData {
+  secret: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+// Asks for the password (or a 2FA code) when the API wants a recent confirmation of identity
+const ReauthDialog: React.FC = () => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [useCode, setUseCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { register, handleSubmit, reset, setFocus, formState: { errors } } = useForm<ReauthFormData>();
+
+  useEffect(() => reauthPrompt.setHandler(() => new Promise<boolean>(resolve => {
+    resolveRef.current = resolve;
+    setIsOpen(true);
+  })), []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFocus('secret');
+    }
+  }, [isOpen, useCode, setFocus]);
+
+  const close = useCallback((confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setIsOpen(false);
+    setUseCode(false);
+    setSubmitError('');
+    reset();
+  }, [reset]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const onSubmit = async (data: ReauthFormData) => {
+    setIsSubmitting(true);
+    setSubmitError('');
+    try {
+      const response = await authService.reauthenticate(useCode ? { code: data.secret } : { password: data.secret });
+      if (response.success) {
+        close(true);
+      }
+    } catch (error: any) {
+      setSubmitError(error.response?.data?.message || 'Could not confirm your identity');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMethod = () => {
+    setUseCode(!useCode);
+    setSubmitError('');
+    reset();
+  };
+
+  // Keep focus inside the dialog; Escape cancels
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      close(false);
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    const focusable = dialogRef.current?.querySelectorAll<HTMLElement>('input, button:not([disabled])');
+    if (!focusable || focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reauth-title"
+        aria-describedby="reauth-description"
+        onKeyDown={handleKeyDown}
+        className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md"
+      >
+        <h2 id="reauth-title" className="text-xl font-bold text-gray-900">
+          Confirm it's you
+        </h2>
+        <p id="reauth-description" className="text-sm text-gray-600 mt-2">
+          {useCode
+            ? 'Enter a code from your authenticator app, or a recovery code, to continue.'
+            : 'This action needs your password, as you signed in a while ago.'}
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="mt-6 space-y-6">
+          <FormField
+            label={useCode ? 'Authentication code' : 'Password'}
+            required
+            error={errors.secret?.message || submitError}
+          >
+            <input
+              {...register('secret', { required: useCode ? 'Authentication code is required' : 'Password is required' })}
+              type={useCode ? 'text' : 'password'}
+              autoComplete={useCode ? 'one-time-code' : 'current-password'}
+              inputMode={useCode ? 'numeric' : undefined}
+              className={inputClassName}
+            />
+          </FormField>
+
+          {user?.twoFactorEnabled && (
+            <button
+              type="button"
+              onClick={toggleMethod}
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {useCode ? 'Use your password instead' : 'Use an authentication code instead'}
+            </button>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => close(false)}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Confirming...' : 'Confirm'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReauthDialog;
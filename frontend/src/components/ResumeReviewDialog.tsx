@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ParsedResume, ParsedWorkEntry, UpdateProfileData } from '../services/profile';
+import { formatWorkPeriod } from '../utils/workHistory';
+
+interface ResumeReviewDialogProps {
+  parsed: ParsedResume;
+  current: UpdateProfileData;
+  accountEmail?: string;
+  onApply: (accepted: UpdateProfileData) => void;
+  onClose: () => void;
+}
+
+type ReviewField = 'firstName' | 'lastName' | 'phone' | 'totalExperience' | 'skills' | 'experience';
+
+interface ReviewRow {
+  field: ReviewField;
+  label: string;
+  current: string;
+  suggested: string;
+  value: UpdateProfileData[ReviewField];
+}
+
+// Matches the backend limit on the experience description
+const EXPERIENCE_MAX_LENGTH = 1000;
+
+const formatWorkEntry = (entry: ParsedWorkEntry): string => {
+  const role = [entry.title, entry.company].filter(Boolean).join(', ');
+  const period = formatWorkPeriod(entry);
+  return role ? `${role} (${period})` : period;
+};
+
+// One position per line, dropping the oldest ones that do not fit
+const formatWorkHistory = (entries: ParsedWorkEntry[]): string => {
+  const lines: string[] = [];
+  for (const line of entries.map(formatWorkEntry)) {
+    if ([...lines, line].join('\n').length > EXPERIENCE_MAX_LENGTH) break;
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+const formatYears = (years?: number): string =>
+  years === undefined || years === null ? '' : `${years} ${years === 1 ? 'year' : 'years'}`;
+
+const buildRows = (parsed: ParsedResume, current: UpdateProfileData): ReviewRow[] => {
+  const currentSkills = current.skills || [];
+  // Skills from the resume are added to the current ones rather than replacing them
+  const newSkills = parsed.skills.filter(
+    skill => !currentSkills.some(existing => existing.toLowerCase() === skill.toLowerCase())
+  );
+
+  const rows: ReviewRow[] = [
+    { field: 'firstName', label: 'First name', current: current.firstName || '', suggested: parsed.firstName || '', value: parsed.firstName },
+    { field: 'lastName', label: 'Last name', current: current.lastName || '', suggested: parsed.lastName || '', value: parsed.lastName },
+    { field: 'phone', label: 'Phone', current: current.phone || '', suggested: parsed.phone || '', value: parsed.phone },
+    {
+      field: 'totalExperience',
+      label: 'Total experience',
+      current: current.totalExperience ? formatYears(current.totalExperience) : '',
+      suggested: formatYears(parsed.totalExperience),
+      value: parsed.totalExperience
+    },
+    {
+      field: 'skills',
+      label: 'Skills',
+      current: currentSkills.join(', '),
+      suggested: newSkills.length > 0 ? [...currentSkills, ...newSkills].join(', ') : '',
+      value: [...currentSkills, ...newSkills]
+    },
+    {
+      field: 'experience',
+      label: 'Experience description',
+      current: current.experience || '',
+      suggested: formatWorkHistory(parsed.workHistory),
+      value: formatWorkHistory(parsed.workHistory)
+    }
+  ];
+
+  return rows.filter(row => row.suggested && row.suggested !== row.current);
+};
+
+// Shows what the resume would change; only the ticked fields are applied
+const ResumeReviewDialog: React.FC<ResumeReviewDialogProps> = ({
+  parsed,
+  current,
+  accountEmail,
+  onApply,
+  onClose
+}) => {
+  const rows = buildRows(parsed, current);
+  // Empty fields are ticked; replacing something the user already entered is opt-in
+  const [selected, setSelected] = useState<Set<ReviewField>>(
+    () => new Set(rows.filter(row => !row.current).map(row => row.field))
+  );
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const otherEmail = parsed.email && parsed.email !== accountEmail?.toLowerCase() ? parsed.email : '';
+
+  useEffect(() => {
+    dialogRef.current?.querySelector<HTMLElement>('input, button')?.focus();
+  }, []);
+
+  const toggle = (field: ReviewField) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const accepted: UpdateProfileData = {};
+    rows
+      .filter(row => selected.has(row.field))
+      .forEach(row => {
+        (accepted as Record<ReviewField, unknown>)[row.field] = row.value;
+      });
+    onApply(accepted);
+  };
+
+  // Keep focus inside the dialog; Escape cancels
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    const focusable = dialogRef.current?.querySelectorAll<HTMLElement>('input, button:not([disabled])');
+    if (!focusable || focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="resume-review-title"
+        aria-describedby="resume-review-description"
+        onKeyDown={handleKeyDown}
+        className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+      >
+        <h2 id="resume-review-title" className="text-xl font-bold text-gray-900">
+          Fill in from your resume
+        </h2>
+        <p id="resume-review-description" className="text-sm text-gray-600 mt-2">
+          {rows.length > 0
+            ? 'We read these details from your resume. Check them, tick the ones to use, and your profile will be saved with them.'
+            : 'Your resume has nothing to add to your profile.'}
+        </p>
+
+        {rows.length > 0 && (
+          <table className="mt-6 w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-3 font-medium"><span className="sr-only">Use</span></th>
+                <th className="py-2 pr-3 font-medium">Field</th>
+                <th className="py-2 pr-3 font-medium">Current</th>
+                <th className="py-2 font-medium">From resume</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.field} className="border-b align-top">
+                  <td className="py-3 pr-3">
+                    <input
+                      id={`resume-review-${row.field}`}
+                      type="checkbox"
+                      checked={selected.has(row.field)}
+                      onChange={() => toggle(row.field)}
+                      className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                  </td>
+                  <td className="py-3 pr-3 font-medium text-gray-900">
+                    <label htmlFor={`resume-review-${row.field}`}>{row.label}</label>
+                  </td>
+                  <td className="py-3 pr-3 text-gray-500 whitespace-pre-line">
+                    {row.current || <span className="italic">Empty</span>}
+                  </td>
+                  <td className="py-3 text-gray-900 whitespace-pre-line">{row.suggested}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {otherEmail && (
+          <p className="mt-4 text-sm text-gray-600">
+            Your resume lists <span className="font-medium text-gray-900">{otherEmail}</span>. To sign in with it
+            instead, change your email address in Account Settings.
+          </p>
+        )}
+
+        <div className="mt-8 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+          >
+            {rows.length > 0 ? 'Cancel' : 'Close'}
+          </button>
+          {rows.length > 0 && (
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={selected.size === 0}
+              className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Use selected and save
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReviewDialog;
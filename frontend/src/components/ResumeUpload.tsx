@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { profileService, ResumeFile } from '../services/profile';
+import { validateResumeFile, RESUME_MAX_SIZE_MB } from '../utils/validation';
+import FormField from './FormField';
+
+interface ResumeUploadProps {
+  resume?: ResumeFile;
+  onChange: (resume?: ResumeFile) => void;
+  onFillFromResume?: () => void;
+  isParsing?: boolean;
+}
+
+const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Uploads take effect straight away, independently of saving the rest of the profile
+const ResumeUpload: React.FC<ResumeUploadProps> = ({ resume, onChange, onFillFromResume, isParsing = false }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isUploading = progress !== null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    const fileError = validateResumeFile(file);
+    setError(fileError);
+    if (fileError) return;
+
+    setProgress(0);
+    try {
+      const response = await profileService.uploadResume(file, setProgress);
+      if (response.success && response.data) {
+        toast.success('Resume uploaded');
+        onChange(response.data.resume);
+      }
+    } catch (uploadError: any) {
+      setError(uploadError.response?.data?.message || 'Failed to upload resume');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await profileService.getResumeLink();
+      if (response.success && response.data) {
+        window.location.assign(profileService.getFileDownloadUrl(response.data));
+      }
+    } catch (downloadError: any) {
+      toast.error(downloadError.response?.data?.message || 'Failed to download resume');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const response = await profileService.deleteResume();
+      if (response.success) {
+        toast.success('Resume removed');
+        onChange(undefined);
+      }
+    } catch (removeError: any) {
+      toast.error(removeError.response?.data?.message || 'Failed to remove resume');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <FormField
+      label="Resume"
+      error={error}
+      helperText={`PDF or Word (.docx), up to ${RESUME_MAX_SIZE_MB} MB`}
+    >
+      {resume && !isUploading && (
+        <div className="flex items-center justify-between p-3 mb-3 bg-gray-50 rounded-lg">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">{resume.fileName}</p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(resume.size)} · uploaded {new Date(resume.uploadedAt).toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex space-x-4 ml-4">
+            {onFillFromResume && (
+              <button
+                type="button"
+                onClick={onFillFromResume}
+                disabled={isParsing}
+                className="text-sm text-green-600 hover:text-green-800 transition-colors disabled:opacity-50 whitespace-nowrap"
+              >
+                {isParsing ? 'Reading...' : 'Fill in profile'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50"
+            >
+              {isDownloading ? 'Preparing...' : 'Download'}
+            </button>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={isRemoving}
+              className="text-sm text-red-600 hover:text-red-800 transition-colors disabled:opacity-50"
+            >
+              {isRemoving ? 'Removing...' : 'Remove'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isUploading ? (
+        <div>
+          <div
+            role="progressbar"
+            aria-label="Resume upload progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+            className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+          >
+            <div
+              className="h-full bg-green-500 transition-all duration-200"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-600 mt-2">Uploading... {Math.round(progress * 100)}%</p>
+        </div>
+      ) : (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+          >
+            {resume ? 'Replace resume' : 'Upload resume'}
+          </button>
+        </>
+      )}
+    </FormField>
+  );
+};
+
+export default ResumeUpload;
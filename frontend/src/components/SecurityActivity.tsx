@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { auditService, SecurityAction, SecurityEvent } from '../services/audit';
+
+const ACTION_LABELS: Record<SecurityAction, string> = {
+  'user.register': 'Account created',
+  'user.role.change': 'Role changed',
+  'auth.login.success': 'Signed in',
+  'auth.login.failure': 'Failed sign-in attempt',
+  'auth.login.reported': 'Sign-in reported as not you',
+  'auth.reauth.failure': 'Failed identity confirmation',
+  'auth.email.change': 'Email address changed',
+  'auth.password.change': 'Password changed',
+  'auth.password.reset': 'Password reset',
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  password: 'password',
+  'two-factor': 'two-factor code',
+  oidc: 'single sign-on',
+  'magic-link': 'email link',
+};
+
+const SecurityActivity: React.FC = () => {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    auditService.getSecurityActivity()
+      .then(response => {
+        if (response.success && response.data) {
+          setEvents(response.data);
+        }
+      })
+      .catch((error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to load security activity');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Recent Security Activity</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          If you don't recognise an entry, change your password and sign out everywhere.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading activity...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-600">No recent activity.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {events.map(event => (
+            <li key={event._id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className={`text-sm font-medium ${event.action === 'auth.login.failure' || event.action === 'auth.reauth.failure' ? 'text-red-600' : 'text-gray-900'}`}>
+                  {ACTION_LABELS[event.action] || event.action}
+                  {event.method && METHOD_LABELS[event.method] && (
+                    <span className="font-normal text-gray-500"> with {METHOD_LABELS[event.method]}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {event.device} · {event.ip || 'Unknown IP'}
+                </p>
+              </div>
+              <p className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SecurityActivity;
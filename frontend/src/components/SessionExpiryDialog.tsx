@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useSessionTimeout } from '../hooks/useSessionTimeout';
+
+// Announced to screen readers; the visible countdown is not, so it does not speak every second
+const ANNOUNCE_AT = [60, 30, 10];
+
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const SessionExpiryDialog: React.FC = () => {
+  const { isWarning, extendable, secondsLeft, extendSession, logoutNow } = useSessionTimeout();
+  const navigate = useNavigate();
+  const [isExtending, setIsExtending] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const primaryButtonRef = useRef<HTMLButtonElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const isOpen = isWarning && secondsLeft !== null && !dismissed;
+
+  useEffect(() => {
+    if (!isWarning) {
+      setDismissed(false);
+    }
+  }, [isWarning]);
+
+  useEffect(() => {
+    if (isOpen) {
+      primaryButtonRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && secondsLeft !== null && ANNOUNCE_AT.includes(secondsLeft)) {
+      setAnnouncement(`Your session will end in ${secondsLeft} seconds.`);
+    }
+  }, [isOpen, secondsLeft]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleStaySignedIn = async () => {
+    setIsExtending(true);
+    try {
+      await extendSession();
+      toast.success('You are still signed in');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Could not extend your session');
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    logoutNow();
+    navigate('/login');
+  };
+
+  const handlePrimary = extendable ? handleStaySignedIn : () => setDismissed(true);
+
+  // Keep focus inside the dialog; Escape does what the primary button does
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      handlePrimary();
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    const buttons = dialogRef.current?.querySelectorAll<HTMLButtonElement>('button:not([disabled])');
+    if (!buttons || buttons.length === 0) return;
+
+    const first = buttons[0];
+    const last = buttons[buttons.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-title"
+        aria-describedby="session-expiry-description"
+        onKeyDown={handleKeyDown}
+        className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md"
+      >
+        <h2 id="session-expiry-title" className="text-xl font-bold text-gray-900">
+          {extendable ? 'Are you still there?' : 'Your session is ending'}
+        </h2>
+        <p id="session-expiry-description" className="text-sm text-gray-600 mt-2">
+          {extendable
+            ? 'You will be signed out soon because of inactivity.'
+            : 'Sessions have a maximum length, and yours is almost over. Save your work and sign in again to continue.'}
+        </p>
+
+        <p className="mt-6 text-center">
+          <span className="block text-sm text-gray-500">Time remaining</span>
+          <span role="timer" aria-live="off" className="text-4xl font-bold text-gray-900 tabular-nums">
+            {formatCountdown(secondsLeft)}
+          </span>
+        </p>
+        <p className="sr-only" aria-live="assertive">
+          {announcement}
+        </p>
+
+        <div className="mt-8 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+          >
+            Sign out now
+          </button>
+          <button
+            ref={primaryButtonRef}
+            type="button"
+            onClick={handlePrimary}
+            disabled={isExtending}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {extendable ? (isExtending ? 'Extending...' : 'Stay signed in') : 'OK'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryDialog;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+
+interface TwoFactorLoginFormProps {
+  isLoading: boolean;
+  error: string | null;
+  onSubmit: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface TwoFactorFormData {
+  code: string;
+}
+
+const TwoFactorLoginForm: React.FC<TwoFactorLoginFormProps> = ({ isLoading, error, onSubmit, onCancel }) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<TwoFactorFormData>();
+
+  const toggleMode = () => {
+    setUseRecoveryCode(prev => !prev);
+    reset();
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(data => onSubmit(data.code))}>
+      <p className="text-sm text-gray-600 text-center">
+        {useRecoveryCode
+          ? 'Enter one of your recovery codes.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+
+      <div>
+        <input
+          {...register('code', {
+            required: 'Code is required',
+            pattern: useRecoveryCode
+              ? { value: /^[a-zA-Z0-9]{5}-?[a-zA-Z0-9]{5}$/, message: 'Recovery codes look like abcde-12345' }
+              : { value: /^\d{6}$/, message: 'Code must be 6 digits' }
+          })}
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          aria-label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          className="w-full px-3 py-3 border border-gray-300 rounded-lg text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+          placeholder={useRecoveryCode ? 'abcde-12345' : '123456'}
+        />
+        {errors.code && (
+          <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Verifying...' : 'VERIFY'}
+      </button>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={toggleMode}
+          className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          Back to login
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginForm;
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { twoFactorService, TwoFactorSetup } from '../services/twoFactor';
+import FormField from './FormField';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  onChange: () => Promise<void>;
+}
+
+type Mode = 'idle' | 'enrolling' | 'disabling' | 'regenerating';
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ enabled, onChange }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setMode('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    const response = await twoFactorService.setup();
+    if (response.success && response.data) {
+      setSetup(response.data);
+      setMode('enrolling');
+    }
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await twoFactorService.enable(code);
+      if (response.success && response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+        toast.success(response.message);
+        resetForm();
+        await onChange();
+      }
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await twoFactorService.disable(password, code);
+      if (response.success) {
+        toast.success(response.message);
+        setRecoveryCodes(null);
+        resetForm();
+        await onChange();
+      }
+    });
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await twoFactorService.regenerateRecoveryCodes(code);
+      if (response.success && response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+        toast.success(response.message);
+        resetForm();
+      }
+    });
+  };
+
+  const codeField = (
+    <FormField label="Authentication code" required helperText="From your authenticator app, or a recovery code">
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={inputClassName}
+        placeholder="123456"
+      />
+    </FormField>
+  );
+
+  const formActions = (submitLabel: string) => (
+    <div className="flex justify-end space-x-4">
+      <button
+        type="button"
+        onClick={resetForm}
+        className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={isSubmitting || !code}
+        className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Please wait...' : submitLabel}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Two-Factor Authentication</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Require a code from an authenticator app in addition to your password.
+          </p>
+        </div>
+        <span
+          className={`px-3 py-1 rounded-full text-xs font-semibold ${
+            enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {enabled ? 'Enabled' : 'Disabled'}
+        </span>
+      </div>
+
+      {recoveryCodes && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm font-medium text-yellow-800 mb-3">
+            Save these recovery codes somewhere safe. Each code can be used once, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 mb-3">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            className="text-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+          >
+            I have saved these codes
+          </button>
+        </div>
+      )}
+
+      {mode === 'idle' && (
+        <div className="flex flex-wrap gap-3">
+          {!enabled && (
+            <button
+              onClick={handleStartSetup}
+              disabled={isSubmitting}
+              className="bg-green-500 hover:bg-green-600 text-white font-medium py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              Enable two-factor authentication
+            </button>
+          )}
+          {enabled && (
+            <>
+              <button
+                onClick={() => setMode('regenerating')}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition duration-200"
+              >
+                Regenerate recovery codes
+              </button>
+              <button
+                onClick={() => setMode('disabling')}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition duration-200"
+              >
+                Disable
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {mode === 'enrolling' && setup && (
+        <form onSubmit={handleEnable} className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-6">
+            <img
+              src={setup.qrCode}
+              alt="Authenticator app QR code"
+              className="w-48 h-48 border border-gray-200 rounded-lg"
+            />
+            <div className="text-sm text-gray-600 space-y-2">
+              <p>1. Scan this QR code with your authenticator app.</p>
+              <p>2. Or enter this key manually:</p>
+              <p className="font-mono text-gray-900 break-all">{setup.secret}</p>
+              <p>3. Enter the 6-digit code the app shows to finish.</p>
+            </div>
+          </div>
+          {codeField}
+          {formActions('Confirm and enable')}
+        </form>
+      )}
+
+      {mode === 'regenerating' && (
+        <form onSubmit={handleRegenerate} className="space-y-6">
+          {codeField}
+          {formActions('Regenerate codes')}
+        </form>
+      )}
+
+      {mode === 'disabling' && (
+        <form onSubmit={handleDisable} className="space-y-6">
+          <FormField label="Current password" required>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </FormField>
+          {codeField}
+          {formActions('Disable two-factor')}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { profileService, WorkExperience, WorkExperienceData } from '../services/profile';
+import { formatWorkPeriod } from '../utils/workHistory';
+import FormField from './FormField';
+
+interface WorkExperienceFormProps {
+  // The position being edited; without one a new position is added
+  entry?: WorkExperience;
+  onSaved: (workHistory: WorkExperience[]) => void;
+  onCancel: () => void;
+}
+
+interface WorkExperienceFormData {
+  title: string;
+  company: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  current: boolean;
+  description: string;
+  skills: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+// YYYY-MM, the value of a month input
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+const toFormData = (entry?: WorkExperience): WorkExperienceFormData => ({
+  title: entry?.title || '',
+  company: entry?.company || '',
+  location: entry?.location || '',
+  startDate: entry?.startDate || '',
+  endDate: entry?.endDate || '',
+  current: entry?.current || false,
+  description: entry?.description || '',
+  skills: (entry?.skills || []).join(', ')
+});
+
+const toWorkExperienceData = (data: WorkExperienceFormData): WorkExperienceData => ({
+  title: data.title.trim(),
+  company: data.company.trim(),
+  location: data.location.trim() || undefined,
+  startDate: data.startDate,
+  endDate: data.current ? undefined : data.endDate,
+  current: data.current,
+  description: data.description.trim() || undefined,
+  skills: data.skills.split(',').map(skill => skill.trim()).filter(Boolean)
+});
+
+const WorkExperienceForm: React.FC<WorkExperienceFormProps> = ({ entry, onSaved, onCancel }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  // Positions the server says this one overlaps, until the user confirms it or edits it
+  const [overlaps, setOverlaps] = useState<WorkExperience[]>([]);
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<WorkExperienceFormData>({
+    defaultValues: toFormData(entry)
+  });
+
+  const isCurrent = watch('current');
+
+  const save = async (data: WorkExperienceFormData, allowOverlap: boolean) => {
+    setIsSaving(true);
+    setOverlaps([]);
+    try {
+      const position = toWorkExperienceData(data);
+      const response = entry
+        ? await profileService.updateWorkExperience(entry._id, position, allowOverlap)
+        : await profileService.addWorkExperience(position, allowOverlap);
+      if (response.success && response.data) {
+        toast.success(entry ? 'Position updated' : 'Position added');
+        onSaved(response.data.workHistory);
+      }
+    } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data?.data?.overlaps) {
+        setOverlaps(error.response.data.data.overlaps);
+      } else {
+        toast.error(error.response?.data?.message || 'Failed to save position');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(data => save(data, false))}
+      className="space-y-4 p-4 border border-gray-200 rounded-lg"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField label="Title" required error={errors.title?.message}>
+          <input
+            {...register('title', {
+              validate: value => value.trim().length > 0 || 'Title is required',
+              maxLength: { value: 100, message: 'Title cannot exceed 100 characters' }
+            })}
+            type="text"
+            placeholder="e.g. Software Engineer"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <FormField label="Company" required error={errors.company?.message}>
+          <input
+            {...register('company', {
+              validate: value => value.trim().length > 0 || 'Company is required',
+              maxLength: { value: 100, message: 'Company cannot exceed 100 characters' }
+            })}
+            type="text"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <FormField label="Location" error={errors.location?.message}>
+          <input
+            {...register('location', {
+              maxLength: { value: 100, message: 'Location cannot exceed 100 characters' }
+            })}
+            type="text"
+            placeholder="e.g. Bengaluru or Remote"
+            className={inputClassName}
+          />
+        </FormField>
+
+        <div className="flex items-end pb-3">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              {...register('current')}
+              type="checkbox"
+              className="mr-2 h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            I currently work here
+          </label>
+        </div>
+
+        <FormField label="Start month" required error={errors.startDate?.message}>
+          <input
+            {...register('startDate', {
+              required: 'Start month is required',
+              validate: value => value <= currentMonth() || 'Start month cannot be in the future'
+            })}
+            type="month"
+            max={currentMonth()}
+            className={inputClassName}
+          />
+        </FormField>
+
+        <FormField label="End month" required={!isCurrent} error={errors.endDate?.message}>
+          <input
+            {...register('endDate', {
+              validate: (value, data) => {
+                if (data.current) return true;
+                if (!value) return 'End month is required unless you work here now';
+                if (value > currentMonth()) return 'End month cannot be in the future';
+                if (data.startDate && value < data.startDate) return 'End month cannot be before the start month';
+                return true;
+              }
+            })}
+            type="month"
+            max={currentMonth()}
+            disabled={isCurrent}
+            className={`${inputClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+          />
+        </FormField>
+      </div>
+
+      <FormField label="Description" error={errors.description?.message}>
+        <textarea
+          {...register('description', {
+            maxLength: { value: 2000, message: 'Description cannot exceed 2000 characters' }
+          })}
+          rows={3}
+          placeholder="What you did and achieved in this role"
+          className={inputClassName}
+        />
+      </FormField>
+
+      <FormField
+        label="Skills used"
+        error={errors.skills?.message}
+        helperText="Separate skills with commas"
+      >
+        <input
+          {...register('skills', {
+            validate: value =>
+              value.split(',').filter(skill => skill.trim()).length <= 20 || 'List at most 20 skills for a position'
+          })}
+          type="text"
+          placeholder="TypeScript, SQL, Project management"
+          className={inputClassName}
+        />
+      </FormField>
+
+      {overlaps.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg" role="alert">
+          <p className="text-sm text-yellow-800">
+            These dates overlap with{' '}
+            {overlaps.map(other => `${other.title} at ${other.company} (${formatWorkPeriod(other)})`).join(', ')}.
+            Check the dates, or save anyway if you held both roles at the same time.
+          </p>
+          <button
+            type="button"
+            onClick={handleSubmit(data => save(data, true))}
+            disabled={isSaving}
+            className="mt-2 text-sm font-medium text-yellow-800 hover:text-yellow-900 underline disabled:opacity-50"
+          >
+            Save anyway
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : entry ? 'Save position' : 'Add position'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default WorkExperienceForm;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { profileService, WorkExperience } from '../services/profile';
+import { formatWorkPeriod } from '../utils/workHistory';
+import WorkExperienceForm from './WorkExperienceForm';
+
+interface WorkHistoryEditorProps {
+  workHistory: WorkExperience[];
+  onChange: (workHistory: WorkExperience[]) => void;
+}
+
+// Changes are saved one position at a time, separately from the rest of the profile
+const WorkHistoryEditor: React.FC<WorkHistoryEditorProps> = ({ workHistory, onChange }) => {
+  // The position being edited, 'new' while adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isReordering, setIsReordering] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const isBusy = isReordering || removingId !== null;
+
+  const handleSaved = (nextWorkHistory: WorkExperience[]) => {
+    setEditingId(null);
+    onChange(nextWorkHistory);
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = workHistory.map(entry => entry._id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    setIsReordering(true);
+    try {
+      const response = await profileService.reorderWorkHistory(ids);
+      if (response.success && response.data) {
+        onChange(response.data.workHistory);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to reorder work history');
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  const handleDelete = async (entry: WorkExperience) => {
+    if (!window.confirm(`Remove ${entry.title} at ${entry.company} from your work history?`)) return;
+
+    setRemovingId(entry._id);
+    try {
+      const response = await profileService.deleteWorkExperience(entry._id);
+      if (response.success && response.data) {
+        toast.success('Position removed');
+        onChange(response.data.workHistory);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to remove position');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm font-medium text-gray-500">Work History</p>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => setEditingId('new')}
+            className="text-sm font-medium text-green-600 hover:text-green-800 transition-colors"
+          >
+            Add position
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && (
+        <div className="mb-4 bg-white rounded-lg">
+          <WorkExperienceForm onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+        </div>
+      )}
+
+      {workHistory.length === 0 ? (
+        editingId !== 'new' && <p className="text-sm text-gray-600">No positions yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {workHistory.map((entry, index) =>
+            editingId === entry._id ? (
+              <li key={entry._id} className="bg-white rounded-lg">
+                <WorkExperienceForm entry={entry} onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+              </li>
+            ) : (
+              <li key={entry._id} className="p-4 bg-white rounded-lg flex justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900">
+                    {entry.title}
+                    {entry.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700">
+                        Current
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    {entry.company}
+                    {entry.location && <span className="text-gray-500"> · {entry.location}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{formatWorkPeriod(entry)}</p>
+                  {entry.description && (
+                    <p className="text-sm text-gray-900 mt-2 whitespace-pre-line">{entry.description}</p>
+                  )}
+                  {entry.skills.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {entry.skills.map(skill => (
+                        <span
+                          key={skill}
+                          className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-700"
+                        >
+                          {skill}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {editingId === null && (
+                  <div className="flex flex-col items-end space-y-1 shrink-0">
+                    <div className="flex space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0 || isBusy}
+                        aria-label={`Move ${entry.title} at ${entry.company} up`}
+                        className="px-2 text-gray-500 hover:text-gray-900 transition-colors disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === workHistory.length - 1 || isBusy}
+                        aria-label={`Move ${entry.title} at ${entry.company} down`}
+                        className="px-2 text-gray-500 hover:text-gray-900 transition-colors disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(entry._id)}
+                      className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(entry)}
+                      disabled={isBusy}
+                      className="text-sm text-red-600 hover:text-red-800 transition-colors disabled:opacity-50"
+                    >
+                      {removingId === entry._id ? 'Removing...' : 'Remove'}
+                    </button>
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default WorkHistoryEditor;
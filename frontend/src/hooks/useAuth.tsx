@@ -1,16 +1,23 @@
 import React, { createContext, useContext, useReducer, useEffect, useRef, useCallback, ReactNode } from 'react';
-import { authService, AuthState, AuthResponse } from '../services/auth';
+import { authService, AuthState, AuthResponse, LoginLockout, OidcSignupData, SessionExpiry } from '../services/auth';
+import { sessionSync } from '../services/sessionSync';
 
-// Session timeout configuration
-const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
-const PROMPT_BEFORE = 60 * 60 * 1000; // 1 hour before
+const SESSION_VALIDATION_INTERVAL = 5 * 60 * 1000; // 5 minutes, leader tab only
 
 interface AuthContextType extends AuthState {
   login: (credentials: { email: string; password: string }) => Promise<void>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  loginWithOidc: (code: string, state: string) => Promise<AuthResponse | null>;
+  completeOidcSignup: (signupToken: string, data: OidcSignupData) => Promise<void>;
+  loginWithMagicLink: (token: string) => Promise<AuthResponse | null>;
   register: (data: { email: string; password: string; phone: string }) => Promise<void>;
   logout: () => void;
   refreshUser: () => Promise<void>;
-  extendSession: () => void;
+  // Reset the server session's idle timeout
+  extendSession: () => Promise<void>;
+  // Re-read the session's remaining time without counting as activity
+  syncSessionExpiry: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,9 +26,12 @@ type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_AUTHENTICATED'; payload: { user: AuthResponse['user'] } }
   | { type: 'SET_UNAUTHENTICATED' }
+  | { type: 'SET_TWO_FACTOR_PENDING'; payload: boolean }
+  | { type: 'SET_LOGIN_LOCKOUT'; payload: LoginLockout | null }
   | { type: 'SET_ERROR'; payload: string }
   | { type: 'CLEAR_ERROR' }
-  | { type: 'UPDATE_USER'; payload: AuthResponse['user'] };
+  | { type: 'UPDATE_USER'; payload: AuthResponse['user'] }
+  | { type: 'SET_SESSION_EXPIRY'; payload: SessionExpiry | null };
 
 const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   switch (action.type) {
@@ -33,7 +43,9 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: true,
         user: action.payload.user,
         isLoading: false,
-        error: null
+        error: null,
+        twoFactorPending: false,
+        loginLockout: null
       };
     case 'SET_UNAUTHENTICATED':
       return {
@@ -41,14 +53,22 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: false,
         user: null,
         isLoading: false,
-        error: null
+        error: null,
+        twoFactorPending: false,
+        sessionExpiry: null
       };
+    case 'SET_TWO_FACTOR_PENDING':
+      return { ...state, twoFactorPending: action.payload, isLoading: false };
+    case 'SET_LOGIN_LOCKOUT':
+      return { ...state, loginLockout: action.payload };
     case 'SET_ERROR':
       return { ...state, error: action.payload, isLoading: false };
     case 'CLEAR_ERROR':
       return { ...state, error: null };
     case 'UPDATE_USER':
       return { ...state, user: action.payload };
+    case 'SET_SESSION_EXPIRY':
+      return { ...state, sessionExpiry: action.payload };
     default:
       return state;
   }
@@ -58,58 +78,30 @@ const initialState: AuthState = {
   isAuthenticated: false,
   user: null,
   isLoading: true,
-  error: null
+  error: null,
+  twoFactorPending: false,
+  loginLockout: null,
+  sessionExpiry: null
 };
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  const promptRef = useRef<ReturnType<typeof setTimeout>>();
-  const lastActivityRef = useRef<number>(Date.now());
+  const twoFactorTokenRef = useRef<string | null>(null);
 
-  const handleSessionPrompt = useCallback(() => {
-    console.warn('Session will expire in 1 hour');
+  // Idle and absolute timeouts are enforced by the API; this only tracks what it reports
+  const extendSession = useCallback(async () => {
+    const expiry = await authService.extendSession();
+    dispatch({ type: 'SET_SESSION_EXPIRY', payload: expiry });
   }, []);
 
-  const handleSessionTimeout = useCallback(() => {
-    if (!state.isAuthenticated) return;
-
-    authService.clearSession();
-    dispatch({ type: 'SET_UNAUTHENTICATED' });
-  }, [state.isAuthenticated]);
-
-  const resetTimer = useCallback(() => {
-    lastActivityRef.current = Date.now();
-
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-
-    if (promptRef.current) {
-      clearTimeout(promptRef.current);
-    }
-
-    if (state.isAuthenticated) {
-      if (!state.isLoading) {
-        promptRef.current = setTimeout(() => {
-          handleSessionPrompt();
-        }, SESSION_TIMEOUT - PROMPT_BEFORE);
-
-        timeoutRef.current = setTimeout(() => {
-          handleSessionTimeout();
-        }, SESSION_TIMEOUT);
-      }
-    }
-  }, [state.isAuthenticated, state.isLoading, handleSessionPrompt, handleSessionTimeout]);
-
-  const extendSession = useCallback(() => {
-    resetTimer();
-  }, [resetTimer]);
+  const syncSessionExpiry = useCallback(async () => {
+    const expiry = await authService.syncSessionExpiry();
+    dispatch({ type: 'SET_SESSION_EXPIRY', payload: expiry });
+  }, []);
 
-  const handleActivity = useCallback(() => {
-    resetTimer();
-  }, [resetTimer]);
+  // Join the leader election before initializing, so a lone tab validates the session itself
+  useEffect(() => sessionSync.start(), []);
 
   useEffect(() => {
     const initializeAuth = async () => {
@@ -119,20 +111,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const hasStoredSession = authService.getSession() !== null;
 
         if (hasStoredSession) {
-          if (authService.isSessionExpired()) {
-            console.log('Stored session is expired, clearing...');
-            authService.clearSession();
-            dispatch({ type: 'SET_UNAUTHENTICATED' });
-            return;
-          }
-
-          const isValidSession = await authService.validateStoredSession();
+          // Only the leader tab checks with the API and the others follow its result,
+          // unless the stored expiry has passed and nobody has reported an extension
+          const isValidSession = sessionSync.isLeader() || authService.isSessionExpired()
+            ? await authService.validateStoredSession()
+            : true;
 
           if (isValidSession) {
             const user = authService.getStoredUser();
             if (user) {
               dispatch({ type: 'SET_AUTHENTICATED', payload: { user } });
-              resetTimer();
               return;
             }
           }
@@ -152,25 +140,181 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initializeAuth();
   }, []); 
 
+  // Apply session changes made in other tabs
+  useEffect(() => sessionSync.subscribe((message) => {
+    switch (message.type) {
+      case 'login':
+        twoFactorTokenRef.current = null;
+        dispatch({ type: 'SET_AUTHENTICATED', payload: { user: message.user } });
+        break;
+      case 'logout':
+        twoFactorTokenRef.current = null;
+        dispatch({ type: 'SET_UNAUTHENTICATED' });
+        break;
+      case 'user-updated':
+        dispatch({ type: 'UPDATE_USER', payload: message.user });
+        break;
+      case 'expiry-updated':
+        dispatch({ type: 'SET_SESSION_EXPIRY', payload: message.expiry });
+        break;
+    }
+  }), []);
+
+  // Every login path stores the session's expiry along with the session
+  useEffect(() => {
+    dispatch({
+      type: 'SET_SESSION_EXPIRY',
+      payload: state.isAuthenticated ? authService.getSessionExpiry() : null
+    });
+  }, [state.isAuthenticated]);
+
+  // The leader tab re-validates the shared session; the outcome reaches the other tabs
+  // as a user update and new expiry, or a logout
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+
+    const interval = setInterval(async () => {
+      if (!sessionSync.isLeader()) return;
+
+      const isValidSession = await authService.validateStoredSession();
+      const user = isValidSession ? authService.getStoredUser() : null;
+
+      if (user) {
+        dispatch({ type: 'UPDATE_USER', payload: user });
+        dispatch({ type: 'SET_SESSION_EXPIRY', payload: authService.getSessionExpiry() });
+      } else {
+        authService.clearSession();
+        dispatch({ type: 'SET_UNAUTHENTICATED' });
+      }
+    }, SESSION_VALIDATION_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [state.isAuthenticated]);
+
+
+  // Shared by every first-factor login: password, single sign-on, magic link
+  const applyLoginResponse = (response: AuthResponse, failureMessage: string) => {
+    if (response.success && response.requiresTwoFactor && response.twoFactorToken) {
+      twoFactorTokenRef.current = response.twoFactorToken;
+      dispatch({ type: 'SET_TWO_FACTOR_PENDING', payload: true });
+    } else if (response.success && response.user) {
+      dispatch({ type: 'SET_AUTHENTICATED', payload: { user: response.user } });
+    } else if (response.success && response.requiresProfile) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    } else {
+      dispatch({ type: 'SET_ERROR', payload: response.message || failureMessage });
+    }
+  };
 
   const login = async (credentials: { email: string; password: string }) => {
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'CLEAR_ERROR' });
+    dispatch({ type: 'SET_LOGIN_LOCKOUT', payload: null });
 
     try {
       const response = await authService.login(credentials);
+      applyLoginResponse(response, 'Login failed');
+    } catch (error: any) {
+      const data: AuthResponse | undefined = error.response?.data;
+      if (data?.code && data.retryAfter) {
+        dispatch({
+          type: 'SET_LOGIN_LOCKOUT',
+          payload: { code: data.code, retryAt: Date.now() + data.retryAfter * 1000 }
+        });
+      }
+      const errorMessage = data?.message || 'Login failed';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    }
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    if (!twoFactorTokenRef.current) {
+      dispatch({ type: 'SET_TWO_FACTOR_PENDING', payload: false });
+      dispatch({ type: 'SET_ERROR', payload: 'Login session has expired. Please log in again' });
+      return;
+    }
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await authService.loginTwoFactor(twoFactorTokenRef.current, code);
 
       if (response.success && response.user) {
+        twoFactorTokenRef.current = null;
         dispatch({ type: 'SET_AUTHENTICATED', payload: { user: response.user } });
       } else {
-        dispatch({ type: 'SET_ERROR', payload: response.message || 'Login failed' });
+        dispatch({ type: 'SET_ERROR', payload: response.message || 'Verification failed' });
+      }
+    } catch (error: any) {
+      const data: AuthResponse | undefined = error.response?.data;
+      // Too many wrong codes lock the account and end the challenge: back to the password step
+      if (data?.code === 'ACCOUNT_LOCKED' && data.retryAfter) {
+        twoFactorTokenRef.current = null;
+        dispatch({ type: 'SET_TWO_FACTOR_PENDING', payload: false });
+        dispatch({
+          type: 'SET_LOGIN_LOCKOUT',
+          payload: { code: data.code, retryAt: Date.now() + data.retryAfter * 1000 }
+        });
       }
+      const errorMessage = data?.message || 'Verification failed';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    }
+  };
+
+  // Returns the response so the caller can route a new user to profile completion
+  const loginWithOidc = async (code: string, state: string): Promise<AuthResponse | null> => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await authService.completeOidcLogin(code, state);
+      applyLoginResponse(response, 'Single sign-on failed');
+      return response;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Single sign-on failed';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return null;
+    }
+  };
+
+  const completeOidcSignup = async (signupToken: string, data: OidcSignupData) => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await authService.completeOidcSignup(signupToken, data);
+      applyLoginResponse(response, 'Sign-up failed');
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || 'Login failed';
+      const fieldErrors: string[] | undefined = error.response?.data?.errors?.map((item: any) => item.msg);
+      const errorMessage = fieldErrors?.length
+        ? fieldErrors.join('. ')
+        : error.response?.data?.message || 'Sign-up failed';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
     }
   };
 
+  const loginWithMagicLink = async (token: string): Promise<AuthResponse | null> => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await authService.loginWithMagicLink(token);
+      applyLoginResponse(response, 'Sign-in link is invalid or has expired');
+      return response;
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Sign-in link is invalid or has expired';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return null;
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    twoFactorTokenRef.current = null;
+    dispatch({ type: 'SET_TWO_FACTOR_PENDING', payload: false });
+    dispatch({ type: 'CLEAR_ERROR' });
+  };
+
   const register = async (data: { email: string; password: string; phone: string }) => {
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'CLEAR_ERROR' });
@@ -195,7 +339,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     dispatch({ type: 'CLEAR_ERROR' }); 
   };
 
-  const refreshUser = async () => {
+  // Stable, so pages can refresh on mount with it in their effect dependencies
+  const refreshUser = useCallback(async () => {
     try {
       const response = await authService.getCurrentUser();
       if (response.success && response.user) {
@@ -215,46 +360,21 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
       dispatch({ type: 'SET_ERROR', payload: 'Failed to refresh user data' });
     }
-  };
-
-  useEffect(() => {
-    const events = [
-      'mousedown',
-      'mousemove',
-      'keypress',
-      'scroll',
-      'touchstart',
-      'click'
-    ];
-
-    events.forEach(event => {
-      document.addEventListener(event, handleActivity, true);
-    });
-
-    resetTimer();
-
-    return () => {
-      events.forEach(event => {
-        document.removeEventListener(event, handleActivity, true);
-      });
-
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-
-      if (promptRef.current) {
-        clearTimeout(promptRef.current);
-      }
-    };
-  }, [handleActivity, resetTimer]);
+  }, []);
 
   const value: AuthContextType = {
     ...state,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    loginWithOidc,
+    completeOidcSignup,
+    loginWithMagicLink,
     register,
     logout,
     refreshUser,
-    extendSession
+    extendSession,
+    syncSessionExpiry
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
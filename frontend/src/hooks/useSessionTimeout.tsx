@@ -1,138 +1,65 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback } from 'react';
 import { useAuth } from './useAuth';
-import { authService } from '../services/auth';
+import { sessionSync } from '../services/sessionSync';
 
 interface UseSessionTimeoutOptions {
-  timeout?: number; 
-  promptBefore?: number; 
-  onPrompt?: () => void;
-  onTimeout?: () => void;
+  warnBefore?: number;
 }
 
-export const useSessionTimeout = (options: UseSessionTimeoutOptions = {}) => {
-  const {
-    timeout = 24 * 60 * 60 * 1000,
-    promptBefore = 60 * 60 * 1000,
-    onPrompt,
-    onTimeout
-  } = options;
-
-  const { logout, isAuthenticated } = useAuth();
-  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  const promptRef = useRef<ReturnType<typeof setTimeout>>();
-  const lastActivityRef = useRef<number>(Date.now());
+// setTimeout overflows past ~24.8 days; longer waits are split
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
 
-  useEffect(() => {
-    const session = authService.getSession();
-    if (session && !authService.isSessionExpired()) {
-      const remainingTime = session.expiresAt - Date.now();
-      if (remainingTime > 0) {
-        lastActivityRef.current = Date.now();
+/**
+ * Drives the session expiry warning from the expiry the API reports. Requests
+ * from any tab push the server's idle timeout back, so when the warning is due
+ * the leader tab re-checks with the API first; the other tabs receive the
+ * result. At expiry every tab checks, and the API's 401 signs them out.
+ */
+export const useSessionTimeout = (options: UseSessionTimeoutOptions = {}) => {
+  const { warnBefore = 2 * 60 * 1000 } = options;
 
-        if (remainingTime > promptBefore) {
-          promptRef.current = setTimeout(() => {
-            onPrompt?.();
-          }, remainingTime - promptBefore);
-        }
+  const { isAuthenticated, sessionExpiry, extendSession, syncSessionExpiry, logout } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const checkedRef = useRef<string | null>(null);
 
-        timeoutRef.current = setTimeout(() => {
-          onTimeout?.();
-          logout();
-        }, remainingTime);
-      }
-    }
-  }, []);
+  const remainingTime = sessionExpiry ? Math.max(0, sessionExpiry.expiresAt - now) : null;
+  const isWarning = isAuthenticated && remainingTime !== null && remainingTime <= warnBefore;
+  const isExpired = isWarning && remainingTime === 0;
 
-  const resetTimer = useCallback(() => {
-    lastActivityRef.current = Date.now();
+  // Sleep until the warning is due, then tick every second
+  useEffect(() => {
+    if (!isAuthenticated || !sessionExpiry) return;
 
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
+    const untilWarning = sessionExpiry.expiresAt - warnBefore - Date.now();
+    const delay = untilWarning > 0 ? Math.min(untilWarning, MAX_TIMER_DELAY) : 1000;
+    const timer = setTimeout(() => setNow(Date.now()), delay);
 
-    if (promptRef.current) {
-      clearTimeout(promptRef.current);
-    }
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, sessionExpiry, warnBefore, now]);
 
-    if (isAuthenticated) {
-      promptRef.current = setTimeout(() => {
-        onPrompt?.();
-      }, timeout - promptBefore);
+  useEffect(() => {
+    if (!isWarning || !sessionExpiry) return;
+    if (!isExpired && !sessionSync.isLeader()) return;
 
-      timeoutRef.current = setTimeout(() => {
-        onTimeout?.();
-        logout();
-      }, timeout);
-    }
-  }, [timeout, promptBefore, onPrompt, onTimeout, logout, isAuthenticated]);
+    // Once when the warning opens and once at expiry, for each expiry reported
+    const check = `${sessionExpiry.expiresAt}:${isExpired}`;
+    if (checkedRef.current === check) return;
+    checkedRef.current = check;
 
-  const extendSession = useCallback(() => {
-    resetTimer();
-  }, [resetTimer]);
+    syncSessionExpiry().catch((error) => {
+      console.error('Session expiry check failed:', error);
+    });
+  }, [isWarning, isExpired, sessionExpiry, syncSessionExpiry]);
 
   const logoutNow = useCallback(() => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-    if (promptRef.current) {
-      clearTimeout(promptRef.current);
-    }
     logout();
   }, [logout]);
 
-  useEffect(() => {
-    const events = [
-      'mousedown',
-      'mousemove',
-      'keypress',
-      'scroll',
-      'touchstart',
-      'click'
-    ];
-
-    const handleActivity = () => {
-      resetTimer();
-    };
-
-    events.forEach(event => {
-      document.addEventListener(event, handleActivity, true);
-    });
-
-    resetTimer();
-
-    return () => {
-      events.forEach(event => {
-        document.removeEventListener(event, handleActivity, true);
-      });
-
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-
-      if (promptRef.current) {
-        clearTimeout(promptRef.current);
-      }
-    };
-  }, [resetTimer]);
-
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (!document.hidden) {
-        resetTimer();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [resetTimer]);
-
   return {
+    isWarning,
+    extendable: sessionExpiry?.extendable ?? false,
+    secondsLeft: remainingTime === null ? null : Math.ceil(remainingTime / 1000),
     extendSession,
-    logoutNow,
-    getLastActivity: () => lastActivityRef.current,
-    getTimeUntilTimeout: () => Math.max(0, timeout - (Date.now() - lastActivityRef.current))
+    logoutNow
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import ChangeEmailForm from '../components/ChangeEmailForm';
+import ChangePasswordForm from '../components/ChangePasswordForm';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import ActiveSessions from '../components/ActiveSessions';
+import ApiKeys from '../components/ApiKeys';
+import SecurityActivity from '../components/SecurityActivity';
+import LoginHistory from '../components/LoginHistory';
+
+const AccountSettings: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+
+  useEffect(() => {
+    // Make sure security settings reflect the server, not a stale stored session
+    refreshUser();
+  }, [refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 relative overflow-hidden">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-10 left-10 w-20 h-20 bg-blue-400 rounded-full opacity-20"></div>
+        <div className="absolute top-32 right-20 w-16 h-16 bg-purple-400 rounded-full opacity-20"></div>
+        <div className="absolute bottom-20 left-20 w-12 h-12 bg-green-400 rounded-full opacity-20"></div>
+      </div>
+
+      <div className="relative py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-900">Account Settings</h1>
+            <Link
+              to="/profile"
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition duration-200"
+            >
+              Back to Profile
+            </Link>
+          </div>
+
+          <ChangeEmailForm />
+
+          <ChangePasswordForm />
+
+          <TwoFactorSettings
+            enabled={!!user?.twoFactorEnabled}
+            onChange={refreshUser}
+          />
+
+          <ActiveSessions />
+
+          <LoginHistory />
+
+          <SecurityActivity />
+
+          <ApiKeys />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,142 @@
+import React, { useEffect } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { useAuth } from '../hooks/useAuth';
+import FormField from '../components/FormField';
+
+interface CompleteProfileState {
+  signupToken?: string;
+  profile?: Record<string, string | number | undefined>;
+  missingFields?: string[];
+}
+
+type FieldType = 'text' | 'tel' | 'date' | 'number' | 'select';
+
+interface FieldConfig {
+  label: string;
+  type: FieldType;
+  options?: string[];
+  min?: number;
+  max?: number;
+  step?: string;
+}
+
+// Mirrors the mandatory fields of the registration form
+const FIELDS: Record<string, FieldConfig> = {
+  designation: { label: 'Designation', type: 'select', options: ['Mr', 'Mrs', 'Ms', 'Dr', 'Prof'] },
+  firstName: { label: 'First Name', type: 'text' },
+  lastName: { label: 'Last Name', type: 'text' },
+  country: { label: 'Country', type: 'text' },
+  phone: { label: 'Phone Number', type: 'tel' },
+  gender: { label: 'Gender', type: 'select', options: ['Male', 'Female', 'Non-binary', 'Prefer not to say', 'Other'] },
+  dob: { label: 'Date of Birth', type: 'date' },
+  totalExperience: { label: 'Total Experience (years)', type: 'number', min: 0, max: 50, step: '0.1' },
+  currentCTC: { label: 'Current CTC', type: 'number', min: 0, max: 10000000 },
+  expectedCTC: { label: 'Expected CTC', type: 'number', min: 0, max: 10000000 },
+  noticePeriod: { label: 'Serving Notice Period', type: 'select', options: ['Yes', 'No'] },
+  noticePeriodDays: { label: 'Notice Period (days)', type: 'number', min: 0, max: 365 },
+};
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors';
+
+const CompleteProfile: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { completeOidcSignup, isAuthenticated, isLoading, error } = useAuth();
+  const { signupToken, profile = {}, missingFields = [] } = (location.state || {}) as CompleteProfileState;
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<Record<string, string>>();
+
+  const noticePeriod = watch('noticePeriod');
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      navigate('/profile', { replace: true });
+    }
+  }, [isAuthenticated, navigate]);
+
+  if (!signupToken) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const fieldsToShow = [...missingFields];
+  if (fieldsToShow.includes('noticePeriod') && noticePeriod === 'Yes') {
+    fieldsToShow.push('noticePeriodDays');
+  }
+
+  const onSubmit = async (data: Record<string, string>) => {
+    const values: Record<string, string | number | undefined> = {};
+    fieldsToShow.forEach((name) => {
+      const value = data[name];
+      values[name] = FIELDS[name]?.type === 'number' && value !== '' ? Number(value) : value;
+    });
+    await completeOidcSignup(signupToken, values);
+  };
+
+  const renderField = (name: string) => {
+    const config = FIELDS[name];
+    if (!config) return null;
+
+    const registration = register(name, {
+      required: `${config.label} is required`,
+      ...(config.min !== undefined && { min: { value: config.min, message: `${config.label} cannot be below ${config.min}` } }),
+      ...(config.max !== undefined && { max: { value: config.max, message: `${config.label} cannot exceed ${config.max}` } }),
+    });
+
+    return (
+      <FormField key={name} label={config.label} required error={errors[name]?.message}>
+        {config.type === 'select' ? (
+          <select {...registration} className={inputClassName}>
+            <option value="">Select {config.label}</option>
+            {config.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            {...registration}
+            type={config.type}
+            step={config.step}
+            className={inputClassName}
+          />
+        )}
+      </FormField>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center py-12 px-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-2xl w-full">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Complete Your Profile</h2>
+          <p className="text-gray-600">
+            Signing up as <span className="font-medium text-gray-900">{profile.email}</span>.
+            We need a few more details your identity provider did not share.
+          </p>
+        </div>
+
+        <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {fieldsToShow.map(renderField)}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Creating account...' : 'CREATE ACCOUNT'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CompleteProfile;
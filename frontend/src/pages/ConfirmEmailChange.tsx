@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authService } from '../services/auth';
+import { useAuth } from '../hooks/useAuth';
+
+type ConfirmationStatus = 'confirming' | 'success' | 'error';
+
+const ConfirmEmailChange: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<ConfirmationStatus>('confirming');
+  const [message, setMessage] = useState('');
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    // Guard against the double effect run in StrictMode
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    const token = searchParams.get('token');
+
+    if (!token) {
+      setStatus('error');
+      setMessage('This link is missing a token.');
+      return;
+    }
+
+    const confirmChange = async () => {
+      try {
+        const response = await authService.confirmEmailChange(token);
+
+        if (response.success) {
+          setStatus('success');
+          setMessage(response.message);
+          if (isAuthenticated) {
+            await refreshUser();
+          }
+        } else {
+          setStatus('error');
+          setMessage(response.message || 'Email change failed');
+        }
+      } catch (error: any) {
+        setStatus('error');
+        setMessage(error.response?.data?.message || 'This link is invalid or has expired');
+      }
+    };
+
+    confirmChange();
+  }, [searchParams, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+        {status === 'confirming' && (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-green-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Confirming your new email address...</p>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <div className="w-16 h-16 bg-green-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email Address Changed</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email Change Failed</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+          </>
+        )}
+
+        {status !== 'confirming' && (
+          <Link
+            to={isAuthenticated ? '/profile' : '/login'}
+            className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200"
+          >
+            {isAuthenticated ? 'Go to Profile' : 'Go to Login'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmEmailChange;
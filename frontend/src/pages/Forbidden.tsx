@@ -0,0 +1,33 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+const Forbidden: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="mb-8">
+          <div className="text-9xl font-bold text-gray-300 mb-4">403</div>
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">Access Denied</h1>
+          <p className="text-lg text-gray-600 mb-8 max-w-md mx-auto">
+            Your account doesn't have access to this page.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <Link
+            to="/profile"
+            className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+          >
+            Go to Profile
+          </Link>
+
+          <div className="text-sm text-gray-500 mt-4">
+            If you believe this is an error, please contact an administrator.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
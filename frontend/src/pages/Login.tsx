@@ -1,8 +1,18 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useAuth } from '../hooks/useAuth';
+import { authService, OidcProvider } from '../services/auth';
+import TwoFactorLoginForm from '../components/TwoFactorLoginForm';
+import MagicLinkRequestForm from '../components/MagicLinkRequestForm';
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
 
 interface LoginFormData {
   email: string;
@@ -10,7 +20,11 @@ interface LoginFormData {
 }
 
 const Login: React.FC = () => {
-  const { login, isLoading, isAuthenticated, error } = useAuth();
+  const { login, verifyTwoFactor, cancelTwoFactor, twoFactorPending, loginLockout, isLoading, isAuthenticated, error } = useAuth();
+  const [lockoutSeconds, setLockoutSeconds] = useState(0);
+  const [oidcProvider, setOidcProvider] = useState<OidcProvider | null>(null);
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [showMagicLink, setShowMagicLink] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
   const { register, handleSubmit, formState: { errors }, trigger } = useForm<LoginFormData>({
@@ -26,6 +40,39 @@ const Login: React.FC = () => {
     }
   }, [isAuthenticated, isLoading, navigate, location]);
 
+  useEffect(() => {
+    if (!loginLockout) {
+      setLockoutSeconds(0);
+      return;
+    }
+
+    const tick = () => {
+      setLockoutSeconds(Math.max(0, Math.ceil((loginLockout.retryAt - Date.now()) / 1000)));
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [loginLockout]);
+
+  const isLockedOut = lockoutSeconds > 0;
+
+  useEffect(() => {
+    authService.getOidcProvider()
+      .then(setOidcProvider)
+      .catch(() => setOidcProvider(null));
+  }, []);
+
+  const handleOidcLogin = async () => {
+    setIsRedirecting(true);
+    try {
+      await authService.startOidcLogin();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Single sign-on is unavailable right now');
+      setIsRedirecting(false);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     try {
       await login(data);
@@ -67,9 +114,21 @@ const Login: React.FC = () => {
 
           <div className="bg-white rounded-2xl shadow-xl p-8">
             <div className="text-center mb-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">Member Login</h2>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                {twoFactorPending ? 'Two-Factor Verification' : 'Member Login'}
+              </h2>
             </div>
 
+            {twoFactorPending ? (
+              <TwoFactorLoginForm
+                isLoading={isLoading}
+                error={error}
+                onSubmit={verifyTwoFactor}
+                onCancel={cancelTwoFactor}
+              />
+            ) : showMagicLink ? (
+              <MagicLinkRequestForm onCancel={() => setShowMagicLink(false)} />
+            ) : (
             <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
               <div className="space-y-4">
                 <div>
@@ -129,29 +188,68 @@ const Login: React.FC = () => {
                 </div>
               </div>
 
-              <div className="flex items-center justify-end">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setShowMagicLink(true)}
+                  className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                >
+                  Email me a sign-in link
+                </button>
                 <Link
                   to="/forgot-password"
                   className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
                 >
-                  Forgot Username / Password?
+                  Forgot Password?
                 </Link>
               </div>
 
               <button
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || isLockedOut}
                 className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isLoading ? 'Signing in...' : 'LOGIN'}
+                {isLoading ? 'Signing in...' : isLockedOut ? `TRY AGAIN IN ${formatWait(lockoutSeconds)}` : 'LOGIN'}
               </button>
 
-              {error && (
+              {isLockedOut && loginLockout ? (
+                <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg" role="alert">
+                  <p className="text-sm font-medium text-yellow-800">
+                    {loginLockout.code === 'ACCOUNT_LOCKED'
+                      ? 'This account is temporarily locked after too many failed login attempts.'
+                      : 'Too many failed login attempts.'}
+                  </p>
+                  <p className="text-sm text-yellow-700 mt-1">
+                    You can try again in {formatWait(lockoutSeconds)}.
+                    {loginLockout.code === 'ACCOUNT_LOCKED' && (
+                      <> If you forgot your password, you can <Link to="/forgot-password" className="underline">reset it</Link>.</>
+                    )}
+                  </p>
+                </div>
+              ) : error && (
                 <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
                   <p className="text-sm text-red-600">{error}</p>
                 </div>
               )}
 
+              {oidcProvider?.enabled && (
+                <>
+                  <div className="flex items-center">
+                    <div className="flex-grow border-t border-gray-200"></div>
+                    <span className="px-3 text-sm text-gray-500">or</span>
+                    <div className="flex-grow border-t border-gray-200"></div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleOidcLogin}
+                    disabled={isRedirecting}
+                    className="w-full border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold py-3 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isRedirecting ? 'Redirecting...' : `Sign in with ${oidcProvider.name || 'Single Sign-On'}`}
+                  </button>
+                </>
+              )}
+
               <div className="text-center">
                 <Link
                   to="/register"
@@ -164,6 +262,7 @@ const Login: React.FC = () => {
                 </Link>
               </div>
             </form>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+
+const MagicLinkLogin: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { loginWithMagicLink } = useAuth();
+  const [message, setMessage] = useState<string | null>(null);
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    // The link is single use, so never redeem it twice in StrictMode
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    const token = searchParams.get('token');
+
+    if (!token) {
+      setMessage('Sign-in link is missing or incomplete.');
+      return;
+    }
+
+    const complete = async () => {
+      const response = await loginWithMagicLink(token);
+
+      if (response?.success && response.requiresTwoFactor) {
+        // Login renders the second-factor form while it is pending
+        navigate('/login', { replace: true });
+      } else if (response?.success) {
+        navigate('/profile', { replace: true });
+      } else {
+        setMessage(response?.message || 'Sign-in link is invalid or has expired.');
+      }
+    };
+
+    complete();
+  }, [searchParams, loginWithMagicLink, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+        {message ? (
+          <>
+            <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign-in Failed</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+            <Link
+              to="/login"
+              className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200"
+            >
+              Back to Login
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-green-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Signing you in...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MagicLinkLogin;
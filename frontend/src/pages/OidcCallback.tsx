@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+
+const OidcCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { loginWithOidc } = useAuth();
+  const [message, setMessage] = useState<string | null>(null);
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    // The authorization code is single use, so never redeem it twice in StrictMode
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const providerError = searchParams.get('error_description') || searchParams.get('error');
+
+    if (providerError || !code || !state) {
+      setMessage(providerError || 'Sign-in response is missing required parameters.');
+      return;
+    }
+
+    const complete = async () => {
+      const response = await loginWithOidc(code, state);
+
+      if (response?.success && response.requiresProfile) {
+        navigate('/complete-profile', {
+          replace: true,
+          state: {
+            signupToken: response.signupToken,
+            profile: response.profile,
+            missingFields: response.missingFields,
+          },
+        });
+      } else if (response?.success && response.requiresTwoFactor) {
+        // Login renders the second-factor form while it is pending
+        navigate('/login', { replace: true });
+      } else if (response?.success) {
+        navigate('/profile', { replace: true });
+      } else {
+        setMessage(response?.message || 'Single sign-on failed. Please try again.');
+      }
+    };
+
+    complete();
+  }, [searchParams, loginWithOidc, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+        {message ? (
+          <>
+            <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign-in Failed</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+            <Link
+              to="/login"
+              className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200"
+            >
+              Back to Login
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-green-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Completing sign-in...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OidcCallback;
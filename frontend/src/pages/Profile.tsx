@@ -3,13 +3,17 @@ import { useNavigate } from "react-router-dom";
 import toast from "react-hot-toast";
 import { useAuth } from "../hooks/useAuth";
 import { profileService, UserProfile } from "../services/profile";
+import { authService } from "../services/auth";
 import ProfileEditForm from "../components/ProfileEditForm";
+import Avatar from "../components/Avatar";
+import WorkHistoryEditor from "../components/WorkHistoryEditor";
 
 const Profile: React.FC = () => {
   const { user, logout, refreshUser } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -53,6 +57,22 @@ const Profile: React.FC = () => {
     navigate("/login");
   };
 
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    try {
+      const response = await authService.resendVerification();
+      if (response.success) {
+        toast.success("Verification email sent. Please check your inbox.");
+      } else {
+        toast.error(response.message || "Failed to send verification email");
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to send verification email");
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
   const handleEdit = () => {
     setIsEditing(true);
   };
@@ -139,29 +159,13 @@ const Profile: React.FC = () => {
             <div className="flex justify-center mb-6">
               <div className="relative">
                 <div className="w-32 h-32 bg-white rounded-full shadow-lg flex items-center justify-center overflow-hidden">
-                  {profile.avatar ? (
-                    <img
-                      src={profile.avatar}
-                      alt={`${profile.firstName} ${profile.lastName}`}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-24 h-24 bg-gradient-to-br from-green-400 to-blue-500 rounded-full flex items-center justify-center">
-                      <svg
-                        className="w-12 h-12 text-white"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth="2"
-                          d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
-                        ></path>
-                      </svg>
-                    </div>
-                  )}
+                  <Avatar
+                    name={`${profile.firstName} ${profile.lastName}`}
+                    images={profile.avatarImages}
+                    url={profile.avatar}
+                    size={128}
+                    className="w-full h-full"
+                  />
                 </div>
                 {profile.isEmailVerified && (
                   <div className="absolute -bottom-2 -right-2 w-8 h-8 bg-green-500 rounded-full flex items-center justify-center">
@@ -190,6 +194,36 @@ const Profile: React.FC = () => {
             </p>
           </div>
 
+          {!profile.isEmailVerified && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="flex items-center">
+                <svg
+                  className="w-5 h-5 text-yellow-600 mr-3 flex-shrink-0"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"
+                  ></path>
+                </svg>
+                <p className="text-sm text-yellow-800">
+                  Your email address is not verified. Check your inbox for the verification link.
+                </p>
+              </div>
+              <button
+                onClick={handleResendVerification}
+                disabled={isResendingVerification}
+                className="text-sm font-medium text-yellow-800 hover:text-yellow-900 underline disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+              >
+                {isResendingVerification ? "Sending..." : "Resend email"}
+              </button>
+            </div>
+          )}
+
           {isEditing ? (
             <ProfileEditForm
               profile={profile}
@@ -223,6 +257,25 @@ const Profile: React.FC = () => {
                     </svg>
                     Edit Profile
                   </button>
+                  <button
+                    onClick={() => navigate("/settings")}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition duration-200 flex items-center"
+                  >
+                    <svg
+                      className="w-4 h-4 mr-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth="2"
+                        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                      ></path>
+                    </svg>
+                    Settings
+                  </button>
                   <button
                     onClick={handleLogout}
                     className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition duration-200 flex items-center"
@@ -605,6 +658,22 @@ const Profile: React.FC = () => {
                   </div>
                 )}
 
+                {profile.skills && profile.skills.length > 0 && (
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm font-medium text-gray-500 mb-2">Skills</p>
+                    <div className="flex flex-wrap gap-2">
+                      {profile.skills.map((skill) => (
+                        <span
+                          key={skill}
+                          className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700"
+                        >
+                          {skill}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {profile.experience && (
                   <div className="p-4 bg-gray-50 rounded-lg">
                     <div className="flex items-center mb-2">
@@ -627,12 +696,17 @@ const Profile: React.FC = () => {
                         Experience Description
                       </p>
                     </div>
-                    <p className="text-sm text-gray-900">
+                    <p className="text-sm text-gray-900 whitespace-pre-line">
                       {profile.experience}
                     </p>
                   </div>
                 )}
 
+                <WorkHistoryEditor
+                  workHistory={profile.workHistory || []}
+                  onChange={(workHistory) => setProfile({ ...profile, workHistory })}
+                />
+
               </div>
 
             </div>
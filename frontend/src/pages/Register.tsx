@@ -1,10 +1,12 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import toast from "react-hot-toast";
 import { authService } from "../services/auth";
 import FormField from "../components/FormField";
+import PasswordStrengthMeter from "../components/PasswordStrengthMeter";
 import { validateUrl } from "../utils/validation";
+import { validatePassword } from "../../../shared/passwordStrength";
 
 interface RegisterFormData {
   email: string;
@@ -30,10 +32,6 @@ interface RegisterFormData {
 
 const Register: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [passwordStrength, setPasswordStrength] = useState({
-    score: 0,
-    feedback: [] as string[],
-  });
   const navigate = useNavigate();
   const {
     register,
@@ -47,52 +45,8 @@ const Register: React.FC = () => {
 
   const password = watch("password");
 
-  const checkPasswordStrength = (password: string) => {
-    let score = 0;
-    const feedback: string[] = [];
-
-    if (password.length >= 8) score += 1;
-    else feedback.push("At least 8 characters");
-
-    if (password.length >= 12) score += 1;
-    else if (password.length >= 8) feedback.push("12+ characters recommended");
-
-    if (/[a-z]/.test(password)) score += 1;
-    else feedback.push("One lowercase letter");
-
-    if (/[A-Z]/.test(password)) score += 1;
-    else feedback.push("One uppercase letter");
-
-    if (/\d/.test(password)) score += 1;
-    else feedback.push("One number");
-
-    if (/[@$!%*?&]/.test(password)) score += 1;
-    else feedback.push("One special character (@$!%*?&)");
-
-    if (score >= 5) feedback.length = 0; 
-
-    return { score, feedback };
-  };
-
-  useEffect(() => {
-    if (password) {
-      setPasswordStrength(checkPasswordStrength(password));
-    } else {
-      setPasswordStrength({ score: 0, feedback: [] });
-    }
-  }, [password]);
-
-  const getPasswordStrengthColor = () => {
-    if (passwordStrength.score <= 2) return "bg-red-500";
-    if (passwordStrength.score <= 4) return "bg-yellow-500";
-    return "bg-green-500";
-  };
-
-  const getPasswordStrengthText = () => {
-    if (passwordStrength.score <= 2) return "Weak";
-    if (passwordStrength.score <= 4) return "Medium";
-    return "Strong";
-  };
+  // Name and email make a password easier to guess, so the meter and validation take them into account
+  const passwordUserInputs = [watch("email"), watch("firstName"), watch("lastName")];
 
   const onSubmit = async (data: RegisterFormData) => {
     setIsLoading(true);
@@ -101,8 +55,8 @@ const Register: React.FC = () => {
 
       const response = await authService.register(registerData);
 
-      if (response.success && response.token) {
-        authService.setToken(response.token);
+      // authService.register has already stored the session
+      if (response.success && response.user) {
         toast.success("Registration successful!");
         navigate("/profile");
       } else {
@@ -675,37 +629,8 @@ const Register: React.FC = () => {
                     <input
                       {...register("password", {
                         required: "Password is required",
-                        minLength: {
-                          value: 8,
-                          message: "Password must be at least 8 characters",
-                        },
-                        maxLength: {
-                          value: 128,
-                          message: "Password cannot exceed 128 characters",
-                        },
-                        pattern: {
-                          value:
-                            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-                          message:
-                            "Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)",
-                        },
-                        validate: {
-                          notCommon: (value) => {
-                            const commonPasswords = [
-                              "password",
-                              "password123",
-                              "123456",
-                              "qwerty",
-                              "abc123",
-                              "admin",
-                              "letmein",
-                            ];
-                            return (
-                              !commonPasswords.includes(value?.toLowerCase()) ||
-                              "This password is too common. Please choose a more secure password"
-                            );
-                          },
-                        },
+                        validate: (value) =>
+                          validatePassword(value, passwordUserInputs) || true,
                         onChange: () => trigger("password"),
                       })}
                       type="password"
@@ -715,44 +640,10 @@ const Register: React.FC = () => {
                   </div>
                 </FormField>
 
-                {password && (
-                  <div className="w-full">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="text-sm text-gray-600">
-                        Password strength:
-                      </span>
-                      <span
-                        className={`text-sm font-medium ${
-                          passwordStrength.score <= 2
-                            ? "text-red-600"
-                            : passwordStrength.score <= 4
-                            ? "text-yellow-600"
-                            : "text-green-600"
-                        }`}
-                      >
-                        {getPasswordStrengthText()}
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-                      <div
-                        className={`h-full rounded-full transition-all duration-300 ${getPasswordStrengthColor()}`}
-                        style={{
-                          width: `${Math.min(
-                            (passwordStrength.score / 5) * 100,
-                            100
-                          )}%`,
-                        }}
-                      ></div>
-                    </div>
-                    {passwordStrength.feedback.length > 0 && (
-                      <ul className="mt-1 text-xs text-gray-500">
-                        {passwordStrength.feedback.map((item, index) => (
-                          <li key={index}>• {item}</li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-                )}
+                <PasswordStrengthMeter
+                  password={password}
+                  userInputs={passwordUserInputs}
+                />
 
                 <FormField label="Confirm Password" required error={errors.confirmPassword?.message}>
                   <div className="relative">
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { loginHistoryService } from '../services/loginHistory';
+import { useAuth } from '../hooks/useAuth';
+
+type ReportStatus = 'confirm' | 'reporting' | 'success' | 'error';
+
+// Reached from the "this wasn't me" link in a new login alert. Reporting waits
+// for a click, since mail scanners open links on their own
+const ReportLogin: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, logout } = useAuth();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<ReportStatus>(token ? 'confirm' : 'error');
+  const [message, setMessage] = useState(token ? '' : 'This link is missing a token.');
+
+  const handleReport = async () => {
+    if (!token) return;
+
+    setStatus('reporting');
+    try {
+      const response = await loginHistoryService.reportLogin(token);
+      setStatus('success');
+      setMessage(response.message);
+      // This browser's session was signed out along with the rest
+      if (isAuthenticated) {
+        logout();
+      }
+    } catch (error: any) {
+      setStatus('error');
+      setMessage(error.response?.data?.message || 'This link is invalid or has expired');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+        {(status === 'confirm' || status === 'reporting') && (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Secure Your Account</h1>
+            <p className="text-gray-600 mb-6">
+              If you don't recognise this sign-in, we will sign your account out of every device.
+              You can then reset your password.
+            </p>
+            <button
+              type="button"
+              onClick={handleReport}
+              disabled={status === 'reporting'}
+              className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {status === 'reporting' ? 'Signing out...' : 'Sign out everywhere'}
+            </button>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <div className="w-16 h-16 bg-green-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Signed Out Everywhere</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+            <Link
+              to="/forgot-password"
+              className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200"
+            >
+              Reset Password
+            </Link>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-4 flex items-center justify-center">
+              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Report Failed</h1>
+            <p className="text-gray-600 mb-6">{message}</p>
+            <Link
+              to="/login"
+              className="inline-flex items-center px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors duration-200"
+            >
+              Go to Login
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportLogin;
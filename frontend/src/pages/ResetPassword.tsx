@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authService } from '../services/auth';
+import { useAuth } from '../hooks/useAuth';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { validatePassword } from '../../../shared/passwordStrength';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const { isAuthenticated, logout } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<ResetPasswordFormData>({
+    mode: 'onChange'
+  });
+
+  const password = watch('password');
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await authService.resetPassword(token, data.password);
+
+      if (response.success) {
+        // Any session in this browser belonged to the old password
+        if (isAuthenticated) {
+          logout();
+        }
+        toast.success(response.message);
+        navigate('/login', { replace: true });
+      } else {
+        toast.error(response.message || 'Failed to reset password');
+      }
+    } catch (error: any) {
+      const validationErrors = error.response?.data?.errors;
+      if (Array.isArray(validationErrors) && validationErrors.length > 0) {
+        validationErrors.forEach((err: any) => toast.error(err.msg || err.message));
+      } else {
+        toast.error(error.response?.data?.message || 'Failed to reset password');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Reset Password</h2>
+        </div>
+
+        {!token ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">
+              This password reset link is invalid. Please request a new one.
+            </p>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <input
+                  {...register('password', {
+                    required: 'Password is required',
+                    validate: value => validatePassword(value) || true
+                  })}
+                  type="password"
+                  className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="New password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <PasswordStrengthMeter password={password} />
+
+              <div>
+                <input
+                  {...register('confirmPassword', {
+                    required: 'Please confirm your password',
+                    validate: (value) => value === password || 'Passwords do not match'
+                  })}
+                  type="password"
+                  className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="Confirm new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Resetting...' : 'RESET PASSWORD'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center mt-6 space-x-4">
+          <Link to="/forgot-password" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+            Request a new link
+          </Link>
+          <Link to="/login" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+            Back to Login
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
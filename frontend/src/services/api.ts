@@ -1,18 +1,46 @@
 import axios from 'axios';
+import { sessionSync } from './sessionSync';
+import { reauthPrompt } from './reauth';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
+// In cookie mode the backend keeps the tokens in httpOnly cookies, out of reach of page scripts;
+// only the CSRF token, which is not a credential, is stored here
+export const usesCookieAuth = import.meta.env.VITE_AUTH_MODE === 'cookie';
+export const CSRF_TOKEN_KEY = 'csrfToken';
+
+const UNSAFE_METHODS = ['post', 'put', 'patch', 'delete'];
+
 // Create axios instance with default config
 const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
+  withCredentials: usesCookieAuth,
 });
 
-// Request interceptor to add auth token
+const cookieModeHeaders = (method?: string): Record<string, string> => {
+  const headers: Record<string, string> = { 'X-Auth-Mode': 'cookie' };
+  const csrfToken = localStorage.getItem(CSRF_TOKEN_KEY);
+
+  if (csrfToken && UNSAFE_METHODS.includes((method || 'get').toLowerCase())) {
+    headers['X-CSRF-Token'] = csrfToken;
+  }
+
+  return headers;
+};
+
+// Request interceptor to add the auth token, or the cookie mode headers
 api.interceptors.request.use(
   (config) => {
+    if (usesCookieAuth) {
+      Object.entries(cookieModeHeaders(config.method)).forEach(([name, value]) => {
+        config.headers[name] = value;
+      });
+      return config;
+    }
+
     const token = localStorage.getItem('authToken');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
@@ -24,24 +52,193 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle auth errors
+const clearStoredSession = () => {
+  const hadSession = localStorage.getItem('authSession') !== null;
+
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('authRefreshToken');
+  localStorage.removeItem('authSession');
+  localStorage.removeItem(CSRF_TOKEN_KEY);
+
+  if (hadSession) {
+    sessionSync.publish({ type: 'logout' });
+  }
+};
+
+const storeCsrfToken = (data: unknown) => {
+  const csrfToken = (data as { csrfToken?: unknown } | undefined)?.csrfToken;
+  if (typeof csrfToken === 'string') {
+    localStorage.setItem(CSRF_TOKEN_KEY, csrfToken);
+  }
+};
+
+const hasRefreshableSession = () =>
+  usesCookieAuth ? !!localStorage.getItem('authSession') : !!localStorage.getItem('authRefreshToken');
+
+const redirectToLogin = () => {
+  // Only redirect if we're not already on the login page
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+};
+
+// Shared so that concurrent 401s trigger a single refresh round-trip
+let refreshPromise: Promise<string | null> | null = null;
+
+// Resolves with the new access token, or null in cookie mode where it arrives as a cookie
+const rotateTokens = async (): Promise<string | null> => {
+  if (usesCookieAuth) {
+    // Bypass the `api` instance so this call is never intercepted itself
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {}, {
+      withCredentials: true,
+      headers: cookieModeHeaders('post'),
+    });
+    storeCsrfToken(response.data);
+    return null;
+  }
+
+  const refreshToken = localStorage.getItem('authRefreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Bypass the `api` instance so this call is never intercepted itself
+  const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+  const { token, refreshToken: nextRefreshToken, user } = response.data;
+
+  localStorage.setItem('authToken', token);
+  localStorage.setItem('authRefreshToken', nextRefreshToken);
+
+  const sessionData = localStorage.getItem('authSession');
+  if (sessionData) {
+    try {
+      const session = JSON.parse(sessionData);
+      localStorage.setItem('authSession', JSON.stringify({
+        ...session,
+        token,
+        refreshToken: nextRefreshToken,
+        user: session.user ? { ...session.user, ...user } : user,
+      }));
+    } catch {
+      // A corrupt session is cleaned up by authService on next read
+    }
+  }
+
+  return token;
+};
+
+// Tabs share one refresh token, so refreshes are serialised across tabs: a tab refreshing
+// with a token another tab has just rotated would be treated as token reuse
+const refreshAccessToken = (staleToken?: string): Promise<string | null> =>
+  sessionSync.withLock('authRefresh', async () => {
+    const currentToken = localStorage.getItem('authToken');
+
+    // Another tab refreshed while this one was waiting
+    if (!usesCookieAuth && currentToken && currentToken !== staleToken) {
+      return currentToken;
+    }
+
+    return rotateTokens();
+  });
+
+// A 401 from these means bad credentials, not an expired session
+const isAuthEndpoint = (url?: string) =>
+  !!url && [
+    '/auth/login',
+    '/auth/register',
+    '/auth/refresh',
+    '/auth/logout',
+    '/auth/oidc',
+    '/auth/magic-link',
+    '/auth/reauthenticate',
+  ].some(path => url === path || url.startsWith(`${path}/`));
+
+// Response interceptor to refresh expired access tokens and handle auth errors
 api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token is invalid or expired
+  (response) => {
+    if (usesCookieAuth) {
+      storeCsrfToken(response.data);
+    }
+    return response;
+  },
+  async (error) => {
+    const originalRequest = error.config;
+
+    // The stored CSRF token is missing or stale (e.g. storage was cleared): fetch it and retry once
+    if (
+      usesCookieAuth &&
+      error.response?.status === 403 &&
+      error.response.data?.code === 'CSRF_INVALID' &&
+      originalRequest &&
+      !originalRequest._csrfRetry
+    ) {
+      originalRequest._csrfRetry = true;
+
+      try {
+        const response = await axios.get(`${API_BASE_URL}/auth/csrf`, {
+          withCredentials: true,
+          headers: cookieModeHeaders('get'),
+        });
+        storeCsrfToken(response.data);
+        return api(originalRequest);
+      } catch {
+        return Promise.reject(error);
+      }
+    }
+
+    // A sensitive action needs the user to confirm their identity first; retry once they have
+    if (
+      error.response?.status === 403 &&
+      error.response.data?.code === 'REAUTH_REQUIRED' &&
+      originalRequest &&
+      !originalRequest._reauthRetry
+    ) {
+      originalRequest._reauthRetry = true;
+
+      if (await reauthPrompt.request()) {
+        return api(originalRequest);
+      }
+      return Promise.reject(error);
+    }
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !isAuthEndpoint(originalRequest.url) &&
+      hasRefreshableSession()
+    ) {
+      originalRequest._retry = true;
+
+      try {
+        if (!refreshPromise) {
+          const staleToken = String(originalRequest.headers?.Authorization || '').replace(/^Bearer /, '');
+          refreshPromise = refreshAccessToken(staleToken).finally(() => {
+            refreshPromise = null;
+          });
+        }
+
+        const token = await refreshPromise;
+        if (token) {
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+        }
+        return api(originalRequest);
+      } catch (refreshError) {
+        // Refresh token is invalid, expired or was reused
+        clearStoredSession();
+        redirectToLogin();
+        return Promise.reject(refreshError);
+      }
+    }
+
+    if (error.response?.status === 401 && !isAuthEndpoint(originalRequest?.url)) {
+      // Token is invalid and cannot be refreshed
       const authToken = localStorage.getItem('authToken');
       const sessionData = localStorage.getItem('authSession');
 
       if (authToken || sessionData) {
-        // Clear invalid session data
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('authSession');
-
-        // Only redirect if we're not already on the login page
-        if (window.location.pathname !== '/login') {
-          window.location.href = '/login';
-        }
+        clearStoredSession();
+        redirectToLogin();
       }
     }
 
@@ -0,0 +1,47 @@
+import api from './api';
+import { ApiResponse } from './profile';
+
+export interface ApiKey {
+  _id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  createdAt: string;
+  expired: boolean;
+}
+
+export interface ApiKeyList {
+  apiKeys: ApiKey[];
+  availableScopes: string[];
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+// The secret is only present in the create response
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+export const apiKeyService = {
+  async getApiKeys(): Promise<ApiResponse<ApiKeyList>> {
+    const response = await api.get<ApiResponse<ApiKeyList>>('/auth/api-keys');
+    return response.data;
+  },
+
+  async createApiKey(data: CreateApiKeyData): Promise<ApiResponse<CreatedApiKey>> {
+    const response = await api.post<ApiResponse<CreatedApiKey>>('/auth/api-keys', data);
+    return response.data;
+  },
+
+  async revokeApiKey(id: string): Promise<ApiResponse<null>> {
+    const response = await api.delete<ApiResponse<null>>(`/auth/api-keys/${id}`);
+    return response.data;
+  }
+};
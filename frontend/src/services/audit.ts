@@ -0,0 +1,29 @@
+import api from './api';
+import { ApiResponse } from './profile';
+
+export type SecurityAction =
+  | 'user.register'
+  | 'user.role.change'
+  | 'auth.login.success'
+  | 'auth.login.failure'
+  | 'auth.login.reported'
+  | 'auth.reauth.failure'
+  | 'auth.email.change'
+  | 'auth.password.change'
+  | 'auth.password.reset';
+
+export interface SecurityEvent {
+  _id: string;
+  action: SecurityAction;
+  method?: string;
+  device: string;
+  ip?: string;
+  createdAt: string;
+}
+
+export const auditService = {
+  async getSecurityActivity(): Promise<ApiResponse<SecurityEvent[]>> {
+    const response = await api.get<ApiResponse<SecurityEvent[]>>('/auth/activity');
+    return response.data;
+  }
+};
@@ -1,4 +1,5 @@
-import api from './api';
+import api, { CSRF_TOKEN_KEY, usesCookieAuth } from './api';
+import { sessionSync } from './sessionSync';
 
 export interface LoginCredentials {
   email: string;
@@ -11,6 +12,8 @@ export interface RegisterData {
   phone: string;
 }
 
+export type UserRole = 'candidate' | 'recruiter' | 'admin';
+
 export interface AuthResponse {
   success: boolean;
   message: string;
@@ -22,16 +25,64 @@ export interface AuthResponse {
     experience?: string;
     resumeUrl?: string;
     avatar?: string;
+    avatarImages?: { size: number; name: string }[];
     isEmailVerified: boolean;
+    // A new address awaiting confirmation
+    pendingEmail?: string;
+    role?: UserRole;
+    twoFactorEnabled?: boolean;
     createdAt: Date;
   };
   token?: string;
+  refreshToken?: string;
+  // Cookie auth mode: the tokens are set as httpOnly cookies and only this is returned
+  csrfToken?: string;
+  requiresTwoFactor?: boolean;
+  twoFactorToken?: string;
+  code?: 'LOGIN_THROTTLED' | 'ACCOUNT_LOCKED';
+  retryAfter?: number;
+  requiresProfile?: boolean;
+  signupToken?: string;
+  profile?: Record<string, string | number | undefined>;
+  missingFields?: string[];
+  session?: SessionTimeouts;
+}
+
+// As reported by the API
+export interface SessionTimeouts {
+  idleTimeoutSeconds?: number;
+  idleExpiresAt?: string;
+  absoluteExpiresAt: string;
+  remainingSeconds: number;
+}
+
+// When the API will end the session unless it is extended, on this browser's clock
+export interface SessionExpiry {
+  expiresAt: number;
+  // False when the absolute limit ends it, which no amount of activity postpones
+  extendable: boolean;
+}
+
+export interface OidcProvider {
+  enabled: boolean;
+  name?: string;
+}
+
+export type OidcSignupData = Record<string, string | number | undefined>;
+
+export interface LoginLockout {
+  code: NonNullable<AuthResponse['code']>;
+  retryAt: number;
 }
 
 export interface SessionData {
   user: AuthResponse['user'];
-  token: string;
+  // Absent in cookie auth mode
+  token?: string;
+  refreshToken?: string;
+  // Last known end of the server session; activity since then may have pushed it back
   expiresAt: number;
+  extendable?: boolean;
   createdAt: number;
 }
 
@@ -40,11 +91,24 @@ export interface AuthState {
   user: AuthResponse['user'] | null;
   isLoading: boolean;
   error: string | null;
+  twoFactorPending: boolean;
+  loginLockout: LoginLockout | null;
+  sessionExpiry: SessionExpiry | null;
 }
 
 const SESSION_KEY = 'authSession';
 const TOKEN_KEY = 'authToken';
-const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const REFRESH_TOKEN_KEY = 'authRefreshToken';
+const OIDC_STATE_KEY = 'oidcState';
+const MAGIC_LINK_DEVICE_KEY = 'magicLinkDevice';
+const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours, if the API does not report the session's limits
+const SESSION_ACTIVITY_HEADER = 'X-Session-Activity';
+
+// Relative to now, so a skewed client clock does not matter
+const toSessionExpiry = (timeouts: SessionTimeouts): SessionExpiry => ({
+  expiresAt: Date.now() + timeouts.remainingSeconds * 1000,
+  extendable: !!timeouts.idleExpiresAt && new Date(timeouts.idleExpiresAt) < new Date(timeouts.absoluteExpiresAt),
+});
 
 let isValidatingSession = false;
 let lastValidationTime = 0;
@@ -54,8 +118,18 @@ export const authService = {
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
     const response = await api.post<AuthResponse>('/auth/login', credentials);
 
-    if (response.data.success && response.data.token && response.data.user) {
-      this.setSession(response.data.token, response.data.user);
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
+    }
+
+    return response.data;
+  },
+
+  async loginTwoFactor(twoFactorToken: string, code: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/login/2fa', { twoFactorToken, code });
+
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
     }
 
     return response.data;
@@ -64,21 +138,177 @@ export const authService = {
   async register(data: RegisterData): Promise<AuthResponse> {
     const response = await api.post<AuthResponse>('/auth/register', data);
 
-    if (response.data.success && response.data.token && response.data.user) {
-      this.setSession(response.data.token, response.data.user);
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
+    }
+
+    return response.data;
+  },
+
+  async getOidcProvider(): Promise<OidcProvider> {
+    const response = await api.get<{ data?: OidcProvider }>('/auth/oidc/config');
+    return response.data.data || { enabled: false };
+  },
+
+  // Redirects the browser to the identity provider
+  async startOidcLogin(): Promise<void> {
+    const response = await api.post<{ data: { authorizationUrl: string; state: string } }>('/auth/oidc/authorize');
+    const { authorizationUrl, state } = response.data.data;
+
+    // Checked on return so a callback can only complete a login this tab started
+    sessionStorage.setItem(OIDC_STATE_KEY, state);
+    window.location.assign(authorizationUrl);
+  },
+
+  async completeOidcLogin(code: string, state: string): Promise<AuthResponse> {
+    const expectedState = sessionStorage.getItem(OIDC_STATE_KEY);
+    sessionStorage.removeItem(OIDC_STATE_KEY);
+
+    if (!expectedState || expectedState !== state) {
+      return { success: false, message: 'Sign-in request did not originate from this browser. Please try again' };
+    }
+
+    const response = await api.post<AuthResponse>('/auth/oidc/callback', { code, state });
+
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
+    }
+
+    return response.data;
+  },
+
+  async completeOidcSignup(signupToken: string, data: OidcSignupData): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/oidc/complete', { ...data, signupToken });
+
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
+    }
+
+    return response.data;
+  },
+
+  async requestMagicLink(email: string): Promise<AuthResponse> {
+    // Random per-request secret: the link only signs in the browser that asked for it
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const deviceId = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(MAGIC_LINK_DEVICE_KEY, deviceId);
+
+    const response = await api.post<AuthResponse>('/auth/magic-link', { email, deviceId });
+    return response.data;
+  },
+
+  async loginWithMagicLink(token: string): Promise<AuthResponse> {
+    const deviceId = localStorage.getItem(MAGIC_LINK_DEVICE_KEY);
+
+    if (!deviceId) {
+      return { success: false, message: 'Open this link in the browser you requested it from, or request a new link here' };
+    }
+
+    const response = await api.get<AuthResponse>(`/auth/magic-link/${encodeURIComponent(token)}`, {
+      headers: { 'X-Magic-Link-Device': deviceId }
+    });
+
+    if (response.data.success) {
+      localStorage.removeItem(MAGIC_LINK_DEVICE_KEY);
+    }
+
+    if (response.data.success && response.data.user) {
+      this.setSession(response.data.token, response.data.user, response.data.refreshToken, response.data.session);
+    }
+
+    return response.data;
+  },
+
+  // A passive request reports the session's remaining time without resetting its idle timeout
+  async getCurrentUser(options: { passive?: boolean } = {}): Promise<AuthResponse> {
+    const response = await api.get<AuthResponse>('/auth/me', {
+      headers: options.passive ? { [SESSION_ACTIVITY_HEADER]: 'passive' } : undefined
+    });
+    return response.data;
+  },
+
+  // Re-read the session's remaining time from the API and share it with the other tabs
+  async syncSessionExpiry(): Promise<SessionExpiry | null> {
+    const response = await this.getCurrentUser({ passive: true });
+    return response.session ? this.setSessionExpiry(response.session) : this.getSessionExpiry();
+  },
+
+  // Reset the server session's idle timeout
+  async extendSession(): Promise<SessionExpiry | null> {
+    const response = await api.post<{ data: SessionTimeouts }>('/auth/sessions/extend');
+    return this.setSessionExpiry(response.data.data);
+  },
+
+  async verifyEmail(token: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/verify-email', { token });
+    return response.data;
+  },
+
+  async resendVerification(): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/resend-verification');
+    return response.data;
+  },
+
+  async forgotPassword(email: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  async resetPassword(token: string, password: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/reset-password', { token, password });
+    return response.data;
+  },
+
+  // The address only changes once the link sent to the new one is opened
+  async requestEmailChange(newEmail: string, currentPassword: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/email', { newEmail, currentPassword });
+    return response.data;
+  },
+
+  async cancelEmailChange(): Promise<AuthResponse> {
+    const response = await api.delete<AuthResponse>('/auth/email');
+    return response.data;
+  },
+
+  async confirmEmailChange(token: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/email/confirm', { token });
+    return response.data;
+  },
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<AuthResponse> {
+    const response = await api.put<AuthResponse>('/auth/password', { currentPassword, newPassword });
+
+    // The old access token predates the change and is no longer accepted
+    if (response.data.success && response.data.token) {
+      this.replaceToken(response.data.token);
     }
 
     return response.data;
   },
 
-  async getCurrentUser(): Promise<AuthResponse> {
-    const response = await api.get<AuthResponse>('/auth/me');
+  // Confirm the user's identity for a sensitive action; the new access token proves it
+  async reauthenticate(credentials: { password: string } | { code: string }): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/reauthenticate', credentials);
+
+    if (response.data.success && response.data.token) {
+      this.replaceToken(response.data.token);
+    }
+
     return response.data;
   },
 
   logout(): void {
-    localStorage.removeItem(SESSION_KEY);
-    localStorage.removeItem(TOKEN_KEY);
+    const refreshToken = this.getRefreshToken();
+
+    // Revoke the refresh token server-side; local state is cleared regardless.
+    // In cookie mode the refresh token cookie is sent instead, and the response clears the cookies
+    if (usesCookieAuth ? this.getSession() : refreshToken) {
+      api.post('/auth/logout', usesCookieAuth ? {} : { refreshToken }).catch((error) => {
+        console.error('Logout revocation failed:', error);
+      });
+    }
+
+    this.clearSession();
   },
 
   getToken(): string | null {
@@ -89,20 +319,57 @@ export const authService = {
     localStorage.setItem(TOKEN_KEY, token);
   },
 
+  // A new access token for the current session
+  replaceToken(token: string): void {
+    this.setToken(token);
+    const session = this.getSession();
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, token }));
+    }
+  },
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  },
+
   isAuthenticated(): boolean {
-    return !!this.getToken();
+    return usesCookieAuth ? !!this.getSession() : !!this.getToken();
   },
 
-  setSession(token: string, user: AuthResponse['user']): void {
+  // In cookie auth mode there are no tokens to store, only the session's user
+  setSession(
+    token: string | undefined,
+    user: AuthResponse['user'],
+    refreshToken?: string,
+    timeouts?: SessionTimeouts
+  ): void {
+    const expiry = timeouts
+      ? toSessionExpiry(timeouts)
+      : { expiresAt: Date.now() + SESSION_TIMEOUT, extendable: true };
+
     const sessionData: SessionData = {
       user,
       token,
-      expiresAt: Date.now() + SESSION_TIMEOUT,
+      refreshToken,
+      ...expiry,
       createdAt: Date.now()
     };
 
     localStorage.setItem(SESSION_KEY, JSON.stringify(sessionData));
-    localStorage.setItem(TOKEN_KEY, token);
+
+    if (token) {
+      localStorage.setItem(TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_KEY);
+    }
+
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+
+    sessionSync.publish({ type: 'login', user });
   },
 
   getSession(): SessionData | null {
@@ -110,14 +377,8 @@ export const authService = {
       const sessionData = localStorage.getItem(SESSION_KEY);
       if (!sessionData) return null;
 
-      const session: SessionData = JSON.parse(sessionData);
-
-      if (Date.now() > session.expiresAt) {
-        this.clearSession();
-        return null;
-      }
-
-      return session;
+      // Not cleared when past expiresAt: the API may have extended it since, and decides
+      return JSON.parse(sessionData);
     } catch (error) {
       console.error('Error parsing session data:', error);
       this.clearSession();
@@ -126,8 +387,17 @@ export const authService = {
   },
 
   clearSession(): void {
+    const hadSession = localStorage.getItem(SESSION_KEY) !== null;
+
     localStorage.removeItem(SESSION_KEY);
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(CSRF_TOKEN_KEY);
+
+    // The session is shared, so every other tab is now signed out too
+    if (hadSession) {
+      sessionSync.publish({ type: 'logout' });
+    }
   },
 
   isSessionExpired(): boolean {
@@ -135,15 +405,20 @@ export const authService = {
     return !session || Date.now() > session.expiresAt;
   },
 
-  refreshSession(): void {
+  getSessionExpiry(): SessionExpiry | null {
     const session = this.getSession();
-    if (session) {
-      const refreshedSession: SessionData = {
-        ...session,
-        expiresAt: Date.now() + SESSION_TIMEOUT
-      };
-      localStorage.setItem(SESSION_KEY, JSON.stringify(refreshedSession));
-    }
+    return session ? { expiresAt: session.expiresAt, extendable: session.extendable ?? true } : null;
+  },
+
+  setSessionExpiry(timeouts: SessionTimeouts): SessionExpiry | null {
+    const session = this.getSession();
+    if (!session) return null;
+
+    const expiry = toSessionExpiry(timeouts);
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, ...expiry }));
+    sessionSync.publish({ type: 'expiry-updated', expiry });
+
+    return expiry;
   },
 
   getStoredUser(): AuthResponse['user'] | null {
@@ -155,12 +430,6 @@ export const authService = {
     const session = this.getSession();
     if (!session) return false;
 
-    if (this.isSessionExpired()) {
-      console.log('Session is expired, clearing...');
-      this.clearSession();
-      return false;
-    }
-
     if (isValidatingSession) {
       console.log('Session validation already in progress, skipping...');
       return true; // Return true since validation is in progress
@@ -176,10 +445,13 @@ export const authService = {
     lastValidationTime = now;
 
     try {
-      const response = await this.getCurrentUser();
+      // Checking the session is not user activity, so it must not keep the session alive
+      const response = await this.getCurrentUser({ passive: true });
       if (response.success && response.user) {
         this.updateStoredUser(response.user);
-        this.refreshSession();
+        if (response.session) {
+          this.setSessionExpiry(response.session);
+        }
         return true;
       }
       return false;
@@ -224,6 +496,7 @@ export const authService = {
         user
       };
       localStorage.setItem(SESSION_KEY, JSON.stringify(updatedSession));
+      sessionSync.publish({ type: 'user-updated', user });
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+import api from './api';
+import { ApiResponse } from './profile';
+
+export interface LoginHistoryEntry {
+  _id: string;
+  method: string;
+  device: string;
+  ip?: string;
+  location?: string;
+  newDevice: boolean;
+  unusualLocation: boolean;
+  reportedAt?: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export const loginHistoryService = {
+  async getLoginHistory(): Promise<ApiResponse<LoginHistoryEntry[]>> {
+    const response = await api.get<ApiResponse<LoginHistoryEntry[]>>('/auth/login-history');
+    return response.data;
+  },
+
+  // From the "this wasn't me" link in a new login alert
+  async reportLogin(token: string): Promise<ApiResponse<null>> {
+    const response = await api.post<ApiResponse<null>>('/auth/login-history/report', { token });
+    return response.data;
+  }
+};
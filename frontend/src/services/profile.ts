@@ -1,5 +1,66 @@
 import api from './api';
 
+export interface ResumeFile {
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// A position in the work history; months are YYYY-MM and a current position has no endDate
+export interface WorkExperience {
+  _id: string;
+  company: string;
+  title: string;
+  location?: string;
+  startDate: string;
+  endDate?: string;
+  current: boolean;
+  description?: string;
+  skills: string[];
+}
+
+export type WorkExperienceData = Omit<WorkExperience, '_id'>;
+
+// One generated size of an uploaded avatar
+export interface AvatarImage {
+  size: number;
+  name: string;
+}
+
+// Square region of the upright image, in its own pixels
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface FileDownloadLink {
+  token: string;
+  url: string;
+  expiresAt: string;
+}
+
+// Dates are YYYY-MM; endDate is absent for a current position
+export interface ParsedWorkEntry {
+  title?: string;
+  company?: string;
+  startDate?: string;
+  endDate?: string;
+  current: boolean;
+}
+
+// Best guesses read from the resume, for the user to review
+export interface ParsedResume {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  totalExperience?: number;
+  skills: string[];
+  workHistory: ParsedWorkEntry[];
+}
+
 export interface UserProfile {
   _id: string;
   name: string;
@@ -17,9 +78,13 @@ export interface UserProfile {
   noticePeriod: string;
   noticePeriodDays?: number;
   bio?: string;
+  skills?: string[];
   experience?: string;
+  workHistory?: WorkExperience[];
   resumeUrl?: string;
+  resume?: ResumeFile;
   avatar?: string;
+  avatarImages?: AvatarImage[];
   isEmailVerified: boolean;
   createdAt: string;
   updatedAt: string;
@@ -40,6 +105,7 @@ export interface UpdateProfileData {
   noticePeriod?: string;
   noticePeriodDays?: number;
   bio?: string;
+  skills?: string[];
   experience?: string;
   resumeUrl?: string;
   avatar?: string;
@@ -66,5 +132,108 @@ export const profileService = {
   async deleteProfile(): Promise<ApiResponse<null>> {
     const response = await api.delete<ApiResponse<null>>('/profile');
     return response.data;
+  },
+
+  // onProgress receives the fraction of the file sent so far, from 0 to 1
+  async uploadResume(file: File, onProgress?: (progress: number) => void): Promise<ApiResponse<{ resume: ResumeFile }>> {
+    const formData = new FormData();
+    formData.append('resume', file);
+
+    // The browser fills in the multipart boundary
+    const response = await api.put<ApiResponse<{ resume: ResumeFile }>>('/profile/resume', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(event.loaded / event.total);
+        }
+      }
+    });
+    return response.data;
+  },
+
+  async deleteResume(): Promise<ApiResponse<null>> {
+    const response = await api.delete<ApiResponse<null>>('/profile/resume');
+    return response.data;
+  },
+
+  async getParsedResume(): Promise<ApiResponse<ParsedResume>> {
+    const response = await api.get<ApiResponse<ParsedResume>>('/profile/resume/parsed');
+    return response.data;
+  },
+
+  async getResumeLink(): Promise<ApiResponse<FileDownloadLink>> {
+    const response = await api.get<ApiResponse<FileDownloadLink>>('/profile/resume/link');
+    return response.data;
+  },
+
+  // Overlapping positions are refused with 409 unless allowOverlap confirms them
+  async addWorkExperience(
+    data: WorkExperienceData,
+    allowOverlap = false
+  ): Promise<ApiResponse<{ workHistory: WorkExperience[] }>> {
+    const response = await api.post<ApiResponse<{ workHistory: WorkExperience[] }>>('/profile/experience', {
+      ...data,
+      allowOverlap
+    });
+    return response.data;
+  },
+
+  async updateWorkExperience(
+    id: string,
+    data: WorkExperienceData,
+    allowOverlap = false
+  ): Promise<ApiResponse<{ workHistory: WorkExperience[] }>> {
+    const response = await api.put<ApiResponse<{ workHistory: WorkExperience[] }>>(`/profile/experience/${id}`, {
+      ...data,
+      allowOverlap
+    });
+    return response.data;
+  },
+
+  async deleteWorkExperience(id: string): Promise<ApiResponse<{ workHistory: WorkExperience[] }>> {
+    const response = await api.delete<ApiResponse<{ workHistory: WorkExperience[] }>>(`/profile/experience/${id}`);
+    return response.data;
+  },
+
+  async reorderWorkHistory(ids: string[]): Promise<ApiResponse<{ workHistory: WorkExperience[] }>> {
+    const response = await api.put<ApiResponse<{ workHistory: WorkExperience[] }>>('/profile/experience/order', { ids });
+    return response.data;
+  },
+
+  async uploadAvatar(
+    file: File,
+    crop: AvatarCrop,
+    onProgress?: (progress: number) => void
+  ): Promise<ApiResponse<{ avatarImages: AvatarImage[] }>> {
+    const formData = new FormData();
+    formData.append('cropX', String(crop.x));
+    formData.append('cropY', String(crop.y));
+    formData.append('cropSize', String(crop.size));
+    formData.append('avatar', file);
+
+    const response = await api.put<ApiResponse<{ avatarImages: AvatarImage[] }>>('/profile/avatar', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(event.loaded / event.total);
+        }
+      }
+    });
+    return response.data;
+  },
+
+  async deleteAvatar(): Promise<ApiResponse<null>> {
+    const response = await api.delete<ApiResponse<null>>('/profile/avatar');
+    return response.data;
+  },
+
+  // Avatar images are public and cached for good, so they load as plain image URLs
+  getAvatarImageUrl(image: AvatarImage): string {
+    return `${api.defaults.baseURL}/avatars/${image.name}`;
+  },
+
+  // The link is the credential, so it works for a plain browser download
+  getFileDownloadUrl(link: FileDownloadLink): string {
+    return `${api.defaults.baseURL}/files/${link.token}`;
   }
 };
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Step-up re-authentication. Sensitive API routes answer 403 REAUTH_REQUIRED
+ * when the user last proved their identity too long ago; the API client then
+ * asks the mounted prompt (ReauthDialog) to confirm it and retries the request.
+ */
+type ReauthHandler = () => Promise<boolean>;
+
+let handler: ReauthHandler | null = null;
+// Requests that fail together share one prompt
+let pending: Promise<boolean> | null = null;
+
+export const reauthPrompt = {
+  // Returns a function that unregisters the handler
+  setHandler(next: ReauthHandler): () => void {
+    handler = next;
+
+    return () => {
+      if (handler === next) {
+        handler = null;
+      }
+    };
+  },
+
+  // Resolves true once the user has confirmed, false if they cancel or no prompt is mounted
+  request(): Promise<boolean> {
+    if (!handler) {
+      return Promise.resolve(false);
+    }
+
+    if (!pending) {
+      pending = handler().finally(() => {
+        pending = null;
+      });
+    }
+
+    return pending;
+  }
+};
@@ -0,0 +1,147 @@
+import type { AuthResponse, SessionExpiry } from './auth';
+
+/**
+ * Keeps the auth state of every open tab in step. Tabs share the session in
+ * localStorage; this tells the others when it changes, including when the API
+ * reports a new session expiry, and elects one leader tab to validate the
+ * session with the API.
+ *
+ * Messages go over a BroadcastChannel, or through storage events in browsers
+ * without one. Neither delivers a message back to the tab that sent it.
+ */
+export type SessionSyncMessage =
+  | { type: 'login'; user: AuthResponse['user'] }
+  | { type: 'logout' }
+  | { type: 'user-updated'; user: AuthResponse['user'] }
+  | { type: 'expiry-updated'; expiry: SessionExpiry };
+
+type SessionSyncListener = (message: SessionSyncMessage) => void;
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+const CHANNEL_NAME = 'authSession';
+const MESSAGE_KEY = 'authSessionSync';
+const LEADER_KEY = 'authSessionLeader';
+const LEADER_LEASE = 10 * 1000; // 10 seconds
+const LEADER_HEARTBEAT = 4 * 1000; // 4 seconds, well within the lease
+
+const tabId = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => byte.toString(16).padStart(2, '0')).join('');
+const listeners = new Set<SessionSyncListener>();
+
+let channel: BroadcastChannel | null = null;
+let connected = false;
+let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+const deliver = (message: SessionSyncMessage) => {
+  listeners.forEach(listener => listener(message));
+};
+
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== MESSAGE_KEY || !event.newValue) return;
+
+  try {
+    deliver(JSON.parse(event.newValue).message);
+  } catch {
+    // Ignore anything that is not one of our messages
+  }
+};
+
+const connect = () => {
+  if (connected) return;
+  connected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => deliver(event.data);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+};
+
+const readLease = (): LeaderLease | null => {
+  try {
+    const lease = localStorage.getItem(LEADER_KEY);
+    return lease ? JSON.parse(lease) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Take the lease if it is free or expired, or extend it if this tab already holds it
+const claimLeadership = () => {
+  const lease = readLease();
+
+  if (!lease || lease.tabId === tabId || lease.expiresAt < Date.now()) {
+    localStorage.setItem(LEADER_KEY, JSON.stringify({ tabId, expiresAt: Date.now() + LEADER_LEASE }));
+  }
+};
+
+const releaseLeadership = () => {
+  if (readLease()?.tabId === tabId) {
+    localStorage.removeItem(LEADER_KEY);
+  }
+};
+
+export const sessionSync = {
+  publish(message: SessionSyncMessage): void {
+    connect();
+
+    if (channel) {
+      channel.postMessage(message);
+      return;
+    }
+
+    // The nonce makes repeated messages distinct, since storage events only fire on change
+    try {
+      localStorage.setItem(MESSAGE_KEY, JSON.stringify({ message, nonce: `${tabId}-${Date.now()}-${Math.random()}` }));
+      localStorage.removeItem(MESSAGE_KEY);
+    } catch (error) {
+      console.error('Failed to share session change with other tabs:', error);
+    }
+  },
+
+  // Returns an unsubscribe function
+  subscribe(listener: SessionSyncListener): () => void {
+    connect();
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Joins the leader election; returns a function that leaves it
+  start(): () => void {
+    connect();
+
+    if (!heartbeat) {
+      claimLeadership();
+      heartbeat = setInterval(claimLeadership, LEADER_HEARTBEAT);
+      window.addEventListener('pagehide', releaseLeadership);
+    }
+
+    return () => {
+      clearInterval(heartbeat);
+      heartbeat = undefined;
+      window.removeEventListener('pagehide', releaseLeadership);
+      releaseLeadership();
+    };
+  },
+
+  isLeader(): boolean {
+    const lease = readLease();
+    return !!lease && lease.tabId === tabId && lease.expiresAt >= Date.now();
+  },
+
+  // Runs `task` while no other tab is running a task under the same name
+  async withLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) {
+      return task();
+    }
+
+    return navigator.locks.request(name, task);
+  }
+};
@@ -0,0 +1,29 @@
+import api from './api';
+import { ApiResponse } from './profile';
+
+export interface ActiveSession {
+  _id: string;
+  device: string;
+  userAgent?: string;
+  ip?: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export const sessionService = {
+  async getSessions(): Promise<ApiResponse<ActiveSession[]>> {
+    const response = await api.get<ApiResponse<ActiveSession[]>>('/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(id: string): Promise<ApiResponse<{ current: boolean }>> {
+    const response = await api.delete<ApiResponse<{ current: boolean }>>(`/auth/sessions/${id}`);
+    return response.data;
+  },
+
+  async revokeAllSessions(): Promise<ApiResponse<null>> {
+    const response = await api.delete<ApiResponse<null>>('/auth/sessions');
+    return response.data;
+  }
+};
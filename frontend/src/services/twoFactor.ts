@@ -0,0 +1,34 @@
+import api from './api';
+import { ApiResponse } from './profile';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export const twoFactorService = {
+  async setup(): Promise<ApiResponse<TwoFactorSetup>> {
+    const response = await api.post<ApiResponse<TwoFactorSetup>>('/auth/2fa/setup');
+    return response.data;
+  },
+
+  async enable(code: string): Promise<ApiResponse<RecoveryCodes>> {
+    const response = await api.post<ApiResponse<RecoveryCodes>>('/auth/2fa/enable', { code });
+    return response.data;
+  },
+
+  async disable(password: string, code: string): Promise<ApiResponse<null>> {
+    const response = await api.post<ApiResponse<null>>('/auth/2fa/disable', { password, code });
+    return response.data;
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<ApiResponse<RecoveryCodes>> {
+    const response = await api.post<ApiResponse<RecoveryCodes>>('/auth/2fa/recovery-codes', { code });
+    return response.data;
+  }
+};
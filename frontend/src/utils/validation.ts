@@ -31,4 +31,48 @@ export const validateUrl = (url: string): string => {
   }
 
   return '';
-};
\ No newline at end of file
+};
+
+export const RESUME_MAX_SIZE_MB = 5;
+
+const RESUME_EXTENSIONS = ['.pdf', '.docx'];
+
+/**
+ * Checks a resume before it is uploaded; the server checks the content again
+ * @param file - The file the user picked
+ * @returns error message if invalid, empty string if valid
+ */
+export const validateResumeFile = (file: File): string => {
+  const name = file.name.toLowerCase();
+
+  if (!RESUME_EXTENSIONS.some(extension => name.endsWith(extension))) {
+    return 'Resume must be a PDF or Word (.docx) document';
+  }
+
+  if (file.size > RESUME_MAX_SIZE_MB * 1024 * 1024) {
+    return `Resume must be ${RESUME_MAX_SIZE_MB} MB or smaller`;
+  }
+
+  return '';
+};
+
+export const AVATAR_MAX_SIZE_MB = 5;
+
+const AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Checks an avatar image before it is cropped and uploaded
+ * @param file - The file the user picked
+ * @returns error message if invalid, empty string if valid
+ */
+export const validateAvatarFile = (file: File): string => {
+  if (!AVATAR_TYPES.includes(file.type)) {
+    return 'Avatar must be a JPEG, PNG or WebP image';
+  }
+
+  if (file.size > AVATAR_MAX_SIZE_MB * 1024 * 1024) {
+    return `Avatar must be ${AVATAR_MAX_SIZE_MB} MB or smaller`;
+  }
+
+  return '';
+};
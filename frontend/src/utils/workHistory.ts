@@ -0,0 +1,15 @@
+/**
+ * Formats a YYYY-MM month for display, e.g. "Mar 2021"
+ * @param date - The month, or nothing
+ * @returns the formatted month, or an empty string
+ */
+export const formatMonth = (date?: string): string =>
+  date ? new Date(`${date}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : '';
+
+/**
+ * Formats the period of a position, e.g. "Mar 2021 – Present"
+ * @param entry - Start and end months, and whether the position is current
+ * @returns the formatted period
+ */
+export const formatWorkPeriod = (entry: { startDate?: string; endDate?: string; current: boolean }): string =>
+  `${formatMonth(entry.startDate)} – ${entry.current ? 'Present' : formatMonth(entry.endDate)}`;
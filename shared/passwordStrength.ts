@@ -0,0 +1,415 @@
+/**
+ * Password strength estimation shared by the backend validators and the
+ * frontend strength meter, so the rules shown while typing are the rules the
+ * API enforces. Plain TypeScript with no Node or browser APIs.
+ *
+ * A password is split into the cheapest mix of guessable patterns (common
+ * passwords, the user's own name or email, keyboard walks, sequences, repeats
+ * and years) and random characters; the entropy of that mix decides the score.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+// Lowest score a new password may have
+export const PASSWORD_MIN_SCORE = 3;
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_SCORE_LABELS: Record<PasswordScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  // Estimated bits of entropy
+  entropy: number;
+  // The most guessable thing found, if anything
+  warning?: string;
+  suggestions: string[];
+}
+
+type PatternKind = 'common' | 'userInput' | 'keyboard' | 'sequence' | 'repeat' | 'year';
+
+interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  end: number;
+  bits: number;
+  leet?: boolean;
+}
+
+// Entropy needed for scores 1, 2, 3 and 4
+const SCORE_THRESHOLDS = [18, 28, 40, 56];
+
+// Most common first; the rank is the guess count for an attacker working down the list
+export const COMMON_PASSWORDS = [
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567', 'dragon',
+  '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', 'shadow', 'master', '666666', 'qwertyuiop',
+  '123321', 'mustang', '1234567890', 'michael', '654321', 'superman', '1qaz2wsx', '7777777', '121212', '000000',
+  'qazwsx', '123qwe', 'killer', 'trustno1', 'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster',
+  'soccer', 'harley', 'batman', 'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert',
+  'thomas', 'hockey', 'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle',
+  'jessica', 'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer', 'love',
+  'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321', 'dallas', 'austin',
+  'thunder', 'taylor', 'matrix', 'william', 'corvette', 'hello', 'martin', 'heather', 'secret', 'merlin',
+  'diamond', '1234qwer', 'gfhjkm', 'hammer', 'silver', '222222', '88888888', 'anthony', 'justin', 'test',
+  'bailey', 'q1w2e3r4t5', 'patrick', 'internet', 'scooter', 'orange', '11111', 'golfer', 'cookie', 'richard',
+  'samantha', 'bigdog', 'guitar', 'jackson', 'whatever', 'mickey', 'chicken', 'sparky', 'snoopy', 'maverick',
+  'phoenix', 'camaro', 'peanut', 'morgan', 'welcome', 'falcon', 'cowboy', 'ferrari', 'samsung', 'andrea',
+  'smokey', 'steelers', 'joseph', 'mercedes', 'dakota', 'arsenal', 'eagles', 'melissa', 'boomer', 'booboo',
+  'spider', 'nascar', 'monster', 'tigers', 'yellow', 'xxxxxx', '123123123', 'gateway', 'marina', 'diablo',
+  'bulldog', 'qwer1234', 'compaq', 'purple', 'hardcore', 'banana', 'junior', 'hannah', '123654', 'porsche',
+  'lakers', 'iceman', 'money', 'cowboys', '987654', 'london', 'tennis', '999999', 'ncc1701', 'coffee',
+  'scooby', '0000', 'miller', 'boston', 'q1w2e3r4', 'cricket', 'brandon', 'yamaha', 'chester', 'mother',
+  'forever', 'johnny', 'edward', '333333', 'oliver', 'redsox', 'player', 'nikita', 'knight', 'fender',
+  'barney', 'midnight', 'please', 'brandy', 'chicago', 'badboy', 'iwantu', 'slayer', 'rangers', 'charles',
+  'angel', 'flower', 'bigdaddy', 'rabbit', 'wizard', 'bigboss', 'jasper', 'enter', 'rachel', 'chris',
+  'steven', 'winner', 'adidas', 'victoria', 'natasha', '1q2w3e4r', 'jasmine', 'winter', 'prince', 'pretty',
+  'marine', 'ghbdtn', 'fishing', 'cocacola', 'casper', 'james', '232323', 'raiders', '888888', 'marlboro',
+  'gandalf', 'asdfasdf', 'crystal', '87654321', '12344321', 'golden', '8675309', 'private', 'blahblah',
+  'admin', 'administrator', 'root', 'changeme', 'default', 'guest', 'login', 'passw0rd', 'p@ssw0rd', 'password1',
+  'password12', 'password123', 'qwerty123', 'qwerty1', 'abcd1234', 'aa123456', 'a123456', '1q2w3e', 'zaq12wsx',
+  'welcome1', 'letmein1', 'iloveyou1', 'football1', 'baseball1', 'monkey1', 'dragon1', 'sunshine1', 'princess1',
+  'spring', 'autumn', 'fall', 'january', 'february', 'march', 'april', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december', 'monday', 'friday', 'sunday', 'holiday', 'family', 'friends',
+  'lovely', 'loveme', 'babygirl', 'baby', 'angels', 'butterfly', 'purple1', 'pokemon', 'minecraft', 'naruto',
+  'liverpool', 'chelsea1', 'barcelona', 'realmadrid', 'manchester', 'india', 'america', 'canada', 'australia', 'mumbai',
+  'delhi', 'bangalore', 'chennai', 'hyderabad', 'pune', 'kolkata', 'krishna', 'ganesh', 'sairam', 'omsairam',
+  'company', 'office', 'work', 'business', 'manager', 'career', 'careers', 'recruit', 'recruiter', 'recruitment',
+  'hiring', 'resume', 'jobs', 'interview', 'candidate', 'employee', 'platform', 'secure', 'security', 'qwertyui',
+];
+
+const COMMON_RANKS = new Map(COMMON_PASSWORDS.map((word, index) => [word, index + 1]));
+
+// Look-alike characters, undone before dictionary lookups; "1" is tried as both "i" and "l"
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '9': 'g', '!': 'i',
+  '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+// Rows and columns of a US keyboard, unshifted and shifted
+const KEYBOARD_WALKS = [
+  '`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./',
+  '~!@#$%^&*()_+', 'qwertyuiop{}|', 'asdfghjkl:"', 'zxcvbnm<>?',
+  '1qaz', '2wsx', '3edc', '4rfv', '5tgb', '6yhn', '7ujm', '8ik,', '9ol.', '0p;/',
+];
+const KEYBOARD_START_POSITIONS = KEYBOARD_WALKS.reduce((total, walk) => total + walk.length, 0);
+
+const MIN_PATTERN_LENGTH = 3;
+const MIN_KEYBOARD_LENGTH = 4;
+
+const log2 = (value: number): number => Math.log(value) / Math.LN2;
+
+const characterPoolSize = (password: string): number => {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/\d/.test(password)) pool += 10;
+  if (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(password)) pool += 33;
+  // Anything outside printable ASCII: accented letters, other scripts, emoji
+  if (/[^\x20-\x7e]/.test(password)) pool += 100;
+  return Math.max(pool, 10);
+};
+
+const binomial = (n: number, k: number): number => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+};
+
+// Extra bits for capitalisation: "Password" or "PASSWORD" only add one
+const capitalisationBits = (token: string): number => {
+  const upper = (token.match(/[A-Z]/g) || []).length;
+  const lower = (token.match(/[a-z]/g) || []).length;
+
+  if (upper === 0) return 0;
+  if (lower === 0 || (upper === 1 && /^[A-Z]/.test(token))) return 1;
+
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += binomial(upper + lower, i);
+  }
+  return log2(variations);
+};
+
+const unleet = (value: string, one: 'i' | 'l'): string =>
+  value.replace(/./g, (char) => (char === '1' ? one : LEET_SUBSTITUTIONS[char] || char));
+
+// Lower-cased words from names and email addresses, e.g. "jane.doe@acme.com" gives jane.doe, jane, doe, acme
+const userInputWords = (userInputs: string[]): Set<string> => {
+  const words = new Set<string>();
+
+  userInputs.forEach((input) => {
+    const value = (input || '').toLowerCase().trim();
+    const [localPart, domain] = value.split('@');
+    const parts = [localPart, ...localPart.split(/[^a-z0-9]+/)];
+    if (domain) {
+      parts.push(domain.split('.')[0]);
+    }
+    parts.forEach((part) => {
+      if (part && part.length >= MIN_PATTERN_LENGTH) {
+        words.add(part);
+      }
+    });
+  });
+
+  return words;
+};
+
+const findDictionaryMatches = (password: string, userWords: Set<string>): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const variants = [lower, unleet(lower, 'i'), unleet(lower, 'l')];
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_PATTERN_LENGTH; end <= password.length; end++) {
+      const original = password.slice(start, end);
+
+      variants.forEach((variant, index) => {
+        const token = variant.slice(start, end);
+        const leet = index > 0 && token !== lower.slice(start, end);
+        if (index > 0 && !leet) return;
+
+        const extraBits = capitalisationBits(original) + (leet ? 1 : 0);
+
+        if (userWords.has(token)) {
+          matches.push({ kind: 'userInput', start, end, bits: 1 + extraBits, leet });
+        }
+
+        const rank = COMMON_RANKS.get(token);
+        if (rank) {
+          matches.push({ kind: 'common', start, end, bits: log2(rank) + extraBits, leet });
+        }
+      });
+    }
+  }
+
+  return matches;
+};
+
+const findKeyboardMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const walks = [...KEYBOARD_WALKS, ...KEYBOARD_WALKS.map(walk => walk.split('').reverse().join(''))];
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_KEYBOARD_LENGTH; end <= password.length; end++) {
+      const token = lower.slice(start, end);
+      if (!walks.some(walk => walk.includes(token))) break;
+
+      matches.push({
+        kind: 'keyboard',
+        start,
+        end,
+        bits: log2(KEYBOARD_START_POSITIONS) + log2(end - start) + capitalisationBits(password.slice(start, end)),
+      });
+    }
+  }
+
+  return matches;
+};
+
+// Runs of consecutive letters or digits such as "abc", "4567" or "zyx"
+const findSequenceMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const isSequenceChar = (char: string) => /[a-z0-9]/.test(char);
+
+  let start = 0;
+  while (start < lower.length - 1) {
+    const step = lower.charCodeAt(start + 1) - lower.charCodeAt(start);
+    let end = start + 1;
+
+    if (Math.abs(step) === 1 && isSequenceChar(lower[start])) {
+      while (
+        end < lower.length
+        && lower.charCodeAt(end) - lower.charCodeAt(end - 1) === step
+        && isSequenceChar(lower[end])
+        && /\d/.test(lower[end]) === /\d/.test(lower[start])
+      ) {
+        end++;
+      }
+    }
+
+    if (end - start >= MIN_PATTERN_LENGTH) {
+      const alphabetSize = /\d/.test(lower[start]) ? 10 : 26;
+      matches.push({
+        kind: 'sequence',
+        start,
+        end,
+        bits: log2(alphabetSize) + log2(end - start) + (step < 0 ? 1 : 0) + capitalisationBits(password.slice(start, end)),
+      });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+
+  return matches;
+};
+
+// Repeated characters or blocks: "aaaa", "abcabc", "12121212"
+const findRepeatMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+
+  for (let start = 0; start < password.length; start++) {
+    // The shortest repeating block at each position, e.g. "ab" rather than "abab" in "abababab"
+    for (let size = 1; start + size * 2 <= password.length; size++) {
+      const block = password.slice(start, start + size);
+      let count = 1;
+      while (password.startsWith(block, start + size * count)) {
+        count++;
+      }
+
+      if (count >= 2 && size * count >= MIN_PATTERN_LENGTH) {
+        matches.push({
+          kind: 'repeat',
+          start,
+          end: start + size * count,
+          bits: minimumEntropy(block, new Set(), false).bits + log2(count),
+        });
+        break;
+      }
+    }
+  }
+
+  return matches;
+};
+
+const findYearMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const yearPattern = /(?:19|20)\d\d/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = yearPattern.exec(password)) !== null) {
+    matches.push({ kind: 'year', start: match.index, end: match.index + 4, bits: log2(200) });
+    yearPattern.lastIndex = match.index + 1;
+  }
+
+  return matches;
+};
+
+// Cheapest way to build the password from patterns and random characters
+const minimumEntropy = (
+  password: string,
+  userWords: Set<string>,
+  includeRepeats = true
+): { bits: number; path: PatternMatch[] } => {
+  const matches = [
+    ...findDictionaryMatches(password, userWords),
+    ...findKeyboardMatches(password),
+    ...findSequenceMatches(password),
+    ...(includeRepeats ? findRepeatMatches(password) : []),
+    ...findYearMatches(password),
+  ];
+  const characterBits = log2(characterPoolSize(password));
+
+  const best: number[] = [0];
+  const chosen: Array<PatternMatch | null> = [null];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = best[end - 1] + characterBits;
+    chosen[end] = null;
+
+    matches.forEach((match) => {
+      if (match.end === end && best[match.start] + match.bits < best[end]) {
+        best[end] = best[match.start] + match.bits;
+        chosen[end] = match;
+      }
+    });
+  }
+
+  const path: PatternMatch[] = [];
+  for (let end = password.length; end > 0;) {
+    const match = chosen[end];
+    if (match) {
+      path.unshift(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+
+  return { bits: best[password.length], path };
+};
+
+const WARNINGS: Record<PatternKind, string> = {
+  common: 'Common words and passwords are easy to guess',
+  userInput: 'Avoid using your name or email address',
+  keyboard: 'Keyboard patterns like "qwerty" are easy to guess',
+  sequence: 'Sequences like "abc" or "123" are easy to guess',
+  repeat: 'Repeats like "aaa" or "abcabc" are easy to guess',
+  year: 'Years and dates are easy to guess',
+};
+
+// Most revealing first, when a password contains several patterns
+const WARNING_PRIORITY: PatternKind[] = ['userInput', 'common', 'keyboard', 'sequence', 'repeat', 'year'];
+
+/**
+ * Estimates how hard a password is to guess
+ * @param password - The password to score
+ * @param userInputs - Names and email addresses of the account, which are penalised like common words
+ * @returns score from 0 (very weak) to 4 (very strong) with a warning and suggestions
+ */
+export const estimatePasswordStrength = (password: string, userInputs: string[] = []): PasswordStrength => {
+  const { bits, path } = minimumEntropy(password, userInputWords(userInputs));
+  const score = SCORE_THRESHOLDS.filter(threshold => bits >= threshold).length as PasswordScore;
+
+  let warning: string | undefined;
+  const suggestions: string[] = [];
+
+  if (score < 4) {
+    if (path.length === 1 && path[0].kind === 'common' && path[0].end - path[0].start === password.length) {
+      warning = 'This is one of the most common passwords';
+    } else {
+      const kind = WARNING_PRIORITY.find(candidate => path.some(match => match.kind === candidate));
+      warning = kind && WARNINGS[kind];
+    }
+
+    if (password.length < 12) {
+      suggestions.push('Use a longer password; a few unrelated words work well');
+    }
+    if (characterPoolSize(password) < 60) {
+      suggestions.push('Mix in capitals, numbers or symbols');
+    }
+    if (path.some(match => match.leet)) {
+      suggestions.push('Swapping letters for look-alikes such as "@" for "a" does not help much');
+    }
+    if (path.some(match => match.kind === 'common' || match.kind === 'userInput') && /^[A-Z][^A-Z]*$/.test(password)) {
+      suggestions.push('Capitalising only the first letter does not help much');
+    }
+  }
+
+  return { score, entropy: Math.round(bits * 10) / 10, warning, suggestions };
+};
+
+/**
+ * Checks a new password against the password policy
+ * @param password - The password to check
+ * @param userInputs - Names and email addresses of the account
+ * @returns error message if the password is not acceptable, empty string if it is
+ */
+export const validatePassword = (password: string, userInputs: string[] = []): string => {
+  if (!password || password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`;
+  }
+
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password cannot exceed ${PASSWORD_MAX_LENGTH} characters`;
+  }
+
+  const strength = estimatePasswordStrength(password, userInputs);
+  if (strength.score < PASSWORD_MIN_SCORE) {
+    const reason = strength.warning || strength.suggestions[0] || 'Use a longer password';
+    return `This password is too easy to guess. ${reason}`;
+  }
+
+  return '';
+};